@@ -1,6 +1,7 @@
 // Modules
 import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { UserModule } from './user/user.module';
 import { MongooseModule } from '@nestjs/mongoose';
 
@@ -14,10 +15,16 @@ import { AppService } from './app.service';
 import { getConnectUrl } from './utils/mongo';
 import { AuthModule } from './auth/auth.module';
 import { GameModule } from './game/game.module';
+import { GameEventsModule } from './game/events/game-events.module';
+import { AnnouncementModule } from './game/announcement/announcement.module';
+import { AnalyticsModule } from './game/analytics/analytics.module';
+import { ExportModule } from './game/export/export.module';
+import { NotificationModule } from './notification/notification.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot(),
+    ScheduleModule.forRoot(),
     MongooseModule.forRootAsync({
       imports: [ConfigModule],
       inject: [ConfigService],
@@ -30,6 +37,11 @@ import { GameModule } from './game/game.module';
     }),
     UserModule,
     GameModule,
+    GameEventsModule,
+    AnnouncementModule,
+    AnalyticsModule,
+    ExportModule,
+    NotificationModule,
     AuthModule,
   ],
   controllers: [AppController],
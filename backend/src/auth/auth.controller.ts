@@ -1,13 +1,29 @@
-import { Controller, Get, Req, Res, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  Post,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
 import { AuthService } from './auth.service';
-import { AuthGuard } from '@nestjs/passport';
 import { Response, Request } from 'express';
 import { UserService } from 'user/user.service';
 import { GoogleUser } from './strategies/google.strategy';
-import { JwtAuthGuard, JwtRefreshAuthGuard } from './guards';
+import {
+  GoogleAuthGuard,
+  JwtAuthGuard,
+  JwtRefreshAuthGuard,
+  LoginLinkAuthGuard,
+} from './guards';
 import { RefreshTokenService } from './refresh-token/refresh-token.service';
 import { MongoId } from 'utils/mongo';
 import { ConfigService } from '@nestjs/config';
+import { SignUpPolicyService } from 'user/signup/signup-policy.service';
+import { SignUpRejectedException } from 'utils/exceptions';
+import { LoginLinkService } from './login-link/login-link.service';
+import { LoginLinkUser } from './strategies/loginLink.strategy';
 
 @Controller('auth')
 export class AuthController {
@@ -15,6 +31,8 @@ export class AuthController {
     private readonly authService: AuthService,
     private readonly userService: UserService,
     private refreshService: RefreshTokenService,
+    private signUp: SignUpPolicyService,
+    private loginLinks: LoginLinkService,
     private cfg: ConfigService,
   ) {}
 
@@ -31,13 +49,17 @@ export class AuthController {
     @Res({ passthrough: true }) res: Response,
   ) {
     const userId: MongoId = new MongoId(req.user['userId']);
-    const refreshToken = await this.refreshService.create(userId);
-    res.cookie('refresh_token', refreshToken.token, {
-      sameSite: 'lax',
-      httpOnly: true,
-    });
 
-    return { userId, ...this.authService.getAccessToken(userId) };
+    // Sign out anyone who has been denied since they signed in
+    const user = await this.userService.findById(userId);
+    try {
+      await this.signUp.check(user.email);
+    } catch (error) {
+      res.clearCookie('refresh_token', { httpOnly: true, sameSite: 'lax' });
+      throw error;
+    }
+
+    return await this.issueTokens(userId, res);
   }
 
   @Get('logout')
@@ -47,32 +69,78 @@ export class AuthController {
   }
 
   @Get('google')
-  @UseGuards(AuthGuard('google'))
+  @UseGuards(GoogleAuthGuard)
   // eslint-disable-next-line @typescript-eslint/no-empty-function
   async googleAuth() {}
 
   @Get('/google/callback')
-  @UseGuards(AuthGuard('google'))
+  @UseGuards(GoogleAuthGuard)
   async googleAuthRedirect(
     @Req() req: Request,
     @Res({ passthrough: true }) res: Response,
   ) {
+    const googleUser = req.user as GoogleUser;
+    // The invite code given to the login page, if any, see GoogleAuthGuard
+    const inviteCode =
+      typeof req.query.state === 'string' ? req.query.state : undefined;
+    const frontend = this.cfg.getOrThrow<string>('FRONTEND_HOST');
+
     try {
-      const user = await this.userService.findOrCreateByGoogleUser(
-        req.user as GoogleUser,
-      );
-      const refreshToken = await this.refreshService.create(user.id);
-      res.cookie('refresh_token', refreshToken.token, {
-        sameSite: 'lax',
-        httpOnly: true,
-      });
-  
-      res.redirect(
-        `${this.cfg.getOrThrow<string>('FRONTEND_HOST')}/#/app/register`,
-      );
+      await this.signUp.admit(googleUser.email, inviteCode);
+      const user = await this.userService.findOrCreateByGoogleUser(googleUser);
+      await this.issueTokens(new MongoId(user.id), res);
+
+      res.redirect(`${frontend}/#/app/register`);
     } catch (error) {
-      // Redirect to the main page if there is an error
-      res.redirect(`${this.cfg.getOrThrow<string>('FRONTEND_HOST')}/#/`);
+      // Send them back to the login page, saying why they couldn't sign in
+      const reason =
+        error instanceof SignUpRejectedException
+          ? error.message
+          : 'Something went wrong while signing in, please try again.';
+      res.redirect(`${frontend}/#/login?error=${encodeURIComponent(reason)}`);
     }
   }
+
+  @Post('email')
+  async emailLoginLink(
+    @Body('email') email: string,
+    @Body('invite') invite?: string,
+  ) {
+    await this.loginLinks.send(email, invite);
+    return { msg: 'success' };
+  }
+
+  @Post('dev/login')
+  async devLogin(@Body('email') email: string) {
+    await this.loginLinks.sendDev(email);
+    return { msg: 'success' };
+  }
+
+  @Post('email/verify')
+  @UseGuards(LoginLinkAuthGuard)
+  async verifyLoginLink(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const link = req.user as LoginLinkUser;
+    if (!link.dev) {
+      await this.signUp.admit(link.email, link.inviteCode);
+    }
+
+    const user = await this.userService.findOrCreateByEmail(link.email);
+    return await this.issueTokens(new MongoId(user.id), res);
+  }
+
+  /**
+   * Sign a user in, giving them a refresh token cookie and an access token
+   */
+  private async issueTokens(userId: MongoId, res: Response) {
+    const refreshToken = await this.refreshService.create(userId);
+    res.cookie('refresh_token', refreshToken.token, {
+      sameSite: 'lax',
+      httpOnly: true,
+    });
+
+    return { userId, ...this.authService.getAccessToken(userId) };
+  }
 }
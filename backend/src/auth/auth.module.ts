@@ -13,6 +13,10 @@ import {
   RefreshTokenSchema,
 } from './refresh-token/refresh-token.schema';
 import { JwtRefreshStrategy } from './strategies/jwtRefresh.strategy';
+import { LoginLinkStrategy } from './strategies/loginLink.strategy';
+import { LoginLink, LoginLinkSchema } from './login-link/login-link.schema';
+import { LoginLinkService } from './login-link/login-link.service';
+import { NotificationModule } from 'notification/notification.module';
 
 @Module({
   imports: [
@@ -29,14 +33,18 @@ import { JwtRefreshStrategy } from './strategies/jwtRefresh.strategy';
     ConfigModule,
     MongooseModule.forFeature([
       { name: RefreshToken.name, schema: RefreshTokenSchema },
+      { name: LoginLink.name, schema: LoginLinkSchema },
     ]),
+    NotificationModule,
   ],
   providers: [
     AuthService,
     GoogleStrategy,
     JwtStrategy,
     JwtRefreshStrategy,
+    LoginLinkStrategy,
     RefreshTokenService,
+    LoginLinkService,
   ],
   controllers: [AuthController],
 })
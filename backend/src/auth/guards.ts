@@ -1,5 +1,6 @@
-import { Injectable } from '@nestjs/common';
+import { ExecutionContext, Injectable } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
+import { Request } from 'express';
 
 @Injectable()
 export class JwtAuthGuard extends AuthGuard('jwt') {}
@@ -8,4 +9,16 @@ export class JwtAuthGuard extends AuthGuard('jwt') {}
 export class JwtRefreshAuthGuard extends AuthGuard('jwt-refresh') {}
 
 @Injectable()
-export class GoogleAuthGuard extends AuthGuard('google') {}
+export class GoogleAuthGuard extends AuthGuard('google') {
+  /**
+   * Carry the invite code given to the login page through Google as the
+   * OAuth state, so it comes back in the query of the callback
+   */
+  getAuthenticateOptions(context: ExecutionContext) {
+    const { invite } = context.switchToHttp().getRequest<Request>().query;
+    return typeof invite === 'string' && invite !== '' ? { state: invite } : {};
+  }
+}
+
+@Injectable()
+export class LoginLinkAuthGuard extends AuthGuard('login-link') {}
@@ -0,0 +1,40 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type LoginLinkDocument = HydratedDocument<LoginLink>;
+
+/**
+ * A link emailed to someone to sign in with, which can only be used once
+ */
+@Schema()
+export class LoginLink {
+  @Prop({ type: String, required: true, unique: true })
+  jti: string;
+
+  @Prop({ type: String, required: true, index: true })
+  email: string;
+
+  /**
+   * The invite code they gave when asking for the link, used up once they
+   * sign in
+   */
+  @Prop({ type: String, required: false })
+  inviteCode?: string;
+
+  /**
+   * Whether the link came from the dev login, and so skips the sign-up policy
+   */
+  @Prop({ type: Boolean, default: false })
+  dev: boolean;
+
+  @Prop({ type: Date, required: true })
+  createdAt: Date;
+
+  /**
+   * Unused links are cleaned up once they expire
+   */
+  @Prop({ type: Date, required: true, expires: 0 })
+  expires: Date;
+}
+
+export const LoginLinkSchema = SchemaFactory.createForClass(LoginLink);
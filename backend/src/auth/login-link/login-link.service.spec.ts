@@ -0,0 +1,128 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { LoginLinkService } from './login-link.service';
+import { LoginLink } from './login-link.schema';
+import { LOGIN_LINK_AUDIENCE } from '../types';
+import { MailService } from 'notification/mail/mail.service';
+import { SignUpPolicyService } from 'user/signup/signup-policy.service';
+import { DevLoginDisabledException } from 'utils/exceptions';
+
+describe('LoginLinkService', () => {
+  let service: LoginLinkService;
+  let config: { [key: string]: string | undefined };
+  const secret = 'secret';
+  const signUp = { check: jest.fn() };
+  const mail = { sendLoginLink: jest.fn() };
+
+  // Every link that was saved, newest last
+  let saved: LinkModel[];
+  class LinkModel {
+    static exists = jest.fn();
+    static findOneAndDelete = jest.fn();
+    jti: string;
+    email: string;
+    dev: boolean;
+    expires: Date;
+    async save() {
+      saved.push(this);
+    }
+  }
+
+  /**
+   * The token in the last link that was emailed
+   */
+  const sentToken = () => {
+    const link: string = mail.sendLoginLink.mock.calls.at(-1)[1];
+    return decodeURIComponent(link.split('token=')[1]);
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    saved = [];
+    config = { JWT_SECRET: secret };
+    LinkModel.exists.mockReturnValue({ exec: async () => null });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginLinkService,
+        { provide: getModelToken(LoginLink.name), useValue: LinkModel },
+        { provide: JwtService, useValue: new JwtService({}) },
+        { provide: SignUpPolicyService, useValue: signUp },
+        { provide: MailService, useValue: mail },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) => config[key],
+            getOrThrow: (key: string) => config[key],
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LoginLinkService>(LoginLinkService);
+  });
+
+  it('should email a link that stops working after 15 minutes', async () => {
+    const now = new Date();
+    await service.send('Someone@Example.com', undefined, now);
+
+    expect(signUp.check).toHaveBeenCalledWith(
+      'someone@example.com',
+      undefined,
+      now,
+    );
+    expect(saved).toHaveLength(1);
+    expect(saved[0].expires).toEqual(new Date(now.getTime() + 15 * 60000));
+
+    const jwt = new JwtService({});
+    const options = { secret, audience: LOGIN_LINK_AUDIENCE };
+    const payload = await jwt.verifyAsync(sentToken(), options);
+    expect(payload.email).toBe('someone@example.com');
+    expect(payload.jti).toBe(saved[0].jti);
+
+    await expect(
+      jwt.verifyAsync(sentToken(), {
+        ...options,
+        clockTimestamp: Math.floor(now.getTime() / 1000) + 16 * 60,
+      }),
+    ).rejects.toThrow('jwt expired');
+  });
+
+  it('should use up a link, so it only works once', async () => {
+    const link = { jti: 'jti', email: 'someone@example.com' };
+    LinkModel.findOneAndDelete
+      .mockReturnValueOnce({ exec: async () => link })
+      .mockReturnValueOnce({ exec: async () => null });
+
+    expect(await service.use('jti')).toBe(link);
+    expect(await service.use('jti')).toBeNull();
+    expect(LinkModel.findOneAndDelete).toHaveBeenCalledWith({ jti: 'jti' });
+  });
+
+  it.each([
+    ['true', 'development', true],
+    ['true', 'test', true],
+    ['true', undefined, false],
+    ['true', 'production', false],
+    ['true', 'staging', false],
+    [undefined, 'development', false],
+  ])(
+    'should only send dev links when DEV_LOGIN=%s and NODE_ENV=%s: %s',
+    async (devLogin, nodeEnv, enabled) => {
+      config.DEV_LOGIN = devLogin;
+      config.NODE_ENV = nodeEnv;
+
+      const sending = service.sendDev('someone@example.com');
+      if (enabled) {
+        await sending;
+        expect(saved[0].dev).toBe(true);
+        expect(signUp.check).not.toHaveBeenCalled();
+      } else {
+        await expect(sending).rejects.toBeInstanceOf(DevLoginDisabledException);
+        expect(mail.sendLoginLink).not.toHaveBeenCalled();
+      }
+    },
+  );
+});
@@ -0,0 +1,136 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { isEmail } from 'class-validator';
+import { v4 as uuid } from 'uuid';
+import { LoginLink } from './login-link.schema';
+import { LOGIN_LINK_AUDIENCE } from '../types';
+import { MailService } from 'notification/mail/mail.service';
+import { SignUpPolicyService } from 'user/signup/signup-policy.service';
+import {
+  DevLoginDisabledException,
+  LoginLinkInvalidException,
+} from 'utils/exceptions';
+
+/**
+ * How long an emailed link can be used to sign in for
+ */
+const LINK_MINUTES = 15;
+
+/**
+ * How long someone has to wait before asking for another link
+ */
+const RESEND_SECONDS = 60;
+
+/**
+ * The only values of `NODE_ENV` the dev login can be turned on with
+ */
+const DEV_LOGIN_ENVIRONMENTS = ['development', 'test'];
+
+@Injectable()
+export class LoginLinkService {
+  constructor(
+    @InjectModel(LoginLink.name) private linkModel: Model<LoginLink>,
+    private jwtService: JwtService,
+    private signUp: SignUpPolicyService,
+    private mail: MailService,
+    private config: ConfigService,
+  ) {}
+
+  /**
+   * Email someone a link to sign in with, as long as the sign-up policy lets
+   * them in.
+   * @param email The email to sign in with
+   * @param inviteCode The invite code they gave, if any
+   */
+  async send(email: string, inviteCode?: string, now = new Date()) {
+    email = this.parseEmail(email);
+    await this.signUp.check(email, inviteCode, now);
+    await this.create(email, { inviteCode, dev: false }, now);
+  }
+
+  /**
+   * Email a link to sign in as anyone, skipping the sign-up policy. Only works
+   * when `DEV_LOGIN` is turned on and `NODE_ENV` is explicitly set to
+   * development or test, so that the app can be tried out with made up
+   * accounts and a local mail sink (see `MAIL_TRANSPORT`).
+   * @param email The email to sign in with
+   */
+  async sendDev(email: string, now = new Date()) {
+    if (!this.devLoginEnabled()) {
+      throw new DevLoginDisabledException();
+    }
+    await this.create(this.parseEmail(email), { dev: true }, now);
+  }
+
+  /**
+   * Use up the link with the given ID, so it can't be used again.
+   * @param jti The ID of the token in the link
+   * @returns The link, or null if it has already been used
+   */
+  async use(jti: string): Promise<LoginLink | null> {
+    return await this.linkModel.findOneAndDelete({ jti }).exec();
+  }
+
+  private devLoginEnabled() {
+    return (
+      this.config.get<string>('DEV_LOGIN') === 'true' &&
+      DEV_LOGIN_ENVIRONMENTS.includes(this.config.get<string>('NODE_ENV'))
+    );
+  }
+
+  private parseEmail(email: string) {
+    const cleaned = (email ?? '').trim().toLowerCase();
+    if (!isEmail(cleaned)) {
+      throw new LoginLinkInvalidException(`'${cleaned}' is not a valid email.`);
+    }
+    return cleaned;
+  }
+
+  private async create(
+    email: string,
+    options: { inviteCode?: string; dev: boolean },
+    now: Date,
+  ) {
+    // Stop the same inbox from being flooded with links
+    const recent = await this.linkModel
+      .exists({
+        email,
+        createdAt: { $gt: new Date(now.getTime() - RESEND_SECONDS * 1000) },
+      })
+      .exec();
+    if (recent) {
+      throw new LoginLinkInvalidException(
+        'A link was sent to that email less than a minute ago, check your inbox.',
+      );
+    }
+
+    const jti = uuid();
+    const token = await this.jwtService.signAsync(
+      { email },
+      {
+        secret: this.config.getOrThrow<string>('JWT_SECRET'),
+        audience: LOGIN_LINK_AUDIENCE,
+        expiresIn: `${LINK_MINUTES}m`,
+        jwtid: jti,
+      },
+    );
+
+    const link = new this.linkModel();
+    link.jti = jti;
+    link.email = email;
+    link.inviteCode = options.inviteCode || undefined;
+    link.dev = options.dev;
+    link.createdAt = now;
+    link.expires = new Date(now.getTime() + LINK_MINUTES * 60000);
+    await link.save();
+
+    await this.mail.sendLoginLink(
+      email,
+      `/#/login?token=${encodeURIComponent(token)}`,
+      LINK_MINUTES,
+    );
+  }
+}
@@ -1,7 +1,8 @@
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { PassportStrategy } from '@nestjs/passport';
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { LOGIN_LINK_AUDIENCE } from '../types';
 
 export type JwtUser = {
   userId: string;
@@ -18,6 +19,10 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   }
 
   async validate(payload: any) {
+    // Sign-in links are signed with the same secret, but are not access tokens
+    if (payload.aud === LOGIN_LINK_AUDIENCE) {
+      throw new UnauthorizedException();
+    }
     return { userId: payload.sub, email: payload.email };
   }
 }
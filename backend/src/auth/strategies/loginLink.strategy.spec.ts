@@ -0,0 +1,63 @@
+import { ConfigService } from '@nestjs/config';
+import { UnauthorizedException } from '@nestjs/common';
+import { LoginLinkStrategy } from './loginLink.strategy';
+import { JwtStrategy } from './jwt.strategy';
+import { LoginLinkService } from '../login-link/login-link.service';
+import { JwtPayload, LOGIN_LINK_AUDIENCE } from '../types';
+import { LoginLinkInvalidException } from 'utils/exceptions';
+
+describe('LoginLinkStrategy', () => {
+  const config = {
+    getOrThrow: () => 'secret',
+  } as unknown as ConfigService;
+  const links = { use: jest.fn() };
+  const strategy = new LoginLinkStrategy(
+    config,
+    links as unknown as LoginLinkService,
+  );
+
+  const payload = {
+    email: 'someone@example.com',
+    aud: LOGIN_LINK_AUDIENCE,
+    jti: 'jti',
+  } as JwtPayload;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should only sign in once with the same link', async () => {
+    links.use
+      .mockResolvedValueOnce({ email: payload.email, dev: false })
+      .mockResolvedValueOnce(null);
+
+    expect(await strategy.validate(payload)).toEqual({
+      email: payload.email,
+      inviteCode: undefined,
+      dev: false,
+    });
+    await expect(strategy.validate(payload)).rejects.toBeInstanceOf(
+      LoginLinkInvalidException,
+    );
+    expect(links.use).toHaveBeenCalledWith('jti');
+  });
+
+  it('should not sign in as a different email than the link was for', async () => {
+    links.use.mockResolvedValue({ email: 'other@example.com', dev: false });
+
+    await expect(strategy.validate(payload)).rejects.toBeInstanceOf(
+      LoginLinkInvalidException,
+    );
+  });
+
+  it('should not let the token of a link be used as an access token', async () => {
+    const jwt = new JwtStrategy(config);
+
+    await expect(jwt.validate(payload)).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+    expect(
+      await jwt.validate({ ...payload, aud: undefined, sub: 'u' }),
+    ).toEqual({ userId: 'u', email: payload.email });
+  });
+});
@@ -0,0 +1,43 @@
+import { ExtractJwt, Strategy } from 'passport-jwt';
+import { PassportStrategy } from '@nestjs/passport';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LoginLinkService } from '../login-link/login-link.service';
+import { JwtPayload, LOGIN_LINK_AUDIENCE } from '../types';
+import { LoginLinkInvalidException } from '../../utils/exceptions';
+
+export type LoginLinkUser = {
+  email: string;
+  inviteCode?: string;
+  dev: boolean;
+};
+
+/**
+ * Signs someone in with the token from a link that was emailed to them,
+ * proving they own the email
+ */
+@Injectable()
+export class LoginLinkStrategy extends PassportStrategy(
+  Strategy,
+  'login-link',
+) {
+  constructor(private config: ConfigService, private links: LoginLinkService) {
+    super({
+      jwtFromRequest: ExtractJwt.fromBodyField('token'),
+      ignoreExpiration: false,
+      secretOrKey: config.getOrThrow<string>('JWT_SECRET'),
+      audience: LOGIN_LINK_AUDIENCE,
+    });
+  }
+
+  async validate(payload: JwtPayload): Promise<LoginLinkUser> {
+    const link = await this.links.use(payload.jti);
+    if (link == null || link.email !== payload.email) {
+      throw new LoginLinkInvalidException(
+        'This link has already been used, ask for a new one.',
+      );
+    }
+
+    return { email: link.email, inviteCode: link.inviteCode, dev: link.dev };
+  }
+}
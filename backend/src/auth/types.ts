@@ -7,3 +7,9 @@ export type JwtPayload = {
   iat: Date;
   jti: string;
 };
+
+/**
+ * The audience of the tokens in emailed sign-in links, so they can't be used
+ * as access tokens
+ */
+export const LOGIN_LINK_AUDIENCE = 'login-link';
@@ -0,0 +1,27 @@
+import { Controller, Get, Req, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { AnalyticsService } from './analytics.service';
+import { JwtAuthGuard } from 'auth/guards';
+import { getUserIdFromRequest } from 'utils/request';
+import { QueryRequired } from 'utils/decorators';
+import { MongoId } from 'utils/mongo';
+import { GameAnalytics } from 'shared/api/game/analytics';
+
+@Controller('game/analytics')
+export class AnalyticsController {
+  constructor(private analytics: AnalyticsService) {}
+
+  /**
+   * ADMIN ONLY: An overview of how the whole game has gone so far.
+   */
+  @Get('overview')
+  @UseGuards(JwtAuthGuard)
+  async fetchOverview(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+  ): Promise<GameAnalytics> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    return await this.analytics.fetchOverview(userId, gameId);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { GameModule } from 'game/game.module';
+import { PlayerModule } from 'game/player/player.module';
+import { TargetModule } from 'game/target/target.module';
+import { AnalyticsService } from './analytics.service';
+import { AnalyticsController } from './analytics.controller';
+
+@Module({
+  imports: [GameModule, PlayerModule, TargetModule],
+  controllers: [AnalyticsController],
+  providers: [AnalyticsService],
+})
+export class AnalyticsModule {}
@@ -0,0 +1,72 @@
+import { Injectable } from '@nestjs/common';
+
+// Services
+import { GameService } from 'game/game.service';
+import { PlayerService } from 'game/player/player.service';
+import { SafetyGrantService } from 'game/player/safety-grant/safety-grant.service';
+import { TargetService } from 'game/target/target.service';
+
+// Utilities
+import { MongoId } from 'utils/mongo';
+import { PlayerRole } from 'game/player/player.schema';
+import { PlayerRoleUnauthorizedException } from 'utils/exceptions';
+import { gameTimespan, toStatsTarget } from 'game/target/player-stats';
+import { computeGameAnalytics } from './analytics';
+
+// Objects
+import { GameAnalytics } from 'shared/api/game/analytics';
+
+@Injectable()
+export class AnalyticsService {
+  constructor(
+    private gme: GameService,
+    private plyr: PlayerService,
+    private trgt: TargetService,
+    private safety: SafetyGrantService,
+  ) {}
+
+  /**
+   * ADMIN ONLY: An overview of how the whole game has gone so far.
+   * @param userId The admin asking
+   * @param gameId The game in question
+   */
+  async fetchOverview(
+    userId: MongoId,
+    gameId: MongoId,
+  ): Promise<GameAnalytics> {
+    const role = await this.plyr.getRole(gameId, userId);
+    if (role !== PlayerRole.ADMIN) {
+      throw new PlayerRoleUnauthorizedException(userId, role);
+    }
+
+    const [game, players, targets, grants] = await Promise.all([
+      this.gme.findById(gameId),
+      this.plyr.findByGame(gameId),
+      this.trgt.findByGame(gameId),
+      this.safety.findByGame(gameId),
+    ]);
+    const statsTargets = targets.map(toStatsTarget);
+
+    return computeGameAnalytics(
+      players.map((p) => ({
+        id: p.id,
+        status: p.status,
+        teamPartnerId: p.teamPartnerId?.toString(),
+        disqualifiedAt: p.disqualifiedAt,
+      })),
+      statsTargets,
+      grants.map((g) => ({
+        playerId: g.playerId.toString(),
+        reason: g.reason ?? '',
+        grantedAt: g.grantedAt,
+        until: g.until,
+        endedAt: g.endedAt,
+      })),
+      {
+        ...gameTimespan(game, statsTargets),
+        timeZone: game.timeZone,
+        whitelisted: game.whitelistedEmails.length || undefined,
+      },
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { AnalyticsPlayer, computeGameAnalytics } from './analytics';
+import { PlayerStatus } from 'game/player/player.schema';
+import { StatsTarget } from 'game/target/player-stats';
+import { TargetStatus } from 'game/target/target.schema';
+
+const HOUR = 60 * 60 * 1000;
+// Midnight in New York
+const start = new Date('2024-04-01T04:00:00Z');
+const at = (hours: number) => new Date(start.getTime() + hours * HOUR);
+const game = { start, end: at(48), timeZone: 'America/New_York' };
+
+let nextId = 0;
+const target = (
+  hunterId: string,
+  targetId: string,
+  status: TargetStatus,
+  createdAt: number,
+  resolvedAt?: number,
+): StatsTarget => ({
+  id: `t${nextId++}`,
+  hunterId,
+  targetId,
+  status,
+  createdAt: at(createdAt),
+  resolvedAt: resolvedAt === undefined ? undefined : at(resolvedAt),
+});
+
+describe('computeGameAnalytics', () => {
+  const players: AnalyticsPlayer[] = [
+    { id: '1a', status: PlayerStatus.ALIVE, teamPartnerId: '1b' },
+    { id: '1b', status: PlayerStatus.KILLED, teamPartnerId: '1a' },
+    { id: '2', status: PlayerStatus.KILLED },
+    { id: '3', status: PlayerStatus.DISQUALIFIED, disqualifiedAt: at(30) },
+  ];
+  const targets = [
+    target('1a', '2', TargetStatus.COMPLETE, 0, 9),
+    target('2', '1b', TargetStatus.COMPLETE, 0, 5),
+    target('1a', '3', TargetStatus.EXPIRED, 9, 30),
+    target('3', '1a', TargetStatus.USER_KILLED, 0, 30),
+  ];
+
+  it('should count kills by day and by hour', () => {
+    const analytics = computeGameAnalytics(players, targets, [], game);
+
+    expect(analytics.killsPerDay).toEqual([
+      { day: at(0).toISOString(), kills: 2 },
+      { day: at(24).toISOString(), kills: 0 },
+      { day: at(48).toISOString(), kills: 0 },
+    ]);
+    expect(analytics.killsByHour[5]).toBe(1);
+    expect(analytics.killsByHour[9]).toBe(1);
+    expect(analytics.killsByHour.reduce((a, b) => a + b)).toBe(2);
+  });
+
+  it('should follow how many players are left', () => {
+    const analytics = computeGameAnalytics(players, targets, [], game);
+
+    expect(analytics.aliveOverTime.map((p) => p.alive)).toEqual([4, 3, 2, 1]);
+    expect(analytics.aliveOverTime[3].time).toBe(at(30).toISOString());
+    expect(analytics.averageSurvivalTime).toBe(((48 + 5 + 9 + 30) / 4) * HOUR);
+    expect(analytics.team).toEqual({ players: 2, survived: 1, rate: 0.5 });
+    expect(analytics.solo).toEqual({ players: 2, survived: 0, rate: 0 });
+  });
+
+  it('should summarise safety grants and the registration funnel', () => {
+    const analytics = computeGameAnalytics(
+      players,
+      targets,
+      [
+        { playerId: '1a', reason: 'exam', grantedAt: at(0), until: at(4) },
+        {
+          playerId: '1a',
+          reason: 'exam ',
+          grantedAt: at(10),
+          until: at(14),
+          endedAt: at(12),
+        },
+        { playerId: '2', reason: '', grantedAt: at(0), until: at(6) },
+      ],
+      { ...game, whitelisted: 10 },
+    );
+
+    expect(analytics.safety).toEqual({
+      grants: 3,
+      playersGranted: 2,
+      averageDuration: 4 * HOUR,
+      reasons: [
+        { reason: 'exam', count: 2 },
+        { reason: '', count: 1 },
+      ],
+    });
+    expect(analytics.funnel).toEqual({
+      whitelisted: 10,
+      registered: 4,
+      teamed: 2,
+      targeted: 3,
+      madeKill: 2,
+    });
+  });
+});
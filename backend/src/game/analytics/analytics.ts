@@ -0,0 +1,162 @@
+import { GameAnalytics, SurvivalRateInfo } from 'shared/api/game/analytics';
+import { PlayerStatus } from 'game/player/player.schema';
+import { StatsTarget } from 'game/target/player-stats';
+import { TargetStatus } from 'game/target/target.schema';
+import { addZonedDays, startOfZonedDay, zonedHour } from 'utils/time';
+
+/**
+ * A player of a game, as far as analytics are concerned
+ */
+export type AnalyticsPlayer = {
+  id: string;
+  status: string;
+  teamPartnerId?: string;
+  disqualifiedAt?: Date;
+};
+
+/**
+ * A safety grant of a game, as far as analytics are concerned
+ */
+export type AnalyticsGrant = {
+  playerId: string;
+  reason: string;
+  grantedAt: Date;
+  until: Date;
+  endedAt?: Date;
+};
+
+/**
+ * When a player left the game, or undefined if they are still in it. Players
+ * who were killed and then revived are still in it.
+ */
+const eliminatedAt = (
+  player: AnalyticsPlayer,
+  kills: Map<string, Date>,
+  end: Date,
+): Date | undefined => {
+  if (player.status === PlayerStatus.KILLED) {
+    return kills.get(player.id) ?? end;
+  }
+  if (player.status === PlayerStatus.DISQUALIFIED) {
+    return player.disqualifiedAt ?? kills.get(player.id) ?? end;
+  }
+  return undefined;
+};
+
+const survivalRate = (players: AnalyticsPlayer[]): SurvivalRateInfo => {
+  const survived = players.filter(
+    (p) => p.status === PlayerStatus.ALIVE || p.status === PlayerStatus.SAFE,
+  ).length;
+  return {
+    players: players.length,
+    survived,
+    rate: players.length === 0 ? 0 : survived / players.length,
+  };
+};
+
+/**
+ * Work out the overview of a whole game.
+ * @param players Every player of the game
+ * @param targets Every target of the game
+ * @param grants Every safety grant of the game
+ * @param game When the game was played, the time zone its days and hours are
+ * counted in, and how many emails were whitelisted (if any)
+ */
+export const computeGameAnalytics = (
+  players: AnalyticsPlayer[],
+  targets: StatsTarget[],
+  grants: AnalyticsGrant[],
+  game: { start: Date; end: Date; timeZone: string; whitelisted?: number },
+): GameAnalytics => {
+  const completed = targets.filter(
+    (t) => t.status === TargetStatus.COMPLETE && t.resolvedAt,
+  );
+
+  // Only the last kill counts, if the player was ever revived
+  const lastKilled = new Map<string, Date>();
+  completed.forEach((t) => {
+    const known = lastKilled.get(t.targetId);
+    if (!known || known < t.resolvedAt) {
+      lastKilled.set(t.targetId, t.resolvedAt);
+    }
+  });
+
+  const killsPerDay: GameAnalytics['killsPerDay'] = [];
+  const lastDay = startOfZonedDay(game.end, game.timeZone);
+  for (
+    let day = startOfZonedDay(game.start, game.timeZone);
+    day <= lastDay;
+    day = addZonedDays(day, 1, game.timeZone)
+  ) {
+    const next = addZonedDays(day, 1, game.timeZone);
+    const kills = completed.filter(
+      (t) => t.resolvedAt >= day && t.resolvedAt < next,
+    );
+    killsPerDay.push({ day: day.toISOString(), kills: kills.length });
+  }
+
+  const killsByHour = new Array<number>(24).fill(0);
+  completed.forEach(
+    (t) => killsByHour[zonedHour(t.resolvedAt, game.timeZone)]++,
+  );
+
+  const eliminations = players
+    .map((p) => eliminatedAt(p, lastKilled, game.end))
+    .filter((time) => time !== undefined)
+    .sort((a, b) => a.getTime() - b.getTime());
+  const aliveOverTime = [
+    { time: game.start.toISOString(), alive: players.length },
+    ...eliminations.map((time, i) => ({
+      time: time.toISOString(),
+      alive: players.length - i - 1,
+    })),
+  ];
+
+  const survivalTimes = players.map((p) => {
+    const out = eliminatedAt(p, lastKilled, game.end) ?? game.end;
+    return Math.max(0, out.getTime() - game.start.getTime());
+  });
+  const averageSurvivalTime =
+    players.length === 0
+      ? 0
+      : survivalTimes.reduce((sum, time) => sum + time, 0) / players.length;
+
+  const reasons = new Map<string, number>();
+  grants.forEach((g) => {
+    const reason = g.reason.trim();
+    reasons.set(reason, (reasons.get(reason) ?? 0) + 1);
+  });
+  const grantDurations = grants.map(
+    (g) => (g.endedAt ?? g.until).getTime() - g.grantedAt.getTime(),
+  );
+
+  const hunters = new Set(targets.map((t) => t.hunterId));
+  const killers = new Set(completed.map((t) => t.hunterId));
+
+  return {
+    killsPerDay,
+    aliveOverTime,
+    averageSurvivalTime,
+    killsByHour,
+    safety: {
+      grants: grants.length,
+      playersGranted: new Set(grants.map((g) => g.playerId)).size,
+      averageDuration:
+        grants.length === 0
+          ? 0
+          : grantDurations.reduce((sum, time) => sum + time, 0) / grants.length,
+      reasons: [...reasons.entries()]
+        .map(([reason, count]) => ({ reason, count }))
+        .sort((a, b) => b.count - a.count),
+    },
+    team: survivalRate(players.filter((p) => p.teamPartnerId)),
+    solo: survivalRate(players.filter((p) => !p.teamPartnerId)),
+    funnel: {
+      whitelisted: game.whitelisted,
+      registered: players.length,
+      teamed: players.filter((p) => p.teamPartnerId).length,
+      targeted: players.filter((p) => hunters.has(p.id)).length,
+      madeKill: players.filter((p) => killers.has(p.id)).length,
+    },
+  };
+};
@@ -0,0 +1,99 @@
+import { Body, Controller, Get, Post, Req, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { AnnouncementService } from './announcement.service';
+import { JwtAuthGuard } from 'auth/guards';
+import { getUserIdFromRequest } from 'utils/request';
+import { QueryRequired } from 'utils/decorators';
+import { MongoId } from 'utils/mongo';
+import {
+  AnnouncementFeed,
+  AnnouncementInfo,
+} from 'shared/api/game/announcement';
+
+@Controller('game/announcement')
+export class AnnouncementController {
+  constructor(private announcements: AnnouncementService) {}
+
+  @Get('list')
+  @UseGuards(JwtAuthGuard)
+  async fetchFeed(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+  ): Promise<AnnouncementFeed> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    return await this.announcements.fetchFeed(userId, gameId);
+  }
+
+  @Post('read')
+  @UseGuards(JwtAuthGuard)
+  async markRead(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+  ) {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    await this.announcements.markRead(userId, gameId);
+    return { msg: 'success' };
+  }
+
+  /**
+   * ADMIN ONLY: Post an announcement to every player.
+   */
+  @Post('post')
+  @UseGuards(JwtAuthGuard)
+  async post(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @Body('title') title: string,
+    @Body('body') body: string,
+    @Body('pinned') pinned: boolean,
+    @Body('expiresAt') expiresAt: string,
+  ): Promise<AnnouncementInfo> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    return await this.announcements.post(
+      userId,
+      gameId,
+      title,
+      body ?? '',
+      pinned ?? false,
+      expiresAt ? new Date(expiresAt) : undefined,
+    );
+  }
+
+  /**
+   * ADMIN ONLY: Pin or unpin an announcement.
+   */
+  @Post('pin')
+  @UseGuards(JwtAuthGuard)
+  async setPinned(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @QueryRequired('announcementId') announcementIdQuery: string,
+    @Body('pinned') pinned: boolean,
+  ) {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    const announcementId = new MongoId(announcementIdQuery);
+    await this.announcements.setPinned(userId, gameId, announcementId, pinned);
+    return { msg: 'success' };
+  }
+
+  /**
+   * ADMIN ONLY: Stop showing an announcement to players.
+   */
+  @Post('expire')
+  @UseGuards(JwtAuthGuard)
+  async expire(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @QueryRequired('announcementId') announcementIdQuery: string,
+  ) {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    const announcementId = new MongoId(announcementIdQuery);
+    await this.announcements.expire(userId, gameId, announcementId);
+    return { msg: 'success' };
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { UserModule } from 'user/user.module';
+import { PlayerModule } from 'game/player/player.module';
+import { GameLogModule } from 'game/log/game-log.module';
+import { Announcement, AnnouncementSchema } from './announcement.schema';
+import { AnnouncementService } from './announcement.service';
+import { AnnouncementController } from './announcement.controller';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Announcement.name, schema: AnnouncementSchema },
+    ]),
+    UserModule,
+    PlayerModule,
+    GameLogModule,
+  ],
+  controllers: [AnnouncementController],
+  providers: [AnnouncementService],
+})
+export class AnnouncementModule {}
@@ -0,0 +1,47 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import mongoose, { HydratedDocument } from 'mongoose';
+import { MongoId } from 'utils/mongo';
+
+export type AnnouncementDocument = HydratedDocument<Announcement>;
+
+/**
+ * News posted by the admins of a game, shown to its players in the app
+ */
+@Schema()
+export class Announcement extends mongoose.Document<mongoose.Schema.Types.ObjectId> {
+  /**
+   * The game that this announcement was posted within
+   */
+  @Prop({ type: mongoose.Schema.Types.ObjectId, required: true, index: true })
+  gameId: MongoId;
+
+  /**
+   * The admin user who posted the announcement
+   */
+  @Prop({ type: mongoose.Schema.Types.ObjectId, required: true })
+  authorId: MongoId;
+
+  @Prop({ type: String, required: true })
+  title: string;
+
+  @Prop({ type: String, required: false, default: '' })
+  body: string;
+
+  /**
+   * Pinned announcements are shown above all others
+   */
+  @Prop({ type: Boolean, default: false })
+  pinned: boolean;
+
+  @Prop({ type: Date, required: true })
+  createdAt: Date;
+
+  /**
+   * When the announcement stops being shown to players, shown forever if
+   * missing
+   */
+  @Prop({ type: Date, required: false })
+  expiresAt?: Date;
+}
+
+export const AnnouncementSchema = SchemaFactory.createForClass(Announcement);
@@ -0,0 +1,91 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { AnnouncementService } from './announcement.service';
+import { Announcement } from './announcement.schema';
+import { PlayerService } from 'game/player/player.service';
+import { UserService } from 'user/user.service';
+import { GameLogService } from 'game/log/game-log.service';
+import { PlayerRole } from 'game/player/player.schema';
+import { MongoId } from 'utils/mongo';
+import { AnnouncementInvalidException } from 'utils/exceptions';
+
+describe('AnnouncementService', () => {
+  let service: AnnouncementService;
+  const model = {
+    find: jest.fn(),
+  };
+  const plyr = {
+    getRole: jest.fn(),
+    find: jest.fn(),
+  };
+  const usr = {
+    findByIds: jest.fn(),
+  };
+
+  const gameId = new MongoId('6500000000000000000000a1');
+  const userId = new MongoId('6500000000000000000000b1');
+  const authorId = new MongoId('6500000000000000000000b2');
+
+  const makeAnnouncement = (id: string, createdAt: string) => ({
+    id,
+    gameId,
+    authorId,
+    title: id,
+    body: '',
+    pinned: false,
+    createdAt: new Date(createdAt),
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnnouncementService,
+        { provide: getModelToken(Announcement.name), useValue: model },
+        { provide: PlayerService, useValue: plyr },
+        { provide: UserService, useValue: usr },
+        { provide: GameLogService, useValue: { record: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<AnnouncementService>(AnnouncementService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should need a title', async () => {
+    plyr.getRole.mockResolvedValue(PlayerRole.ADMIN);
+
+    await expect(service.post(userId, gameId, '   ')).rejects.toThrow(
+      AnnouncementInvalidException,
+    );
+  });
+
+  it('should count what was posted since the player last read', async () => {
+    const query = { sort: jest.fn().mockReturnThis(), exec: jest.fn() };
+    query.exec.mockResolvedValue([
+      makeAnnouncement('new', '2024-04-02T12:00:00Z'),
+      makeAnnouncement('old', '2024-04-01T12:00:00Z'),
+    ]);
+    model.find.mockReturnValue(query);
+    plyr.getRole.mockResolvedValue(PlayerRole.PLAYER);
+    plyr.find.mockResolvedValue({
+      announcementsReadAt: new Date('2024-04-02T00:00:00Z'),
+    });
+    usr.findByIds.mockResolvedValue([
+      { id: authorId.toString(), firstName: 'Jane', surname: 'Doe' },
+    ]);
+
+    const feed = await service.fetchFeed(userId, gameId);
+    expect(feed.unread).toBe(1);
+    expect(feed.announcements.map((a) => [a.title, a.unread])).toEqual([
+      ['new', true],
+      ['old', false],
+    ]);
+
+    // Players never see expired announcements
+    expect(model.find.mock.calls[0][0]).toHaveProperty('$or');
+  });
+});
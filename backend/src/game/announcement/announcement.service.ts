@@ -0,0 +1,258 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Announcement } from './announcement.schema';
+
+// Services
+import { PlayerService } from 'game/player/player.service';
+import { UserService } from 'user/user.service';
+import { GameLogService } from 'game/log/game-log.service';
+
+// Utilities
+import { MongoId } from 'utils/mongo';
+import { PlayerRole } from 'game/player/player.schema';
+import { GameLogType } from 'game/log/game-log.schema';
+import {
+  AnnouncementInvalidException,
+  AnnouncementNotFoundException,
+  PlayerRoleUnauthorizedException,
+} from 'utils/exceptions';
+
+// Objects
+import {
+  AnnouncementFeed,
+  AnnouncementInfo,
+} from 'shared/api/game/announcement';
+
+/**
+ * The longest an announcement's title can be
+ */
+const MAX_TITLE_LENGTH = 120;
+
+@Injectable()
+export class AnnouncementService {
+  constructor(
+    @InjectModel(Announcement.name) private model: Model<Announcement>,
+    private plyr: PlayerService,
+    private usr: UserService,
+    private log: GameLogService,
+  ) {}
+
+  /**
+   * ADMIN ONLY: Post an announcement to every player of a game.
+   * @param userId The admin posting it
+   * @param gameId The game in question
+   * @param title What the announcement is about
+   * @param body The rest of the announcement
+   * @param pinned Whether to show it above all others
+   * @param expiresAt When to stop showing it, never if missing
+   */
+  async post(
+    userId: MongoId,
+    gameId: MongoId,
+    title: string,
+    body = '',
+    pinned = false,
+    expiresAt?: Date,
+  ): Promise<AnnouncementInfo> {
+    await this.assertAdmin(userId, gameId);
+
+    title = (title ?? '').trim();
+    if (title === '') {
+      throw new AnnouncementInvalidException('It needs a title.');
+    }
+    if (title.length > MAX_TITLE_LENGTH) {
+      throw new AnnouncementInvalidException(
+        `The title can be at most ${MAX_TITLE_LENGTH} characters.`,
+      );
+    }
+    if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt <= new Date())) {
+      throw new AnnouncementInvalidException('It must expire in the future.');
+    }
+
+    const announcement = new this.model();
+    announcement.gameId = gameId;
+    announcement.authorId = userId;
+    announcement.title = title;
+    announcement.body = (body ?? '').trim();
+    announcement.pinned = !!pinned;
+    announcement.createdAt = new Date();
+    announcement.expiresAt = expiresAt;
+    await announcement.save();
+
+    await this.log.record({
+      gameId: gameId,
+      type: GameLogType.ANNOUNCEMENT_POSTED,
+      actorId: userId,
+      after: { announcementId: new MongoId(announcement.id), pinned: pinned },
+      details: announcement.title,
+    });
+
+    return (await this.toInfo([announcement]))[0];
+  }
+
+  /**
+   * ADMIN ONLY: Pin an announcement above all others, or unpin it.
+   * @param userId The admin changing it
+   * @param gameId The game in question
+   * @param announcementId The announcement to change
+   * @param pinned Whether it should be pinned
+   */
+  async setPinned(
+    userId: MongoId,
+    gameId: MongoId,
+    announcementId: MongoId,
+    pinned: boolean,
+  ) {
+    await this.assertAdmin(userId, gameId);
+    const announcement = await this.findInGame(gameId, announcementId);
+
+    const before = announcement.pinned;
+    announcement.pinned = !!pinned;
+    await announcement.save();
+
+    await this.log.record({
+      gameId: gameId,
+      type: GameLogType.ANNOUNCEMENT_UPDATED,
+      actorId: userId,
+      before: { announcementId: announcementId, pinned: before },
+      after: { announcementId: announcementId, pinned: announcement.pinned },
+      details: announcement.title,
+    });
+  }
+
+  /**
+   * ADMIN ONLY: Stop showing an announcement to players right away.
+   * @param userId The admin expiring it
+   * @param gameId The game in question
+   * @param announcementId The announcement to expire
+   */
+  async expire(userId: MongoId, gameId: MongoId, announcementId: MongoId) {
+    await this.assertAdmin(userId, gameId);
+    const announcement = await this.findInGame(gameId, announcementId);
+
+    const now = new Date();
+    if (announcement.expiresAt && announcement.expiresAt <= now) {
+      return;
+    }
+
+    const before = announcement.expiresAt;
+    announcement.expiresAt = now;
+    await announcement.save();
+
+    await this.log.record({
+      gameId: gameId,
+      type: GameLogType.ANNOUNCEMENT_UPDATED,
+      actorId: userId,
+      before: { announcementId: announcementId, expiresAt: before },
+      after: { announcementId: announcementId, expiresAt: now },
+      details: announcement.title,
+    });
+  }
+
+  /**
+   * Fetch the announcements of a game, pinned ones first and then newest
+   * first. Players only see those that haven't expired, admins see them all.
+   * @param userId The user reading them
+   * @param gameId The game in question
+   */
+  async fetchFeed(userId: MongoId, gameId: MongoId): Promise<AnnouncementFeed> {
+    const role = await this.plyr.getRole(gameId, userId);
+    if (role === PlayerRole.NONE) {
+      throw new PlayerRoleUnauthorizedException(userId, role);
+    }
+
+    const now = new Date();
+    const announcements = await this.model
+      .find({
+        gameId: gameId,
+        ...(role === PlayerRole.ADMIN
+          ? {}
+          : {
+              $or: [
+                { expiresAt: { $exists: false } },
+                { expiresAt: null },
+                { expiresAt: { $gt: now } },
+              ],
+            }),
+      })
+      .sort({ pinned: -1, createdAt: -1 })
+      .exec();
+
+    // Admins wrote them, so nothing is unread for them
+    const player =
+      role === PlayerRole.PLAYER ? await this.plyr.find(userId, gameId) : null;
+    const readAt = player?.announcementsReadAt;
+    const isUnread = (a: Announcement) =>
+      !!player && (!readAt || a.createdAt > readAt);
+
+    const infos = await this.toInfo(announcements, isUnread);
+    return {
+      announcements: infos,
+      unread: infos.filter((a) => a.unread).length,
+    };
+  }
+
+  /**
+   * Mark every announcement of a game posted so far as read by the player.
+   * @param userId The player reading them
+   * @param gameId The game in question
+   */
+  async markRead(userId: MongoId, gameId: MongoId) {
+    const player = await this.plyr.find(userId, gameId);
+    if (!player) {
+      const role = await this.plyr.getRole(gameId, userId);
+      throw new PlayerRoleUnauthorizedException(userId, role);
+    }
+
+    player.announcementsReadAt = new Date();
+    await player.save();
+  }
+
+  private async assertAdmin(userId: MongoId, gameId: MongoId) {
+    const role = await this.plyr.getRole(gameId, userId);
+    if (role !== PlayerRole.ADMIN) {
+      throw new PlayerRoleUnauthorizedException(userId, role);
+    }
+  }
+
+  private async findInGame(gameId: MongoId, announcementId: MongoId) {
+    const announcement = await this.model.findById(announcementId).exec();
+    if (!announcement || !announcement.gameId.equals(gameId)) {
+      throw new AnnouncementNotFoundException(announcementId);
+    }
+    return announcement;
+  }
+
+  /**
+   * Convert announcements into the shape sent to the frontend, resolving the
+   * names of their authors.
+   */
+  private async toInfo(
+    announcements: Announcement[],
+    isUnread: (a: Announcement) => boolean = () => false,
+  ): Promise<AnnouncementInfo[]> {
+    if (announcements.length === 0) {
+      return [];
+    }
+
+    const users = await this.usr.findByIds(
+      announcements.map((a) => a.authorId),
+    );
+    const names: { [key: string]: string } = {};
+    users.forEach((u) => (names[u.id] = `${u.firstName} ${u.surname}`));
+
+    const now = new Date();
+    return announcements.map((a) => ({
+      announcementId: a.id,
+      title: a.title,
+      body: a.body,
+      pinned: a.pinned,
+      author: names[a.authorId.toString()] ?? 'Unknown',
+      createdAt: a.createdAt.toISOString(),
+      expiresAt: a.expiresAt?.toISOString(),
+      expired: !!a.expiresAt && a.expiresAt <= now,
+      unread: isUnread(a),
+    }));
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * The rules every game starts with, until its admins write their own. Kept
+ * general, anything specific to a game (dates, places, who to ask) is for the
+ * admins to fill in.
+ */
+export const DEFAULT_RULES = `> These rules are subject to slight changes. Changes will be posted in the
+> Announcements tab as they arise throughout the course of the game.
+
+## Getting someone "out"
+
+- You must squirt them with water directly from the whale squirter. Other
+  delivery methods, such as a water bottle or a can of soda, do not count.
+- Eliminations must be caught on video, and uploaded as evidence in the app when
+  you report the splash (or later, from the Evidence tab).
+- Once both members of a team have been eliminated, it will be registered here
+  and displayed publicly on the leaderboard.
+- After an elimination is registered, the targets of the eliminated player are
+  passed on to whoever eliminated them.
+- Eliminations are only valid during rounds. In between the end of a round and
+  the start of the next, eliminations will not count.
+- There are no shields. Holding a book up to "deflect" the water still counts as
+  an elimination.
+
+## Safeties
+
+- At times, there might be certain days or events that will give you safety.
+  Each day's safety is shown in the app.
+- There will be various days where no daily safety is given. Safe zones are
+  still valid during these days.
+
+## Safe zones
+
+This is the exhaustive list of places where a player cannot be eliminated:
+
+- Places of worship.
+- Practice and competition (during, and preparing for), but not travelling
+  to/from.
+- Your own bedroom and common room. Other people's bedrooms and common rooms
+  are fair game (please use common sense).
+- Classrooms, but ONLY while scheduled instruction or exams are going on.
+
+Being in a safe zone means that you are unable to eliminate or be eliminated.
+Eliminations from a player inside a safe zone to a player outside of one are
+not valid.
+
+## Additional
+
+- If there is a dispute, it will be ruled on by the admins of the game.
+`;
@@ -0,0 +1,52 @@
+import { JwtService } from '@nestjs/jwt';
+import { Socket } from 'socket.io';
+import { Subject } from 'rxjs';
+import { GameEventsGateway } from './game-events.gateway';
+import { PlayerService } from 'game/player/player.service';
+import { GameLogService } from 'game/log/game-log.service';
+import { LOGIN_LINK_AUDIENCE } from 'auth/types';
+
+describe('GameEventsGateway', () => {
+  const jwt = new JwtService({ secret: 'secret' });
+  const gateway = new GameEventsGateway(
+    jwt,
+    {} as PlayerService,
+    { entries: new Subject() } as unknown as GameLogService,
+  );
+
+  const connect = async (token: string) => {
+    const client = {
+      handshake: { auth: { token } },
+      data: {} as { userId?: string },
+      disconnect: jest.fn(),
+    };
+    await gateway.handleConnection(client as unknown as Socket);
+    return client;
+  };
+
+  it('should let clients with an access token connect', async () => {
+    const client = await connect(await jwt.signAsync({ sub: 'u' }));
+
+    expect(client.data.userId).toBe('u');
+    expect(client.disconnect).not.toHaveBeenCalled();
+  });
+
+  it('should not let the token of a sign-in link be used to connect', async () => {
+    const client = await connect(
+      await jwt.signAsync(
+        { sub: 'u', email: 'someone@example.com' },
+        { audience: LOGIN_LINK_AUDIENCE },
+      ),
+    );
+
+    expect(client.data.userId).toBeUndefined();
+    expect(client.disconnect).toHaveBeenCalledWith(true);
+  });
+
+  it('should not let clients without a valid token connect', async () => {
+    const client = await connect('not a token');
+
+    expect(client.data.userId).toBeUndefined();
+    expect(client.disconnect).toHaveBeenCalledWith(true);
+  });
+});
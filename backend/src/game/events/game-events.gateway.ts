@@ -0,0 +1,156 @@
+import { Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+} from '@nestjs/websockets';
+import { Subscription } from 'rxjs';
+import { Server, Socket } from 'socket.io';
+
+// Services
+import { PlayerService } from 'game/player/player.service';
+import { GameLogService } from 'game/log/game-log.service';
+
+// Utilities
+import { MongoId } from 'utils/mongo';
+import { PlayerRole } from 'game/player/player.schema';
+import { GameLogEntry } from 'game/log/game-log.schema';
+import { JwtPayload, LOGIN_LINK_AUDIENCE } from 'auth/types';
+
+// Objects
+import { GameEventInfo } from 'shared/api/game';
+
+/**
+ * The room everyone watching a game is in
+ */
+const gameRoom = (gameId: string) => `game:${gameId}`;
+
+/**
+ * The room the admins watching a game are in
+ */
+const adminRoom = (gameId: string) => `game:${gameId}:admins`;
+
+/**
+ * The room a single player watching a game is in
+ */
+const playerRoom = (gameId: string, playerId: string) =>
+  `game:${gameId}:player:${playerId}`;
+
+/**
+ * Pushes everything that happens in a game to the players and admins of that
+ * game as it happens, so pages can update without being refreshed. Clients
+ * connect with their access token, then join the room of a single game. Only
+ * admins and the players an event is about are told who it was about, so
+ * nobody can work out who is hunting whom by watching the events go by.
+ */
+@WebSocketGateway({ namespace: 'game' })
+export class GameEventsGateway
+  implements OnGatewayConnection, OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(GameEventsGateway.name);
+  private subscription: Subscription;
+
+  @WebSocketServer()
+  private server: Server;
+
+  constructor(
+    private jwt: JwtService,
+    private plyr: PlayerService,
+    private log: GameLogService,
+  ) {}
+
+  onModuleInit() {
+    this.subscription = this.log.entries.subscribe((entry) =>
+      this.publish(entry),
+    );
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Only let clients with a valid access token connect. Sign-in links are
+   * signed with the same secret, but are not access tokens.
+   */
+  async handleConnection(client: Socket) {
+    try {
+      const payload = await this.jwt.verifyAsync<JwtPayload>(
+        client.handshake.auth?.token,
+      );
+      if (payload.aud === LOGIN_LINK_AUDIENCE) {
+        throw new Error('Sign-in links cannot be used as access tokens');
+      }
+      client.data.userId = payload.sub;
+    } catch {
+      client.disconnect(true);
+    }
+  }
+
+  /**
+   * Start receiving the events of a game, and stop receiving those of any
+   * other. Only players and admins of the game may watch it.
+   * @returns Whether the client is now watching the game
+   */
+  @SubscribeMessage('join')
+  async join(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() gameId: string,
+  ): Promise<boolean> {
+    // The rooms to join besides the one of the game
+    const rooms: string[] = [];
+    try {
+      const userId = new MongoId(client.data.userId);
+      const role = await this.plyr.getRole(new MongoId(gameId), userId);
+      if (role === PlayerRole.NONE) {
+        return false;
+      }
+
+      if (role === PlayerRole.ADMIN) {
+        rooms.push(adminRoom(gameId));
+      } else {
+        const player = await this.plyr.find(userId, new MongoId(gameId));
+        rooms.push(playerRoom(gameId, player.id));
+      }
+    } catch {
+      return false;
+    }
+
+    for (const room of client.rooms) {
+      if (room !== client.id) await client.leave(room);
+    }
+    await client.join([gameRoom(gameId), ...rooms]);
+    return true;
+  }
+
+  /**
+   * Tell everyone watching a game about a change to it. Admins and the
+   * players involved also hear who it was about.
+   */
+  private publish(entry: GameLogEntry) {
+    const gameId = entry.gameId.toString();
+    const event: GameEventInfo = {
+      gameId: gameId,
+      type: entry.type,
+      createdAt: entry.createdAt.toISOString(),
+    };
+    const involved = [
+      adminRoom(gameId),
+      ...entry.playerIds.map((id) => playerRoom(gameId, id.toString())),
+    ];
+
+    try {
+      this.server?.to(gameRoom(gameId)).except(involved).emit('event', event);
+      this.server?.to(involved).emit('event', {
+        ...event,
+        playerIds: entry.playerIds.map((id) => id.toString()),
+      });
+    } catch (e) {
+      this.logger.error(`Failed to publish ${entry.type}: ${e}`);
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { PlayerModule } from 'game/player/player.module';
+import { GameLogModule } from 'game/log/game-log.module';
+import { GameEventsGateway } from './game-events.gateway';
+
+@Module({
+  imports: [
+    PlayerModule,
+    GameLogModule,
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      useFactory: async (config: ConfigService) => {
+        return {
+          secret: config.getOrThrow<string>('JWT_SECRET'),
+        };
+      },
+      inject: [ConfigService],
+    }),
+  ],
+  providers: [GameEventsGateway],
+})
+export class GameEventsModule {}
@@ -0,0 +1,40 @@
+import {
+  Controller,
+  Get,
+  Query,
+  Req,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { ExportService } from './export.service';
+import { JwtAuthGuard } from 'auth/guards';
+import { getUserIdFromRequest } from 'utils/request';
+import { QueryRequired } from 'utils/decorators';
+import { MongoId } from 'utils/mongo';
+
+@Controller('game/export')
+export class ExportController {
+  constructor(private exports: ExportService) {}
+
+  /**
+   * ADMIN ONLY: Download the data of a game, either everything as JSON or a
+   * single table as CSV.
+   */
+  @Get('download')
+  @UseGuards(JwtAuthGuard)
+  async download(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @QueryRequired('format') format: string,
+    @Query('dataset') dataset: string,
+  ): Promise<StreamableFile> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    const file = await this.exports.exportFile(userId, gameId, format, dataset);
+    return new StreamableFile(Buffer.from(file.content), {
+      type: file.type,
+      disposition: `attachment; filename="${file.fileName}"`,
+    });
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { UserModule } from 'user/user.module';
+import { GameModule } from 'game/game.module';
+import { PlayerModule } from 'game/player/player.module';
+import { TargetModule } from 'game/target/target.module';
+import { ExportService } from './export.service';
+import { ExportController } from './export.controller';
+
+@Module({
+  imports: [UserModule, GameModule, PlayerModule, TargetModule],
+  controllers: [ExportController],
+  providers: [ExportService],
+})
+export class ExportModule {}
@@ -0,0 +1,148 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExportService } from './export.service';
+import { GameService } from 'game/game.service';
+import { PlayerService } from 'game/player/player.service';
+import { TargetService } from 'game/target/target.service';
+import { UserService } from 'user/user.service';
+import { PlayerRole, PlayerStatus } from 'game/player/player.schema';
+import { TargetStatus } from 'game/target/target.schema';
+import { MongoId } from 'utils/mongo';
+import {
+  ExportInvalidException,
+  PlayerRoleUnauthorizedException,
+} from 'utils/exceptions';
+
+describe('ExportService', () => {
+  let service: ExportService;
+  const gme = {
+    findById: jest.fn(),
+  };
+  const plyr = {
+    getRole: jest.fn(),
+    findByGame: jest.fn(),
+  };
+  const trgt = {
+    findByGame: jest.fn(),
+  };
+  const usr = {
+    findByIds: jest.fn(),
+  };
+
+  const gameId = new MongoId('6500000000000000000000a1');
+  const userId = new MongoId('6500000000000000000000b1');
+  const ids = {
+    ada: new MongoId('6500000000000000000000c1'),
+    grace: new MongoId('6500000000000000000000c2'),
+    alan: new MongoId('6500000000000000000000c3'),
+  };
+
+  const makePlayer = (name: keyof typeof ids, partner?: keyof typeof ids) => ({
+    id: ids[name].toString(),
+    userId: ids[name],
+    status: PlayerStatus.ALIVE,
+    teamPartnerId: partner && ids[partner],
+    revives: 0,
+  });
+  const makeUser = (name: keyof typeof ids, firstName: string) => ({
+    id: ids[name].toString(),
+    firstName,
+    surname: 'Test',
+    email: `${name}@example.com`,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExportService,
+        { provide: GameService, useValue: gme },
+        { provide: PlayerService, useValue: plyr },
+        { provide: TargetService, useValue: trgt },
+        { provide: UserService, useValue: usr },
+      ],
+    }).compile();
+
+    service = module.get<ExportService>(ExportService);
+
+    plyr.getRole.mockResolvedValue(PlayerRole.ADMIN);
+    gme.findById.mockResolvedValue({
+      id: gameId.toString(),
+      name: 'Spring Splash',
+      status: 'COMPLETE',
+      startTime: new Date('2024-04-01T00:00:00Z'),
+      standings: [],
+    });
+    plyr.findByGame.mockResolvedValue([
+      makePlayer('ada', 'grace'),
+      makePlayer('grace', 'ada'),
+      makePlayer('alan'),
+    ]);
+    usr.findByIds.mockResolvedValue([
+      makeUser('ada', 'Ada'),
+      makeUser('grace', 'Grace'),
+      makeUser('alan', '=Alan'),
+    ]);
+    trgt.findByGame.mockResolvedValue([
+      {
+        id: '6500000000000000000000d1',
+        playerId: ids.ada,
+        targetId: ids.alan,
+        status: TargetStatus.COMPLETE,
+        createdAt: new Date('2024-04-01T00:00:00Z'),
+        resolvedAt: new Date('2024-04-02T00:00:00Z'),
+      },
+    ]);
+  });
+
+  it('should only let admins export', async () => {
+    plyr.getRole.mockResolvedValue(PlayerRole.PLAYER);
+
+    await expect(service.exportGame(userId, gameId)).rejects.toThrow(
+      PlayerRoleUnauthorizedException,
+    );
+  });
+
+  it('should list players, teams and kills', async () => {
+    const data = await service.exportGame(userId, gameId);
+
+    expect(data.players.map((p) => [p.name, p.email, p.kills])).toEqual([
+      ['Ada Test', 'ada@example.com', 1],
+      ['Grace Test', 'grace@example.com', 0],
+      ['=Alan Test', 'alan@example.com', 0],
+    ]);
+    expect(data.teams.map((t) => [t.name, t.partnerName])).toEqual([
+      ['Ada Test', 'Grace Test'],
+      ['=Alan Test', ''],
+    ]);
+    expect(data.kills).toEqual([
+      {
+        targetId: '6500000000000000000000d1',
+        killerId: ids.ada.toString(),
+        killerName: 'Ada Test',
+        victimId: ids.alan.toString(),
+        victimName: '=Alan Test',
+        time: '2024-04-02T00:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('should export a single table as CSV', async () => {
+    const file = await service.exportFile(userId, gameId, 'csv', 'kills');
+
+    expect(file.fileName).toBe('spring-splash-kills.csv');
+    expect(file.type).toBe('text/csv');
+    expect(file.content.split('\r\n')[0]).toBe(
+      'targetId,killerId,killerName,victimId,victimName,time',
+    );
+    expect(file.content).toContain(",'=Alan Test,");
+  });
+
+  it('should reject unknown formats and datasets', async () => {
+    await expect(
+      service.exportFile(userId, gameId, 'xml', 'kills'),
+    ).rejects.toThrow(ExportInvalidException);
+    await expect(
+      service.exportFile(userId, gameId, 'csv', 'toString'),
+    ).rejects.toThrow(ExportInvalidException);
+  });
+});
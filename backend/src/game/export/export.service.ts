@@ -0,0 +1,242 @@
+import { Injectable } from '@nestjs/common';
+
+// Services
+import { GameService } from 'game/game.service';
+import { PlayerService } from 'game/player/player.service';
+import { TargetService } from 'game/target/target.service';
+import { UserService } from 'user/user.service';
+
+// Utilities
+import { MongoId } from 'utils/mongo';
+import { PlayerRole } from 'game/player/player.schema';
+import { TargetStatus } from 'game/target/target.schema';
+import {
+  ExportInvalidException,
+  PlayerRoleUnauthorizedException,
+} from 'utils/exceptions';
+import { toCsv } from 'utils/csv';
+
+// Objects
+import {
+  ExportDataset,
+  ExportFormat,
+  ExportKillRow,
+  ExportPlayerRow,
+  ExportStandingRow,
+  ExportTargetRow,
+  ExportTeamRow,
+  GameExport,
+} from 'shared/api/game/export';
+
+/**
+ * The columns of each CSV file, in order
+ */
+const COLUMNS: { [D in ExportDataset]: (keyof GameExport[D][number])[] } = {
+  players: [
+    'playerId',
+    'userId',
+    'name',
+    'email',
+    'status',
+    'teamPartnerId',
+    'kills',
+    'revives',
+    'disqualifiedReason',
+  ],
+  teams: ['playerId', 'name', 'partnerId', 'partnerName'],
+  targets: [
+    'targetId',
+    'hunterId',
+    'hunterName',
+    'targetPlayerId',
+    'targetName',
+    'status',
+    'createdAt',
+    'resolvedAt',
+  ],
+  kills: [
+    'targetId',
+    'killerId',
+    'killerName',
+    'victimId',
+    'victimName',
+    'time',
+  ],
+  standings: ['rank', 'playerId', 'name', 'kills', 'status'],
+};
+
+const FORMATS: ExportFormat[] = ['csv', 'json'];
+
+/**
+ * A file ready to be downloaded
+ */
+export type ExportFile = {
+  content: string;
+  fileName: string;
+  type: string;
+};
+
+@Injectable()
+export class ExportService {
+  constructor(
+    private gme: GameService,
+    private plyr: PlayerService,
+    private trgt: TargetService,
+    private usr: UserService,
+  ) {}
+
+  /**
+   * ADMIN ONLY: Export the data of a game as a file. JSON exports hold
+   * everything at once, CSV exports hold a single table.
+   * @param userId The admin exporting
+   * @param gameId The game in question
+   * @param format Either csv or json
+   * @param dataset The table to export, needed for CSV exports
+   */
+  async exportFile(
+    userId: MongoId,
+    gameId: MongoId,
+    format: string,
+    dataset?: string,
+  ): Promise<ExportFile> {
+    if (!FORMATS.includes(format as ExportFormat)) {
+      throw new ExportInvalidException(`Unknown format '${format}'.`);
+    }
+    if (format === 'csv' && !Object.keys(COLUMNS).includes(dataset)) {
+      throw new ExportInvalidException(`Unknown dataset '${dataset}'.`);
+    }
+
+    const data = await this.exportGame(userId, gameId);
+    const slug = data.game.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase();
+
+    if (format === 'json') {
+      return {
+        content: JSON.stringify(data, null, 2),
+        fileName: `${slug}.json`,
+        type: 'application/json',
+      };
+    }
+
+    const name = dataset as ExportDataset;
+    return {
+      content: toCsv(
+        COLUMNS[name] as string[],
+        data[name] as Record<string, unknown>[],
+      ),
+      fileName: `${slug}-${name}.csv`,
+      type: 'text/csv',
+    };
+  }
+
+  /**
+   * ADMIN ONLY: Gather everything worth keeping about a game.
+   * @param userId The admin exporting
+   * @param gameId The game in question
+   */
+  async exportGame(userId: MongoId, gameId: MongoId): Promise<GameExport> {
+    const role = await this.plyr.getRole(gameId, userId);
+    if (role !== PlayerRole.ADMIN) {
+      throw new PlayerRoleUnauthorizedException(userId, role);
+    }
+
+    const [game, players, targets] = await Promise.all([
+      this.gme.findById(gameId),
+      this.plyr.findByGame(gameId),
+      this.trgt.findByGame(gameId),
+    ]);
+    const users = new Map(
+      (await this.usr.findByIds(players.map((p) => p.userId))).map((u) => [
+        u.id.toString(),
+        u,
+      ]),
+    );
+
+    const userOf = new Map(
+      players.map((p) => [p.id.toString(), users.get(p.userId.toString())]),
+    );
+    const name = (playerId?: MongoId | string) => {
+      const user = playerId && userOf.get(playerId.toString());
+      return user ? `${user.firstName} ${user.surname}` : '';
+    };
+    const time = (date?: Date) => date?.toISOString() ?? '';
+
+    const completed = targets.filter((t) => t.status === TargetStatus.COMPLETE);
+    const kills = new Map<string, number>();
+    completed.forEach((t) =>
+      kills.set(
+        t.playerId.toString(),
+        (kills.get(t.playerId.toString()) ?? 0) + 1,
+      ),
+    );
+
+    const playerRows: ExportPlayerRow[] = players.map((p) => ({
+      playerId: p.id,
+      userId: p.userId.toString(),
+      name: name(p.id),
+      email: userOf.get(p.id.toString())?.email ?? '',
+      status: p.status,
+      teamPartnerId: p.teamPartnerId?.toString() ?? '',
+      kills: kills.get(p.id.toString()) ?? 0,
+      revives: p.revives ?? 0,
+      disqualifiedReason: p.disqualifiedReason ?? '',
+    }));
+
+    // Each team is listed once, under whichever partner comes first
+    const teamRows: ExportTeamRow[] = players
+      .filter((p) => !p.teamPartnerId || p.id < p.teamPartnerId.toString())
+      .map((p) => ({
+        playerId: p.id,
+        name: name(p.id),
+        partnerId: p.teamPartnerId?.toString() ?? '',
+        partnerName: name(p.teamPartnerId),
+      }));
+
+    const targetRows: ExportTargetRow[] = targets.map((t) => ({
+      targetId: t.id,
+      hunterId: t.playerId.toString(),
+      hunterName: name(t.playerId),
+      targetPlayerId: t.targetId.toString(),
+      targetName: name(t.targetId),
+      status: t.status,
+      createdAt: time(t.createdAt ?? new MongoId(t.id).getTimestamp()),
+      resolvedAt: time(t.resolvedAt),
+    }));
+
+    const killRows: ExportKillRow[] = completed
+      .map((t) => ({
+        targetId: t.id,
+        killerId: t.playerId.toString(),
+        killerName: name(t.playerId),
+        victimId: t.targetId.toString(),
+        victimName: name(t.targetId),
+        time: time(t.resolvedAt),
+      }))
+      .sort((a, b) => a.time.localeCompare(b.time));
+
+    const standingRows: ExportStandingRow[] = (game.standings ?? []).map(
+      (s) => ({
+        rank: s.rank,
+        playerId: s.playerId.toString(),
+        name: s.name,
+        kills: s.kills,
+        status: s.status,
+      }),
+    );
+
+    return {
+      game: {
+        gameId: game.id,
+        name: game.name,
+        status: game.status,
+        startTime: time(game.startTime),
+        completedAt: time(game.completedAt),
+        exportedAt: time(new Date()),
+      },
+      players: playerRows,
+      teams: teamRows,
+      targets: targetRows,
+      kills: killRows,
+      standings: standingRows,
+    };
+  }
+}
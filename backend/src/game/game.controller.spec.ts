@@ -1,12 +1,45 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { Request } from 'express';
 import { GameController } from './game.controller';
+import { GameService } from './game.service';
+import { PlayerService } from './player/player.service';
+import { TargetService } from './target/target.service';
+import { UserService } from 'user/user.service';
+import { GameLogService } from './log/game-log.service';
+import { PlayerRole } from './player/player.schema';
+import { PlayerRoleUnauthorizedException } from 'utils/exceptions';
 
 describe('GameController', () => {
   let controller: GameController;
+  const gme = {
+    findById: jest.fn(),
+    findForUser: jest.fn(),
+    getRules: jest.fn(),
+  };
+  const plyr = {
+    find: jest.fn(),
+    getRole: jest.fn(),
+  };
+  const usr = {
+    isSiteAdmin: jest.fn(),
+  };
+
+  const gameId = '64b000000000000000000001';
+  const req = {
+    user: { userId: '64b000000000000000000002' },
+  } as unknown as Request;
 
   beforeEach(async () => {
+    jest.resetAllMocks();
     const module: TestingModule = await Test.createTestingModule({
       controllers: [GameController],
+      providers: [
+        { provide: GameService, useValue: gme },
+        { provide: PlayerService, useValue: plyr },
+        { provide: TargetService, useValue: {} },
+        { provide: UserService, useValue: usr },
+        { provide: GameLogService, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<GameController>(GameController);
@@ -15,4 +48,29 @@ describe('GameController', () => {
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  it('should not show the rules to users with no part in the game', async () => {
+    gme.findById.mockResolvedValue({ id: gameId });
+    gme.findForUser.mockResolvedValue([]);
+    plyr.getRole.mockResolvedValue(PlayerRole.NONE);
+    usr.isSiteAdmin.mockResolvedValue(false);
+
+    await expect(controller.rules(req, gameId)).rejects.toBeInstanceOf(
+      PlayerRoleUnauthorizedException,
+    );
+    expect(gme.getRules).not.toHaveBeenCalled();
+  });
+
+  it('should show the rules to players of the game', async () => {
+    gme.findById.mockResolvedValue({ id: gameId });
+    gme.getRules.mockResolvedValue({ content: 'Rules', version: 2 });
+    plyr.getRole.mockResolvedValue(PlayerRole.PLAYER);
+    plyr.find.mockResolvedValue({ rulesAcknowledgedVersion: 1 });
+
+    expect(await controller.rules(req, gameId)).toEqual({
+      content: 'Rules',
+      version: 2,
+      acknowledged: false,
+    });
+  });
 });
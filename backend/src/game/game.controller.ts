@@ -1,30 +1,376 @@
-import { Controller, Get, Post, Req, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
 import { GameService } from './game.service';
 import { getUserIdFromRequest } from 'utils/request';
 import { Request } from 'express';
 import { JwtAuthGuard } from 'auth/guards';
 import { MongoId } from 'utils/mongo';
-import { ConfigService } from '@nestjs/config';
+import { QueryRequired } from 'utils/decorators';
 
-import { GameInfo } from 'shared/api/game';
+import { Game } from './game.schema';
+
+import {
+  GameInfo,
+  GameLogPage,
+  GameRulesInfo,
+  GameRulesVersionInfo,
+  GameSettings,
+  GameSummary,
+  RosterPreview,
+  SafetySchedule,
+} from 'shared/api/game';
 import { PlayerService } from './player/player.service';
+import { TargetService } from './target/target.service';
 import { PlayerRole } from './player/player.schema';
+import { GameLogService } from './log/game-log.service';
+import { UserService } from 'user/user.service';
+import { PlayerRoleUnauthorizedException } from 'utils/exceptions';
+
+/**
+ * How many log entries are returned at once, unless asked otherwise
+ */
+const LOG_PAGE_SIZE = 50;
 
 @Controller('game')
 export class GameController {
   constructor(
     private gme: GameService,
-    private cfg: ConfigService,
     private plyr: PlayerService,
+    private trgt: TargetService,
+    private usr: UserService,
+    private log: GameLogService,
   ) {}
 
   @Get('getActive')
   @UseGuards(JwtAuthGuard)
   async register(@Req() req: Request): Promise<GameInfo> {
-    // Register the requesting user for the active game
     const userId = getUserIdFromRequest(req);
-    const gameId = new MongoId(this.cfg.get<string>('ACTIVE_GAME_ID'));
+    const game = await this.gme.findActive();
+    return await this.getInfo(game, userId);
+  }
+
+  @Get('get')
+  @UseGuards(JwtAuthGuard)
+  async get(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+  ): Promise<GameInfo> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
     const game = await this.gme.findById(gameId);
+    await this.assertCanView(userId, game);
+    return await this.getInfo(game, userId);
+  }
+
+  /**
+   * Today's and tomorrow's safety, along with the one in effect right now.
+   */
+  @Get('safety')
+  @UseGuards(JwtAuthGuard)
+  async safety(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+  ): Promise<SafetySchedule> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    await this.assertCanView(userId, await this.gme.findById(gameId));
+    return await this.gme.getSafetySchedule(gameId);
+  }
+
+  /**
+   * The rules of the game in effect right now, and whether the player has
+   * read them since they last changed.
+   */
+  @Get('rules')
+  @UseGuards(JwtAuthGuard)
+  async rules(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+  ): Promise<GameRulesInfo> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    await this.assertCanView(userId, await this.gme.findById(gameId));
+    const rules = await this.gme.getRules(gameId);
+
+    // Only players need to keep up with the rules
+    const player = await this.plyr.find(userId, gameId);
+    const acknowledged =
+      !player ||
+      (await this.plyr.getRole(gameId, userId)) !== PlayerRole.PLAYER ||
+      player.rulesAcknowledgedVersion >= rules.version;
+    return { ...rules, acknowledged };
+  }
+
+  /**
+   * ADMIN ONLY: Every version of the rules of the game, newest first.
+   */
+  @Get('rules/history')
+  @UseGuards(JwtAuthGuard)
+  async rulesHistory(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+  ): Promise<GameRulesVersionInfo[]> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    return await this.gme.getRulesHistory(userId, gameId);
+  }
+
+  /**
+   * ADMIN ONLY: Publish a new version of the rules.
+   */
+  @Post('rules/update')
+  @UseGuards(JwtAuthGuard)
+  async updateRules(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @Body('content') content: string,
+    @Body('summary') summary?: string,
+  ): Promise<GameRulesVersionInfo> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    return await this.gme.updateRules(userId, gameId, content, summary);
+  }
+
+  /**
+   * ADMIN ONLY: Show what importing a roster CSV would change.
+   */
+  @Post('roster/preview')
+  @UseGuards(JwtAuthGuard)
+  async previewRoster(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @Body('csv') csv: string,
+  ): Promise<RosterPreview> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    return await this.gme.previewRoster(userId, gameId, csv);
+  }
+
+  /**
+   * ADMIN ONLY: Replace the whitelist (and admins) with a roster CSV, pairing
+   * up any listed teams whose players have both registered.
+   */
+  @Post('roster/import')
+  @UseGuards(JwtAuthGuard)
+  async importRoster(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @Body('csv') csv: string,
+  ): Promise<RosterPreview> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    const plan = await this.gme.importRoster(userId, gameId, csv);
+    await this.plyr.pairRosterTeams(gameId);
+    return plan;
+  }
+
+  /**
+   * Record that the player has read a version of the rules.
+   */
+  @Post('rules/acknowledge')
+  @UseGuards(JwtAuthGuard)
+  async acknowledgeRules(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @Body('version') version: number,
+  ) {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    await this.plyr.acknowledgeRules(userId, gameId, version);
+    return { msg: 'success' };
+  }
+
+  /**
+   * List every game the user is a player or admin of, or is able to join.
+   */
+  @Get('list')
+  @UseGuards(JwtAuthGuard)
+  async list(@Req() req: Request): Promise<GameSummary[]> {
+    const userId = getUserIdFromRequest(req);
+    const players = await this.plyr.findByUser(userId);
+    const games = await this.gme.findForUser(
+      userId,
+      players.map((p) => p.gameId),
+    );
+
+    const summaries: GameSummary[] = [];
+    for (const game of games) {
+      const role = await this.plyr.getRole(new MongoId(game.id), userId);
+      summaries.push({
+        gameId: game.id,
+        name: game.name,
+        status: game.status,
+        role: role,
+        registered: role === PlayerRole.PLAYER,
+        active: game.active,
+        startTime: game.startTime.toISOString(),
+      });
+    }
+
+    // Most recent games first
+    return summaries.sort((a, b) => b.startTime.localeCompare(a.startTime));
+  }
+
+  @Get('settings')
+  @UseGuards(JwtAuthGuard)
+  async getSettings(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+  ): Promise<GameSettings> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    return await this.gme.getSettings(userId, gameId);
+  }
+
+  @Post('create')
+  @UseGuards(JwtAuthGuard)
+  async create(
+    @Req() req: Request,
+    @Body() settings: Partial<GameSettings>,
+  ): Promise<{ gameId: string }> {
+    const userId = getUserIdFromRequest(req);
+    const game = await this.gme.create(userId, settings);
+    return { gameId: game.id };
+  }
+
+  @Post('update')
+  @UseGuards(JwtAuthGuard)
+  async update(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @Body() settings: Partial<GameSettings>,
+  ): Promise<GameSettings> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    return await this.gme.update(userId, gameId, settings);
+  }
+
+  @Post('cancel')
+  @UseGuards(JwtAuthGuard)
+  async cancel(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+  ) {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    await this.trgt.cancelGame(userId, gameId);
+    return { msg: 'success' };
+  }
+
+  @Post('setActive')
+  @UseGuards(JwtAuthGuard)
+  async setActive(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+  ) {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    await this.gme.setActive(userId, gameId);
+    return { msg: 'success' };
+  }
+
+  /**
+   * ADMIN ONLY: Read the log of every change made within a game, newest first.
+   * Can be narrowed down to a comma separated list of types, or to the
+   * entries involving a single player.
+   */
+  @Get('log')
+  @UseGuards(JwtAuthGuard)
+  async getLog(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @Query('page') pageQuery?: string,
+    @Query('pageSize') pageSizeQuery?: string,
+    @Query('type') typeQuery?: string,
+    @Query('playerId') playerIdQuery?: string,
+  ): Promise<GameLogPage> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+
+    const role = await this.plyr.getRole(gameId, userId);
+    if (role !== PlayerRole.ADMIN) {
+      throw new PlayerRoleUnauthorizedException(userId, role);
+    }
+
+    const page = Math.max(parseInt(pageQuery ?? '0', 10) || 0, 0);
+    const pageSize = Math.min(
+      Math.max(parseInt(pageSizeQuery ?? '', 10) || LOG_PAGE_SIZE, 1),
+      200,
+    );
+
+    const { entries, total } = await this.log.find(
+      gameId,
+      {
+        types: typeQuery ? typeQuery.split(',') : undefined,
+        playerId: playerIdQuery ? new MongoId(playerIdQuery) : undefined,
+      },
+      page,
+      pageSize,
+    );
+
+    // Resolve the names of everyone mentioned on this page
+    const players = await this.plyr.findByGame(gameId);
+    const users = await this.usr.findByIds([
+      ...players.map((p) => p.userId),
+      ...entries.filter((e) => e.actorId).map((e) => e.actorId),
+    ]);
+    const userNames: { [key: string]: string } = {};
+    users.forEach((u) => (userNames[u.id] = `${u.firstName} ${u.surname}`));
+    const playerNames: { [key: string]: string } = {};
+    players.forEach((p) => {
+      playerNames[p.id] = userNames[p.userId.toString()] ?? 'Unknown';
+    });
+
+    return {
+      entries: entries.map((e) => ({
+        entryId: e.id,
+        type: e.type,
+        actor: e.actorId
+          ? userNames[e.actorId.toString()] ?? 'Unknown'
+          : undefined,
+        players: e.playerIds.map((id) => ({
+          playerId: id.toString(),
+          name: playerNames[id.toString()] ?? 'Unknown',
+        })),
+        before: e.before,
+        after: e.after,
+        details: e.details,
+        createdAt: e.createdAt.toISOString(),
+      })),
+      total,
+      page,
+      pageSize,
+    };
+  }
+
+  /**
+   * Make sure the user is a player or admin of the game, a site admin, or
+   * could join the game (so they can see it before registering).
+   */
+  private async assertCanView(userId: MongoId, game: Game) {
+    const role = await this.plyr.getRole(new MongoId(game.id), userId);
+    if (role !== PlayerRole.NONE || (await this.usr.isSiteAdmin(userId))) {
+      return;
+    }
+
+    const joinable = await this.gme.findForUser(userId, []);
+    if (!joinable.some((g) => g.id === game.id)) {
+      throw new PlayerRoleUnauthorizedException(userId, role);
+    }
+  }
+
+  /**
+   * Build the information about a game from the perspective of a given user.
+   */
+  private async getInfo(game: Game, userId: MongoId): Promise<GameInfo> {
+    const gameId = new MongoId(game.id);
 
     // Fetch the user's role in a part of this game
     const role = await this.plyr.getRole(gameId, userId);
@@ -38,6 +384,18 @@ export class GameController {
       });
     }
 
+    // Once the game is over, expose the final results
+    const standings = (game.standings ?? []).map((s) => ({
+      playerId: s.playerId.toString(),
+      name: s.name,
+      rank: s.rank,
+      kills: s.kills,
+      status: s.status,
+    }));
+    const winners = standings
+      .filter((s) => game.winners.some((id) => id.toString() === s.playerId))
+      .map((s) => s.name);
+
     return {
       gameId: gameId.toString(),
       registered,
@@ -45,8 +403,12 @@ export class GameController {
       role: role,
       name: game.name,
       events: events,
-      safeties: game.safeties,
+      safeties: game.safeties.map((s) => this.gme.toSafetyInfo(s)),
+      timeZone: game.timeZone,
+      maxRevives: game.maxRevives,
       startTime: game.startTime.toISOString(),
+      winners,
+      standings,
     };
   }
 }
@@ -7,6 +7,7 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { Game, GameSchema } from './game.schema';
 import { ConfigModule } from '@nestjs/config';
 import { UserModule } from 'user/user.module';
+import { GameLogModule } from './log/game-log.module';
 
 @Module({
   imports: [
@@ -15,6 +16,7 @@ import { UserModule } from 'user/user.module';
     UserModule,
     MongooseModule.forFeature([{ name: Game.name, schema: GameSchema }]),
     ConfigModule,
+    GameLogModule,
   ],
   controllers: [GameController],
   providers: [GameService],
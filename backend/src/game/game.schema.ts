@@ -1,5 +1,7 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import mongoose, { HydratedDocument } from 'mongoose';
+import { MongoId } from 'utils/mongo';
+import { AssignmentStrategyName } from 'game/target/strategies';
 
 export type GameDocument = HydratedDocument<Game>;
 
@@ -38,10 +40,146 @@ export class GameEvent extends mongoose.Document<mongoose.Schema.Types.ObjectId>
    */
   @Prop({ type: Date, required: true })
   time: Date;
+
+  /**
+   * When players were reminded that the event is about to start, if they have
+   * been
+   */
+  @Prop({ type: Date, required: false })
+  remindedAt?: Date;
 }
 
 const GameEventSchema = SchemaFactory.createForClass(GameEvent);
 
+@Schema()
+export class GameRulesVersion extends mongoose.Document<mongoose.Schema.Types.ObjectId> {
+  /**
+   * Counts up from 1 with each edit
+   */
+  @Prop({ type: Number, required: true })
+  version: number;
+
+  /**
+   * The full rules, in markdown
+   */
+  @Prop({ type: String, required: true })
+  content: string;
+
+  /**
+   * What changed since the last version, shown to players
+   */
+  @Prop({ type: String, required: false, default: '' })
+  summary: string;
+
+  /**
+   * The admin user who wrote this version
+   */
+  @Prop({ type: mongoose.Schema.Types.ObjectId, required: true })
+  editedBy: MongoId;
+
+  @Prop({ type: Date, required: true })
+  editedAt: Date;
+}
+
+const GameRulesVersionSchema = SchemaFactory.createForClass(GameRulesVersion);
+
+@Schema()
+export class GameSafety extends mongoose.Document<mongoose.Schema.Types.ObjectId> {
+  /**
+   * What players need to do (or where they need to be) to be safe
+   */
+  @Prop({ type: String, required: true })
+  description: string;
+
+  /**
+   * When the safety comes into effect
+   */
+  @Prop({ type: Date, required: true })
+  start: Date;
+
+  /**
+   * When the safety stops being in effect
+   */
+  @Prop({ type: Date, required: true })
+  end: Date;
+
+  /**
+   * Places the safety applies in, applies everywhere if empty
+   */
+  @Prop({ type: [String], required: false, default: [] })
+  zones: string[];
+
+  /**
+   * Items a player must be wearing or holding for the safety to apply
+   */
+  @Prop({ type: [String], required: false, default: [] })
+  items: string[];
+}
+
+const GameSafetySchema = SchemaFactory.createForClass(GameSafety);
+
+@Schema()
+export class GameRosterEntry extends mongoose.Document<mongoose.Schema.Types.ObjectId> {
+  /**
+   * The email the person signs in with
+   */
+  @Prop({ type: String, required: true })
+  email: string;
+
+  @Prop({ type: String, required: true })
+  name: string;
+
+  /**
+   * Copied onto the person's profile when they register, unless they have
+   * already set one
+   */
+  @Prop({ type: String, required: false })
+  dorm?: string;
+
+  /**
+   * The two people sharing a team name are made partners once both register
+   */
+  @Prop({ type: String, required: false })
+  team?: string;
+}
+
+const GameRosterEntrySchema = SchemaFactory.createForClass(GameRosterEntry);
+
+@Schema()
+export class GameStanding extends mongoose.Document<mongoose.Schema.Types.ObjectId> {
+  /**
+   * The player this standing is for
+   */
+  @Prop({ type: mongoose.Schema.Types.ObjectId, required: true })
+  playerId: MongoId;
+
+  /**
+   * The name of the player at the time the game finished
+   */
+  @Prop({ type: String, required: true })
+  name: string;
+
+  /**
+   * The final placement of the player's team, 1 being the winners
+   */
+  @Prop({ type: Number, required: true })
+  rank: number;
+
+  /**
+   * The number of kills the player finished with
+   */
+  @Prop({ type: Number, required: true })
+  kills: number;
+
+  /**
+   * The status of the player when the game finished
+   */
+  @Prop({ type: String, required: true })
+  status: string;
+}
+
+const GameStandingSchema = SchemaFactory.createForClass(GameStanding);
+
 @Schema()
 export class Game extends mongoose.Document<mongoose.Schema.Types.ObjectId> {
   /**
@@ -56,6 +194,13 @@ export class Game extends mongoose.Document<mongoose.Schema.Types.ObjectId> {
   @Prop({ type: String, enum: GameStatus, default: GameStatus.SETUP })
   status: string;
 
+  /**
+   * Whether this is the game shown to users when they log in. Only one game
+   * should be active at a time.
+   */
+  @Prop({ type: Boolean, default: false })
+  active: boolean;
+
   /**
    * The time that the game starts
    */
@@ -82,10 +227,88 @@ export class Game extends mongoose.Document<mongoose.Schema.Types.ObjectId> {
   events: GameEvent[];
 
   /**
-   * A list of daily safeties that are enacted, shown 1 a day starting at startTime
+   * The safeties that are enacted throughout the game, each with its own window
    */
-  @Prop({ type: [String], required: false, default: [] })
-  safeties: string[];
+  @Prop({ type: [GameSafetySchema], required: false, default: [] })
+  safeties: GameSafety[];
+
+  /**
+   * Every version of the rules of the game, oldest first. The last one is in
+   * effect, the default rules are used until the first edit.
+   */
+  @Prop({ type: [GameRulesVersionSchema], required: false, default: [] })
+  rules: GameRulesVersion[];
+
+  /**
+   * The IANA time zone the game is played in, which decides when each day
+   * (and therefore each day's safety) starts
+   */
+  @Prop({ type: String, required: false, default: 'America/New_York' })
+  timeZone: string;
+
+  /**
+   * How long (in minutes) a victim has to confirm or dispute a kill claim
+   * before it is automatically confirmed
+   */
+  @Prop({ type: Number, required: false, default: 60 })
+  killClaimWindowMinutes: number;
+
+  /**
+   * How many times a single player may be revived, 0 disables revives
+   */
+  @Prop({ type: Number, required: false, default: 1 })
+  maxRevives: number;
+
+  /**
+   * How targets are assigned when players are matched
+   */
+  @Prop({
+    type: String,
+    enum: AssignmentStrategyName,
+    default: AssignmentStrategyName.RING,
+  })
+  assignmentStrategy: string;
+
+  /**
+   * How many teams hunt each team, when using the MULTI_HUNTER strategy
+   */
+  @Prop({ type: Number, required: false, default: 2 })
+  huntersPerTarget: number;
+
+  /**
+   * The start of the last day (in the game's time zone) whose safety players
+   * were told about
+   */
+  @Prop({ type: Date, required: false })
+  safetyAnnouncedFor?: Date;
+
+  /**
+   * The players who won the game, set once the game is COMPLETE
+   */
+  @Prop({
+    type: [mongoose.Schema.Types.ObjectId],
+    required: false,
+    default: [],
+  })
+  winners: MongoId[];
+
+  /**
+   * The final placement of every player, set once the game is COMPLETE
+   */
+  @Prop({ type: [GameStandingSchema], required: false, default: [] })
+  standings: GameStanding[];
+
+  /**
+   * The people listed on the last roster imported by the admins
+   */
+  @Prop({ type: [GameRosterEntrySchema], required: false, default: [] })
+  roster: GameRosterEntry[];
+
+  /**
+   * The time that the game was completed
+   */
+  @Prop({ type: Date, required: false })
+  completedAt: Date;
 }
 
 export const GameSchema = SchemaFactory.createForClass(Game);
@@ -1,30 +1,791 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, OnModuleInit } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Game } from './game.schema';
-import { Model } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import {
+  Game,
+  GameEvent,
+  GameRosterEntry,
+  GameRulesVersion,
+  GameSafety,
+  GameStatus,
+} from './game.schema';
+import { ClientSession, Model } from 'mongoose';
+import { isEmail } from 'class-validator';
 import { MongoId } from 'utils/mongo';
-import { GameNotFoundException } from 'utils/exceptions';
+import {
+  GameNotFoundException,
+  GameSettingsInvalidException,
+  GameStatusNotValidException,
+  UserNotGameAdminException,
+} from 'utils/exceptions';
 import { UserService } from 'user/user.service';
+import { GameLogService } from './log/game-log.service';
+import { GameLogType } from './log/game-log.schema';
+import { DEFAULT_RULES } from './default-rules';
+import { planRoster } from './roster';
+import { PlayerRole } from './player/player.schema';
+import { AssignmentStrategyName } from 'game/target/strategies';
+import { addZonedDays, isValidTimeZone, startOfZonedDay } from 'utils/time';
+
+import {
+  GameRulesVersionInfo,
+  GameSettings,
+  RosterPreview,
+  SafetyInfo,
+  SafetySchedule,
+} from 'shared/api/game';
+
+/**
+ * The longest the rules of a game can be, in characters
+ */
+const MAX_RULES_LENGTH = 50000;
 
 @Injectable()
-export class GameService {
+export class GameService implements OnModuleInit {
   constructor(
     @InjectModel(Game.name) private gameModel: Model<Game>,
     private usr: UserService,
+    private cfg: ConfigService,
+    private log: GameLogService,
   ) {}
 
-  async create(name: string, whitelistedEmails: string[]): Promise<Game> {
+  /**
+   * Safeties used to be plain strings, one per day starting at the start time.
+   * Convert any games still storing them that way into day long windows.
+   */
+  async onModuleInit() {
+    const legacy = await this.gameModel.collection
+      .find({ 'safeties.0': { $type: 'string' } })
+      .toArray();
+
+    for (const game of legacy) {
+      const timeZone = game.timeZone ?? 'America/New_York';
+      const safeties = (game.safeties as string[])
+        .map((description, day) => ({
+          description: description.trim(),
+          start: addZonedDays(game.startTime, day, timeZone),
+          end: addZonedDays(game.startTime, day + 1, timeZone),
+          zones: [],
+          items: [],
+        }))
+        .filter((safety) => safety.description !== '');
+
+      await this.gameModel.collection.updateOne(
+        { _id: game._id },
+        { $set: { safeties, timeZone } },
+      );
+    }
+  }
+
+  /**
+   * Create a new game in setup mode. Only site admins may create games.
+   * @param userId The user creating the game
+   * @param settings The initial settings for the game, name and start time
+   * are required
+   */
+  async create(
+    userId: MongoId,
+    settings: Partial<GameSettings>,
+  ): Promise<Game> {
+    if (!(await this.usr.isSiteAdmin(userId))) {
+      throw new UserNotGameAdminException(userId);
+    }
+
+    if (!settings.name || !settings.startTime) {
+      throw new GameSettingsInvalidException(
+        'A name and start time are required to create a game.',
+      );
+    }
+
     const game = new this.gameModel();
-    game.name = name;
-    game.whitelistedEmails = whitelistedEmails;
+    this.applySettings(game, settings);
     return game.save();
   }
 
-  async findById(gameId: MongoId): Promise<Game> {
-    const query = await this.gameModel.find({ _id: gameId });
+  async findById(gameId: MongoId, session?: ClientSession): Promise<Game> {
+    const query = await this.gameModel
+      .find({ _id: gameId })
+      .session(session ?? null);
     if (query.length == 0) {
       throw new GameNotFoundException(gameId);
     }
     return query[0];
   }
+
+  /**
+   * Find the game that is currently marked as active. Falls back to the
+   * `ACTIVE_GAME_ID` environment variable if no game has been marked.
+   */
+  async findActive(): Promise<Game> {
+    const game = await this.gameModel.findOne({ active: true }).exec();
+    if (game != null) {
+      return game;
+    }
+
+    return await this.findById(
+      new MongoId(this.cfg.get<string>('ACTIVE_GAME_ID')),
+    );
+  }
+
+  /**
+   * Find every event of a game that hasn't finished yet which starts between
+   * now and `until`, that players haven't been reminded about.
+   * @param until How far ahead to look
+   */
+  async findEventsToRemind(
+    until: Date,
+  ): Promise<{ game: Game; event: GameEvent }[]> {
+    const now = new Date();
+    const upcoming = {
+      time: { $gt: now, $lte: until },
+      remindedAt: { $exists: false },
+    };
+    const games = await this.gameModel
+      .find({
+        status: { $in: [GameStatus.SETUP, GameStatus.IN_PROGRESS] },
+        events: { $elemMatch: upcoming },
+      })
+      .exec();
+
+    return games.flatMap((game) =>
+      game.events
+        .filter((e) => !e.remindedAt && e.time > now && e.time <= until)
+        .map((event) => ({ game, event })),
+    );
+  }
+
+  /**
+   * Mark that players have been reminded about an event.
+   * @param gameId The game the event is part of
+   * @param eventId The event in question
+   * @returns False if they already had been (by someone else in the meantime)
+   */
+  async markEventReminded(gameId: MongoId, eventId: MongoId) {
+    const result = await this.gameModel
+      .updateOne(
+        {
+          _id: gameId,
+          events: {
+            $elemMatch: { _id: eventId, remindedAt: { $exists: false } },
+          },
+        },
+        { $set: { 'events.$.remindedAt': new Date() } },
+      )
+      .exec();
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Find every game in progress whose players haven't been told about today's
+   * safety yet. Days start at midnight in each game's time zone.
+   * @param now The current time
+   * @returns Each game with the start of its current day, and today's safety
+   * (or null if there isn't one)
+   */
+  async findSafetiesToAnnounce(
+    now = new Date(),
+  ): Promise<{ game: Game; day: Date; safety: SafetyInfo | null }[]> {
+    const games = await this.gameModel
+      .find({ status: GameStatus.IN_PROGRESS })
+      .exec();
+
+    const due = games
+      .map((game) => ({ game, day: startOfZonedDay(now, game.timeZone) }))
+      .filter(
+        ({ game, day }) =>
+          !game.safetyAnnouncedFor || game.safetyAnnouncedFor < day,
+      );
+
+    return await Promise.all(
+      due.map(async ({ game, day }) => {
+        const schedule = await this.getSafetySchedule(
+          new MongoId(game.id),
+          now,
+        );
+        return { game, day, safety: schedule.today };
+      }),
+    );
+  }
+
+  /**
+   * Mark that players have been told about the safety of a day.
+   * @param gameId The game in question
+   * @param day The start of the day, in the game's time zone
+   * @returns False if they already had been (by someone else in the meantime)
+   */
+  async markSafetyAnnounced(gameId: MongoId, day: Date) {
+    const result = await this.gameModel
+      .updateOne(
+        {
+          _id: gameId,
+          $or: [
+            { safetyAnnouncedFor: { $exists: false } },
+            { safetyAnnouncedFor: { $lt: day } },
+          ],
+        },
+        { $set: { safetyAnnouncedFor: day } },
+      )
+      .exec();
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Find every game that a user is a part of or could join: games they are
+   * playing in or are an admin of, games still in setup that they are
+   * whitelisted for (or that are open to anyone), and the active game.
+   * @param userId The user in question
+   * @param playerGameIds The games the user is registered as a player in
+   */
+  async findForUser(
+    userId: MongoId,
+    playerGameIds: MongoId[],
+  ): Promise<Game[]> {
+    const user = await this.usr.findById(userId);
+    const email = user.email.toLowerCase();
+    return await this.gameModel
+      .find({
+        $or: [
+          { _id: { $in: playerGameIds } },
+          { admins: email },
+          { status: GameStatus.SETUP, whitelistedEmails: email },
+          { status: GameStatus.SETUP, whitelistedEmails: { $size: 0 } },
+          { active: true },
+        ],
+      })
+      .exec();
+  }
+
+  /**
+   * Return the editable settings of a game. Only admins of the game (or site
+   * admins) may view these.
+   * @param userId The user requesting the settings
+   * @param gameId The game in question
+   */
+  async getSettings(userId: MongoId, gameId: MongoId): Promise<GameSettings> {
+    const game = await this.findById(gameId);
+    await this.assertAdmin(userId, game);
+    return this.toSettings(game);
+  }
+
+  /**
+   * Update any of the editable settings of a game. Only admins of the game
+   * (or site admins) may do this.
+   * @param userId The user making the change
+   * @param gameId The game in question
+   * @param settings The settings to change, anything missing is left as is
+   */
+  async update(
+    userId: MongoId,
+    gameId: MongoId,
+    settings: Partial<GameSettings>,
+  ): Promise<GameSettings> {
+    const game = await this.findById(gameId);
+    await this.assertAdmin(userId, game);
+
+    if (
+      game.status === GameStatus.COMPLETE ||
+      game.status === GameStatus.CANCELLED
+    ) {
+      throw new GameStatusNotValidException(gameId, game.status);
+    }
+
+    this.applySettings(game, settings);
+    await game.save();
+    return this.toSettings(game);
+  }
+
+  /**
+   * Mark a game that has not been completed yet as cancelled. Only admins of
+   * the game (or site admins) may do this. Leaves its targets and kill claims
+   * alone, see `TargetService.cancelGame` for cancelling a game entirely.
+   * @param userId The user cancelling the game
+   * @param gameId The game in question
+   * @param session The transaction to take part in, if any.
+   */
+  async cancel(userId: MongoId, gameId: MongoId, session?: ClientSession) {
+    const game = await this.findById(gameId, session);
+    await this.assertAdmin(userId, game);
+
+    if (
+      game.status === GameStatus.COMPLETE ||
+      game.status === GameStatus.CANCELLED
+    ) {
+      throw new GameStatusNotValidException(gameId, game.status);
+    }
+
+    game.status = GameStatus.CANCELLED;
+    await game.save({ session });
+  }
+
+  /**
+   * Mark a game as the active game, the one that is shown to users when they
+   * log in. Only site admins may do this.
+   * @param userId The user making the change
+   * @param gameId The game to make active
+   */
+  async setActive(userId: MongoId, gameId: MongoId) {
+    if (!(await this.usr.isSiteAdmin(userId))) {
+      throw new UserNotGameAdminException(userId);
+    }
+
+    const game = await this.findById(gameId);
+    await this.gameModel
+      .updateMany({ active: true }, { $set: { active: false } })
+      .exec();
+    game.active = true;
+    await game.save();
+  }
+
+  /**
+   * Work out which safeties apply today and tomorrow, and which one is in
+   * effect right now. Days start at midnight in the game's time zone.
+   * @param gameId The game in question
+   * @param now The time to compute the schedule for
+   */
+  async getSafetySchedule(
+    gameId: MongoId,
+    now = new Date(),
+  ): Promise<SafetySchedule> {
+    const game = await this.findById(gameId);
+    const timeZone = game.timeZone;
+
+    const today = startOfZonedDay(now, timeZone);
+    const tomorrow = addZonedDays(now, 1, timeZone);
+    const dayAfter = addZonedDays(now, 2, timeZone);
+
+    // The first safety (by start) that overlaps the window at all
+    const sorted = [...game.safeties].sort(
+      (a, b) => a.start.getTime() - b.start.getTime(),
+    );
+    const during = (from: Date, to: Date) =>
+      sorted.find((s) => s.start < to && s.end > from);
+
+    const toInfo = (safety?: GameSafety) =>
+      safety ? this.toSafetyInfo(safety) : null;
+
+    return {
+      timeZone,
+      active: toInfo(sorted.find((s) => s.start <= now && s.end > now)),
+      today: toInfo(during(today, tomorrow)),
+      tomorrow: toInfo(during(tomorrow, dayAfter)),
+      switchesAt: tomorrow.toISOString(),
+    };
+  }
+
+  toSafetyInfo(safety: GameSafety): SafetyInfo {
+    return {
+      description: safety.description,
+      start: safety.start.toISOString(),
+      end: safety.end.toISOString(),
+      zones: safety.zones,
+      items: safety.items,
+    };
+  }
+
+  /**
+   * The rules of a game in effect right now, or the default rules if its
+   * admins haven't written any.
+   * @param gameId The game in question
+   */
+  async getRules(gameId: MongoId): Promise<GameRulesVersionInfo> {
+    const game = await this.findById(gameId);
+    const current = game.rules[game.rules.length - 1];
+    if (!current) {
+      return { version: 0, content: DEFAULT_RULES, summary: '' };
+    }
+
+    return (await this.toRulesInfo([current]))[0];
+  }
+
+  /**
+   * ADMIN ONLY: Every version of the rules of a game, newest first.
+   * @param userId The admin asking
+   * @param gameId The game in question
+   */
+  async getRulesHistory(
+    userId: MongoId,
+    gameId: MongoId,
+  ): Promise<GameRulesVersionInfo[]> {
+    const game = await this.findById(gameId);
+    await this.assertAdmin(userId, game);
+    return await this.toRulesInfo([...game.rules].reverse());
+  }
+
+  /**
+   * ADMIN ONLY: Replace the rules of a game with a new version. Players are
+   * asked to read them again.
+   * @param userId The admin editing them
+   * @param gameId The game in question
+   * @param content The full new rules, in markdown
+   * @param summary What changed, shown to players
+   */
+  async updateRules(
+    userId: MongoId,
+    gameId: MongoId,
+    content: string,
+    summary = '',
+  ): Promise<GameRulesVersionInfo> {
+    const game = await this.findById(gameId);
+    await this.assertAdmin(userId, game);
+
+    content = (content ?? '').trim();
+    if (content === '') {
+      throw new GameSettingsInvalidException('The rules cannot be empty.');
+    }
+    if (content.length > MAX_RULES_LENGTH) {
+      throw new GameSettingsInvalidException(
+        `The rules can be at most ${MAX_RULES_LENGTH} characters.`,
+      );
+    }
+
+    const version = game.rules.length + 1;
+    game.rules.push({
+      version,
+      content,
+      summary: (summary ?? '').trim(),
+      editedBy: userId,
+      editedAt: new Date(),
+    } as GameRulesVersion);
+    await game.save();
+
+    await this.log.record({
+      gameId: gameId,
+      type: GameLogType.RULES_UPDATED,
+      actorId: userId,
+      before: { version: version - 1 },
+      after: { version },
+      details: summary,
+    });
+
+    return await this.getRules(gameId);
+  }
+
+  /**
+   * ADMIN ONLY: Show what importing a roster would change, without changing
+   * anything.
+   * @param userId The admin importing it
+   * @param gameId The game in question
+   * @param csv The contents of the roster file
+   */
+  async previewRoster(
+    userId: MongoId,
+    gameId: MongoId,
+    csv: string,
+  ): Promise<RosterPreview> {
+    const game = await this.findById(gameId);
+    await this.assertAdmin(userId, game);
+    return await this.planRoster(userId, game, csv);
+  }
+
+  /**
+   * ADMIN ONLY: Replace the whitelist (and admins, if the roster lists them)
+   * with the people on a roster. Teams on the roster are paired up as their
+   * players register.
+   * @param userId The admin importing it
+   * @param gameId The game in question
+   * @param csv The contents of the roster file
+   */
+  async importRoster(
+    userId: MongoId,
+    gameId: MongoId,
+    csv: string,
+  ): Promise<RosterPreview> {
+    const game = await this.findById(gameId);
+    await this.assertAdmin(userId, game);
+
+    if (
+      game.status === GameStatus.COMPLETE ||
+      game.status === GameStatus.CANCELLED
+    ) {
+      throw new GameStatusNotValidException(gameId, game.status);
+    }
+
+    const plan = await this.planRoster(userId, game, csv);
+    if (plan.errors.length !== 0) {
+      throw new GameSettingsInvalidException(plan.errors.join(' '));
+    }
+
+    const before = {
+      whitelisted: game.whitelistedEmails.length,
+      admins: game.admins.length,
+    };
+    game.whitelistedEmails = plan.entries
+      .filter((e) => e.role === PlayerRole.PLAYER)
+      .map((e) => e.email);
+    game.admins = [
+      ...game.admins.filter((email) => !plan.admins.removed.includes(email)),
+      ...plan.admins.added,
+    ];
+    game.roster = plan.entries
+      .filter((e) => e.role === PlayerRole.PLAYER)
+      .map(
+        (e) =>
+          ({
+            email: e.email,
+            name: e.name,
+            dorm: e.dorm,
+            team: e.team,
+          } as GameRosterEntry),
+      );
+    await game.save();
+
+    await this.log.record({
+      gameId: gameId,
+      type: GameLogType.ROSTER_IMPORTED,
+      actorId: userId,
+      before,
+      after: {
+        whitelisted: game.whitelistedEmails.length,
+        admins: game.admins.length,
+      },
+    });
+
+    return plan;
+  }
+
+  /**
+   * Work out what a roster would change, stopping admins from removing
+   * themselves (which they could not undo).
+   */
+  private async planRoster(
+    userId: MongoId,
+    game: Game,
+    csv: string,
+  ): Promise<RosterPreview> {
+    const plan = planRoster(game, csv ?? '');
+
+    const user = await this.usr.findById(userId);
+    if (
+      plan.admins.removed.includes(user.email.toLowerCase()) &&
+      !(await this.usr.isSiteAdmin(userId))
+    ) {
+      plan.errors.push('You cannot remove yourself as an admin.');
+    }
+    return plan;
+  }
+
+  private async toRulesInfo(
+    versions: GameRulesVersion[],
+  ): Promise<GameRulesVersionInfo[]> {
+    if (versions.length === 0) {
+      return [];
+    }
+
+    const users = await this.usr.findByIds(versions.map((v) => v.editedBy));
+    const names: { [key: string]: string } = {};
+    users.forEach((u) => (names[u.id] = `${u.firstName} ${u.surname}`));
+
+    return versions.map((v) => ({
+      version: v.version,
+      content: v.content,
+      summary: v.summary,
+      editedBy: names[v.editedBy.toString()] ?? 'Unknown',
+      editedAt: v.editedAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Make sure the user is either an admin of the game, or a site admin.
+   */
+  private async assertAdmin(userId: MongoId, game: Game) {
+    const user = await this.usr.findById(userId);
+    if (game.admins.includes(user.email.toLowerCase())) {
+      return;
+    }
+
+    if (!(await this.usr.isSiteAdmin(userId))) {
+      throw new UserNotGameAdminException(userId);
+    }
+  }
+
+  /**
+   * Validate and copy any provided settings onto the game. Settings come
+   * straight from the request body, so their types are checked too.
+   */
+  private applySettings(game: Game, settings: Partial<GameSettings>) {
+    if (settings.name !== undefined) {
+      const name = this.parseString(settings.name, 'name');
+      if (name === '') {
+        throw new GameSettingsInvalidException('The name cannot be empty.');
+      }
+      game.name = name;
+    }
+
+    if (settings.startTime !== undefined) {
+      game.startTime = this.parseDate(settings.startTime, 'start time');
+    }
+
+    if (settings.admins !== undefined) {
+      game.admins = this.parseEmails(settings.admins, 'admins');
+    }
+
+    if (settings.whitelistedEmails !== undefined) {
+      game.whitelistedEmails = this.parseEmails(
+        settings.whitelistedEmails,
+        'whitelisted emails',
+      );
+    }
+
+    if (settings.events !== undefined) {
+      game.events = this.parseArray(settings.events, 'events').map((e) => {
+        const title = this.parseString(e?.title ?? '', 'event title');
+        if (title === '') {
+          throw new GameSettingsInvalidException('Events must have a title.');
+        }
+        const time = this.parseDate(e.time, `time of event '${title}'`);
+
+        // Don't remind players about an event again just because the other
+        // events were edited
+        const existing = game.events?.find(
+          (old) => old.title === title && old.time.getTime() === time.getTime(),
+        );
+        return { title, time, remindedAt: existing?.remindedAt } as GameEvent;
+      });
+    }
+
+    if (settings.timeZone !== undefined) {
+      if (
+        typeof settings.timeZone !== 'string' ||
+        !isValidTimeZone(settings.timeZone)
+      ) {
+        throw new GameSettingsInvalidException(
+          `Unknown time zone '${settings.timeZone}'.`,
+        );
+      }
+      game.timeZone = settings.timeZone;
+    }
+
+    if (settings.safeties !== undefined) {
+      const safeties = this.parseArray(settings.safeties, 'safeties');
+      game.safeties = safeties.map((s) => {
+        const description = this.parseString(
+          s?.description ?? '',
+          'safety description',
+        );
+        if (description === '') {
+          throw new GameSettingsInvalidException(
+            'Safeties must have a description.',
+          );
+        }
+        const field = `safety '${description}'`;
+        const start = this.parseDate(s.start, `start of ${field}`);
+        const end = this.parseDate(s.end, `end of ${field}`);
+        if (end <= start) {
+          throw new GameSettingsInvalidException(
+            `The ${field} must end after it starts.`,
+          );
+        }
+        return {
+          description,
+          start,
+          end,
+          zones: this.parseList(s.zones, `zones of ${field}`),
+          items: this.parseList(s.items, `items of ${field}`),
+        } as GameSafety;
+      });
+    }
+
+    if (settings.killClaimWindowMinutes !== undefined) {
+      const minutes = Number(settings.killClaimWindowMinutes);
+      if (!Number.isInteger(minutes) || minutes <= 0) {
+        throw new GameSettingsInvalidException(
+          'The kill claim window must be a positive number of minutes.',
+        );
+      }
+      game.killClaimWindowMinutes = minutes;
+    }
+
+    if (settings.maxRevives !== undefined) {
+      const revives = Number(settings.maxRevives);
+      if (!Number.isInteger(revives) || revives < 0) {
+        throw new GameSettingsInvalidException(
+          'The maximum revives must be a whole number, at least 0.',
+        );
+      }
+      game.maxRevives = revives;
+    }
+
+    if (settings.assignmentStrategy !== undefined) {
+      const strategies = Object.values(AssignmentStrategyName) as string[];
+      if (!strategies.includes(settings.assignmentStrategy)) {
+        throw new GameSettingsInvalidException(
+          `Unknown assignment strategy '${settings.assignmentStrategy}'.`,
+        );
+      }
+      game.assignmentStrategy = settings.assignmentStrategy;
+    }
+
+    if (settings.huntersPerTarget !== undefined) {
+      const hunters = Number(settings.huntersPerTarget);
+      if (!Number.isInteger(hunters) || hunters <= 0) {
+        throw new GameSettingsInvalidException(
+          'The hunters per target must be a positive whole number.',
+        );
+      }
+      game.huntersPerTarget = hunters;
+    }
+  }
+
+  private parseDate(value: string, field: string): Date {
+    const date = new Date(value);
+    if (typeof value !== 'string' || isNaN(date.getTime())) {
+      throw new GameSettingsInvalidException(`The ${field} is not a date.`);
+    }
+    return date;
+  }
+
+  private parseString(value: unknown, field: string): string {
+    if (typeof value !== 'string') {
+      throw new GameSettingsInvalidException(`The ${field} must be text.`);
+    }
+    return value.trim();
+  }
+
+  private parseArray<T>(values: T[], field: string): T[] {
+    if (!Array.isArray(values)) {
+      throw new GameSettingsInvalidException(`The ${field} must be a list.`);
+    }
+    return values;
+  }
+
+  private parseEmails(emails: string[], field: string): string[] {
+    const cleaned = this.parseList(emails, field).map((email) =>
+      email.toLowerCase(),
+    );
+    const invalid = cleaned.filter((email) => !isEmail(email));
+    if (invalid.length !== 0) {
+      throw new GameSettingsInvalidException(
+        `Invalid emails: ${invalid.join(', ')}`,
+      );
+    }
+    return Array.from(new Set(cleaned));
+  }
+
+  private parseList(values: string[] | undefined, field: string): string[] {
+    return this.parseArray(values ?? [], field)
+      .map((v) => this.parseString(v, field))
+      .filter((v) => v !== '');
+  }
+
+  private toSettings(game: Game): GameSettings {
+    return {
+      gameId: game.id,
+      name: game.name,
+      status: game.status,
+      active: game.active,
+      startTime: game.startTime.toISOString(),
+      admins: game.admins,
+      whitelistedEmails: game.whitelistedEmails,
+      events: game.events.map((e) => ({
+        title: e.title,
+        time: e.time.toISOString(),
+      })),
+      safeties: game.safeties.map((s) => this.toSafetyInfo(s)),
+      timeZone: game.timeZone,
+      killClaimWindowMinutes: game.killClaimWindowMinutes,
+      maxRevives: game.maxRevives,
+      assignmentStrategy: game.assignmentStrategy,
+      huntersPerTarget: game.huntersPerTarget,
+    };
+  }
 }
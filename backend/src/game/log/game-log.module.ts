@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { GameLogEntry, GameLogEntrySchema } from './game-log.schema';
+import { GameLogService } from './game-log.service';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: GameLogEntry.name, schema: GameLogEntrySchema },
+    ]),
+  ],
+  providers: [GameLogService],
+  exports: [GameLogService],
+})
+export class GameLogModule {}
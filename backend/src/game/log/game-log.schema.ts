@@ -0,0 +1,93 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import mongoose, { HydratedDocument } from 'mongoose';
+import { MongoId } from 'utils/mongo';
+
+export type GameLogEntryDocument = HydratedDocument<GameLogEntry>;
+
+/**
+ * The kind of state change a log entry records
+ */
+export enum GameLogType {
+  PLAYER_REGISTERED = 'PLAYER_REGISTERED',
+  INVITE_SENT = 'INVITE_SENT',
+  INVITE_ACCEPTED = 'INVITE_ACCEPTED',
+  INVITE_REJECTED = 'INVITE_REJECTED',
+  TEAM_PAIRED = 'TEAM_PAIRED',
+  TARGETS_MATCHED = 'TARGETS_MATCHED',
+  TARGETS_REPAIRED = 'TARGETS_REPAIRED',
+  KILL = 'KILL',
+  KILL_UNDONE = 'KILL_UNDONE',
+  KILL_CLAIMED = 'KILL_CLAIMED',
+  KILL_DISPUTED = 'KILL_DISPUTED',
+  KILL_CLAIM_REJECTED = 'KILL_CLAIM_REJECTED',
+  SAFETY_GRANTED = 'SAFETY_GRANTED',
+  SAFETY_REVOKED = 'SAFETY_REVOKED',
+  SAFETY_EXPIRED = 'SAFETY_EXPIRED',
+  REVIVED = 'REVIVED',
+  DISQUALIFIED = 'DISQUALIFIED',
+  GAME_COMPLETED = 'GAME_COMPLETED',
+  ANNOUNCEMENT_POSTED = 'ANNOUNCEMENT_POSTED',
+  ANNOUNCEMENT_UPDATED = 'ANNOUNCEMENT_UPDATED',
+  RULES_UPDATED = 'RULES_UPDATED',
+  EVIDENCE_UPLOADED = 'EVIDENCE_UPLOADED',
+  ROSTER_IMPORTED = 'ROSTER_IMPORTED',
+}
+
+/**
+ * A single state change within a game. Entries are only ever inserted, never
+ * updated or removed, so the log can be used to reconstruct what happened.
+ */
+@Schema()
+export class GameLogEntry extends mongoose.Document<mongoose.Schema.Types.ObjectId> {
+  /**
+   * The game that this change happened within
+   */
+  @Prop({ type: mongoose.Schema.Types.ObjectId, required: true, index: true })
+  gameId: MongoId;
+
+  @Prop({ type: String, enum: GameLogType, required: true })
+  type: string;
+
+  /**
+   * The user who caused the change, empty if it was done automatically (e.g.
+   * a kill claim running out its window)
+   */
+  @Prop({ type: mongoose.Schema.Types.ObjectId, required: false })
+  actorId?: MongoId;
+
+  /**
+   * The players affected by the change
+   */
+  @Prop({
+    type: [mongoose.Schema.Types.ObjectId],
+    required: false,
+    default: [],
+  })
+  playerIds: MongoId[];
+
+  /**
+   * The relevant state before the change
+   */
+  @Prop({ type: mongoose.Schema.Types.Mixed, required: false })
+  before?: Record<string, unknown>;
+
+  /**
+   * The relevant state after the change
+   */
+  @Prop({ type: mongoose.Schema.Types.Mixed, required: false })
+  after?: Record<string, unknown>;
+
+  /**
+   * Any free text that goes along with the change, such as a reason
+   */
+  @Prop({ type: String, required: false })
+  details?: string;
+
+  /**
+   * When the change happened
+   */
+  @Prop({ type: Date, required: true, default: Date.now })
+  createdAt: Date;
+}
+
+export const GameLogEntrySchema = SchemaFactory.createForClass(GameLogEntry);
@@ -0,0 +1,119 @@
+import { EventEmitter } from 'events';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { GameLogService } from './game-log.service';
+import { GameLogEntry, GameLogType } from './game-log.schema';
+import { MongoId } from 'utils/mongo';
+import { ClientSession } from 'mongoose';
+
+describe('GameLogService', () => {
+  let service: GameLogService;
+  const model = {
+    create: jest.fn(),
+    find: jest.fn(),
+    countDocuments: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GameLogService,
+        { provide: getModelToken(GameLogEntry.name), useValue: model },
+      ],
+    }).compile();
+
+    service = module.get<GameLogService>(GameLogService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should never fail the change being logged', async () => {
+    model.create.mockRejectedValue(new Error('database is down'));
+
+    await expect(
+      service.record({
+        gameId: new MongoId('6500000000000000000000a1'),
+        type: GameLogType.KILL,
+      }),
+    ).resolves.toBeUndefined();
+    expect(model.create).toHaveBeenCalled();
+  });
+
+  it('should filter and page the log', async () => {
+    const gameId = new MongoId('6500000000000000000000a1');
+    const playerId = new MongoId('6500000000000000000000b2');
+    const query = {
+      sort: jest.fn().mockReturnThis(),
+      skip: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      exec: async () => [],
+    };
+    model.find.mockReturnValue(query);
+    model.countDocuments.mockReturnValue({ exec: async () => 12 });
+
+    const result = await service.find(
+      gameId,
+      { types: [GameLogType.KILL], playerId: playerId },
+      2,
+      5,
+    );
+
+    expect(model.find).toHaveBeenCalledWith({
+      gameId: gameId,
+      type: { $in: [GameLogType.KILL] },
+      playerIds: playerId,
+    });
+    expect(query.skip).toHaveBeenCalledWith(10);
+    expect(query.limit).toHaveBeenCalledWith(5);
+    expect(result.total).toBe(12);
+  });
+
+  it('should publish entries once they are saved', async () => {
+    const entry = { id: 'e1', type: GameLogType.KILL };
+    model.create.mockResolvedValue([entry]);
+    const published = jest.fn();
+    service.entries.subscribe(published);
+
+    await service.record({
+      gameId: new MongoId('6500000000000000000000a1'),
+      type: GameLogType.KILL,
+    });
+
+    expect(published).toHaveBeenCalledWith(entry);
+  });
+
+  it('should only publish entries from committed transactions', async () => {
+    const committed = { id: 'e1', _id: 'e1', type: GameLogType.KILL };
+    const retried = { id: 'e2', _id: 'e2', type: GameLogType.KILL };
+    model.create
+      .mockResolvedValueOnce([retried])
+      .mockResolvedValueOnce([committed]);
+    model.find.mockReturnValue({
+      select: () => ({ exec: async () => [committed] }),
+    });
+    const published = jest.fn();
+    service.entries.subscribe(published);
+
+    const session = Object.assign(new EventEmitter(), {
+      inTransaction: () => true,
+      transaction: { isCommitted: false },
+    }) as unknown as ClientSession;
+    const record = {
+      gameId: new MongoId('6500000000000000000000a1'),
+      type: GameLogType.KILL,
+    };
+    await service.record(record, session);
+    await service.record(record, session);
+    expect(published).not.toHaveBeenCalled();
+
+    Object.assign(session.transaction, { isCommitted: true });
+    session.emit('ended', session);
+    await new Promise(process.nextTick);
+
+    expect(published).toHaveBeenCalledTimes(1);
+    expect(published).toHaveBeenCalledWith(committed);
+  });
+});
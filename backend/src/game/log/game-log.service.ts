@@ -0,0 +1,157 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientSession, FilterQuery, Model } from 'mongoose';
+import { Observable, Subject } from 'rxjs';
+import { GameLogEntry, GameLogType } from './game-log.schema';
+
+// Utilities
+import { MongoId } from 'utils/mongo';
+
+/**
+ * A state change to be written to the log
+ */
+export type GameLogRecord = {
+  gameId: MongoId;
+  type: GameLogType;
+  actorId?: MongoId;
+  playerIds?: MongoId[];
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  details?: string;
+};
+
+/**
+ * Ways of narrowing down the log when reading it
+ */
+export type GameLogFilter = {
+  types?: string[];
+  playerId?: MongoId;
+  actorId?: MongoId;
+  since?: Date;
+  until?: Date;
+};
+
+@Injectable()
+export class GameLogService {
+  private readonly logger = new Logger(GameLogService.name);
+  private readonly recorded = new Subject<GameLogEntry>();
+
+  /**
+   * Entries recorded in a transaction, waiting for it to finish
+   */
+  private readonly uncommitted = new WeakMap<ClientSession, GameLogEntry[]>();
+
+  /**
+   * Every entry written to the log, as soon as the change it describes has
+   * been saved (so only once its transaction commits, if it has one)
+   */
+  readonly entries: Observable<GameLogEntry> = this.recorded.asObservable();
+
+  constructor(
+    @InjectModel(GameLogEntry.name) private model: Model<GameLogEntry>,
+  ) {}
+
+  /**
+   * Append an entry to the log of a game. Failing to write the log never
+   * fails the change that is being logged.
+   * @param record The change that happened
+   * @param session The transaction the change happened in, if any, so the
+   * entry is only kept if the change is
+   */
+  async record(record: GameLogRecord, session?: ClientSession) {
+    let entry: GameLogEntry;
+    try {
+      [entry] = await this.model.create(
+        [{ ...record, createdAt: new Date() }],
+        { session },
+      );
+    } catch (e) {
+      this.logger.error(`Failed to log ${record.type}: ${e}`);
+      return;
+    }
+
+    if (session?.inTransaction()) {
+      this.publishOnCommit(entry, session);
+    } else {
+      this.recorded.next(entry);
+    }
+  }
+
+  /**
+   * Publish an entry once its transaction has committed, dropping it if the
+   * transaction is aborted instead.
+   */
+  private publishOnCommit(entry: GameLogEntry, session: ClientSession) {
+    const pending = this.uncommitted.get(session);
+    if (pending) {
+      pending.push(entry);
+      return;
+    }
+
+    this.uncommitted.set(session, [entry]);
+    session.once('ended', async () => {
+      const entries = this.uncommitted.get(session) ?? [];
+      this.uncommitted.delete(session);
+      if (!session.transaction.isCommitted) {
+        return;
+      }
+
+      // Retried transactions record their entries again, only publish the
+      // ones from the attempt that was actually committed
+      try {
+        const saved = await this.model
+          .find({ _id: { $in: entries.map((e) => e._id) } })
+          .select('_id')
+          .exec();
+        const savedIds = new Set(saved.map((e) => e.id));
+        entries
+          .filter((e) => savedIds.has(e.id))
+          .forEach((e) => this.recorded.next(e));
+      } catch (e) {
+        this.logger.error(`Failed to publish log entries: ${e}`);
+      }
+    });
+  }
+
+  /**
+   * Read a page of the log of a game, newest first.
+   * @param gameId The game in question
+   * @param filter Which entries to include
+   * @param page The page to read, starting at 0
+   * @param pageSize How many entries are on each page
+   */
+  async find(
+    gameId: MongoId,
+    filter: GameLogFilter,
+    page: number,
+    pageSize: number,
+  ): Promise<{ entries: GameLogEntry[]; total: number }> {
+    const query: FilterQuery<GameLogEntry> = { gameId: gameId };
+    if (filter.types && filter.types.length !== 0) {
+      query.type = { $in: filter.types };
+    }
+    if (filter.playerId) {
+      query.playerIds = filter.playerId;
+    }
+    if (filter.actorId) {
+      query.actorId = filter.actorId;
+    }
+    if (filter.since || filter.until) {
+      query.createdAt = {
+        ...(filter.since ? { $gte: filter.since } : {}),
+        ...(filter.until ? { $lte: filter.until } : {}),
+      };
+    }
+
+    const [entries, total] = await Promise.all([
+      this.model
+        .find(query)
+        .sort({ createdAt: -1, _id: -1 })
+        .skip(page * pageSize)
+        .limit(pageSize)
+        .exec(),
+      this.model.countDocuments(query).exec(),
+    ]);
+    return { entries, total };
+  }
+}
@@ -1,16 +1,28 @@
-import { Controller, Post, Query, Req, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
 import { JwtAuthGuard } from 'auth/guards';
 import { getUserIdFromRequest } from 'utils/request';
 import { PlayerService } from './player.service';
+import { SafetyGrantService } from './safety-grant/safety-grant.service';
 import { Request } from 'express';
 import { MongoId } from 'utils/mongo';
 import { QueryRequired } from 'utils/decorators';
-import { LeaderboardPlayerInfo } from 'shared/api/game/player';
+import { LeaderboardPlayerInfo, SafetyGrantInfo } from 'shared/api/game/player';
 
 
 @Controller('game/player')
 export class PlayerController {
-  constructor(private plyr: PlayerService) {}
+  constructor(
+    private plyr: PlayerService,
+    private safety: SafetyGrantService,
+  ) {}
 
   @Post('register')
   @UseGuards(JwtAuthGuard)
@@ -120,4 +132,61 @@ async rejectInvite(
     const info = await this.plyr.getCurrentPlayerInfo(userId, gameId);
     return info;
   }
+
+  /**
+   * ADMIN ONLY: Make a player safe until a given time.
+   */
+  @Post('safety/grant')
+  @UseGuards(JwtAuthGuard)
+  async grantSafety(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @QueryRequired('playerId') playerIdQuery: string,
+    @Body('until') until: string,
+    @Body('reason') reason: string,
+  ): Promise<SafetyGrantInfo> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    const playerId = new MongoId(playerIdQuery);
+    return await this.safety.grant(
+      userId,
+      gameId,
+      playerId,
+      new Date(until),
+      reason ?? '',
+    );
+  }
+
+  /**
+   * ADMIN ONLY: End a player's safety early.
+   */
+  @Post('safety/revoke')
+  @UseGuards(JwtAuthGuard)
+  async revokeSafety(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @QueryRequired('playerId') playerIdQuery: string,
+  ) {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    const playerId = new MongoId(playerIdQuery);
+    await this.safety.revoke(userId, gameId, playerId);
+    return { msg: 'success' };
+  }
+
+  /**
+   * ADMIN ONLY: Every safety grant in the game, optionally for one player.
+   */
+  @Get('safety/history')
+  @UseGuards(JwtAuthGuard)
+  async safetyHistory(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @Query('playerId') playerIdQuery?: string,
+  ): Promise<SafetyGrantInfo[]> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    const playerId = playerIdQuery ? new MongoId(playerIdQuery) : undefined;
+    return await this.safety.fetchHistory(userId, gameId, playerId);
+  }
 }
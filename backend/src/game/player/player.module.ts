@@ -6,16 +6,26 @@ import { UserModule } from 'user/user.module';
 import { Player, PlayerSchema } from './player.schema';
 import { MongooseModule } from '@nestjs/mongoose';
 import { ConfigModule } from '@nestjs/config';
+import { GameLogModule } from 'game/log/game-log.module';
+import {
+  SafetyGrant,
+  SafetyGrantSchema,
+} from './safety-grant/safety-grant.schema';
+import { SafetyGrantService } from './safety-grant/safety-grant.service';
 
 @Module({
   imports: [
     forwardRef(() => GameModule),
     UserModule,
-    MongooseModule.forFeature([{ name: Player.name, schema: PlayerSchema }]),
+    MongooseModule.forFeature([
+      { name: Player.name, schema: PlayerSchema },
+      { name: SafetyGrant.name, schema: SafetyGrantSchema },
+    ]),
     ConfigModule,
+    GameLogModule,
   ],
   controllers: [PlayerController],
-  providers: [PlayerService],
-  exports: [PlayerService],
+  providers: [PlayerService, SafetyGrantService],
+  exports: [PlayerService, SafetyGrantService],
 })
 export class PlayerModule {}
@@ -38,7 +38,11 @@ export enum PlayerRole {
   NONE = 'NONE',
 }
 
-@Schema()
+/**
+ * Saving a player that changed since it was read fails, rather than silently
+ * overwriting the other change
+ */
+@Schema({ optimisticConcurrency: true })
 export class Player extends mongoose.Document<mongoose.Schema.Types.ObjectId> {
   /**
    * The user that this player was created by.
@@ -81,6 +85,37 @@ export class Player extends mongoose.Document<mongoose.Schema.Types.ObjectId> {
    */
   @Prop({ type: String, enum: PlayerStatus, default: PlayerStatus.ALIVE })
   status: string;
+
+  /**
+   * Why the player was disqualified, only set once they are DISQUALIFIED
+   */
+  @Prop({ type: String, required: false })
+  disqualifiedReason?: string;
+
+  /**
+   * The admin user who disqualified the player
+   */
+  @Prop({ type: mongoose.Schema.Types.ObjectId, required: false })
+  disqualifiedBy?: MongoId;
+
+  /**
+   * When the player was disqualified
+   */
+  @Prop({ type: Date, required: false })
+  disqualifiedAt?: Date;
+
+  /**
+   * When the player last looked at the game's announcements, anything posted
+   * since is unread
+   */
+  @Prop({ type: Date, required: false })
+  announcementsReadAt?: Date;
+
+  /**
+   * The latest version of the game's rules the player has said they've read
+   */
+  @Prop({ type: Number, required: false, default: 0 })
+  rulesAcknowledgedVersion: number;
 }
 
 export const PlayerSchema = SchemaFactory.createForClass(Player);
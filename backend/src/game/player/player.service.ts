@@ -5,8 +5,11 @@ import { UserService } from 'user/user.service';
 import { MongoId } from 'utils/mongo';
 import { Player, PlayerRole, PlayerStatus } from './player.schema';
 import { User } from 'user/user.schema';
-import { Model } from 'mongoose';
+import { ClientSession, Model } from 'mongoose';
 import { GameStatus } from 'game/game.schema';
+import { GameLogService } from 'game/log/game-log.service';
+import { GameLogType } from 'game/log/game-log.schema';
+import { rosterTeams } from 'game/roster';
 import {
   EmailNotWhitelistedException,
   GameStatusNotValidException,
@@ -21,6 +24,7 @@ export class PlayerService {
     @InjectModel(Player.name) private model: Model<Player>,
     private gme: GameService,
     private usr: UserService,
+    private log: GameLogService,
   ) {}
 
   /**
@@ -39,7 +43,7 @@ export class PlayerService {
 
     // If the game has listed a bunch of emails, make sure to check our email is there
     if (game.whitelistedEmails && game.whitelistedEmails.length != 0) {
-      if (!game.whitelistedEmails.includes(user.email)) {
+      if (!game.whitelistedEmails.includes(user.email.toLowerCase())) {
         throw new EmailNotWhitelistedException(userId, gameId);
       }
     }
@@ -49,7 +53,80 @@ export class PlayerService {
       const player = new this.model();
       player.gameId = gameId;
       player.userId = userId;
-      player.save();
+      // They read the rules as they are when signing up
+      player.rulesAcknowledgedVersion = game.rules.length;
+      await player.save();
+
+      await this.log.record({
+        gameId: gameId,
+        type: GameLogType.PLAYER_REGISTERED,
+        actorId: userId,
+        playerIds: [new MongoId(player.id)],
+      });
+
+      // Pick up whatever the admins listed about them on the roster
+      const email = user.email.toLowerCase();
+      const entry = game.roster?.find((e) => e.email === email);
+      if (entry?.dorm && !user.dorm) {
+        user.dorm = entry.dorm;
+        await user.save();
+      }
+      if (entry?.team) {
+        await this.pairRosterTeams(gameId, email);
+      }
+    }
+  }
+
+  /**
+   * Make partners of the people a game's roster puts on a team together, once
+   * both have registered and neither has found a partner of their own. Teams
+   * can only change before the game starts.
+   * @param gameId The game in question
+   * @param email Only pair up the team of the person with this email, if given
+   */
+  async pairRosterTeams(gameId: MongoId, email?: string) {
+    const game = await this.gme.findById(gameId);
+    if (game.status !== GameStatus.SETUP) {
+      return;
+    }
+
+    const teams = rosterTeams(game.roster ?? []).filter(
+      (team) => !email || team.includes(email),
+    );
+    if (teams.length === 0) {
+      return;
+    }
+
+    const users = await this.usr.findByEmails(teams.flat());
+    const players = await this.model
+      .find({ gameId: gameId, userId: { $in: users.map((u) => u._id) } })
+      .exec();
+    const playerOf = new Map(
+      users.map((u) => [
+        u.email.toLowerCase(),
+        players.find((p) => p.userId.toString() === u.id),
+      ]),
+    );
+
+    for (const [a, b] of teams) {
+      const first = playerOf.get(a);
+      const second = playerOf.get(b);
+      if (!first || !second || first.teamPartnerId || second.teamPartnerId) {
+        continue;
+      }
+
+      first.teamPartnerId = second.id;
+      second.teamPartnerId = first.id;
+      await first.save();
+      await second.save();
+
+      await this.log.record({
+        gameId: gameId,
+        type: GameLogType.TEAM_PAIRED,
+        playerIds: [new MongoId(first.id), new MongoId(second.id)],
+        after: { teamPartnerIds: [first.teamPartnerId, second.teamPartnerId] },
+        details: 'Paired up from the roster',
+      });
     }
   }
 
@@ -62,7 +139,7 @@ export class PlayerService {
     const user = await this.usr.findById(userId);
     const game = await this.gme.findById(gameId);
 
-    const email = user.email;
+    const email = user.email.toLowerCase();
     // If this user's email is listed in the set of admins
     if (game.admins.includes(email)) {
       return PlayerRole.ADMIN;
@@ -78,6 +155,26 @@ export class PlayerService {
     return PlayerRole.NONE;
   }
 
+  /**
+   * Record that a player has read a version of the rules of their game.
+   * @param userId The user the player belongs to
+   * @param gameId The game in question
+   * @param version The version of the rules they read
+   */
+  async acknowledgeRules(userId: MongoId, gameId: MongoId, version: number) {
+    const player = await this.find(userId, gameId);
+    if (!player) {
+      throw new PlayerNotFoundException(userId);
+    }
+
+    const current = (await this.gme.getRules(gameId)).version;
+    player.rulesAcknowledgedVersion = Math.max(
+      player.rulesAcknowledgedVersion ?? 0,
+      Math.min(Number(version) || 0, current),
+    );
+    await player.save();
+  }
+
   async find(userId: MongoId, gameId: MongoId): Promise<Player | null> {
     return await this.model
       .find({ gameId: gameId, userId: userId })
@@ -86,20 +183,19 @@ export class PlayerService {
   }
 
   /**
-   * Get a player simply via their user ID. NOTE: This just gets the most
-   * recent player, and totally breaks when there are multiple games.
+   * Get every player a user has registered as, one for each game they have
+   * joined.
    * @param userId The ID of the user to find
    */
-  async getByUser_DEPRECATED(userId: MongoId): Promise<Player> {
-    return await this.model
-      .find({ userId: userId })
-      .sort({ _id: -1 })
-      .findOne()
-      .exec();
+  async findByUser(userId: MongoId): Promise<Player[]> {
+    return await this.model.find({ userId: userId }).exec();
   }
 
-  async findById(playerId: MongoId): Promise<Player> {
-    const query = await this.model.find({ _id: playerId }).exec();
+  async findById(playerId: MongoId, session?: ClientSession): Promise<Player> {
+    const query = await this.model
+      .find({ _id: playerId })
+      .session(session ?? null)
+      .exec();
     if (!query) {
       throw new PlayerNotFoundException(playerId);
     }
@@ -107,8 +203,14 @@ export class PlayerService {
     return query[0];
   }
 
-  async findByIds(playerIds: MongoId[]): Promise<Player[]> {
-    const query = await this.model.find({ _id: { $in: playerIds } }).exec();
+  async findByIds(
+    playerIds: MongoId[],
+    session?: ClientSession,
+  ): Promise<Player[]> {
+    const query = await this.model
+      .find({ _id: { $in: playerIds } })
+      .session(session ?? null)
+      .exec();
     if (!query || query.length === 0) {
       throw new PlayerNotFoundException(playerIds[0]); // TODO: Fix this lol
     }
@@ -120,15 +222,22 @@ export class PlayerService {
    * @param gameId The unique ID of the game.
    * @returns A promise that resolves to an array of Player objects.
    */
-  async findByGame(gameId: MongoId): Promise<Player[]> {
-    return await this.model.find({ gameId: gameId }).exec();
+  async findByGame(gameId: MongoId, session?: ClientSession): Promise<Player[]> {
+    return await this.model
+      .find({ gameId: gameId })
+      .session(session ?? null)
+      .exec();
   }
 
   async findByGameAndStatus(
     gameId: MongoId,
     statuses: PlayerStatus[] = [PlayerStatus.ALIVE],
+    session?: ClientSession,
   ): Promise<Player[]> {
-    return await this.model.find({ gameId: gameId, status: { $in: statuses } }).exec();
+    return await this.model
+      .find({ gameId: gameId, status: { $in: statuses } })
+      .session(session ?? null)
+      .exec();
   }
 
     /**
@@ -182,6 +291,13 @@ export class PlayerService {
   
     user.invited.push(teamPartner.userId);
     await user.save();
+
+    await this.log.record({
+      gameId: gameId,
+      type: GameLogType.INVITE_SENT,
+      actorId: userId,
+      playerIds: [new MongoId(user.id), new MongoId(teamPartner.id)],
+    });
   }
 
   async getInvites(userId: MongoId, gameId: MongoId): Promise<string[]> {
@@ -290,6 +406,7 @@ export class PlayerService {
         kills: killCounts[player.id] ?? 0,
         alive: player.status === PlayerStatus.ALIVE,
         safe: player.status === PlayerStatus.SAFE,
+        status: player.status,
         revives: player.revives,
         killedBy: killer,
       };
@@ -328,6 +445,13 @@ export class PlayerService {
     // Remove currentUserId from inviterPlayer.invited
     inviterPlayer.invited = inviterPlayer.invited.filter(id => !id.equals(currentUserId));
   
+    const before = {
+      teamPartnerIds: [
+        currentPlayer.teamPartnerId,
+        inviterPlayer.teamPartnerId,
+      ],
+    };
+
     // Set teamPartnerId for both players
     currentPlayer.teamPartnerId = inviterPlayer.id;
     inviterPlayer.teamPartnerId = currentPlayer.id;
@@ -335,6 +459,20 @@ export class PlayerService {
     // Save changes
     await currentPlayer.save();
     await inviterPlayer.save();
+
+    await this.log.record({
+      gameId: gameId,
+      type: GameLogType.INVITE_ACCEPTED,
+      actorId: currentUserId,
+      playerIds: [new MongoId(currentPlayer.id), new MongoId(inviterPlayer.id)],
+      before: before,
+      after: {
+        teamPartnerIds: [
+          currentPlayer.teamPartnerId,
+          inviterPlayer.teamPartnerId,
+        ],
+      },
+    });
   }
 
   async rejectInvite(
@@ -368,5 +506,12 @@ export class PlayerService {
     // Save changes
     await currentPlayer.save();
     await inviterPlayer.save();
+
+    await this.log.record({
+      gameId: gameId,
+      type: GameLogType.INVITE_REJECTED,
+      actorId: currentUserId,
+      playerIds: [new MongoId(currentPlayer.id), new MongoId(inviterPlayer.id)],
+    });
   }
 }
@@ -0,0 +1,77 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import mongoose, { HydratedDocument } from 'mongoose';
+import { MongoId } from 'utils/mongo';
+
+export type SafetyGrantDocument = HydratedDocument<SafetyGrant>;
+
+/**
+ * Status of a safety grant given to a single player
+ */
+export enum SafetyGrantStatus {
+  /**
+   * The player is safe until the grant runs out.
+   */
+  ACTIVE = 'ACTIVE',
+  /**
+   * The grant ran out on its own, and the player was made alive again.
+   */
+  EXPIRED = 'EXPIRED',
+  /**
+   * An admin ended the grant early (or replaced it with a new one).
+   */
+  REVOKED = 'REVOKED',
+}
+
+@Schema()
+export class SafetyGrant extends mongoose.Document<mongoose.Schema.Types.ObjectId> {
+  /**
+   * The game that this grant was made within
+   */
+  @Prop({ type: mongoose.Schema.Types.ObjectId, required: true })
+  gameId: MongoId;
+
+  /**
+   * The player who was made safe
+   */
+  @Prop({ type: mongoose.Schema.Types.ObjectId, required: true })
+  playerId: MongoId;
+
+  /**
+   * The admin user who gave the grant
+   */
+  @Prop({ type: mongoose.Schema.Types.ObjectId, required: true })
+  grantedBy: MongoId;
+
+  /**
+   * Why the player was made safe (e.g. "exam")
+   */
+  @Prop({ type: String, required: false, default: '' })
+  reason: string;
+
+  @Prop({
+    type: String,
+    enum: SafetyGrantStatus,
+    default: SafetyGrantStatus.ACTIVE,
+  })
+  status: string;
+
+  /**
+   * When the grant was given
+   */
+  @Prop({ type: Date, required: true })
+  grantedAt: Date;
+
+  /**
+   * When the grant runs out, and the player becomes alive again
+   */
+  @Prop({ type: Date, required: true })
+  until: Date;
+
+  /**
+   * When the grant left the ACTIVE state
+   */
+  @Prop({ type: Date, required: false })
+  endedAt: Date;
+}
+
+export const SafetyGrantSchema = SchemaFactory.createForClass(SafetyGrant);
@@ -0,0 +1,157 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getConnectionToken, getModelToken } from '@nestjs/mongoose';
+import { SafetyGrantService } from './safety-grant.service';
+import { SafetyGrant, SafetyGrantStatus } from './safety-grant.schema';
+import { GameService } from 'game/game.service';
+import { PlayerService } from '../player.service';
+import { UserService } from 'user/user.service';
+import { GameLogService } from 'game/log/game-log.service';
+import { GameStatus } from 'game/game.schema';
+import { PlayerRole, PlayerStatus } from '../player.schema';
+import { GameStatusNotValidException } from 'utils/exceptions';
+import { MongoId } from 'utils/mongo';
+
+describe('SafetyGrantService', () => {
+  let service: SafetyGrantService;
+  const model = {
+    find: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    exists: jest.fn(),
+    updateMany: jest.fn(),
+  };
+  const session = {};
+  const connection = {
+    transaction: async (work: (s: typeof session) => Promise<void>) =>
+      await work(session),
+  };
+  const gme = {
+    findById: jest.fn(),
+  };
+  const plyr = {
+    findById: jest.fn(),
+    getRole: jest.fn(),
+  };
+
+  const gameId = new MongoId('64b000000000000000000001');
+  const playerId = new MongoId('64b000000000000000000002');
+  const makeGrant = () => ({
+    id: 'grant',
+    playerId: playerId,
+    status: SafetyGrantStatus.ACTIVE,
+  });
+
+  /**
+   * Find the given grant as run out, with nothing else active for its player
+   * once it is expired
+   */
+  const runsOut = (grant: ReturnType<typeof makeGrant> | null) => {
+    model.find.mockReturnValue({ exec: async () => [makeGrant()] });
+    model.findOneAndUpdate.mockReturnValue({ exec: async () => grant });
+    model.exists.mockReturnValue({
+      session: () => ({ exec: async () => null }),
+    });
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SafetyGrantService,
+        { provide: getModelToken(SafetyGrant.name), useValue: model },
+        { provide: getConnectionToken(), useValue: connection },
+        { provide: GameService, useValue: gme },
+        { provide: PlayerService, useValue: plyr },
+        { provide: UserService, useValue: {} },
+        { provide: GameLogService, useValue: { record: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<SafetyGrantService>(SafetyGrantService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should make players alive again once their grant runs out', async () => {
+    const player = { status: PlayerStatus.SAFE, save: jest.fn() };
+    runsOut(makeGrant());
+    plyr.findById.mockResolvedValue(player);
+
+    await service.expireGrants();
+
+    expect(model.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: 'grant', status: SafetyGrantStatus.ACTIVE },
+      expect.anything(),
+      expect.objectContaining({ session }),
+    );
+    expect(player.status).toBe(PlayerStatus.ALIVE);
+    expect(player.save).toHaveBeenCalledWith({ session });
+  });
+
+  it('should leave players who are no longer safe alone', async () => {
+    const player = { status: PlayerStatus.KILLED, save: jest.fn() };
+    runsOut(makeGrant());
+    plyr.findById.mockResolvedValue(player);
+
+    await service.expireGrants();
+
+    expect(player.status).toBe(PlayerStatus.KILLED);
+    expect(player.save).not.toHaveBeenCalled();
+  });
+
+  it('should not expire grants that were revoked in the meantime', async () => {
+    runsOut(null);
+
+    await service.expireGrants();
+
+    expect(plyr.findById).not.toHaveBeenCalled();
+  });
+
+  it('should keep players safe who have been given another grant', async () => {
+    runsOut(makeGrant());
+    model.exists.mockReturnValue({
+      session: () => ({ exec: async () => ({ _id: 'other' }) }),
+    });
+
+    await service.expireGrants();
+
+    expect(plyr.findById).not.toHaveBeenCalled();
+  });
+
+  it('should only revoke grants while the game is in progress', async () => {
+    plyr.getRole.mockResolvedValue(PlayerRole.ADMIN);
+    gme.findById.mockResolvedValue({ status: GameStatus.COMPLETE });
+
+    await expect(
+      service.revoke(new MongoId('64b000000000000000000003'), gameId, playerId),
+    ).rejects.toBeInstanceOf(GameStatusNotValidException);
+    expect(plyr.findById).not.toHaveBeenCalled();
+  });
+
+  it('should revoke the grant and make the player alive together', async () => {
+    const player = {
+      gameId: gameId,
+      status: PlayerStatus.SAFE,
+      save: jest.fn(),
+    };
+    plyr.getRole.mockResolvedValue(PlayerRole.ADMIN);
+    gme.findById.mockResolvedValue({ status: GameStatus.IN_PROGRESS });
+    plyr.findById.mockResolvedValue(player);
+    model.updateMany.mockReturnValue({ exec: async () => undefined });
+
+    await service.revoke(
+      new MongoId('64b000000000000000000003'),
+      gameId,
+      playerId,
+    );
+
+    expect(model.updateMany).toHaveBeenCalledWith(
+      { playerId: playerId, status: SafetyGrantStatus.ACTIVE },
+      expect.anything(),
+      { session },
+    );
+    expect(player.status).toBe(PlayerStatus.ALIVE);
+    expect(player.save).toHaveBeenCalledWith({ session });
+  });
+});
@@ -0,0 +1,318 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Interval } from '@nestjs/schedule';
+import { ClientSession, Connection, Model } from 'mongoose';
+import { SafetyGrant, SafetyGrantStatus } from './safety-grant.schema';
+
+// Services
+import { GameService } from 'game/game.service';
+import { PlayerService } from '../player.service';
+import { UserService } from 'user/user.service';
+import { GameLogService } from 'game/log/game-log.service';
+
+// Utilities
+import { MongoId, withTransaction } from 'utils/mongo';
+import { GameStatus } from 'game/game.schema';
+import { PlayerRole, PlayerStatus } from '../player.schema';
+import { GameLogType } from 'game/log/game-log.schema';
+import {
+  GameStatusNotValidException,
+  PlayerNotFoundException,
+  PlayerRoleUnauthorizedException,
+  PlayerStatusNotValidException,
+  SafetyGrantInvalidException,
+} from 'utils/exceptions';
+
+// Objects
+import { SafetyGrantInfo } from 'shared/api/game/player';
+
+/**
+ * How often (in milliseconds) to look for grants that have run out
+ */
+const EXPIRE_INTERVAL = 60 * 1000;
+
+@Injectable()
+export class SafetyGrantService {
+  private readonly logger = new Logger(SafetyGrantService.name);
+
+  constructor(
+    @InjectModel(SafetyGrant.name) private model: Model<SafetyGrant>,
+    @InjectConnection() private connection: Connection,
+    private gme: GameService,
+    private plyr: PlayerService,
+    private usr: UserService,
+    private log: GameLogService,
+  ) {}
+
+  /**
+   * ADMIN ONLY: Make a player safe until the given time, after which they
+   * automatically become alive again. Replaces any grant the player already
+   * has.
+   * @param userId The admin giving the grant
+   * @param gameId The game in question
+   * @param playerId The player to make safe
+   * @param until When the player stops being safe
+   * @param reason Why the player is being made safe
+   */
+  async grant(
+    userId: MongoId,
+    gameId: MongoId,
+    playerId: MongoId,
+    until: Date,
+    reason = '',
+  ): Promise<SafetyGrantInfo> {
+    await this.assertAdmin(userId, gameId);
+
+    const now = new Date();
+    if (isNaN(until.getTime()) || until <= now) {
+      throw new SafetyGrantInvalidException('It must end in the future.');
+    }
+
+    const grant = await withTransaction(
+      this.connection,
+      undefined,
+      async (session) => {
+        await this.assertInProgress(gameId, session);
+
+        const player = await this.plyr.findById(playerId, session);
+        if (!player || !player.gameId.equals(gameId)) {
+          throw new PlayerNotFoundException(playerId);
+        }
+        if (
+          player.status !== PlayerStatus.ALIVE &&
+          player.status !== PlayerStatus.SAFE
+        ) {
+          throw new PlayerStatusNotValidException(playerId, player.status);
+        }
+
+        await this.revokeActive(playerId, session);
+
+        const grant = new this.model();
+        grant.gameId = gameId;
+        grant.playerId = playerId;
+        grant.grantedBy = userId;
+        grant.reason = reason.trim();
+        grant.grantedAt = now;
+        grant.until = until;
+        await grant.save({ session });
+
+        const before = player.status;
+        player.status = PlayerStatus.SAFE;
+        await player.save({ session });
+
+        await this.log.record(
+          {
+            gameId: gameId,
+            type: GameLogType.SAFETY_GRANTED,
+            actorId: userId,
+            playerIds: [playerId],
+            before: { status: before },
+            after: { status: player.status, until: until },
+            details: grant.reason,
+          },
+          session,
+        );
+        return grant;
+      },
+    );
+
+    return (await this.toInfo([grant]))[0];
+  }
+
+  /**
+   * ADMIN ONLY: End a player's safety early, making them alive again.
+   * @param userId The admin ending the grant
+   * @param gameId The game in question
+   * @param playerId The player to make unsafe
+   */
+  async revoke(userId: MongoId, gameId: MongoId, playerId: MongoId) {
+    await this.assertAdmin(userId, gameId);
+
+    await withTransaction(this.connection, undefined, async (session) => {
+      await this.assertInProgress(gameId, session);
+
+      const player = await this.plyr.findById(playerId, session);
+      if (!player || !player.gameId.equals(gameId)) {
+        throw new PlayerNotFoundException(playerId);
+      }
+      if (player.status !== PlayerStatus.SAFE) {
+        throw new PlayerStatusNotValidException(playerId, player.status);
+      }
+
+      await this.revokeActive(playerId, session);
+
+      player.status = PlayerStatus.ALIVE;
+      await player.save({ session });
+
+      await this.log.record(
+        {
+          gameId: gameId,
+          type: GameLogType.SAFETY_REVOKED,
+          actorId: userId,
+          playerIds: [playerId],
+          before: { status: PlayerStatus.SAFE },
+          after: { status: player.status },
+        },
+        session,
+      );
+    });
+  }
+
+  /**
+   * ADMIN ONLY: Fetch every grant given in a game, newest first.
+   * @param userId The admin requesting the history
+   * @param gameId The game in question
+   * @param playerId Only fetch the grants of this player, if given
+   */
+  async fetchHistory(
+    userId: MongoId,
+    gameId: MongoId,
+    playerId?: MongoId,
+  ): Promise<SafetyGrantInfo[]> {
+    await this.assertAdmin(userId, gameId);
+
+    const grants = await this.model
+      .find({ gameId: gameId, ...(playerId ? { playerId: playerId } : {}) })
+      .sort({ grantedAt: -1 })
+      .exec();
+    return await this.toInfo(grants);
+  }
+
+  async findByGame(gameId: MongoId): Promise<SafetyGrant[]> {
+    return await this.model.find({ gameId: gameId }).exec();
+  }
+
+  /**
+   * Expire every active grant that has run out, making the players alive
+   * again (unless something else has happened to them in the meantime, or
+   * they have been given another grant). Each grant is expired in its own
+   * transaction, along with its player.
+   */
+  @Interval(EXPIRE_INTERVAL)
+  async expireGrants() {
+    const expired = await this.model
+      .find({ status: SafetyGrantStatus.ACTIVE, until: { $lte: new Date() } })
+      .exec();
+
+    for (const { id } of expired) {
+      try {
+        await withTransaction(this.connection, undefined, async (session) => {
+          // Only expire the grant if it is still active, it may have been
+          // revoked or replaced since it was found
+          const grant = await this.model
+            .findOneAndUpdate(
+              { _id: id, status: SafetyGrantStatus.ACTIVE },
+              {
+                $set: {
+                  status: SafetyGrantStatus.EXPIRED,
+                  endedAt: new Date(),
+                },
+              },
+              { new: true, session },
+            )
+            .exec();
+          if (!grant || (await this.hasActive(grant.playerId, session))) {
+            return;
+          }
+
+          const player = await this.plyr.findById(grant.playerId, session);
+          if (player && player.status === PlayerStatus.SAFE) {
+            player.status = PlayerStatus.ALIVE;
+            await player.save({ session });
+
+            await this.log.record(
+              {
+                gameId: grant.gameId,
+                type: GameLogType.SAFETY_EXPIRED,
+                playerIds: [grant.playerId],
+                before: { status: PlayerStatus.SAFE },
+                after: { status: player.status },
+              },
+              session,
+            );
+          }
+        });
+      } catch (e) {
+        this.logger.error(`Failed to expire safety grant ${id}: ${e}`);
+      }
+    }
+  }
+
+  private async assertAdmin(userId: MongoId, gameId: MongoId) {
+    const role = await this.plyr.getRole(gameId, userId);
+    if (role !== PlayerRole.ADMIN) {
+      throw new PlayerRoleUnauthorizedException(userId, role);
+    }
+  }
+
+  /**
+   * Grants can only be given or taken away while the game is being played.
+   */
+  private async assertInProgress(gameId: MongoId, session: ClientSession) {
+    const game = await this.gme.findById(gameId, session);
+    if (game.status !== GameStatus.IN_PROGRESS) {
+      throw new GameStatusNotValidException(gameId, game.status);
+    }
+  }
+
+  /**
+   * Whether a player still has an active grant.
+   */
+  private async hasActive(
+    playerId: MongoId,
+    session: ClientSession,
+  ): Promise<boolean> {
+    const grant = await this.model
+      .exists({ playerId: playerId, status: SafetyGrantStatus.ACTIVE })
+      .session(session)
+      .exec();
+    return grant != null;
+  }
+
+  /**
+   * Revoke any active grants of a player, without touching their status.
+   */
+  private async revokeActive(playerId: MongoId, session: ClientSession) {
+    await this.model
+      .updateMany(
+        { playerId: playerId, status: SafetyGrantStatus.ACTIVE },
+        { $set: { status: SafetyGrantStatus.REVOKED, endedAt: new Date() } },
+        { session },
+      )
+      .exec();
+  }
+
+  /**
+   * Convert grants into the shape sent to the frontend, resolving names.
+   */
+  private async toInfo(grants: SafetyGrant[]): Promise<SafetyGrantInfo[]> {
+    if (grants.length === 0) {
+      return [];
+    }
+
+    const players = await this.plyr.findByIds(grants.map((g) => g.playerId));
+    const users = await this.usr.findByIds([
+      ...players.map((p) => p.userId),
+      ...grants.map((g) => g.grantedBy),
+    ]);
+
+    const userNames: { [key: string]: string } = {};
+    users.forEach((u) => (userNames[u.id] = `${u.firstName} ${u.surname}`));
+    const playerNames: { [key: string]: string } = {};
+    players.forEach((p) => {
+      playerNames[p.id] = userNames[p.userId.toString()] ?? 'Unknown';
+    });
+
+    return grants.map((g) => ({
+      grantId: g.id,
+      playerId: g.playerId.toString(),
+      name: playerNames[g.playerId.toString()],
+      reason: g.reason,
+      status: g.status,
+      grantedBy: userNames[g.grantedBy.toString()] ?? 'Unknown',
+      grantedAt: g.grantedAt.toISOString(),
+      until: g.until.toISOString(),
+      endedAt: g.endedAt?.toISOString(),
+    }));
+  }
+}
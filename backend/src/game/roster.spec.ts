@@ -0,0 +1,110 @@
+import { parseRoster, planRoster, rosterTeams } from './roster';
+
+describe('roster', () => {
+  it('should read people from a roster', () => {
+    const { entries, errors, hasRoles } = parseRoster(
+      'Email,Name,Dorm,Team\n' +
+        'ADA@example.com, Ada Lovelace ,Forbes,Engines\n' +
+        'grace@example.com,Grace Hopper,,Engines\n' +
+        'alan@example.com,Alan Turing,Whitman,\n',
+    );
+
+    expect(errors).toEqual([]);
+    expect(hasRoles).toBe(false);
+    expect(entries).toEqual([
+      {
+        email: 'ada@example.com',
+        name: 'Ada Lovelace',
+        dorm: 'Forbes',
+        team: 'Engines',
+        role: 'PLAYER',
+      },
+      {
+        email: 'grace@example.com',
+        name: 'Grace Hopper',
+        dorm: undefined,
+        team: 'Engines',
+        role: 'PLAYER',
+      },
+      {
+        email: 'alan@example.com',
+        name: 'Alan Turing',
+        dorm: 'Whitman',
+        team: undefined,
+        role: 'PLAYER',
+      },
+    ]);
+    expect(rosterTeams(entries)).toEqual([
+      ['ada@example.com', 'grace@example.com'],
+    ]);
+  });
+
+  it('should report every problem with a roster', () => {
+    const { entries, errors } = parseRoster(
+      'email,name,team,role,shoe size\n' +
+        'not-an-email,Nobody,,\n' +
+        'ada@example.com,Ada,A,\n' +
+        'ada@example.com,Ada again,,\n' +
+        'grace@example.com,,B,\n' +
+        'alan@example.com,Alan,,owner\n',
+    );
+
+    expect(entries.map((e) => e.email)).toEqual([
+      'ada@example.com',
+      'grace@example.com',
+      'alan@example.com',
+    ]);
+    expect(errors).toEqual([
+      'Unknown columns: shoe size.',
+      "Line 2: 'not-an-email' is not a valid email.",
+      'Line 4: ada@example.com is listed more than once.',
+      'Line 5: grace@example.com has no name.',
+      "Line 6: 'owner' is not a role.",
+      "Team 'A' needs exactly 2 people, but has 1.",
+      "Team 'B' needs exactly 2 people, but has 1.",
+    ]);
+  });
+
+  it('should need the email and name columns', () => {
+    expect(parseRoster('email,dorm\nada@example.com,Forbes').errors).toEqual([
+      'The roster is missing the columns: name.',
+    ]);
+  });
+
+  it('should show what would be added and removed', () => {
+    const game = {
+      whitelistedEmails: ['ada@example.com', 'old@example.com'],
+      admins: ['boss@example.com'],
+    };
+
+    const plain = planRoster(
+      game,
+      'email,name\nada@example.com,Ada\nnew@example.com,New',
+    );
+    expect(plain.whitelist).toEqual({
+      added: ['new@example.com'],
+      removed: ['old@example.com'],
+    });
+    expect(plain.admins).toEqual({ added: [], removed: [] });
+
+    const withRoles = planRoster(
+      game,
+      'email,name,role\nada@example.com,Ada,player\nnew@example.com,New,admin',
+    );
+    expect(withRoles.whitelist.removed).toEqual(['old@example.com']);
+    expect(withRoles.admins).toEqual({
+      added: ['new@example.com'],
+      removed: ['boss@example.com'],
+    });
+    expect(withRoles.errors).toEqual([]);
+  });
+
+  it('should not leave a game without admins', () => {
+    const plan = planRoster(
+      { whitelistedEmails: [], admins: ['boss@example.com'] },
+      'email,name,role\nada@example.com,Ada,player',
+    );
+
+    expect(plan.errors).toEqual(['The game needs at least one admin.']);
+  });
+});
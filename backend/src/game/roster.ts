@@ -0,0 +1,145 @@
+import { isEmail } from 'class-validator';
+import { parseCsv } from 'utils/csv';
+import { PlayerRole } from 'game/player/player.schema';
+import { RosterEntryInfo, RosterPreview } from 'shared/api/game';
+
+/**
+ * The columns a roster may have, only email and name are required
+ */
+const COLUMNS = ['email', 'name', 'dorm', 'team', 'role'];
+
+/**
+ * The emails of everyone on each team, keyed by team name
+ */
+const groupTeams = (entries: { email: string; team?: string }[]) => {
+  const teams = new Map<string, string[]>();
+  entries
+    .filter((e) => e.team)
+    .forEach((e) => teams.set(e.team, [...(teams.get(e.team) ?? []), e.email]));
+  return teams;
+};
+
+/**
+ * Read a roster CSV, whose first row names the columns.
+ * @param csv The contents of the file
+ * @returns The people listed, anything wrong with the file, and whether it
+ * says who the admins are
+ */
+export const parseRoster = (
+  csv: string,
+): { entries: RosterEntryInfo[]; errors: string[]; hasRoles: boolean } => {
+  const [header, ...rows] = parseCsv(csv);
+  if (!header) {
+    return { entries: [], errors: ['The roster is empty.'], hasRoles: false };
+  }
+
+  const columns = header.map((column) => column.trim().toLowerCase());
+  const missing = ['email', 'name'].filter((c) => !columns.includes(c));
+  if (missing.length !== 0) {
+    return {
+      entries: [],
+      errors: [`The roster is missing the columns: ${missing.join(', ')}.`],
+      hasRoles: false,
+    };
+  }
+  const unknown = columns.filter((c) => !COLUMNS.includes(c));
+
+  const errors: string[] = unknown.length
+    ? [`Unknown columns: ${unknown.join(', ')}.`]
+    : [];
+  const entries: RosterEntryInfo[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((row, i) => {
+    // The header is line 1
+    const line = i + 2;
+    const cell = (column: string) =>
+      (row[columns.indexOf(column)] ?? '').trim();
+
+    const email = cell('email').toLowerCase();
+    const name = cell('name');
+    const role = cell('role').toUpperCase() || PlayerRole.PLAYER;
+
+    if (!isEmail(email)) {
+      errors.push(`Line ${line}: '${email}' is not a valid email.`);
+      return;
+    }
+    if (seen.has(email)) {
+      errors.push(`Line ${line}: ${email} is listed more than once.`);
+      return;
+    }
+    if (name === '') {
+      errors.push(`Line ${line}: ${email} has no name.`);
+    }
+    if (role !== PlayerRole.PLAYER && role !== PlayerRole.ADMIN) {
+      errors.push(`Line ${line}: '${cell('role')}' is not a role.`);
+    }
+    if (role === PlayerRole.ADMIN && cell('team') !== '') {
+      errors.push(`Line ${line}: admins cannot be on a team.`);
+    }
+
+    seen.add(email);
+    entries.push({
+      email,
+      name,
+      dorm: cell('dorm') || undefined,
+      team: cell('team') || undefined,
+      role,
+    });
+  });
+
+  groupTeams(entries).forEach((members, team) => {
+    if (members.length !== 2) {
+      errors.push(
+        `Team '${team}' needs exactly 2 people, but has ${members.length}.`,
+      );
+    }
+  });
+
+  return { entries, errors, hasRoles: columns.includes('role') };
+};
+
+/**
+ * The emails of each pair of people that the roster puts on a team together.
+ */
+export const rosterTeams = (
+  entries: { email: string; team?: string }[],
+): [string, string][] =>
+  [...groupTeams(entries).values()]
+    .filter((members) => members.length === 2)
+    .map(([a, b]) => [a, b]);
+
+/**
+ * Work out what importing a roster would change about a game.
+ * @param game The whitelist and admins of the game as they are now
+ * @param csv The contents of the roster file
+ */
+export const planRoster = (
+  game: { whitelistedEmails: string[]; admins: string[] },
+  csv: string,
+): RosterPreview => {
+  const { entries, errors, hasRoles } = parseRoster(csv);
+
+  const diff = (before: string[], after: string[]) => ({
+    added: after.filter((email) => !before.includes(email)),
+    removed: before.filter((email) => !after.includes(email)),
+  });
+
+  const whitelist = entries
+    .filter((e) => e.role === PlayerRole.PLAYER)
+    .map((e) => e.email);
+  const admins = hasRoles
+    ? entries.filter((e) => e.role === PlayerRole.ADMIN).map((e) => e.email)
+    : game.admins;
+  if (hasRoles && admins.length === 0) {
+    errors.push('The game needs at least one admin.');
+  }
+
+  return {
+    entries,
+    errors,
+    whitelist: diff(game.whitelistedEmails, whitelist),
+    admins: diff(game.admins, admins),
+    teams: rosterTeams(entries),
+  };
+};
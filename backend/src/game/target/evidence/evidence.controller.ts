@@ -0,0 +1,112 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Post,
+  Req,
+  Res,
+  StreamableFile,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Request, Response } from 'express';
+import {
+  EVIDENCE_MIME_TYPES,
+  EvidenceService,
+  MAX_EVIDENCE_SIZE,
+} from './evidence.service';
+import { JwtAuthGuard } from 'auth/guards';
+import { getUserIdFromRequest } from 'utils/request';
+import { QueryRequired } from 'utils/decorators';
+import { MongoId } from 'utils/mongo';
+import { EvidenceInfo, KillEvidenceInfo } from 'shared/api/game/target';
+
+@Controller('game/target/evidence')
+export class EvidenceController {
+  constructor(private evidence: EvidenceService) {}
+
+  /**
+   * Every kill the user may see the evidence of, newest first.
+   */
+  @Get('kills')
+  @UseGuards(JwtAuthGuard)
+  async fetchKills(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+  ): Promise<KillEvidenceInfo[]> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    return await this.evidence.fetchKills(userId, gameId);
+  }
+
+  /**
+   * Upload a photo or video for a kill, sent as the `file` field of a
+   * multipart form.
+   */
+  @Post('upload')
+  @UseGuards(JwtAuthGuard)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_EVIDENCE_SIZE } }),
+  )
+  async upload(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @QueryRequired('targetId') targetIdQuery: string,
+    @UploadedFile() file: Express.Multer.File,
+  ): Promise<EvidenceInfo> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    const targetId = new MongoId(targetIdQuery);
+    return await this.evidence.upload(userId, gameId, targetId, file);
+  }
+
+  /**
+   * Download an uploaded file. Only photos and videos of the allowed types
+   * are shown inline, anything else (uploaded before types were checked) is
+   * downloaded, and browsers are told not to guess the type.
+   */
+  @Get('file')
+  @UseGuards(JwtAuthGuard)
+  async download(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @QueryRequired('evidenceId') evidenceIdQuery: string,
+  ): Promise<StreamableFile> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    const evidenceId = new MongoId(evidenceIdQuery);
+    const { stream, evidence } = await this.evidence.open(
+      userId,
+      gameId,
+      evidenceId,
+    );
+    const inline = EVIDENCE_MIME_TYPES.includes(evidence.mimeType);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    return new StreamableFile(stream, {
+      type: inline ? evidence.mimeType : 'application/octet-stream',
+      length: evidence.size,
+      disposition: `${
+        inline ? 'inline' : 'attachment'
+      }; filename="${encodeURIComponent(evidence.fileName)}"`,
+    });
+  }
+
+  /**
+   * ADMIN ONLY: Delete an uploaded file.
+   */
+  @Post('delete')
+  @UseGuards(JwtAuthGuard)
+  async remove(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @Body('evidenceId') evidenceIdQuery: string,
+  ) {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    await this.evidence.remove(userId, gameId, new MongoId(evidenceIdQuery));
+    return { msg: 'success' };
+  }
+}
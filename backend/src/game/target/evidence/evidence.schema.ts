@@ -0,0 +1,59 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import mongoose, { HydratedDocument } from 'mongoose';
+import { MongoId } from 'utils/mongo';
+
+export type EvidenceDocument = HydratedDocument<Evidence>;
+
+/**
+ * A photo or video uploaded to back up a kill. The file itself lives in
+ * whichever storage is configured, under `storageKey`.
+ */
+@Schema()
+export class Evidence extends mongoose.Document<mongoose.Schema.Types.ObjectId> {
+  /**
+   * The game that this kill happened within
+   */
+  @Prop({ type: mongoose.Schema.Types.ObjectId, required: true, index: true })
+  gameId: MongoId;
+
+  /**
+   * The target that was (or is claimed to be) completed by the kill
+   */
+  @Prop({ type: mongoose.Schema.Types.ObjectId, required: true, index: true })
+  targetId: MongoId;
+
+  /**
+   * The user who uploaded the file, the killer or an admin
+   */
+  @Prop({ type: mongoose.Schema.Types.ObjectId, required: true })
+  uploaderId: MongoId;
+
+  @Prop({ type: String, required: true })
+  storageKey: string;
+
+  /**
+   * The name of the file as it was uploaded
+   */
+  @Prop({ type: String, required: true })
+  fileName: string;
+
+  @Prop({ type: String, required: true })
+  mimeType: string;
+
+  /**
+   * The size of the file, in bytes
+   */
+  @Prop({ type: Number, required: true })
+  size: number;
+
+  @Prop({ type: Date, required: true })
+  uploadedAt: Date;
+
+  /**
+   * When the file is deleted, set once the game is over
+   */
+  @Prop({ type: Date, required: false })
+  expiresAt?: Date;
+}
+
+export const EvidenceSchema = SchemaFactory.createForClass(Evidence);
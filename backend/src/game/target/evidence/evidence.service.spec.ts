@@ -0,0 +1,139 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EvidenceService } from './evidence.service';
+import { Evidence } from './evidence.schema';
+import { GameService } from 'game/game.service';
+import { PlayerService } from 'game/player/player.service';
+import { TargetService } from '../target.service';
+import { KillClaimService } from '../kill-claim/kill-claim.service';
+import { UserService } from 'user/user.service';
+import { GameLogService } from 'game/log/game-log.service';
+import { GameStatus } from 'game/game.schema';
+import { PlayerRole } from 'game/player/player.schema';
+import { TargetStatus } from '../target.schema';
+import { MongoId } from 'utils/mongo';
+import {
+  EvidenceInvalidException,
+  PlayerRoleUnauthorizedException,
+} from 'utils/exceptions';
+
+describe('EvidenceService', () => {
+  let service: EvidenceService;
+  let dir: string;
+  const model = {
+    countDocuments: jest.fn(),
+    distinct: jest.fn(),
+    updateMany: jest.fn(),
+    find: jest.fn(),
+  };
+  const gme = { findById: jest.fn() };
+  const plyr = { getRole: jest.fn(), find: jest.fn() };
+  const trgt = { findById: jest.fn() };
+
+  const gameId = new MongoId('6500000000000000000000a1');
+  const userId = new MongoId('6500000000000000000000b1');
+  const killerId = new MongoId('6500000000000000000000c1');
+  const victimId = new MongoId('6500000000000000000000c2');
+  const targetId = new MongoId('6500000000000000000000d1');
+
+  const photo = {
+    originalname: 'splash.jpg',
+    mimetype: 'image/jpeg',
+    size: 4,
+    buffer: Buffer.from('jpeg'),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'evidence-'));
+    const config = { EVIDENCE_DIR: dir, EVIDENCE_RETENTION_DAYS: '7' };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EvidenceService,
+        { provide: getModelToken(Evidence.name), useValue: model },
+        { provide: GameService, useValue: gme },
+        { provide: PlayerService, useValue: plyr },
+        { provide: TargetService, useValue: trgt },
+        { provide: KillClaimService, useValue: { findOpen: jest.fn() } },
+        { provide: UserService, useValue: { findByIds: jest.fn() } },
+        { provide: GameLogService, useValue: { record: jest.fn() } },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<EvidenceService>(EvidenceService);
+
+    trgt.findById.mockResolvedValue({
+      id: targetId.toString(),
+      gameId,
+      playerId: killerId,
+      targetId: victimId,
+      status: TargetStatus.COMPLETE,
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should not let the victim upload evidence', async () => {
+    plyr.getRole.mockResolvedValue(PlayerRole.PLAYER);
+    plyr.find.mockResolvedValue({ id: victimId.toString() });
+
+    await expect(
+      service.upload(userId, gameId, targetId, photo),
+    ).rejects.toThrow(PlayerRoleUnauthorizedException);
+  });
+
+  it.each([
+    ['notes.pdf', 'application/pdf'],
+    ['page.svg', 'image/svg+xml'],
+    ['page.html', 'text/html'],
+    ['clip.webm', 'video/webm'],
+  ])('should not accept %s', async (originalname, mimetype) => {
+    plyr.getRole.mockResolvedValue(PlayerRole.PLAYER);
+    plyr.find.mockResolvedValue({ id: killerId.toString() });
+
+    await expect(
+      service.upload(userId, gameId, targetId, {
+        ...photo,
+        originalname,
+        mimetype,
+      }),
+    ).rejects.toThrow(EvidenceInvalidException);
+  });
+
+  it('should delete evidence once its game has been over long enough', async () => {
+    const now = new Date('2024-04-10T00:00:00Z');
+    const storageKey = `${gameId}/expired`;
+    await fs.mkdir(path.join(dir, gameId.toString()));
+    await fs.writeFile(path.join(dir, storageKey), 'video');
+
+    model.distinct.mockReturnValue({ exec: async () => [gameId] });
+    model.updateMany.mockReturnValue({ exec: async () => undefined });
+    const expired = { id: 'expired', storageKey, deleteOne: jest.fn() };
+    model.find.mockReturnValue({ exec: async () => [expired] });
+    gme.findById.mockResolvedValue({ status: GameStatus.COMPLETE });
+
+    await service.cleanup(now);
+
+    expect(model.updateMany).toHaveBeenCalledWith(
+      { gameId: gameId, expiresAt: { $exists: false } },
+      { $set: { expiresAt: new Date('2024-04-17T00:00:00Z') } },
+    );
+    expect(expired.deleteOne).toHaveBeenCalled();
+    await expect(fs.access(path.join(dir, storageKey))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,430 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Interval } from '@nestjs/schedule';
+import { Model } from 'mongoose';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { Evidence } from './evidence.schema';
+import { EvidenceStorage, getEvidenceStorage } from './evidence.storage';
+
+// Services
+import { GameService } from 'game/game.service';
+import { PlayerService } from 'game/player/player.service';
+import { TargetService } from '../target.service';
+import { KillClaimService } from '../kill-claim/kill-claim.service';
+import { UserService } from 'user/user.service';
+import { GameLogService } from 'game/log/game-log.service';
+
+// Utilities
+import { MongoId } from 'utils/mongo';
+import { GameStatus } from 'game/game.schema';
+import { Player, PlayerRole } from 'game/player/player.schema';
+import { Target, TargetStatus } from '../target.schema';
+import { KillClaim } from '../kill-claim/kill-claim.schema';
+import { GameLogType } from 'game/log/game-log.schema';
+import {
+  EvidenceInvalidException,
+  EvidenceNotFoundException,
+  PlayerRoleUnauthorizedException,
+  TargetNotFoundException,
+  TargetStatusNotValidException,
+} from 'utils/exceptions';
+
+// Objects
+import { EvidenceInfo, KillEvidenceInfo } from 'shared/api/game/target';
+
+/**
+ * The largest file that can be uploaded as evidence, in bytes
+ */
+export const MAX_EVIDENCE_SIZE = 50 * 1024 * 1024;
+
+/**
+ * The types of file that can be uploaded as evidence, and are shown inline
+ * when downloaded. Anything else could be rendered as a page by the browser.
+ */
+export const EVIDENCE_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'video/mp4',
+  'video/quicktime',
+];
+
+/**
+ * How many files can be uploaded for a single kill
+ */
+const MAX_EVIDENCE_PER_KILL = 5;
+
+/**
+ * How long evidence is kept once its game is over, unless configured with
+ * `EVIDENCE_RETENTION_DAYS`
+ */
+const DEFAULT_RETENTION_DAYS = 30;
+
+/**
+ * How often (in milliseconds) to look for evidence that is due to be deleted
+ */
+const CLEANUP_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * The parts of an uploaded file that are kept
+ */
+export type EvidenceUpload = Pick<
+  Express.Multer.File,
+  'originalname' | 'mimetype' | 'size' | 'buffer'
+>;
+
+/**
+ * A kill that evidence can be attached to: a completed target, or one with a
+ * claim still waiting on the victim or an admin
+ */
+type Kill = { target: Target; claim?: KillClaim };
+
+/**
+ * Who is looking at the evidence of a game
+ */
+type Viewer = { role: PlayerRole; player: Player | null };
+
+/**
+ * Keeps the photos and videos uploaded to back up kills. Only the admins of a
+ * game and the two players involved in a kill may see its evidence, and it is
+ * deleted a while after the game is over.
+ */
+@Injectable()
+export class EvidenceService {
+  private readonly logger = new Logger(EvidenceService.name);
+  private storage: EvidenceStorage;
+  private retentionDays: number;
+
+  constructor(
+    @InjectModel(Evidence.name) private model: Model<Evidence>,
+    private gme: GameService,
+    private plyr: PlayerService,
+    private trgt: TargetService,
+    private claims: KillClaimService,
+    private usr: UserService,
+    private log: GameLogService,
+    private cfg: ConfigService,
+  ) {
+    this.storage = getEvidenceStorage(
+      this.cfg.get<string>('EVIDENCE_STORAGE'),
+      {
+        dir: this.cfg.get<string>('EVIDENCE_DIR'),
+      },
+    );
+    this.retentionDays =
+      Number(this.cfg.get<string>('EVIDENCE_RETENTION_DAYS')) ||
+      DEFAULT_RETENTION_DAYS;
+  }
+
+  /**
+   * Upload a photo or video backing up a kill. The killer may do so once they
+   * have claimed the kill, admins may do so for any kill.
+   * @param userId The user uploading it
+   * @param gameId The game in question
+   * @param targetId The target completed (or claimed to be) by the kill
+   * @param file The photo or video
+   */
+  async upload(
+    userId: MongoId,
+    gameId: MongoId,
+    targetId: MongoId,
+    file: EvidenceUpload | undefined,
+  ): Promise<EvidenceInfo> {
+    const kill = await this.findKill(gameId, targetId);
+    const viewer = await this.getViewer(userId, gameId);
+    if (!this.canUpload(viewer, kill.target)) {
+      throw new PlayerRoleUnauthorizedException(userId, viewer.role);
+    }
+
+    if (!file || file.size === 0) {
+      throw new EvidenceInvalidException('A file is required.');
+    }
+    if (!EVIDENCE_MIME_TYPES.includes(file.mimetype)) {
+      throw new EvidenceInvalidException(
+        'Only JPEG, PNG or WebP photos and MP4 or MOV videos are allowed.',
+      );
+    }
+    if (file.size > MAX_EVIDENCE_SIZE) {
+      throw new EvidenceInvalidException(
+        `Files can be at most ${MAX_EVIDENCE_SIZE / 1024 / 1024} MB.`,
+      );
+    }
+    const count = await this.model.countDocuments({ targetId: targetId });
+    if (count >= MAX_EVIDENCE_PER_KILL) {
+      throw new EvidenceInvalidException(
+        `A kill can have at most ${MAX_EVIDENCE_PER_KILL} files.`,
+      );
+    }
+
+    const evidence = new this.model();
+    evidence.gameId = gameId;
+    evidence.targetId = targetId;
+    evidence.uploaderId = userId;
+    evidence.storageKey = `${gameId}/${evidence.id}`;
+    evidence.fileName = path.basename(file.originalname).slice(0, 200);
+    evidence.mimeType = file.mimetype;
+    evidence.size = file.size;
+    evidence.uploadedAt = new Date();
+
+    await this.storage.put(evidence.storageKey, file.buffer);
+    try {
+      await evidence.save();
+    } catch (e) {
+      await this.storage.delete(evidence.storageKey);
+      throw e;
+    }
+
+    await this.log.record({
+      gameId: gameId,
+      type: GameLogType.EVIDENCE_UPLOADED,
+      actorId: userId,
+      playerIds: [kill.target.playerId, kill.target.targetId],
+      after: { targetId: targetId, evidenceId: new MongoId(evidence.id) },
+      details: evidence.fileName,
+    });
+
+    return (await this.toInfo([evidence]))[0];
+  }
+
+  /**
+   * Fetch every kill of a game the user may see the evidence of, newest
+   * first. Admins see every kill, players only the ones they were part of.
+   * @param userId The user looking
+   * @param gameId The game in question
+   */
+  async fetchKills(
+    userId: MongoId,
+    gameId: MongoId,
+  ): Promise<KillEvidenceInfo[]> {
+    const viewer = await this.getViewer(userId, gameId);
+    if (viewer.role === PlayerRole.NONE) {
+      throw new PlayerRoleUnauthorizedException(userId, viewer.role);
+    }
+
+    const open = await this.claims.findOpen(gameId);
+    const claimed = await this.trgt.findByIds(open.map((c) => c.targetId));
+    const kills: Kill[] = [
+      ...(await this.trgt.findCompleted(gameId)).map((target) => ({ target })),
+      ...claimed
+        .filter((target) => target.status === TargetStatus.PENDING)
+        .map((target) => ({
+          target,
+          claim: open.find((c) => c.targetId.equals(target.id)),
+        })),
+    ].filter((kill) => this.canView(viewer, kill.target));
+
+    if (kills.length === 0) {
+      return [];
+    }
+
+    const evidence = await this.model
+      .find({ targetId: { $in: kills.map((k) => k.target.id) } })
+      .sort({ uploadedAt: 1 })
+      .exec();
+    const infos = await this.toInfo(evidence);
+    const names = await this.playerNames(
+      kills.flatMap((k) => [k.target.playerId, k.target.targetId]),
+    );
+
+    return kills
+      .map((kill) => ({
+        targetId: kill.target.id,
+        killerName: names[kill.target.playerId.toString()],
+        victimName: names[kill.target.targetId.toString()],
+        status: kill.claim ? kill.claim.status : 'CONFIRMED',
+        time: (kill.claim?.claimedAt ?? kill.target.resolvedAt)?.toISOString(),
+        evidence: infos.filter((_, i) =>
+          evidence[i].targetId.equals(kill.target.id),
+        ),
+        canUpload: this.canUpload(viewer, kill.target),
+      }))
+      .sort((a, b) => (b.time ?? '').localeCompare(a.time ?? ''));
+  }
+
+  /**
+   * Read back an uploaded file, as long as the user may see it.
+   * @param userId The user looking
+   * @param gameId The game in question
+   * @param evidenceId The evidence to read
+   */
+  async open(
+    userId: MongoId,
+    gameId: MongoId,
+    evidenceId: MongoId,
+  ): Promise<{ stream: Readable; evidence: Evidence }> {
+    const evidence = await this.findInGame(gameId, evidenceId);
+    const target = await this.trgt.findById(evidence.targetId);
+    const viewer = await this.getViewer(userId, gameId);
+    if (!target || !this.canView(viewer, target)) {
+      throw new PlayerRoleUnauthorizedException(userId, viewer.role);
+    }
+
+    const stream = await this.storage.get(evidence.storageKey);
+    if (!stream) {
+      throw new EvidenceNotFoundException(evidenceId);
+    }
+    return { stream, evidence };
+  }
+
+  /**
+   * ADMIN ONLY: Delete an uploaded file, such as one uploaded by mistake.
+   * @param userId The admin deleting it
+   * @param gameId The game in question
+   * @param evidenceId The evidence to delete
+   */
+  async remove(userId: MongoId, gameId: MongoId, evidenceId: MongoId) {
+    const role = await this.plyr.getRole(gameId, userId);
+    if (role !== PlayerRole.ADMIN) {
+      throw new PlayerRoleUnauthorizedException(userId, role);
+    }
+
+    const evidence = await this.findInGame(gameId, evidenceId);
+    await this.storage.delete(evidence.storageKey);
+    await evidence.deleteOne();
+  }
+
+  /**
+   * Start the retention period of evidence whose game has ended, and delete
+   * everything whose retention period has run out.
+   * @param now The current time
+   */
+  @Interval(CLEANUP_INTERVAL)
+  async cleanup(now = new Date()) {
+    const expiresAt = new Date(
+      now.getTime() + this.retentionDays * 24 * 60 * 60 * 1000,
+    );
+    const gameIds: MongoId[] = await this.model
+      .distinct('gameId', { expiresAt: { $exists: false } })
+      .exec();
+    for (const gameId of gameIds) {
+      if (!(await this.hasEnded(gameId))) {
+        continue;
+      }
+      await this.model
+        .updateMany(
+          { gameId: gameId, expiresAt: { $exists: false } },
+          { $set: { expiresAt: expiresAt } },
+        )
+        .exec();
+    }
+
+    const expired = await this.model.find({ expiresAt: { $lte: now } }).exec();
+    for (const evidence of expired) {
+      try {
+        await this.storage.delete(evidence.storageKey);
+        await evidence.deleteOne();
+      } catch (e) {
+        this.logger.error(`Failed to delete evidence ${evidence.id}: ${e}`);
+      }
+    }
+  }
+
+  private async hasEnded(gameId: MongoId) {
+    try {
+      const game = await this.gme.findById(gameId);
+      return (
+        game.status === GameStatus.COMPLETE ||
+        game.status === GameStatus.CANCELLED
+      );
+    } catch {
+      // The game is gone, so nobody can look at its evidence anymore
+      return true;
+    }
+  }
+
+  /**
+   * Find the kill behind a target, making sure it is part of the game.
+   */
+  private async findKill(gameId: MongoId, targetId: MongoId): Promise<Kill> {
+    const target = await this.trgt.findById(targetId);
+    if (!target || !target.gameId.equals(gameId)) {
+      throw new TargetNotFoundException(targetId);
+    }
+    if (target.status === TargetStatus.COMPLETE) {
+      return { target };
+    }
+
+    const claim = (await this.claims.findOpen(gameId)).find((c) =>
+      c.targetId.equals(targetId),
+    );
+    if (!claim) {
+      throw new TargetStatusNotValidException(targetId, target.status);
+    }
+    return { target, claim };
+  }
+
+  private async findInGame(gameId: MongoId, evidenceId: MongoId) {
+    const evidence = await this.model.findById(evidenceId).exec();
+    if (!evidence || !evidence.gameId.equals(gameId)) {
+      throw new EvidenceNotFoundException(evidenceId);
+    }
+    return evidence;
+  }
+
+  private async getViewer(userId: MongoId, gameId: MongoId): Promise<Viewer> {
+    const role = await this.plyr.getRole(gameId, userId);
+    const player =
+      role === PlayerRole.PLAYER ? await this.plyr.find(userId, gameId) : null;
+    return { role, player };
+  }
+
+  /**
+   * Admins see every kill, players only the ones they made or were victim of.
+   */
+  private canView({ role, player }: Viewer, target: Target) {
+    return (
+      role === PlayerRole.ADMIN ||
+      (!!player &&
+        (target.playerId.equals(player.id) ||
+          target.targetId.equals(player.id)))
+    );
+  }
+
+  private canUpload({ role, player }: Viewer, target: Target) {
+    return (
+      role === PlayerRole.ADMIN ||
+      (!!player && target.playerId.equals(player.id))
+    );
+  }
+
+  /**
+   * The names of players, keyed by player ID.
+   */
+  private async playerNames(playerIds: MongoId[]) {
+    const players = await this.plyr.findByIds(playerIds);
+    const users = await this.usr.findByIds(players.map((p) => p.userId));
+
+    const names: { [key: string]: string } = {};
+    players.forEach((p) => {
+      const user = users.find((u) => u.id === p.userId.toString());
+      names[p.id] = user ? `${user.firstName} ${user.surname}` : 'Unknown';
+    });
+    return names;
+  }
+
+  /**
+   * Convert evidence into the shape sent to the frontend, resolving the names
+   * of whoever uploaded it.
+   */
+  private async toInfo(evidence: Evidence[]): Promise<EvidenceInfo[]> {
+    if (evidence.length === 0) {
+      return [];
+    }
+
+    const users = await this.usr.findByIds(evidence.map((e) => e.uploaderId));
+    const names: { [key: string]: string } = {};
+    users.forEach((u) => (names[u.id] = `${u.firstName} ${u.surname}`));
+
+    return evidence.map((e) => ({
+      evidenceId: e.id,
+      fileName: e.fileName,
+      mimeType: e.mimeType,
+      size: e.size,
+      uploadedBy: names[e.uploaderId.toString()] ?? 'Unknown',
+      uploadedAt: e.uploadedAt.toISOString(),
+      expiresAt: e.expiresAt?.toISOString(),
+    }));
+  }
+}
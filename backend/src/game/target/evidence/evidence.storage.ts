@@ -0,0 +1,74 @@
+import { createReadStream, promises as fs } from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+
+/**
+ * The places evidence can be kept, picked with the `EVIDENCE_STORAGE`
+ * environment variable
+ */
+export enum EvidenceStorageName {
+  /**
+   * Keep files on the local disk, in `EVIDENCE_DIR`, for development and tests
+   */
+  LOCAL = 'local',
+}
+
+/**
+ * Something that can keep the files uploaded as evidence. Keys are generated
+ * by the backend, never taken from the upload.
+ */
+export interface EvidenceStorage {
+  put(key: string, data: Buffer): Promise<void>;
+  /**
+   * Read a file back, null if there is no file under the key
+   */
+  get(key: string): Promise<Readable | null>;
+  /**
+   * Remove a file, doing nothing if it is already gone
+   */
+  delete(key: string): Promise<void>;
+}
+
+export class LocalEvidenceStorage implements EvidenceStorage {
+  constructor(private dir: string) {}
+
+  async put(key: string, data: Buffer) {
+    const file = this.path(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    const file = this.path(key);
+    try {
+      await fs.access(file);
+    } catch {
+      return null;
+    }
+    return createReadStream(file);
+  }
+
+  async delete(key: string) {
+    await fs.rm(this.path(key), { force: true });
+  }
+
+  private path(key: string) {
+    return path.join(this.dir, ...key.split('/'));
+  }
+}
+
+/**
+ * Create the storage with the given name, defaulting to the local disk.
+ * @param name The name of the storage, from `EVIDENCE_STORAGE`
+ * @param options Where the storage keeps files
+ */
+export const getEvidenceStorage = (
+  name: string | undefined,
+  options: { dir?: string },
+): EvidenceStorage => {
+  switch (name) {
+    case EvidenceStorageName.LOCAL:
+    default:
+      return new LocalEvidenceStorage(options.dir ?? 'evidence');
+  }
+};
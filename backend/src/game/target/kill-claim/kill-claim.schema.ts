@@ -0,0 +1,100 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import mongoose, { HydratedDocument } from 'mongoose';
+import { MongoId } from 'utils/mongo';
+
+export type KillClaimDocument = HydratedDocument<KillClaim>;
+
+/**
+ * Status of a kill claim, as it moves between the killer, the victim and the
+ * admins of the game
+ */
+export enum KillClaimStatus {
+  /**
+   * The killer has reported the kill, and the victim has yet to respond.
+   */
+  PENDING = 'PENDING',
+  /**
+   * The kill was confirmed (by the victim, an admin, or by the confirmation
+   * window running out) and has been processed.
+   */
+  CONFIRMED = 'CONFIRMED',
+  /**
+   * The victim disputes the kill, and it is waiting on an admin to rule on it.
+   */
+  DISPUTED = 'DISPUTED',
+  /**
+   * An admin ruled against the killer, nothing happens.
+   */
+  REJECTED = 'REJECTED',
+  /**
+   * The target this claim was made against is no longer valid (e.g. an admin
+   * processed the kill manually, or targets were regenerated).
+   */
+  CANCELLED = 'CANCELLED',
+}
+
+@Schema()
+export class KillClaim extends mongoose.Document<mongoose.Schema.Types.ObjectId> {
+  /**
+   * The game that this claim was made within
+   */
+  @Prop({ type: mongoose.Schema.Types.ObjectId, required: true })
+  gameId: MongoId;
+
+  /**
+   * The pending target that this claim would complete
+   */
+  @Prop({ type: mongoose.Schema.Types.ObjectId, required: true })
+  targetId: MongoId;
+
+  /**
+   * The player who reported the kill
+   */
+  @Prop({ type: mongoose.Schema.Types.ObjectId, required: true })
+  playerId: MongoId;
+
+  /**
+   * The player who was (allegedly) killed
+   */
+  @Prop({ type: mongoose.Schema.Types.ObjectId, required: true })
+  victimId: MongoId;
+
+  @Prop({
+    type: String,
+    enum: KillClaimStatus,
+    default: KillClaimStatus.PENDING,
+  })
+  status: string;
+
+  /**
+   * When the claim was submitted by the killer
+   */
+  @Prop({ type: Date, required: true })
+  claimedAt: Date;
+
+  /**
+   * When the claim confirms itself if the victim has not responded
+   */
+  @Prop({ type: Date, required: true })
+  confirmBy: Date;
+
+  /**
+   * When the claim left the PENDING/DISPUTED states
+   */
+  @Prop({ type: Date, required: false })
+  resolvedAt: Date;
+
+  /**
+   * The victim's explanation of why they dispute this kill
+   */
+  @Prop({ type: String, required: false })
+  disputeReason: string;
+
+  /**
+   * The admin user who ruled on this claim, if any
+   */
+  @Prop({ type: mongoose.Schema.Types.ObjectId, required: false })
+  resolvedBy: MongoId;
+}
+
+export const KillClaimSchema = SchemaFactory.createForClass(KillClaim);
@@ -0,0 +1,150 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getConnectionToken, getModelToken } from '@nestjs/mongoose';
+import { KillClaimService } from './kill-claim.service';
+import { KillClaim, KillClaimStatus } from './kill-claim.schema';
+import { GameService } from 'game/game.service';
+import { PlayerService } from 'game/player/player.service';
+import { TargetService } from '../target.service';
+import { UserService } from 'user/user.service';
+import { GameLogService } from 'game/log/game-log.service';
+import { TargetStatus } from '../target.schema';
+import { PlayerStatus } from 'game/player/player.schema';
+import { MongoId } from 'utils/mongo';
+
+describe('KillClaimService', () => {
+  let service: KillClaimService;
+  const model = {
+    find: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateMany: jest.fn(),
+  };
+  const session = {};
+  const connection = {
+    transaction: async (work: (s: typeof session) => Promise<void>) =>
+      await work(session),
+  };
+  const trgt = {
+    findById: jest.fn(),
+    processKill: jest.fn(),
+  };
+  const plyr = {
+    findById: jest.fn(),
+  };
+
+  const claimId = new MongoId('64b000000000000000000001');
+  const makeClaim = () => ({
+    id: claimId.toString(),
+    gameId: 'game',
+    targetId: 'target',
+    victimId: 'victim',
+    status: KillClaimStatus.PENDING,
+  });
+
+  /**
+   * Let the claim be moved on, as if nothing else had touched it
+   */
+  const transitions = () =>
+    model.findOneAndUpdate.mockReturnValue({
+      exec: async () => ({ id: claimId.toString() }),
+    });
+
+  /**
+   * The status the claim was last moved on to
+   */
+  const movedTo = () => model.findOneAndUpdate.mock.calls.at(-1)[1].$set.status;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KillClaimService,
+        { provide: getModelToken(KillClaim.name), useValue: model },
+        { provide: getConnectionToken(), useValue: connection },
+        { provide: GameService, useValue: {} },
+        { provide: PlayerService, useValue: plyr },
+        { provide: TargetService, useValue: trgt },
+        { provide: UserService, useValue: {} },
+        { provide: GameLogService, useValue: { record: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<KillClaimService>(KillClaimService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should process the kill of claims past their window', async () => {
+    const claim = makeClaim();
+    const target = { status: TargetStatus.PENDING };
+    model.find.mockReturnValue({
+      sort: () => ({ exec: async () => [claim] }),
+    });
+    model.updateMany.mockReturnValue({ exec: async () => undefined });
+    transitions();
+    trgt.findById.mockResolvedValue(target);
+    plyr.findById.mockResolvedValue({ status: PlayerStatus.ALIVE });
+
+    await service.autoConfirm();
+
+    expect(trgt.processKill).toHaveBeenCalledWith(
+      'game',
+      'target',
+      undefined,
+      session,
+    );
+    expect(model.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: claimId, status: { $in: [KillClaimStatus.PENDING] } },
+      expect.anything(),
+      expect.objectContaining({ session }),
+    );
+    expect(movedTo()).toBe(KillClaimStatus.CONFIRMED);
+  });
+
+  it('should cancel claims whose target is no longer pending', async () => {
+    const claim = makeClaim();
+    model.find.mockReturnValue({
+      sort: () => ({ exec: async () => [claim] }),
+    });
+    transitions();
+    trgt.findById.mockResolvedValue({ status: TargetStatus.EXPIRED });
+    plyr.findById.mockResolvedValue({ status: PlayerStatus.ALIVE });
+
+    await service.autoConfirm();
+
+    expect(trgt.processKill).not.toHaveBeenCalled();
+    expect(movedTo()).toBe(KillClaimStatus.CANCELLED);
+  });
+
+  it.each([PlayerStatus.SAFE, PlayerStatus.DISQUALIFIED])(
+    'should cancel claims whose victim is now %s',
+    async (status) => {
+      model.find.mockReturnValue({
+        sort: () => ({ exec: async () => [makeClaim()] }),
+      });
+      transitions();
+      trgt.findById.mockResolvedValue({ status: TargetStatus.PENDING });
+      plyr.findById.mockResolvedValue({ status });
+
+      await service.autoConfirm();
+
+      expect(trgt.processKill).not.toHaveBeenCalled();
+      expect(movedTo()).toBe(KillClaimStatus.CANCELLED);
+    },
+  );
+
+  it('should not process the kill of a claim that was completed at the same time', async () => {
+    model.find.mockReturnValue({
+      sort: () => ({ exec: async () => [makeClaim()] }),
+    });
+    model.findOneAndUpdate.mockReturnValue({ exec: async () => null });
+    trgt.findById.mockResolvedValue({ status: TargetStatus.PENDING });
+    plyr.findById.mockResolvedValue({ status: PlayerStatus.ALIVE });
+
+    await service.autoConfirm();
+
+    expect(trgt.processKill).not.toHaveBeenCalled();
+    expect(model.updateMany).not.toHaveBeenCalled();
+  });
+});
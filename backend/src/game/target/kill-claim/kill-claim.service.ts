@@ -0,0 +1,472 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Interval } from '@nestjs/schedule';
+import { ClientSession, Connection, Model } from 'mongoose';
+import {
+  KillClaim,
+  KillClaimDocument,
+  KillClaimStatus,
+} from './kill-claim.schema';
+
+// Services
+import { GameService } from 'game/game.service';
+import { PlayerService } from 'game/player/player.service';
+import { TargetService } from '../target.service';
+import { UserService } from 'user/user.service';
+import { GameLogService } from 'game/log/game-log.service';
+
+// Utilities
+import { MongoId, withTransaction } from 'utils/mongo';
+import { GameStatus } from 'game/game.schema';
+import { PlayerRole, PlayerStatus } from 'game/player/player.schema';
+import { TargetStatus } from '../target.schema';
+import { GameLogType } from 'game/log/game-log.schema';
+import {
+  ConcurrentModificationException,
+  GameStatusNotValidException,
+  KillClaimAlreadyExistsException,
+  KillClaimNotFoundException,
+  KillClaimStatusNotValidException,
+  PlayerNotFoundException,
+  PlayerRoleUnauthorizedException,
+  PlayerStatusNotValidException,
+  TargetNotFoundException,
+} from 'utils/exceptions';
+
+// Objects
+import { KillClaimInfo } from 'shared/api/game/target';
+
+/**
+ * How often (in milliseconds) to look for claims that have run out their
+ * confirmation window
+ */
+const AUTO_CONFIRM_INTERVAL = 60 * 1000;
+
+@Injectable()
+export class KillClaimService {
+  private readonly logger = new Logger(KillClaimService.name);
+
+  constructor(
+    @InjectModel(KillClaim.name) private model: Model<KillClaim>,
+    @InjectConnection() private connection: Connection,
+    private gme: GameService,
+    private plyr: PlayerService,
+    private trgt: TargetService,
+    private usr: UserService,
+    private log: GameLogService,
+  ) {}
+
+  async findById(claimId: MongoId): Promise<KillClaimDocument> {
+    const claim = await this.model.findById(claimId).exec();
+    if (claim == null) {
+      throw new KillClaimNotFoundException(claimId);
+    }
+    return claim;
+  }
+
+  /**
+   * Report that the requesting player has killed one of their targets. The
+   * kill is not processed until the victim (or an admin) confirms it, or the
+   * confirmation window of the game runs out.
+   * @param userId The user reporting the kill
+   * @param gameId The game in question
+   * @param victimId The player that was killed
+   */
+  async claim(
+    userId: MongoId,
+    gameId: MongoId,
+    victimId: MongoId,
+  ): Promise<KillClaimInfo> {
+    const game = await this.gme.findById(gameId);
+    if (game.status !== GameStatus.IN_PROGRESS) {
+      throw new GameStatusNotValidException(gameId, game.status);
+    }
+
+    const player = await this.plyr.find(userId, gameId);
+    if (!player) {
+      throw new PlayerNotFoundException(userId);
+    }
+    const playerId = new MongoId(player.id);
+
+    if (
+      player.status !== PlayerStatus.ALIVE &&
+      player.status !== PlayerStatus.SAFE
+    ) {
+      throw new PlayerStatusNotValidException(playerId, player.status);
+    }
+
+    // Safe players cannot be killed
+    const victim = await this.plyr.findById(victimId);
+    if (!victim || victim.status !== PlayerStatus.ALIVE) {
+      throw new PlayerStatusNotValidException(victimId, victim?.status);
+    }
+
+    // The victim must be one of the player's current targets
+    const target = await this.trgt.findByGameAndPlayerAndTarget(
+      gameId,
+      playerId,
+      victimId,
+    );
+    if (!target) {
+      throw new TargetNotFoundException(victimId);
+    }
+    const targetId = new MongoId(target.id);
+
+    // Only allow one open claim per target
+    const existing = await this.model
+      .findOne({
+        targetId: targetId,
+        status: { $in: [KillClaimStatus.PENDING, KillClaimStatus.DISPUTED] },
+      })
+      .exec();
+    if (existing) {
+      throw new KillClaimAlreadyExistsException(targetId);
+    }
+
+    const now = new Date();
+    const claim = new this.model();
+    claim.gameId = gameId;
+    claim.targetId = targetId;
+    claim.playerId = playerId;
+    claim.victimId = victimId;
+    claim.claimedAt = now;
+    claim.confirmBy = new Date(
+      now.getTime() + game.killClaimWindowMinutes * 60000,
+    );
+    await claim.save();
+
+    await this.log.record({
+      gameId: gameId,
+      type: GameLogType.KILL_CLAIMED,
+      actorId: userId,
+      playerIds: [playerId, victimId],
+    });
+
+    return (await this.toInfo([claim]))[0];
+  }
+
+  /**
+   * Confirm a claim made against the requesting player, processing the kill.
+   * @param userId The victim of the claim
+   * @param gameId The game in question
+   * @param claimId The claim to confirm
+   */
+  async confirm(userId: MongoId, gameId: MongoId, claimId: MongoId) {
+    const claim = await this.findOpenClaimForVictim(userId, gameId, claimId);
+    if (claim.status !== KillClaimStatus.PENDING) {
+      throw new KillClaimStatusNotValidException(claimId, claim.status);
+    }
+
+    await this.complete(claim, [KillClaimStatus.PENDING], userId);
+  }
+
+  /**
+   * Dispute a claim made against the requesting player, sending it to the
+   * admins of the game to be ruled on.
+   * @param userId The victim of the claim
+   * @param gameId The game in question
+   * @param claimId The claim to dispute
+   * @param reason Why the victim believes the kill is not valid
+   */
+  async dispute(
+    userId: MongoId,
+    gameId: MongoId,
+    claimId: MongoId,
+    reason: string,
+  ) {
+    const claim = await this.findOpenClaimForVictim(userId, gameId, claimId);
+    if (claim.status !== KillClaimStatus.PENDING) {
+      throw new KillClaimStatusNotValidException(claimId, claim.status);
+    }
+
+    await this.transition(claimId, [KillClaimStatus.PENDING], {
+      status: KillClaimStatus.DISPUTED,
+      disputeReason: reason,
+    });
+
+    await this.log.record({
+      gameId: gameId,
+      type: GameLogType.KILL_DISPUTED,
+      actorId: userId,
+      playerIds: [claim.playerId, claim.victimId],
+      details: reason,
+    });
+  }
+
+  /**
+   * ADMIN ONLY: Rule on an open (pending or disputed) claim.
+   * @param userId The admin making the ruling
+   * @param gameId The game in question
+   * @param claimId The claim to rule on
+   * @param accept Whether the kill stands
+   */
+  async resolve(
+    userId: MongoId,
+    gameId: MongoId,
+    claimId: MongoId,
+    accept: boolean,
+  ) {
+    const role = await this.plyr.getRole(gameId, userId);
+    if (role !== PlayerRole.ADMIN) {
+      throw new PlayerRoleUnauthorizedException(userId, role);
+    }
+
+    const claim = await this.findById(claimId);
+    if (
+      !claim.gameId.equals(gameId) ||
+      (claim.status !== KillClaimStatus.PENDING &&
+        claim.status !== KillClaimStatus.DISPUTED)
+    ) {
+      throw new KillClaimStatusNotValidException(claimId, claim.status);
+    }
+
+    const open = [KillClaimStatus.PENDING, KillClaimStatus.DISPUTED];
+    if (accept) {
+      await this.complete(claim, open, userId, userId);
+    } else {
+      await this.transition(claimId, open, {
+        status: KillClaimStatus.REJECTED,
+        resolvedAt: new Date(),
+        resolvedBy: userId,
+      });
+
+      await this.log.record({
+        gameId: gameId,
+        type: GameLogType.KILL_CLAIM_REJECTED,
+        actorId: userId,
+        playerIds: [claim.playerId, claim.victimId],
+      });
+    }
+  }
+
+  /**
+   * Fetch all pending claims made against the requesting player.
+   * @param userId The (potential) victim
+   * @param gameId The game in question
+   */
+  async fetchIncoming(
+    userId: MongoId,
+    gameId: MongoId,
+  ): Promise<KillClaimInfo[]> {
+    const player = await this.plyr.find(userId, gameId);
+    if (!player) {
+      return [];
+    }
+
+    const claims = await this.model
+      .find({
+        gameId: gameId,
+        victimId: player.id,
+        status: KillClaimStatus.PENDING,
+      })
+      .exec();
+    return await this.toInfo(claims);
+  }
+
+  /**
+   * Every claim of a game still waiting on the victim or an admin.
+   * @param gameId The game in question
+   */
+  async findOpen(gameId: MongoId): Promise<KillClaim[]> {
+    return await this.model
+      .find({
+        gameId: gameId,
+        status: { $in: [KillClaimStatus.PENDING, KillClaimStatus.DISPUTED] },
+      })
+      .exec();
+  }
+
+  /**
+   * ADMIN ONLY: Fetch all open (pending or disputed) claims for a game.
+   * @param userId The admin requesting the claims
+   * @param gameId The game in question
+   */
+  async fetchOpen(userId: MongoId, gameId: MongoId): Promise<KillClaimInfo[]> {
+    const role = await this.plyr.getRole(gameId, userId);
+    if (role !== PlayerRole.ADMIN) {
+      throw new PlayerRoleUnauthorizedException(userId, role);
+    }
+
+    const claims = await this.model
+      .find({
+        gameId: gameId,
+        status: { $in: [KillClaimStatus.PENDING, KillClaimStatus.DISPUTED] },
+      })
+      .sort({ claimedAt: 1 })
+      .exec();
+    return await this.toInfo(claims);
+  }
+
+  /**
+   * Confirm every pending claim that has run out its confirmation window.
+   * Disputed claims are left for the admins.
+   */
+  @Interval(AUTO_CONFIRM_INTERVAL)
+  async autoConfirm() {
+    const expired = await this.model
+      .find({
+        status: KillClaimStatus.PENDING,
+        confirmBy: { $lte: new Date() },
+      })
+      .sort({ claimedAt: 1 })
+      .exec();
+
+    for (const claim of expired) {
+      try {
+        await this.complete(claim, [KillClaimStatus.PENDING]);
+      } catch (e) {
+        // Already dealt with by the victim or an admin in the meantime
+        if (e instanceof ConcurrentModificationException) {
+          continue;
+        }
+        this.logger.error(`Failed to auto-confirm claim ${claim.id}: ${e}`);
+      }
+    }
+  }
+
+  /**
+   * Process the kill behind a claim. If the target has since stopped being
+   * valid, or the victim can no longer be killed (made safe or disqualified),
+   * the claim is cancelled instead. The claim is only confirmed if the kill
+   * goes through, both happen in the same transaction.
+   * @param claim The claim to complete
+   * @param from The statuses the claim may still be in
+   * @param actorId Who the kill is processed on behalf of
+   * @param resolvedBy The admin ruling on the claim, if any
+   */
+  private async complete(
+    claim: KillClaimDocument,
+    from: KillClaimStatus[],
+    actorId?: MongoId,
+    resolvedBy?: MongoId,
+  ) {
+    await withTransaction(this.connection, undefined, async (session) => {
+      const target = await this.trgt.findById(claim.targetId, session);
+      const victim = await this.plyr.findById(claim.victimId, session);
+      const claimId = new MongoId(claim.id);
+      const resolvedAt = new Date();
+
+      if (
+        !target ||
+        target.status !== TargetStatus.PENDING ||
+        victim?.status !== PlayerStatus.ALIVE
+      ) {
+        await this.transition(
+          claimId,
+          from,
+          { status: KillClaimStatus.CANCELLED, resolvedAt, resolvedBy },
+          session,
+        );
+        return;
+      }
+
+      await this.transition(
+        claimId,
+        from,
+        { status: KillClaimStatus.CONFIRMED, resolvedAt, resolvedBy },
+        session,
+      );
+      await this.trgt.processKill(
+        claim.gameId,
+        claim.targetId,
+        actorId,
+        session,
+      );
+
+      // Any other open claims against the victim no longer make sense
+      await this.model
+        .updateMany(
+          {
+            gameId: claim.gameId,
+            victimId: claim.victimId,
+            status: {
+              $in: [KillClaimStatus.PENDING, KillClaimStatus.DISPUTED],
+            },
+          },
+          {
+            $set: {
+              status: KillClaimStatus.CANCELLED,
+              resolvedAt: new Date(),
+            },
+          },
+          { session },
+        )
+        .exec();
+    });
+  }
+
+  /**
+   * Move a claim on, but only if it is still in one of the given statuses.
+   * Checking and updating in one go stops two requests racing on the same
+   * claim (e.g. the victim confirming as it is auto-confirmed) from both
+   * acting on it.
+   */
+  private async transition(
+    claimId: MongoId,
+    from: KillClaimStatus[],
+    update: Partial<KillClaim>,
+    session?: ClientSession,
+  ): Promise<KillClaimDocument> {
+    const claim = await this.model
+      .findOneAndUpdate(
+        { _id: claimId, status: { $in: from } },
+        { $set: update },
+        { new: true, session },
+      )
+      .exec();
+    if (!claim) {
+      throw new ConcurrentModificationException();
+    }
+    return claim;
+  }
+
+  /**
+   * Find a claim and make sure that it was made against the requesting user.
+   */
+  private async findOpenClaimForVictim(
+    userId: MongoId,
+    gameId: MongoId,
+    claimId: MongoId,
+  ): Promise<KillClaimDocument> {
+    const player = await this.plyr.find(userId, gameId);
+    if (!player) {
+      throw new PlayerNotFoundException(userId);
+    }
+
+    const claim = await this.findById(claimId);
+    if (!claim.gameId.equals(gameId) || !claim.victimId.equals(player.id)) {
+      throw new KillClaimNotFoundException(claimId);
+    }
+    return claim;
+  }
+
+  /**
+   * Convert claims into the shape sent to the frontend, resolving names.
+   */
+  private async toInfo(claims: KillClaim[]): Promise<KillClaimInfo[]> {
+    if (claims.length === 0) {
+      return [];
+    }
+
+    const playerIds = claims.flatMap((c) => [c.playerId, c.victimId]);
+    const players = await this.plyr.findByIds(playerIds);
+    const users = await this.usr.findByIds(players.map((p) => p.userId));
+
+    const names: { [key: string]: string } = {};
+    players.forEach((p) => {
+      const user = users.find((u) => u.id === p.userId.toString());
+      names[p.id] = user ? `${user.firstName} ${user.surname}` : 'Unknown';
+    });
+
+    return claims.map((c) => ({
+      claimId: c.id,
+      targetId: c.targetId.toString(),
+      killerName: names[c.playerId.toString()],
+      victimName: names[c.victimId.toString()],
+      status: c.status,
+      claimedAt: c.claimedAt.toISOString(),
+      confirmBy: c.confirmBy.toISOString(),
+      disputeReason: c.disputeReason,
+    }));
+  }
+}
@@ -0,0 +1,77 @@
+import { StatsTarget, computePlayerStats } from './player-stats';
+import { TargetStatus } from './target.schema';
+
+const HOUR = 60 * 60 * 1000;
+const start = new Date('2024-04-01T00:00:00Z');
+const at = (hours: number) => new Date(start.getTime() + hours * HOUR);
+
+let nextId = 0;
+const target = (
+  hunterId: string,
+  targetId: string,
+  status: TargetStatus,
+  createdAt: number,
+  resolvedAt?: number,
+): StatsTarget => ({
+  id: `t${nextId++}`,
+  hunterId,
+  targetId,
+  status,
+  createdAt: at(createdAt),
+  resolvedAt: resolvedAt === undefined ? undefined : at(resolvedAt),
+});
+
+describe('computePlayerStats', () => {
+  const targets = [
+    target('1a', '2a', TargetStatus.COMPLETE, 0, 5),
+    target('1b', '2b', TargetStatus.COMPLETE, 0, 2),
+    target('1a', '3a', TargetStatus.PENDING, 5),
+    target('1b', '3b', TargetStatus.EXPIRED, 2, 6),
+    target('3a', '1a', TargetStatus.COMPLETE, 0, 10),
+    target('3b', '1a', TargetStatus.EXPIRED, 0, 10),
+  ];
+
+  it('should list kills and every target assigned', () => {
+    const stats = computePlayerStats(
+      '1a',
+      '1b',
+      targets,
+      { start, end: at(24) },
+      true,
+    );
+
+    expect(stats.kills).toEqual([
+      { targetId: 't0', victimId: '2a', time: at(5), timeToKill: 5 * HOUR },
+    ]);
+    expect(stats.assigned.map((t) => t.targetId)).toEqual(['2a', '3a']);
+    expect(stats.averageTimeToKill).toBe(5 * HOUR);
+    expect(stats.partnerKills).toBe(1);
+  });
+
+  it('should count survival until the player was killed', () => {
+    const stats = computePlayerStats(
+      '1a',
+      '1b',
+      targets,
+      { start, end: at(24) },
+      true,
+    );
+
+    expect(stats.killedBy).toEqual({ hunterId: '3a', time: at(10) });
+    expect(stats.survivalTime).toBe(10 * HOUR);
+    expect(stats.timesHunted).toBe(2);
+  });
+
+  it('should count survival until the end for revived players', () => {
+    const stats = computePlayerStats(
+      '1a',
+      '1b',
+      targets,
+      { start, end: at(24) },
+      false,
+    );
+
+    expect(stats.killedBy).toBeUndefined();
+    expect(stats.survivalTime).toBe(24 * HOUR);
+  });
+});
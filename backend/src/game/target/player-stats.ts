@@ -0,0 +1,143 @@
+import { GameStatus } from 'game/game.schema';
+import { MongoId } from 'utils/mongo';
+import { Target, TargetStatus } from './target.schema';
+
+/**
+ * A target of a game, as far as player statistics are concerned
+ */
+export type StatsTarget = {
+  id: string;
+  hunterId: string;
+  targetId: string;
+  status: string;
+  createdAt: Date;
+  resolvedAt?: Date;
+};
+
+/**
+ * Older targets have no creation time, but their ID still knows when they were
+ * made
+ */
+export const toStatsTarget = (t: Target): StatsTarget => ({
+  id: t.id,
+  hunterId: t.playerId.toString(),
+  targetId: t.targetId.toString(),
+  status: t.status,
+  createdAt: t.createdAt ?? new MongoId(t.id).getTimestamp(),
+  resolvedAt: t.resolvedAt,
+});
+
+/**
+ * When a game was played. It starts when targets are first handed out, and
+ * ends with the last target to be resolved (or now, if it is still going).
+ */
+export const gameTimespan = (
+  game: { status: string; startTime: Date },
+  targets: StatsTarget[],
+  now = new Date(),
+): { start: Date; end: Date } => {
+  const over =
+    game.status === GameStatus.COMPLETE || game.status === GameStatus.CANCELLED;
+  const start = targets.length
+    ? new Date(Math.min(...targets.map((t) => t.createdAt.getTime())))
+    : game.startTime;
+  const resolved = targets
+    .filter((t) => t.resolvedAt)
+    .map((t) => t.resolvedAt.getTime());
+  const end = over && resolved.length ? new Date(Math.max(...resolved)) : now;
+  return { start, end };
+};
+
+/**
+ * The statistics of a single player, before names are filled in. Times are in
+ * milliseconds.
+ */
+export type PlayerStats = {
+  kills: {
+    targetId: string;
+    victimId: string;
+    time: Date;
+    timeToKill: number;
+  }[];
+  /**
+   * Every target held by the player, oldest first
+   */
+  assigned: (StatsTarget & { timeToKill?: number })[];
+  killedBy?: { hunterId: string; time: Date };
+  survivalTime: number;
+  timesHunted: number;
+  averageTimeToKill?: number;
+  partnerKills: number;
+};
+
+/**
+ * Work out everything a player has done in a game from its targets.
+ * @param playerId The player in question
+ * @param partnerId Their partner, if they have one
+ * @param targets Every target of the game
+ * @param game When the game started, and ended (or now if it is still going)
+ * @param eliminated Whether the player is out of the game, a player who was
+ * killed and then revived is not
+ */
+export const computePlayerStats = (
+  playerId: string,
+  partnerId: string | undefined,
+  targets: StatsTarget[],
+  game: { start: Date; end: Date },
+  eliminated: boolean,
+): PlayerStats => {
+  const assigned = targets
+    .filter((t) => t.hunterId === playerId)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .map((t) => ({
+      ...t,
+      timeToKill:
+        t.status === TargetStatus.COMPLETE && t.resolvedAt
+          ? t.resolvedAt.getTime() - t.createdAt.getTime()
+          : undefined,
+    }));
+
+  const kills = assigned
+    .filter((t) => t.timeToKill !== undefined)
+    .map((t) => ({
+      targetId: t.id,
+      victimId: t.targetId,
+      time: t.resolvedAt,
+      timeToKill: t.timeToKill,
+    }))
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  // The last kill is the one that counts, if the player was ever revived
+  const hunted = targets.filter((t) => t.targetId === playerId);
+  const fatal = hunted
+    .filter((t) => t.status === TargetStatus.COMPLETE && t.resolvedAt)
+    .sort((a, b) => b.resolvedAt.getTime() - a.resolvedAt.getTime())[0];
+  const killedBy =
+    eliminated && fatal
+      ? { hunterId: fatal.hunterId, time: fatal.resolvedAt }
+      : undefined;
+
+  const out = killedBy?.time ?? game.end;
+  const survivalTime = Math.max(0, out.getTime() - game.start.getTime());
+
+  const averageTimeToKill =
+    kills.length === 0
+      ? undefined
+      : kills.reduce((sum, k) => sum + k.timeToKill, 0) / kills.length;
+
+  const partnerKills = partnerId
+    ? targets.filter(
+        (t) => t.hunterId === partnerId && t.status === TargetStatus.COMPLETE,
+      ).length
+    : 0;
+
+  return {
+    kills,
+    assigned,
+    killedBy,
+    survivalTime,
+    timesHunted: hunted.length,
+    averageTimeToKill,
+    partnerKills,
+  };
+};
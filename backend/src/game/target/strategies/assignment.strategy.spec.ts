@@ -0,0 +1,150 @@
+import {
+  AssignmentContext,
+  AssignmentStrategyName,
+  AssignmentTeam,
+  TeamAssignment,
+  getAssignmentStrategy,
+} from '.';
+
+const makeTeams = (count: number, dorms: string[] = []): AssignmentTeam[] =>
+  Array.from({ length: count }, (_, i) => ({
+    playerIds: [`${i}a`, `${i}b`],
+    dorms: dorms[i] ? [dorms[i]] : [],
+  }));
+
+const makeContext = (
+  context: Partial<AssignmentContext> = {},
+): AssignmentContext => ({
+  previousTargets: new Map(),
+  huntersPerTarget: 2,
+  ...context,
+});
+
+const key = (team: AssignmentTeam) => team.playerIds.join(',');
+
+const huntedCounts = (assignments: TeamAssignment[]) => {
+  const counts = new Map<string, number>();
+  assignments.forEach(({ target }) =>
+    counts.set(key(target), (counts.get(key(target)) ?? 0) + 1),
+  );
+  return counts;
+};
+
+describe.each(Object.values(AssignmentStrategyName))('%s strategy', (name) => {
+  const strategy = getAssignmentStrategy(name);
+
+  it.each([0, 1])('assigns nothing with %i teams', (count) => {
+    expect(strategy.assign(makeTeams(count), makeContext())).toEqual([]);
+  });
+
+  it.each([2, 3, 7, 20])('is valid with %i teams', (count) => {
+    const teams = makeTeams(count);
+    const assignments = strategy.assign(teams, makeContext());
+
+    assignments.forEach(({ hunter, target }) => {
+      // Nobody hunts themselves or a teammate
+      hunter.playerIds.forEach((id) =>
+        expect(target.playerIds).not.toContain(id),
+      );
+    });
+
+    // Every team hunts, and is hunted
+    const hunters = new Set(assignments.map(({ hunter }) => key(hunter)));
+    const hunted = huntedCounts(assignments);
+    teams.forEach((team) => {
+      expect(hunters.has(key(team))).toBe(true);
+      expect(hunted.get(key(team))).toBeGreaterThanOrEqual(1);
+    });
+  });
+});
+
+describe('MULTI_HUNTER strategy', () => {
+  const strategy = getAssignmentStrategy(AssignmentStrategyName.MULTI_HUNTER);
+
+  it('has every team hunted by exactly k teams', () => {
+    const teams = makeTeams(10);
+    const assignments = strategy.assign(
+      teams,
+      makeContext({ huntersPerTarget: 3 }),
+    );
+
+    expect(assignments).toHaveLength(30);
+    huntedCounts(assignments).forEach((count) => expect(count).toBe(3));
+
+    // No team hunts the same team twice
+    const edges = assignments.map(
+      ({ hunter, target }) => `${key(hunter)}>${key(target)}`,
+    );
+    expect(new Set(edges).size).toBe(edges.length);
+  });
+
+  it('caps k so teams never hunt themselves', () => {
+    const teams = makeTeams(3);
+    const assignments = strategy.assign(
+      teams,
+      makeContext({ huntersPerTarget: 5 }),
+    );
+
+    huntedCounts(assignments).forEach((count) => expect(count).toBe(2));
+    assignments.forEach(({ hunter, target }) =>
+      expect(key(hunter)).not.toEqual(key(target)),
+    );
+  });
+});
+
+describe('AVOID_SAME_DORM strategy', () => {
+  const strategy = getAssignmentStrategy(
+    AssignmentStrategyName.AVOID_SAME_DORM,
+  );
+
+  it('avoids same-dorm assignments when possible', () => {
+    const teams = makeTeams(8, ['A', 'A', 'A', 'A', 'B', 'B', 'C', 'C']);
+
+    for (let run = 0; run < 10; run++) {
+      strategy
+        .assign(teams, makeContext())
+        .forEach(({ hunter, target }) =>
+          expect(hunter.dorms).not.toEqual(target.dorms),
+        );
+    }
+  });
+
+  it('still assigns everyone when it is not possible', () => {
+    const teams = makeTeams(4, ['A', 'A', 'A', 'B']);
+    const assignments = strategy.assign(teams, makeContext());
+
+    expect(assignments).toHaveLength(4);
+    huntedCounts(assignments).forEach((count) => expect(count).toBe(1));
+  });
+});
+
+describe('AVOID_PREVIOUS_TARGETS strategy', () => {
+  const strategy = getAssignmentStrategy(
+    AssignmentStrategyName.AVOID_PREVIOUS_TARGETS,
+  );
+
+  it('avoids previous targets when possible', () => {
+    const teams = makeTeams(6);
+
+    // Everyone has already hunted the next team along
+    const previousTargets = new Map<string, Set<string>>();
+    teams.forEach((team, i) => {
+      const next = teams[(i + 1) % teams.length];
+      team.playerIds.forEach((id) =>
+        previousTargets.set(id, new Set(next.playerIds)),
+      );
+    });
+
+    for (let run = 0; run < 10; run++) {
+      strategy
+        .assign(teams, makeContext({ previousTargets }))
+        .forEach(({ hunter, target }) =>
+          hunter.playerIds.forEach((id) =>
+            target.playerIds.forEach((targetId) =>
+              expect(previousTargets.get(id).has(targetId)).toBe(false),
+            ),
+          ),
+        );
+    }
+  });
+});
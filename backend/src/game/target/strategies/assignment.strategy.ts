@@ -0,0 +1,66 @@
+/**
+ * The different ways targets can be assigned when matching players
+ */
+export enum AssignmentStrategyName {
+  /**
+   * Every team hunts the next team in a single shuffled ring.
+   */
+  RING = 'RING',
+  /**
+   * Every team hunts (and is hunted by) `huntersPerTarget` other teams.
+   */
+  MULTI_HUNTER = 'MULTI_HUNTER',
+  /**
+   * A single ring, avoiding teams hunting others from the same dorm.
+   */
+  AVOID_SAME_DORM = 'AVOID_SAME_DORM',
+  /**
+   * A single ring, avoiding teams hunting anyone they have hunted before.
+   */
+  AVOID_PREVIOUS_TARGETS = 'AVOID_PREVIOUS_TARGETS',
+}
+
+/**
+ * A group of players that hunt, and are hunted, together
+ */
+export type AssignmentTeam = {
+  /**
+   * The IDs of the (alive) players on this team
+   */
+  playerIds: string[];
+  /**
+   * The dorms the players of this team live in, if known
+   */
+  dorms: string[];
+};
+
+/**
+ * Extra information a strategy may use when assigning targets
+ */
+export type AssignmentContext = {
+  /**
+   * Every target a player has ever been assigned, keyed by player ID
+   */
+  previousTargets: Map<string, Set<string>>;
+  /**
+   * How many teams should hunt each team, for strategies that support it
+   */
+  huntersPerTarget: number;
+};
+
+/**
+ * A single team hunting another
+ */
+export type TeamAssignment = {
+  hunter: AssignmentTeam;
+  target: AssignmentTeam;
+};
+
+/**
+ * Decides which teams hunt which. Strategies should never have a team hunt
+ * itself, and every team should be hunted by at least one other team (as long
+ * as there are two or more teams).
+ */
+export interface AssignmentStrategy {
+  assign(teams: AssignmentTeam[], context: AssignmentContext): TeamAssignment[];
+}
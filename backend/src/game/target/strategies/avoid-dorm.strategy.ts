@@ -0,0 +1,18 @@
+import {
+  AssignmentStrategy,
+  AssignmentTeam,
+  TeamAssignment,
+} from './assignment.strategy';
+import { bestRing } from './ring.strategy';
+
+/**
+ * A single ring where, wherever possible, no team hunts a team that shares a
+ * dorm with it. Players without a known dorm never conflict.
+ */
+export class AvoidSameDormStrategy implements AssignmentStrategy {
+  assign(teams: AssignmentTeam[]): TeamAssignment[] {
+    return bestRing(teams, (hunter, target) =>
+      hunter.dorms.some((dorm) => target.dorms.includes(dorm)) ? 1 : 0,
+    );
+  }
+}
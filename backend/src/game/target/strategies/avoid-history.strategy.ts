@@ -0,0 +1,29 @@
+import {
+  AssignmentContext,
+  AssignmentStrategy,
+  AssignmentTeam,
+  TeamAssignment,
+} from './assignment.strategy';
+import { bestRing } from './ring.strategy';
+
+/**
+ * A single ring where, wherever possible, no player is assigned someone they
+ * have been assigned before (in any status).
+ */
+export class AvoidPreviousTargetsStrategy implements AssignmentStrategy {
+  assign(
+    teams: AssignmentTeam[],
+    context: AssignmentContext,
+  ): TeamAssignment[] {
+    return bestRing(teams, (hunter, target) => {
+      let repeats = 0;
+      hunter.playerIds.forEach((playerId) => {
+        const previous = context.previousTargets.get(playerId);
+        target.playerIds.forEach((targetId) => {
+          if (previous?.has(targetId)) repeats++;
+        });
+      });
+      return repeats;
+    });
+  }
+}
@@ -0,0 +1,27 @@
+import {
+  AssignmentStrategy,
+  AssignmentStrategyName,
+} from './assignment.strategy';
+import { RingStrategy } from './ring.strategy';
+import { MultiHunterStrategy } from './multi-hunter.strategy';
+import { AvoidSameDormStrategy } from './avoid-dorm.strategy';
+import { AvoidPreviousTargetsStrategy } from './avoid-history.strategy';
+
+export * from './assignment.strategy';
+
+/**
+ * Return the strategy with the given name, defaulting to the classic ring.
+ * @param name The name of the strategy, as stored on the game
+ */
+export const getAssignmentStrategy = (name: string): AssignmentStrategy => {
+  switch (name) {
+    case AssignmentStrategyName.MULTI_HUNTER:
+      return new MultiHunterStrategy();
+    case AssignmentStrategyName.AVOID_SAME_DORM:
+      return new AvoidSameDormStrategy();
+    case AssignmentStrategyName.AVOID_PREVIOUS_TARGETS:
+      return new AvoidPreviousTargetsStrategy();
+    default:
+      return new RingStrategy();
+  }
+};
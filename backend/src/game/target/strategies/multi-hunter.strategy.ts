@@ -0,0 +1,33 @@
+import { shuffle } from 'utils/misc';
+import {
+  AssignmentContext,
+  AssignmentStrategy,
+  AssignmentTeam,
+  TeamAssignment,
+} from './assignment.strategy';
+
+/**
+ * Every team hunts the next `huntersPerTarget` teams in a shuffled order, so
+ * each team is hunted by exactly that many teams (a k-regular assignment).
+ * Capped so that no team ever hunts itself.
+ */
+export class MultiHunterStrategy implements AssignmentStrategy {
+  assign(
+    teams: AssignmentTeam[],
+    context: AssignmentContext,
+  ): TeamAssignment[] {
+    const order = shuffle([...teams]);
+    const k = Math.min(Math.max(context.huntersPerTarget, 1), order.length - 1);
+
+    const assignments: TeamAssignment[] = [];
+    order.forEach((hunter, i) => {
+      for (let offset = 1; offset <= k; offset++) {
+        assignments.push({
+          hunter,
+          target: order[(i + offset) % order.length],
+        });
+      }
+    });
+    return assignments;
+  }
+}
@@ -0,0 +1,96 @@
+import { shuffle } from 'utils/misc';
+import {
+  AssignmentStrategy,
+  AssignmentTeam,
+  TeamAssignment,
+} from './assignment.strategy';
+
+/**
+ * Link each team to the next one in the given order, forming a single cycle.
+ */
+export const ringAssignments = (order: AssignmentTeam[]): TeamAssignment[] => {
+  // A lone team has nobody to hunt
+  if (order.length < 2) {
+    return [];
+  }
+
+  return order.map((hunter, i) => ({
+    hunter,
+    target: order[(i + 1) % order.length],
+  }));
+};
+
+/**
+ * Search for a ring that has as few "bad" assignments as possible, as judged
+ * by `cost`. Starts from random orderings and improves them by swapping teams,
+ * stopping early if a ring without any bad assignments is found.
+ * @param teams The teams to place in the ring
+ * @param cost How bad it is for `hunter` to hunt `target` (0 is perfect)
+ * @param attempts How many random orderings to try
+ */
+export const bestRing = (
+  teams: AssignmentTeam[],
+  cost: (hunter: AssignmentTeam, target: AssignmentTeam) => number,
+  attempts = 20,
+): TeamAssignment[] => {
+  const n = teams.length;
+  if (n < 2) {
+    return [];
+  }
+
+  // Cost of the team at `index` hunting the next one in the ring
+  const edge = (order: AssignmentTeam[], index: number) => {
+    const i = (index + n) % n;
+    return cost(order[i], order[(i + 1) % n]);
+  };
+  const total = (order: AssignmentTeam[]) =>
+    order.reduce((sum, _, i) => sum + edge(order, i), 0);
+
+  let best = shuffle([...teams]);
+  let bestCost = total(best);
+
+  for (let attempt = 0; attempt < attempts && bestCost > 0; attempt++) {
+    const order = shuffle([...teams]);
+    let orderCost = total(order);
+
+    // Greedily swap pairs of teams while it makes the ring better, only the
+    // edges touching the two swapped teams can change
+    let improved = true;
+    while (improved && orderCost > 0) {
+      improved = false;
+      for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+          const touched = Array.from(
+            new Set([i - 1, i, j - 1, j].map((e) => (e + n) % n)),
+          );
+          const before = touched.reduce((sum, e) => sum + edge(order, e), 0);
+          [order[i], order[j]] = [order[j], order[i]];
+          const after = touched.reduce((sum, e) => sum + edge(order, e), 0);
+
+          if (after < before) {
+            orderCost += after - before;
+            improved = true;
+          } else {
+            [order[i], order[j]] = [order[j], order[i]];
+          }
+        }
+      }
+    }
+
+    if (orderCost < bestCost) {
+      best = order;
+      bestCost = orderCost;
+    }
+  }
+
+  return ringAssignments(best);
+};
+
+/**
+ * The classic game: shuffle all teams and have each hunt the next.
+ */
+export class RingStrategy implements AssignmentStrategy {
+  assign(teams: AssignmentTeam[]): TeamAssignment[] {
+    return ringAssignments(shuffle([...teams]));
+  }
+}
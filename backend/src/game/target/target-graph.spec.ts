@@ -0,0 +1,218 @@
+import {
+  GraphPlayer,
+  GraphTarget,
+  TargetGraphProblemType,
+  findGraphProblems,
+  planGraphRepair,
+} from './target-graph';
+
+/**
+ * Teams of two, `${i}a` and `${i}b`, with the given teams no longer alive
+ */
+const makePlayers = (count: number, dead: string[] = []): GraphPlayer[] =>
+  Array.from({ length: count }, (_, i) => [
+    { id: `${i}a`, partnerId: `${i}b`, alive: !dead.includes(`${i}a`) },
+    { id: `${i}b`, partnerId: `${i}a`, alive: !dead.includes(`${i}b`) },
+  ]).flat();
+
+let nextId = 0;
+const target = (hunterId: string, targetId: string): GraphTarget => ({
+  id: `t${nextId++}`,
+  hunterId,
+  targetId,
+});
+
+/**
+ * Every member of team `hunter` hunting every member of team `prey`
+ */
+const hunt = (hunter: number, prey: number) =>
+  ['a', 'b'].flatMap((h) =>
+    ['a', 'b'].map((t) => target(`${hunter}${h}`, `${prey}${t}`)),
+  );
+
+const ring = (count: number) =>
+  Array.from({ length: count }, (_, i) => hunt(i, (i + 1) % count)).flat();
+
+const repair = (
+  players: GraphPlayer[],
+  targets: GraphTarget[],
+  maxTargetTeams = 1,
+) => {
+  const plan = planGraphRepair(players, targets, maxTargetTeams);
+  const repaired = [
+    ...targets.filter((t) => !plan.expire.includes(t.id)),
+    ...plan.create.map(({ hunterId, targetId }) => target(hunterId, targetId)),
+  ];
+  return { plan, repaired };
+};
+
+const types = (players: GraphPlayer[], targets: GraphTarget[], max = 1) =>
+  findGraphProblems(players, targets, max).map((p) => p.type);
+
+describe('target graph', () => {
+  it('finds nothing wrong with a ring', () => {
+    const players = makePlayers(5);
+    const targets = ring(5);
+
+    expect(findGraphProblems(players, targets, 1)).toEqual([]);
+    expect(planGraphRepair(players, targets, 1)).toEqual({
+      expire: [],
+      create: [],
+    });
+  });
+
+  it('finds invalid targets', () => {
+    const players = makePlayers(3, ['2a']);
+    const self = target('0a', '0a');
+    const teammate = target('0a', '0b');
+    const deadHunter = target('2a', '0a');
+    const deadTarget = target('1a', '2a');
+    const duplicate = target('0a', '1a');
+
+    const problems = findGraphProblems(
+      players,
+      [...ring(3), self, teammate, deadHunter, duplicate],
+      1,
+    );
+    expect(problems).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          type: TargetGraphProblemType.SELF_TARGET,
+          targetIds: [self.id],
+        }),
+        expect.objectContaining({
+          type: TargetGraphProblemType.TEAMMATE_TARGET,
+          targetIds: [teammate.id],
+        }),
+        expect.objectContaining({
+          type: TargetGraphProblemType.DEAD_HUNTER,
+          targetIds: [deadHunter.id],
+        }),
+        expect.objectContaining({
+          type: TargetGraphProblemType.DUPLICATE_TARGET,
+          targetIds: [duplicate.id],
+        }),
+      ]),
+    );
+    expect(types(players, [deadTarget])).toContain(
+      TargetGraphProblemType.DEAD_TARGET,
+    );
+  });
+
+  it('finds teams that are not hunting or not hunted', () => {
+    // Team 1 was killed without anyone inheriting its targets
+    const players = makePlayers(4, ['1a', '1b']);
+    const targets = [...hunt(2, 3), ...hunt(3, 0)];
+
+    const problems = findGraphProblems(players, targets, 1);
+    expect(problems).toEqual(
+      expect.arrayContaining([
+        {
+          type: TargetGraphProblemType.ORPHANED_HUNTER,
+          playerIds: ['0a'],
+          targetIds: [],
+        },
+        {
+          type: TargetGraphProblemType.ORPHANED_HUNTER,
+          playerIds: ['0b'],
+          targetIds: [],
+        },
+        {
+          type: TargetGraphProblemType.UNHUNTED_TEAM,
+          playerIds: ['2a', '2b'],
+          targetIds: [],
+        },
+      ]),
+    );
+  });
+
+  it('only lets teams hunt several teams when the strategy allows it', () => {
+    const players = makePlayers(3);
+    const targets = [...ring(3), ...hunt(0, 2)];
+
+    expect(types(players, targets)).toEqual([
+      TargetGraphProblemType.TOO_MANY_TARGETS,
+    ]);
+    expect(types(players, targets, 2)).toEqual([]);
+  });
+
+  it('ignores a lone team', () => {
+    const players = makePlayers(2, ['1a', '1b']);
+    expect(findGraphProblems(players, [], 1)).toEqual([]);
+  });
+
+  it('reconnects the ring around a missing team', () => {
+    const players = makePlayers(4, ['1a', '1b']);
+    const stale = hunt(1, 2);
+    const targets = [...stale, ...hunt(2, 3), ...hunt(3, 0)];
+
+    const { plan, repaired } = repair(players, targets);
+    expect(plan.expire.sort()).toEqual(stale.map((t) => t.id).sort());
+    expect(plan.create).toEqual(
+      hunt(0, 2).map(({ hunterId, targetId }) => ({ hunterId, targetId })),
+    );
+    expect(findGraphProblems(players, repaired, 1)).toEqual([]);
+  });
+
+  it('moves a hunter over from a team hunted twice', () => {
+    // Teams 0 and 3 both hunt team 1, and nobody hunts team 2
+    const players = makePlayers(4);
+    const targets = [
+      ...hunt(0, 1),
+      ...hunt(1, 3),
+      ...hunt(2, 0),
+      ...hunt(3, 1),
+    ];
+
+    const { plan, repaired } = repair(players, targets);
+    expect(plan.expire).toHaveLength(4);
+    expect(plan.create).toHaveLength(4);
+    expect(findGraphProblems(players, repaired, 1)).toEqual([]);
+  });
+
+  it('splices in a team that is neither hunting nor hunted', () => {
+    const players = makePlayers(4);
+    const { plan, repaired } = repair(players, ring(3));
+
+    expect(plan.expire).toHaveLength(4);
+    expect(plan.create).toHaveLength(8);
+    expect(findGraphProblems(players, repaired, 1)).toEqual([]);
+  });
+
+  it('fills in the partner of a player who is not hunting', () => {
+    const players = makePlayers(3);
+    const targets = ring(3).filter((t) => t.hunterId !== '0b');
+
+    const { plan, repaired } = repair(players, targets);
+    expect(plan.expire).toEqual([]);
+    expect(plan.create).toEqual([
+      { hunterId: '0b', targetId: '1a' },
+      { hunterId: '0b', targetId: '1b' },
+    ]);
+    expect(findGraphProblems(players, repaired, 1)).toEqual([]);
+  });
+
+  it.each([1, 2])(
+    'always repairs randomly broken graphs (%i teams each)',
+    (maxTargetTeams) => {
+      for (let run = 0; run < 50; run++) {
+        const count = 2 + Math.floor(Math.random() * 8);
+        const players = makePlayers(count).map((p) => ({
+          ...p,
+          alive: Math.random() > 0.2,
+        }));
+        const targets = Array.from({ length: count * 3 }, () =>
+          target(
+            players[Math.floor(Math.random() * players.length)].id,
+            players[Math.floor(Math.random() * players.length)].id,
+          ),
+        );
+
+        const { repaired } = repair(players, targets, maxTargetTeams);
+        expect(findGraphProblems(players, repaired, maxTargetTeams)).toEqual(
+          [],
+        );
+      }
+    },
+  );
+});
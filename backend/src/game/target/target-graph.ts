@@ -0,0 +1,380 @@
+import { teamKey } from 'utils/misc';
+
+/**
+ * The ways the target graph of a game can be broken
+ */
+export enum TargetGraphProblemType {
+  /**
+   * A player is hunting themselves
+   */
+  SELF_TARGET = 'SELF_TARGET',
+  /**
+   * A player is hunting their own partner
+   */
+  TEAMMATE_TARGET = 'TEAMMATE_TARGET',
+  /**
+   * A pending target is held by a player who is no longer in the game
+   */
+  DEAD_HUNTER = 'DEAD_HUNTER',
+  /**
+   * A pending target points at a player who is no longer in the game
+   */
+  DEAD_TARGET = 'DEAD_TARGET',
+  /**
+   * The same player is hunting the same player more than once
+   */
+  DUPLICATE_TARGET = 'DUPLICATE_TARGET',
+  /**
+   * A team is hunting more teams than the game's strategy allows
+   */
+  TOO_MANY_TARGETS = 'TOO_MANY_TARGETS',
+  /**
+   * An alive player is not hunting anybody
+   */
+  ORPHANED_HUNTER = 'ORPHANED_HUNTER',
+  /**
+   * An alive team is not being hunted by anybody
+   */
+  UNHUNTED_TEAM = 'UNHUNTED_TEAM',
+}
+
+/**
+ * A player in the game, as far as the target graph is concerned
+ */
+export type GraphPlayer = {
+  id: string;
+  partnerId?: string;
+  /**
+   * Whether the player is still in the game (alive or safe)
+   */
+  alive: boolean;
+};
+
+/**
+ * A pending target
+ */
+export type GraphTarget = {
+  id: string;
+  hunterId: string;
+  targetId: string;
+};
+
+export type TargetGraphProblem = {
+  type: TargetGraphProblemType;
+  /**
+   * The players involved in the problem
+   */
+  playerIds: string[];
+  /**
+   * The pending targets involved in the problem, if any
+   */
+  targetIds: string[];
+};
+
+/**
+ * The smallest set of changes that makes the graph valid again
+ */
+export type TargetGraphRepair = {
+  /**
+   * The pending targets to expire
+   */
+  expire: string[];
+  /**
+   * The targets to create
+   */
+  create: { hunterId: string; targetId: string }[];
+};
+
+/**
+ * The graph of alive teams, built from the pending targets that are valid on
+ * their own (ignoring whether the graph as a whole is).
+ */
+class TeamGraph {
+  /**
+   * The alive members of each alive team, keyed by team
+   */
+  readonly teams = new Map<string, string[]>();
+  /**
+   * The teams hunted by each team
+   */
+  readonly hunting = new Map<string, Set<string>>();
+  /**
+   * The pending targets found to be invalid, and why
+   */
+  readonly invalid: TargetGraphProblem[] = [];
+  /**
+   * The valid pending targets, keyed by `hunterId:targetId`
+   */
+  readonly valid = new Map<string, GraphTarget>();
+
+  private readonly teamOf = new Map<string, string>();
+
+  constructor(players: GraphPlayer[], targets: GraphTarget[]) {
+    const byId = new Map(players.map((p) => [p.id, p]));
+
+    players
+      .filter((p) => p.alive)
+      .forEach((p) => {
+        const partnerAlive = !!p.partnerId && byId.get(p.partnerId)?.alive;
+        const key = teamKey(p.id, partnerAlive ? p.partnerId : undefined);
+        this.teamOf.set(p.id, key);
+        if (!this.teams.has(key)) this.teams.set(key, []);
+        this.teams.get(key).push(p.id);
+      });
+    this.teams.forEach((_, key) => this.hunting.set(key, new Set()));
+
+    targets.forEach((t) => {
+      const hunter = byId.get(t.hunterId);
+      const target = byId.get(t.targetId);
+      const pair = `${t.hunterId}:${t.targetId}`;
+
+      let type: TargetGraphProblemType | undefined;
+      if (t.hunterId === t.targetId) {
+        type = TargetGraphProblemType.SELF_TARGET;
+      } else if (
+        hunter?.partnerId === t.targetId ||
+        target?.partnerId === t.hunterId
+      ) {
+        type = TargetGraphProblemType.TEAMMATE_TARGET;
+      } else if (!hunter?.alive) {
+        type = TargetGraphProblemType.DEAD_HUNTER;
+      } else if (!target?.alive) {
+        type = TargetGraphProblemType.DEAD_TARGET;
+      } else if (this.valid.has(pair)) {
+        type = TargetGraphProblemType.DUPLICATE_TARGET;
+      }
+
+      if (type) {
+        this.invalid.push({
+          type,
+          playerIds: Array.from(new Set([t.hunterId, t.targetId])),
+          targetIds: [t.id],
+        });
+      } else {
+        this.valid.set(pair, t);
+        this.hunting
+          .get(this.teamOf.get(t.hunterId))
+          .add(this.team(t.targetId));
+      }
+    });
+  }
+
+  /**
+   * The team the given alive player is on
+   */
+  team(playerId: string) {
+    return this.teamOf.get(playerId);
+  }
+
+  /**
+   * How many teams are hunting each team
+   */
+  huntedCounts() {
+    const counts = new Map<string, number>();
+    this.teams.forEach((_, key) => counts.set(key, 0));
+    this.hunting.forEach((targets) =>
+      targets.forEach((t) => counts.set(t, counts.get(t) + 1)),
+    );
+    return counts;
+  }
+
+  /**
+   * The valid pending targets from one team to another
+   */
+  targetsBetween(hunter: string, target: string) {
+    return this.teams
+      .get(hunter)
+      .flatMap((h) =>
+        this.teams.get(target).map((t) => this.valid.get(`${h}:${t}`)),
+      )
+      .filter((t) => !!t);
+  }
+}
+
+/**
+ * Find everything wrong with the pending targets of a game. Every alive team
+ * should be hunting, and be hunted by, at least one other team, with no
+ * targets held by or pointing at players who are no longer in the game.
+ * @param players Every player in the game
+ * @param targets Every pending target in the game
+ * @param maxTargetTeams How many teams a team may hunt at once
+ */
+export const findGraphProblems = (
+  players: GraphPlayer[],
+  targets: GraphTarget[],
+  maxTargetTeams: number,
+): TargetGraphProblem[] => {
+  const graph = new TeamGraph(players, targets);
+  const problems = [...graph.invalid];
+
+  // A lone team has nobody left to hunt, the game is over
+  if (graph.teams.size < 2) {
+    return problems;
+  }
+
+  const hunting = new Set(
+    Array.from(graph.valid.values()).map((t) => t.hunterId),
+  );
+  const hunted = graph.huntedCounts();
+
+  graph.teams.forEach((members, key) => {
+    if (graph.hunting.get(key).size > maxTargetTeams) {
+      problems.push({
+        type: TargetGraphProblemType.TOO_MANY_TARGETS,
+        playerIds: members,
+        targetIds: Array.from(graph.hunting.get(key)).flatMap((target) =>
+          graph.targetsBetween(key, target).map((t) => t.id),
+        ),
+      });
+    }
+
+    members
+      .filter((id) => !hunting.has(id))
+      .forEach((id) =>
+        problems.push({
+          type: TargetGraphProblemType.ORPHANED_HUNTER,
+          playerIds: [id],
+          targetIds: [],
+        }),
+      );
+
+    if (hunted.get(key) === 0) {
+      problems.push({
+        type: TargetGraphProblemType.UNHUNTED_TEAM,
+        playerIds: members,
+        targetIds: [],
+      });
+    }
+  });
+
+  return problems;
+};
+
+/**
+ * Work out how to fix the pending targets of a game while keeping as many of
+ * the existing targets as possible, rather than reshuffling everyone. Invalid
+ * targets are expired, unhunted teams are picked up by teams with room to hunt
+ * them (taking a hunter away from a team with several if need be), and teams
+ * that are not hunting anybody are given the least hunted team.
+ * @param players Every player in the game
+ * @param targets Every pending target in the game
+ * @param maxTargetTeams How many teams a team may hunt at once
+ */
+export const planGraphRepair = (
+  players: GraphPlayer[],
+  targets: GraphTarget[],
+  maxTargetTeams: number,
+): TargetGraphRepair => {
+  const graph = new TeamGraph(players, targets);
+  const expire = new Set(graph.invalid.flatMap((p) => p.targetIds));
+
+  if (graph.teams.size < 2) {
+    graph.valid.forEach((t) => expire.add(t.id));
+    return { expire: Array.from(expire), create: [] };
+  }
+
+  const hunting = graph.hunting;
+  const hunted = graph.huntedCounts();
+  const teams = Array.from(graph.teams.keys());
+
+  const link = (hunter: string, target: string) => {
+    hunting.get(hunter).add(target);
+    hunted.set(target, hunted.get(target) + 1);
+  };
+  const unlink = (hunter: string, target: string) => {
+    hunting.get(hunter).delete(target);
+    hunted.set(target, hunted.get(target) - 1);
+  };
+
+  // Drop the targets of teams hunting too many teams, starting with the teams
+  // that are hunted the most
+  teams.forEach((hunter) => {
+    const extra = hunting.get(hunter).size - maxTargetTeams;
+    Array.from(hunting.get(hunter))
+      .sort((a, b) => hunted.get(b) - hunted.get(a))
+      .slice(0, Math.max(extra, 0))
+      .forEach((target) => unlink(hunter, target));
+  });
+
+  // Each step fixes an unhunted team or an orphaned team (or, when splicing,
+  // swaps one for the other), so this always finishes well within the limit
+  for (let step = 0; step < teams.length * 4; step++) {
+    const unhunted = teams.find((team) => hunted.get(team) === 0);
+    if (unhunted) {
+      // A team with room to hunt it, preferring the least busy
+      const spare = teams
+        .filter(
+          (team) =>
+            team !== unhunted &&
+            !hunting.get(team).has(unhunted) &&
+            hunting.get(team).size < maxTargetTeams,
+        )
+        .sort((a, b) => hunting.get(a).size - hunting.get(b).size)[0];
+      if (spare) {
+        link(spare, unhunted);
+        continue;
+      }
+
+      // Otherwise take a hunter away from a team with several
+      const moved = teams
+        .filter((team) => team !== unhunted && !hunting.get(team).has(unhunted))
+        .flatMap((hunter) =>
+          Array.from(hunting.get(hunter)).map((target) => ({ hunter, target })),
+        )
+        .find(({ target }) => hunted.get(target) > 1);
+      if (moved) {
+        unlink(moved.hunter, moved.target);
+        link(moved.hunter, unhunted);
+        continue;
+      }
+
+      // Otherwise splice the team in between a hunter and its target, the
+      // target is then picked up by the unhunted team once it is orphaned
+      const spliced = teams
+        .filter((team) => team !== unhunted)
+        .flatMap((hunter) =>
+          Array.from(hunting.get(hunter)).map((target) => ({ hunter, target })),
+        )
+        .find(({ target }) => target !== unhunted);
+      if (spliced) {
+        unlink(spliced.hunter, spliced.target);
+        link(spliced.hunter, unhunted);
+        continue;
+      }
+    }
+
+    const orphaned = teams.find((team) => hunting.get(team).size === 0);
+    if (orphaned) {
+      const target = teams
+        .filter((team) => team !== orphaned)
+        .sort((a, b) => hunted.get(a) - hunted.get(b))[0];
+      link(orphaned, target);
+      continue;
+    }
+
+    break;
+  }
+
+  // Every member of a team hunts every member of the teams it hunts
+  const create: TargetGraphRepair['create'] = [];
+  const kept = new Set<string>();
+  hunting.forEach((targetTeams, hunter) =>
+    targetTeams.forEach((target) =>
+      graph.teams.get(hunter).forEach((hunterId) =>
+        graph.teams.get(target).forEach((targetId) => {
+          const existing = graph.valid.get(`${hunterId}:${targetId}`);
+          if (existing) {
+            kept.add(existing.id);
+          } else {
+            create.push({ hunterId, targetId });
+          }
+        }),
+      ),
+    ),
+  );
+  graph.valid.forEach((t) => {
+    if (!kept.has(t.id)) expire.add(t.id);
+  });
+
+  return { expire: Array.from(expire), create };
+};
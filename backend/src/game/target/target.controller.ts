@@ -1,15 +1,21 @@
-import { Controller, Get, Post, Req, UseGuards } from '@nestjs/common';
+import { Body, Controller, Get, Post, Req, UseGuards } from '@nestjs/common';
 import { TargetService } from './target.service';
+import { KillClaimService } from './kill-claim/kill-claim.service';
 import { JwtAuthGuard } from 'auth/guards';
 import { getUserIdFromRequest } from 'utils/request';
 import { Request } from 'express';
 import { QueryRequired } from 'utils/decorators';
 import { MongoId } from 'utils/mongo';
-import { TargetTeamInfo } from 'shared/api/game/target';
+import {
+  KillClaimInfo,
+  TargetGraphReport,
+  TargetTeamInfo,
+} from 'shared/api/game/target';
+import { DisqualificationInfo, PlayerStatsInfo } from 'shared/api/game/player';
 
 @Controller('game/target')
 export class TargetController {
-  constructor(private trgt: TargetService) {}
+  constructor(private trgt: TargetService, private claims: KillClaimService) {}
 
   @Get('fetchTarget')
   @UseGuards(JwtAuthGuard)
@@ -34,6 +40,22 @@ export class TargetController {
     return data;
   }
 
+  /**
+   * Everything a player has done in the game, for their profile.
+   */
+  @Get('stats')
+  @UseGuards(JwtAuthGuard)
+  async fetchPlayerStats(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @QueryRequired('playerId') playerIdQuery: string,
+  ): Promise<PlayerStatsInfo> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    const playerId = new MongoId(playerIdQuery);
+    return await this.trgt.fetchPlayerStats(userId, gameId, playerId);
+  }
+
   @Get('all')
   @UseGuards(JwtAuthGuard)
   async fetchTargets(
@@ -58,6 +80,28 @@ export class TargetController {
     return data;
   }
 
+  @Get('check')
+  @UseGuards(JwtAuthGuard)
+  async checkTargets(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+  ): Promise<TargetGraphReport> {
+    const gameId = new MongoId(gameIdQuery);
+    const userId = getUserIdFromRequest(req);
+    return await this.trgt.checkGraph(userId, gameId);
+  }
+
+  @Post('repair')
+  @UseGuards(JwtAuthGuard)
+  async repairTargets(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+  ): Promise<TargetGraphReport> {
+    const gameId = new MongoId(gameIdQuery);
+    const userId = getUserIdFromRequest(req);
+    return await this.trgt.repairGraph(userId, gameId);
+  }
+
   @Post('kill')
   @UseGuards(JwtAuthGuard)
   async killTarget(
@@ -72,9 +116,23 @@ export class TargetController {
     return data;
   }
 
-  @Post('safe')
+  @Post('undoKill')
+  @UseGuards(JwtAuthGuard)
+  async undoKill(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @QueryRequired('targetId') targetIdQuery: string,
+  ) {
+    const gameId = new MongoId(gameIdQuery);
+    const targetId = new MongoId(targetIdQuery);
+    const userId = getUserIdFromRequest(req);
+    await this.trgt.undoKill(userId, gameId, targetId);
+    return { msg: 'success' };
+  }
+
+  @Post('revive')
   @UseGuards(JwtAuthGuard)
-  async makePlayerSafe(
+  async revivePlayer(
     @Req() req: Request,
     @QueryRequired('gameId') gameIdQuery: string,
     @QueryRequired('playerId') playerIdQuery: string,
@@ -82,7 +140,112 @@ export class TargetController {
     const gameId = new MongoId(gameIdQuery);
     const playerId = new MongoId(playerIdQuery);
     const userId = getUserIdFromRequest(req);
-    const data = await this.trgt.makePlayerSafe(userId, gameId, playerId);
-    return data;
+    await this.trgt.revivePlayer(userId, gameId, playerId);
+    return { msg: 'success' };
+  }
+
+  @Post('disqualify')
+  @UseGuards(JwtAuthGuard)
+  async disqualifyPlayer(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @QueryRequired('playerId') playerIdQuery: string,
+    @Body('reason') reason: string,
+  ) {
+    const gameId = new MongoId(gameIdQuery);
+    const playerId = new MongoId(playerIdQuery);
+    const userId = getUserIdFromRequest(req);
+    await this.trgt.disqualifyPlayer(userId, gameId, playerId, reason);
+    return { msg: 'success' };
+  }
+
+  @Get('disqualified')
+  @UseGuards(JwtAuthGuard)
+  async fetchDisqualified(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+  ): Promise<DisqualificationInfo[]> {
+    const gameId = new MongoId(gameIdQuery);
+    const userId = getUserIdFromRequest(req);
+    return await this.trgt.fetchDisqualified(userId, gameId);
+  }
+
+  @Post('claim')
+  @UseGuards(JwtAuthGuard)
+  async claimKill(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @QueryRequired('victimId') victimIdQuery: string,
+  ): Promise<KillClaimInfo> {
+    const gameId = new MongoId(gameIdQuery);
+    const victimId = new MongoId(victimIdQuery);
+    const userId = getUserIdFromRequest(req);
+    return await this.claims.claim(userId, gameId, victimId);
+  }
+
+  @Get('claims/incoming')
+  @UseGuards(JwtAuthGuard)
+  async fetchIncomingClaims(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+  ): Promise<KillClaimInfo[]> {
+    const gameId = new MongoId(gameIdQuery);
+    const userId = getUserIdFromRequest(req);
+    return await this.claims.fetchIncoming(userId, gameId);
+  }
+
+  @Post('claim/confirm')
+  @UseGuards(JwtAuthGuard)
+  async confirmClaim(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @QueryRequired('claimId') claimIdQuery: string,
+  ) {
+    const gameId = new MongoId(gameIdQuery);
+    const claimId = new MongoId(claimIdQuery);
+    const userId = getUserIdFromRequest(req);
+    await this.claims.confirm(userId, gameId, claimId);
+    return { msg: 'success' };
+  }
+
+  @Post('claim/dispute')
+  @UseGuards(JwtAuthGuard)
+  async disputeClaim(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @QueryRequired('claimId') claimIdQuery: string,
+    @Body('reason') reason: string,
+  ) {
+    const gameId = new MongoId(gameIdQuery);
+    const claimId = new MongoId(claimIdQuery);
+    const userId = getUserIdFromRequest(req);
+    await this.claims.dispute(userId, gameId, claimId, reason ?? '');
+    return { msg: 'success' };
+  }
+
+  @Get('claims')
+  @UseGuards(JwtAuthGuard)
+  async fetchOpenClaims(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+  ): Promise<KillClaimInfo[]> {
+    const gameId = new MongoId(gameIdQuery);
+    const userId = getUserIdFromRequest(req);
+    return await this.claims.fetchOpen(userId, gameId);
+  }
+
+  @Post('claim/resolve')
+  @UseGuards(JwtAuthGuard)
+  async resolveClaim(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @QueryRequired('claimId') claimIdQuery: string,
+    @QueryRequired('accept') acceptQuery: string,
+  ) {
+    const gameId = new MongoId(gameIdQuery);
+    const claimId = new MongoId(claimIdQuery);
+    const userId = getUserIdFromRequest(req);
+    await this.claims.resolve(userId, gameId, claimId, acceptQuery === 'true');
+    return { msg: 'success' };
   }
 }
@@ -3,18 +3,32 @@ import { TargetService } from './target.service';
 import { TargetController } from './target.controller';
 import { MongooseModule } from '@nestjs/mongoose';
 import { Target, TargetSchema } from './target.schema';
+import { KillClaim, KillClaimSchema } from './kill-claim/kill-claim.schema';
+import { KillClaimService } from './kill-claim/kill-claim.service';
+import { Evidence, EvidenceSchema } from './evidence/evidence.schema';
+import { EvidenceService } from './evidence/evidence.service';
+import { EvidenceController } from './evidence/evidence.controller';
+import { ConfigModule } from '@nestjs/config';
 import { UserModule } from 'user/user.module';
 import { GameModule } from 'game/game.module';
 import { PlayerModule } from 'game/player/player.module';
+import { GameLogModule } from 'game/log/game-log.module';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: Target.name, schema: TargetSchema }]),
+    MongooseModule.forFeature([
+      { name: Target.name, schema: TargetSchema },
+      { name: KillClaim.name, schema: KillClaimSchema },
+      { name: Evidence.name, schema: EvidenceSchema },
+    ]),
+    ConfigModule,
     UserModule,
     forwardRef(() => GameModule),
     PlayerModule,
+    GameLogModule,
   ],
-  controllers: [TargetController],
-  providers: [TargetService],
+  controllers: [TargetController, EvidenceController],
+  providers: [TargetService, KillClaimService, EvidenceService],
+  exports: [TargetService],
 })
 export class TargetModule {}
@@ -27,7 +27,44 @@ export enum TargetStatus {
   USER_KILLED = 'USER_KILLED',
 }
 
-@Schema()
+/**
+ * Everything a kill changed, kept on the completed target so the kill can be
+ * undone
+ */
+@Schema({ _id: false })
+export class TargetKill {
+  /**
+   * The status of the killed player before they were killed
+   */
+  @Prop({ type: String, required: true })
+  victimStatus: string;
+
+  /**
+   * Targets inherited by the killing team because of the kill
+   */
+  @Prop({ type: [mongoose.Schema.Types.ObjectId], default: [] })
+  createdTargetIds: MongoId[];
+
+  /**
+   * Targets that were pending until the kill expired them
+   */
+  @Prop({ type: [mongoose.Schema.Types.ObjectId], default: [] })
+  expiredTargetIds: MongoId[];
+
+  /**
+   * Whether the kill finished the game
+   */
+  @Prop({ type: Boolean, default: false })
+  completedGame: boolean;
+}
+
+const TargetKillSchema = SchemaFactory.createForClass(TargetKill);
+
+/**
+ * Saving a target that changed since it was read fails, rather than silently
+ * overwriting the other change
+ */
+@Schema({ optimisticConcurrency: true })
 export class Target extends mongoose.Document<mongoose.Schema.Types.ObjectId> {
   @Prop({ type: mongoose.Schema.Types.ObjectId, required: true })
   playerId: MongoId;
@@ -46,6 +83,25 @@ export class Target extends mongoose.Document<mongoose.Schema.Types.ObjectId> {
 
   @Prop({ type: String, enum: TargetStatus, default: TargetStatus.PENDING })
   status: string;
+
+  /**
+   * When the target was assigned. Targets from before this was recorded fall
+   * back to the time in their ID.
+   */
+  @Prop({ type: Date, default: () => new Date() })
+  createdAt: Date;
+
+  /**
+   * When the target stopped being pending
+   */
+  @Prop({ type: Date, required: false })
+  resolvedAt?: Date;
+
+  /**
+   * What the kill changed, set once the target is COMPLETE
+   */
+  @Prop({ type: TargetKillSchema, required: false })
+  kill?: TargetKill;
 }
 
 export const TargetSchema = SchemaFactory.createForClass(Target);
@@ -0,0 +1,393 @@
+import { HttpException } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { MongooseModule, getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { MongoMemoryReplSet } from 'mongodb-memory-server';
+import { Model } from 'mongoose';
+import { TargetService } from './target.service';
+import { Target, TargetStatus } from './target.schema';
+import { KillClaim, KillClaimStatus } from './kill-claim/kill-claim.schema';
+import { GameModule } from 'game/game.module';
+import { Game, GameStatus } from 'game/game.schema';
+import { Player, PlayerStatus } from 'game/player/player.schema';
+import { User } from 'user/user.schema';
+import { MongoId } from 'utils/mongo';
+
+/**
+ * Fires kills at the same time against a real (in-memory) replica set, since
+ * transactions are not supported by a standalone server, and makes sure the
+ * target graph is never left in an inconsistent state.
+ */
+describe('TargetService (concurrent kills)', () => {
+  let replSet: MongoMemoryReplSet;
+  let module: TestingModule;
+  let service: TargetService;
+  let games: Model<Game>;
+  let players: Model<Player>;
+  let targets: Model<Target>;
+  let claims: Model<KillClaim>;
+  let users: Model<User>;
+  let gameCount = 0;
+
+  beforeAll(async () => {
+    replSet = await MongoMemoryReplSet.create({
+      replSet: { count: 1, storageEngine: 'wiredTiger' },
+    });
+    module = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({ ignoreEnvFile: true, isGlobal: true }),
+        MongooseModule.forRoot(replSet.getUri()),
+        GameModule,
+      ],
+    }).compile();
+    await module.init();
+
+    service = module.get(TargetService);
+    games = module.get(getModelToken(Game.name));
+    players = module.get(getModelToken(Player.name));
+    targets = module.get(getModelToken(Target.name));
+    claims = module.get(getModelToken(KillClaim.name));
+    users = module.get(getModelToken(User.name));
+  }, 120000);
+
+  afterAll(async () => {
+    await module?.close();
+    await replSet?.stop();
+  });
+
+  /**
+   * Create a game in progress where every team hunts the next, in a ring.
+   */
+  const createGame = async (teamCount: number, teamSize: 1 | 2) => {
+    const admin = await users.create({
+      firstName: 'Admin',
+      surname: 'User',
+      email: `admin-${++gameCount}@test.com`,
+    });
+    const game = await games.create({
+      name: 'Test game',
+      status: GameStatus.IN_PROGRESS,
+      startTime: new Date(),
+      admins: [admin.email],
+    });
+    const gameId = new MongoId(game.id);
+
+    const teams: Player[][] = [];
+    for (let i = 0; i < teamCount; i++) {
+      const team: Player[] = [];
+      for (let j = 0; j < teamSize; j++) {
+        const user = await users.create({
+          firstName: `Player ${i}`,
+          surname: `${j}`,
+          email: `${game.id}-${i}-${j}@test.com`,
+        });
+        team.push(await players.create({ userId: user.id, gameId: gameId }));
+      }
+      if (teamSize === 2) {
+        team[0].teamPartnerId = team[1].id;
+        team[1].teamPartnerId = team[0].id;
+        await Promise.all(team.map((p) => p.save()));
+      }
+      teams.push(team);
+    }
+
+    for (let i = 0; i < teamCount; i++) {
+      const prey = teams[(i + 1) % teamCount];
+      for (const hunter of teams[i]) {
+        for (const target of prey) {
+          await targets.create({
+            gameId: gameId,
+            playerId: hunter.id,
+            targetId: target.id,
+          });
+        }
+      }
+    }
+
+    return { gameId, adminId: new MongoId(admin.id), teams };
+  };
+
+  /**
+   * Check every rule the target graph should follow, returning what is wrong
+   */
+  const findProblems = async (gameId: MongoId) => {
+    const all = await players.find({ gameId: gameId }).exec();
+    const pending = await targets
+      .find({ gameId: gameId, status: TargetStatus.PENDING })
+      .exec();
+
+    const byId = new Map(all.map((p) => [p.id as string, p]));
+    const isAlive = (id: string) =>
+      [PlayerStatus.ALIVE, PlayerStatus.SAFE].includes(
+        byId.get(id)?.status as PlayerStatus,
+      );
+    const alive = all.filter((p) => isAlive(p.id));
+    const teamOf = (p: Player) =>
+      [p.id, p.teamPartnerId?.toString()].filter(Boolean).sort().join(',');
+    const aliveTeams = new Set(alive.map(teamOf));
+
+    const problems: string[] = [];
+    pending.forEach((t) => {
+      const hunter = t.playerId.toString();
+      const target = t.targetId.toString();
+      if (!isAlive(hunter)) problems.push(`dead hunter ${t.id}`);
+      if (!isAlive(target)) problems.push(`dead target ${t.id}`);
+      if (teamOf(byId.get(hunter)) === teamOf(byId.get(target))) {
+        problems.push(`own team ${t.id}`);
+      }
+    });
+
+    if (aliveTeams.size > 1) {
+      alive.forEach((p) => {
+        if (!pending.some((t) => t.playerId.toString() === p.id)) {
+          problems.push(`not hunting ${p.id}`);
+        }
+      });
+      aliveTeams.forEach((team) => {
+        const members = team.split(',');
+        const hunted = pending.some((t) =>
+          members.includes(t.targetId.toString()),
+        );
+        if (!hunted) problems.push(`not hunted ${team}`);
+      });
+    }
+
+    return problems;
+  };
+
+  const pendingTarget = async (hunter: Player, prey: Player) =>
+    await targets
+      .findOne({
+        playerId: hunter.id,
+        targetId: prey.id,
+        status: TargetStatus.PENDING,
+      })
+      .exec();
+
+  const expectOnlyHttpErrors = (results: PromiseSettledResult<void>[]) =>
+    results
+      .filter((r): r is PromiseRejectedResult => r.status === 'rejected')
+      .forEach((r) => expect(r.reason).toBeInstanceOf(HttpException));
+
+  it('only lets one of two racing kills of the same player through', async () => {
+    const { gameId, teams } = await createGame(3, 2);
+    const victim = teams[1][0];
+    const first = await pendingTarget(teams[0][0], victim);
+    const second = await pendingTarget(teams[0][1], victim);
+
+    const results = await Promise.allSettled([
+      service.processKill(gameId, new MongoId(first.id)),
+      service.processKill(gameId, new MongoId(second.id)),
+    ]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    expectOnlyHttpErrors(results);
+    expect((await players.findById(victim.id)).status).toBe(
+      PlayerStatus.KILLED,
+    );
+    expect(
+      await targets.countDocuments({
+        targetId: victim.id,
+        status: TargetStatus.COMPLETE,
+      }),
+    ).toBe(1);
+    expect(await findProblems(gameId)).toEqual([]);
+  });
+
+  it.each([
+    [8, 1],
+    [8, 2],
+  ] as const)(
+    'keeps the graph of %i teams of %i consistent under concurrent kills',
+    async (teamCount, teamSize) => {
+      const { gameId } = await createGame(teamCount, teamSize);
+      const pending = await targets
+        .find({ gameId: gameId, status: TargetStatus.PENDING })
+        .exec();
+
+      // Everyone tries to kill everyone they are hunting at once
+      const results = await Promise.allSettled(
+        pending.map((t) => service.processKill(gameId, new MongoId(t.id))),
+      );
+
+      expect(results.some((r) => r.status === 'fulfilled')).toBe(true);
+      expectOnlyHttpErrors(results);
+      expect(await findProblems(gameId)).toEqual([]);
+
+      // Every kill that went through killed exactly one player
+      const killed = await players.countDocuments({
+        gameId: gameId,
+        status: PlayerStatus.KILLED,
+      });
+      const completed = await targets.countDocuments({
+        gameId: gameId,
+        status: TargetStatus.COMPLETE,
+      });
+      expect(completed).toBe(killed);
+      expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(
+        killed,
+      );
+    },
+    60000,
+  );
+
+  it('rolls back everything when a kill fails part way', async () => {
+    const { gameId, teams } = await createGame(3, 1);
+    const target = await pendingTarget(teams[0][0], teams[1][0]);
+    const before = await targets.find({ gameId: gameId }).lean().exec();
+
+    const finishIfWon = jest
+      .spyOn(service, 'finishIfWon')
+      .mockRejectedValueOnce(new Error('crash'));
+    await expect(
+      service.processKill(gameId, new MongoId(target.id)),
+    ).rejects.toThrow('crash');
+    finishIfWon.mockRestore();
+
+    expect((await players.findById(teams[1][0].id)).status).toBe(
+      PlayerStatus.ALIVE,
+    );
+    expect(await targets.find({ gameId: gameId }).lean().exec()).toEqual(
+      before,
+    );
+  });
+
+  it('does not kill safe players', async () => {
+    const { gameId, teams } = await createGame(3, 1);
+    const victim = teams[1][0];
+    await players.updateOne(
+      { _id: victim.id },
+      { $set: { status: PlayerStatus.SAFE } },
+    );
+    const target = await pendingTarget(teams[0][0], victim);
+
+    await expect(
+      service.processKill(gameId, new MongoId(target.id)),
+    ).rejects.toBeInstanceOf(HttpException);
+    expect((await players.findById(victim.id)).status).toBe(PlayerStatus.SAFE);
+  });
+
+  it('keeps the graph consistent when a revive races a kill', async () => {
+    const { gameId, adminId, teams } = await createGame(4, 1);
+    const first = await pendingTarget(teams[0][0], teams[1][0]);
+    await service.processKill(gameId, new MongoId(first.id));
+    const next = await targets
+      .findOne({ playerId: teams[2][0].id, status: TargetStatus.PENDING })
+      .exec();
+
+    const results = await Promise.allSettled([
+      service.revivePlayer(adminId, gameId, new MongoId(teams[1][0].id)),
+      service.processKill(gameId, new MongoId(next.id)),
+    ]);
+
+    expectOnlyHttpErrors(results);
+    expect(await findProblems(gameId)).toEqual([]);
+  });
+
+  it('stops all kills once the game is cancelled', async () => {
+    const { gameId, adminId, teams } = await createGame(3, 1);
+    const target = await pendingTarget(teams[0][0], teams[1][0]);
+    const claim = await claims.create({
+      gameId: gameId,
+      targetId: target.id,
+      playerId: teams[0][0].id,
+      victimId: teams[1][0].id,
+      claimedAt: new Date(),
+      confirmBy: new Date(),
+    });
+
+    await service.cancelGame(adminId, gameId);
+
+    expect((await games.findById(gameId)).status).toBe(GameStatus.CANCELLED);
+    expect(
+      await targets.countDocuments({
+        gameId: gameId,
+        status: TargetStatus.PENDING,
+      }),
+    ).toBe(0);
+    expect((await claims.findById(claim.id)).status).toBe(
+      KillClaimStatus.CANCELLED,
+    );
+
+    // Even a target that somehow stayed pending can't be completed
+    await targets.updateOne(
+      { _id: target.id },
+      { $set: { status: TargetStatus.PENDING } },
+    );
+    await expect(
+      service.processKill(gameId, new MongoId(target.id)),
+    ).rejects.toBeInstanceOf(HttpException);
+    expect((await players.findById(teams[1][0].id)).status).toBe(
+      PlayerStatus.ALIVE,
+    );
+  });
+
+  it('disqualifies a player only while the game is in progress', async () => {
+    const { gameId, adminId, teams } = await createGame(4, 2);
+    const cheater = new MongoId(teams[1][0].id);
+
+    await service.disqualifyPlayer(adminId, gameId, cheater, 'Cheating');
+    expect((await players.findById(cheater)).status).toBe(
+      PlayerStatus.DISQUALIFIED,
+    );
+    expect(await findProblems(gameId)).toEqual([]);
+
+    await games.updateOne(
+      { _id: gameId },
+      { $set: { status: GameStatus.COMPLETE } },
+    );
+    const other = new MongoId(teams[2][0].id);
+    await expect(
+      service.disqualifyPlayer(adminId, gameId, other, 'Cheating'),
+    ).rejects.toBeInstanceOf(HttpException);
+    expect((await players.findById(other)).status).toBe(PlayerStatus.ALIVE);
+  });
+
+  it('undoes a kill, restoring the graph', async () => {
+    const { gameId, adminId, teams } = await createGame(4, 2);
+    const target = await pendingTarget(teams[0][0], teams[1][0]);
+    const before = await targets
+      .find({ gameId: gameId, status: TargetStatus.PENDING })
+      .sort({ _id: 1 })
+      .exec();
+
+    // Kill the whole team, so targets are inherited
+    await service.processKill(gameId, new MongoId(target.id));
+    const partner = await pendingTarget(teams[0][0], teams[1][1]);
+    await service.processKill(gameId, new MongoId(partner.id));
+
+    // Only the latest kill can be undone
+    await expect(
+      service.undoKill(adminId, gameId, new MongoId(target.id)),
+    ).rejects.toBeInstanceOf(HttpException);
+
+    const claim = await claims.create({
+      gameId: gameId,
+      targetId: partner.id,
+      playerId: teams[0][0].id,
+      victimId: teams[1][1].id,
+      status: KillClaimStatus.CONFIRMED,
+      claimedAt: new Date(),
+      confirmBy: new Date(),
+    });
+
+    await service.undoKill(adminId, gameId, new MongoId(partner.id));
+    await service.undoKill(adminId, gameId, new MongoId(target.id));
+    expect((await claims.findById(claim.id)).status).toBe(
+      KillClaimStatus.CANCELLED,
+    );
+
+    const after = await targets
+      .find({ gameId: gameId, status: TargetStatus.PENDING })
+      .sort({ _id: 1 })
+      .exec();
+    expect(after.map((t) => t.id)).toEqual(before.map((t) => t.id));
+    expect(
+      await players.countDocuments({
+        gameId: gameId,
+        status: PlayerStatus.KILLED,
+      }),
+    ).toBe(0);
+    expect(await findProblems(gameId)).toEqual([]);
+  });
+});
@@ -1,19 +1,42 @@
 import { Injectable } from '@nestjs/common';
-import { InjectModel } from '@nestjs/mongoose';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
 import { Target, TargetDocument, TargetStatus } from './target.schema';
-import { Model } from 'mongoose';
+import { KillClaim, KillClaimStatus } from './kill-claim/kill-claim.schema';
+import { ClientSession, Connection, FilterQuery, Model } from 'mongoose';
 
 // Services
 import { GameService } from 'game/game.service';
 import { PlayerService } from 'game/player/player.service';
+import {
+  AssignmentStrategyName,
+  AssignmentTeam,
+  getAssignmentStrategy,
+} from './strategies';
+import { GameLogService } from 'game/log/game-log.service';
 
 // Utilities
-import { MongoId } from 'utils/mongo';
-import { shuffle } from 'utils/misc';
-import { GameStatus } from 'game/game.schema';
+import { MongoId, withTransaction } from 'utils/mongo';
+import { teamKey } from 'utils/misc';
+import {
+  GraphPlayer,
+  GraphTarget,
+  findGraphProblems,
+  planGraphRepair,
+} from './target-graph';
+import {
+  computePlayerStats,
+  gameTimespan,
+  toStatsTarget,
+} from './player-stats';
+import { GameStanding, GameStatus } from 'game/game.schema';
 import { Player, PlayerRole, PlayerStatus } from 'game/player/player.schema';
+import { GameLogType } from 'game/log/game-log.schema';
 import {
+  DisqualifyReasonMissingException,
   GameStatusNotValidException,
+  KillUndoNotAllowedException,
+  PlayerNotFoundException,
+  PlayerReviveLimitException,
   PlayerRoleUnauthorizedException,
   PlayerStatusNotValidException,
   TargetNotFoundException,
@@ -21,7 +44,8 @@ import {
 } from 'utils/exceptions';
 
 // Objects
-import { TargetTeamInfo } from 'shared/api/game/target';
+import { TargetGraphReport, TargetTeamInfo } from 'shared/api/game/target';
+import { DisqualificationInfo, PlayerStatsInfo } from 'shared/api/game/player';
 import { UserService } from 'user/user.service';
 import { User } from 'user/user.schema';
 
@@ -31,19 +55,45 @@ import { LeaderboardPlayerInfo } from 'shared/api/game/player';
 export class TargetService {
   constructor(
     @InjectModel(Target.name) private model: Model<Target>,
+    @InjectModel(KillClaim.name) private claimModel: Model<KillClaim>,
+    @InjectConnection() private connection: Connection,
     private gme: GameService,
     private plyr: PlayerService,
     private usr: UserService,
+    private log: GameLogService,
   ) {}
 
-  async findById(targetId: MongoId): Promise<Target> {
-    const query = await this.model.find({ _id: targetId }).exec();
+  async findById(
+    targetId: MongoId,
+    session?: ClientSession,
+  ): Promise<TargetDocument> {
+    const query = await this.model
+      .find({ _id: targetId })
+      .session(session ?? null)
+      .exec();
     if (!query) {
       throw new TargetNotFoundException(targetId);
     }
     return query[0];
   }
 
+  async findByIds(targetIds: MongoId[]): Promise<Target[]> {
+    return await this.model.find({ _id: { $in: targetIds } }).exec();
+  }
+
+  async findByGame(gameId: MongoId): Promise<Target[]> {
+    return await this.model.find({ gameId: gameId }).exec();
+  }
+
+  /**
+   * Every target of a game that ended in a kill.
+   */
+  async findCompleted(gameId: MongoId): Promise<Target[]> {
+    return await this.model
+      .find({ gameId: gameId, status: TargetStatus.COMPLETE })
+      .exec();
+  }
+
   async findByGameAndPlayer(
     gameId: MongoId,
     playerId: MongoId,
@@ -105,6 +155,7 @@ export class TargetService {
       const targetPartner = await this.plyr.findById(targetPlayer.teamPartnerId);
       const targetPartnerUser = await this.usr.findById(targetPartner.userId);
       targetPartnerInfo = {
+        playerId: targetPartner.id,
         name: `${targetPartnerUser.firstName} ${targetPartnerUser.surname}`,
         safe: targetPartner.status === PlayerStatus.SAFE,
         status: targetPartner.status,
@@ -114,6 +165,7 @@ export class TargetService {
     return {
       members: [
         {
+          playerId: targetPlayer.id,
           name: `${targetUser.firstName} ${targetUser.surname}`,
           safe: targetPlayer.status === PlayerStatus.SAFE,
           status: targetPlayer.status,
@@ -124,8 +176,8 @@ export class TargetService {
   }
 
   /**
-   * Create targets for all alive players in a game. Expire all pending targets,
-   * deactivating them.
+   * Create targets for all alive players in a game, using the game's
+   * assignment strategy. Expire all pending targets, deactivating them.
    * @param gameId The game in question
    * @param userId The user to register for the game in question
    */
@@ -178,19 +230,45 @@ export class TargetService {
       }
     });
   
-    // Shuffle the valid teams
-    const shuffledTeams = shuffle(validTeams);
-  
+    // Look up the dorms of every player, for strategies that care about them
+    const users = await this.usr.findByIds(players.map((p) => p.userId));
+    const dormByUser = new Map<string, string>();
+    users.forEach((user) => {
+      if (user.dorm) dormByUser.set(user.id.toString(), user.dorm);
+    });
+    const dormByPlayer = new Map<string, string>();
+    players.forEach((player) => {
+      const dorm = dormByUser.get(player.userId.toString());
+      if (dorm) dormByPlayer.set(player.id.toString(), dorm);
+    });
+
+    const teams: AssignmentTeam[] = validTeams.map((playerIds) => ({
+      playerIds,
+      dorms: playerIds
+        .map((id) => dormByPlayer.get(id))
+        .filter((dorm): dorm is string => !!dorm),
+    }));
+
+    // Every target ever assigned in this game, so we can avoid repeats
+    const history = await this.model.find({ gameId: gameId }).exec();
+    const previousTargets = new Map<string, Set<string>>();
+    history.forEach((t) => {
+      const key = t.playerId.toString();
+      if (!previousTargets.has(key)) previousTargets.set(key, new Set());
+      previousTargets.get(key).add(t.targetId.toString());
+    });
+
+    const assignments = getAssignmentStrategy(game.assignmentStrategy).assign(
+      teams,
+      { previousTargets, huntersPerTarget: game.huntersPerTarget ?? 2 },
+    );
+
     const targetDocuments: TargetDocument[] = [];
-  
-    // Assign each team a target team in a circular manner
-    for (let i = 0; i < shuffledTeams.length; i++) {
-      const currentTeam = shuffledTeams[i];
-      const targetTeam = shuffledTeams[(i + 1) % shuffledTeams.length];
-  
-      // Assign each member of the current team to target each member of the target team
-      for (const playerId of currentTeam) {
-        for (const targetId of targetTeam) {
+
+    // Assign each member of the hunting team to target each member of the target team
+    for (const { hunter, target: targetTeam } of assignments) {
+      for (const playerId of hunter.playerIds) {
+        for (const targetId of targetTeam.playerIds) {
           const target = new this.model();
           target.gameId = gameId;
           target.playerId = new MongoId(playerId);
@@ -201,18 +279,25 @@ export class TargetService {
     }
   
     // Expire all pending targets for this game
-    await this.model.updateMany(
-      { gameId: gameId, status: TargetStatus.PENDING },
-      { $set: { status: TargetStatus.EXPIRED } }
-    ).exec();
+    await this.expireTargets({ gameId: gameId });
   
     // Insert new target assignments
     await this.model.insertMany(targetDocuments);
-  
+
     // Update the game status to IN_PROGRESS if not already set
     if (game.status !== GameStatus.IN_PROGRESS) {
       await game.updateOne({ $set: { status: GameStatus.IN_PROGRESS } }).exec();
     }
+
+    await this.log.record({
+      gameId: gameId,
+      type: GameLogType.TARGETS_MATCHED,
+      actorId: userId,
+      playerIds: players.map((p) => new MongoId(p.id)),
+      before: { status: game.status },
+      after: { teams: teams.length, targets: targetDocuments.length },
+      details: game.assignmentStrategy,
+    });
   }  
 
   /**
@@ -240,104 +325,385 @@ export class TargetService {
       throw new TargetNotFoundException(targetId);
     }
 
-    // 4. Ensure the target status is PENDING
-    if (target.status !== TargetStatus.PENDING) {
-      throw new TargetStatusNotValidException(targetId, target.status);
-    }
+    await this.processKill(gameId, targetId, userId);
+  }
 
-    const playerId = target.playerId;
-    const killedId = target.targetId;
+  /**
+   * Complete a pending target, killing the targeted player and re-routing
+   * targets as necessary. Performs no permission checks, callers are expected
+   * to have done so (an admin kill, or a confirmed kill claim). Everything
+   * happens in a single transaction, so a failure (or a kill of the same
+   * players happening at the same time) leaves the target graph untouched.
+   * @param gameId The ID of the game.
+   * @param targetId The ID of the target assignment that resulted in a kill.
+   * @param actorId The user who caused the kill to go through, if any (the
+   * admin, or the victim confirming a claim).
+   * @param session The transaction to take part in, if any.
+   */
+  async processKill(
+    gameId: MongoId,
+    targetId: MongoId,
+    actorId?: MongoId,
+    session?: ClientSession,
+  ) {
+    await withTransaction(this.connection, session, async (session) => {
+      // 4. Ensure the game is still being played, and the target status is
+      // PENDING, reading both within the transaction so a concurrent kill (or
+      // cancelling the game) cannot get in the way
+      const game = await this.gme.findById(gameId, session);
+      if (game.status !== GameStatus.IN_PROGRESS) {
+        throw new GameStatusNotValidException(gameId, game.status);
+      }
+      const target = await this.findById(targetId, session);
+      if (!target || !target.gameId.equals(gameId)) {
+        throw new TargetNotFoundException(targetId);
+      }
+      if (target.status !== TargetStatus.PENDING) {
+        throw new TargetStatusNotValidException(targetId, target.status);
+      }
 
-    // 5. Fetch the player (killer) and the killed player
-    const player = await this.plyr.findById(playerId);
-    if (!player) {
-      throw new PlayerStatusNotValidException(playerId, 'Player not found');
-    }
+      const playerId = target.playerId;
+      const killedId = target.targetId;
 
-    const killed = await this.plyr.findById(killedId);
-    if (!killed) {
-      throw new PlayerStatusNotValidException(killedId, 'Killed player not found');
-    }
+      // 5. Fetch the player (killer) and the killed player
+      const player = await this.plyr.findById(playerId, session);
+      if (!player) {
+        throw new PlayerStatusNotValidException(playerId, 'Player not found');
+      }
 
-    const killedPartnerId = killed.teamPartnerId;
-    const playerPartnerId = player.teamPartnerId;
+      const killed = await this.plyr.findById(killedId, session);
+      if (!killed) {
+        throw new PlayerStatusNotValidException(
+          killedId,
+          'Killed player not found',
+        );
+      }
 
-    // 6. Ensure both player and killed target are ALIVE
-    if (player.status !== PlayerStatus.ALIVE && player.status !== PlayerStatus.SAFE) {
-      throw new PlayerStatusNotValidException(playerId, player.status);
-    }
-    if (killed.status !== PlayerStatus.ALIVE && player.status !== PlayerStatus.SAFE) {
-      throw new PlayerStatusNotValidException(killedId, killed.status);
+      const playerPartnerId = player.teamPartnerId;
+
+      // 6. Ensure the player is ALIVE (or SAFE), and the killed target is
+      // ALIVE, safe players cannot be killed
+      if (
+        player.status !== PlayerStatus.ALIVE &&
+        player.status !== PlayerStatus.SAFE
+      ) {
+        throw new PlayerStatusNotValidException(playerId, player.status);
+      }
+      if (killed.status !== PlayerStatus.ALIVE) {
+        throw new PlayerStatusNotValidException(killedId, killed.status);
+      }
+
+      // 7. Kill the target player
+      const killedBefore = killed.status;
+      killed.status = PlayerStatus.KILLED;
+      await killed.save({ session }); // Save the killed player's status
+
+      // 8. Mark the current target as COMPLETE
+      target.status = TargetStatus.COMPLETE;
+      target.resolvedAt = new Date();
+      await target.save({ session }); // Save the updated target assignment
+
+      // 9. Define killing team IDs (killer and their partner), who inherit the
+      // targets of the killed team if it has been eliminated
+      const killingTeamIds: MongoId[] = [playerId];
+      if (playerPartnerId) {
+        killingTeamIds.push(playerPartnerId);
+      }
+
+      // 10. Take the killed player out of the target graph
+      const { created, expired } = await this.removeFromGraph(
+        gameId,
+        killed,
+        killingTeamIds,
+        session,
+      );
+
+      await this.log.record(
+        {
+          gameId: gameId,
+          type: GameLogType.KILL,
+          actorId: actorId,
+          playerIds: [playerId, killedId],
+          before: { status: killedBefore },
+          after: { status: killed.status, createdTargetIds: created },
+        },
+        session,
+      );
+
+      // 11. Finish the game if the killing team is the last one standing
+      const finished = await this.finishIfWon(gameId, session);
+
+      // 12. Remember everything the kill changed, so it can be undone
+      target.kill = {
+        victimStatus: killedBefore,
+        createdTargetIds: created,
+        expiredTargetIds: [...expired, ...(finished ?? [])],
+        completedGame: finished !== null,
+      };
+      await target.save({ session });
+    });
+  }
+
+  /**
+   * Undo a kill made by mistake, restoring the killed player and the target
+   * graph to how they were before. Only possible as long as nothing that
+   * depends on the kill has happened since (a later kill, a revive, or a
+   * change to any of the targets the kill touched).
+   * @param userId The ID of the user performing the action (must be ADMIN).
+   * @param gameId The ID of the game.
+   * @param targetId The ID of the completed target to undo.
+   */
+  async undoKill(userId: MongoId, gameId: MongoId, targetId: MongoId) {
+    // Only allow admins to conduct this action
+    const role = await this.plyr.getRole(gameId, userId);
+    if (role !== PlayerRole.ADMIN) {
+      throw new PlayerRoleUnauthorizedException(userId, role);
     }
 
-    // 7. Kill the target player
-    killed.status = PlayerStatus.KILLED;
-    await killed.save(); // Save the killed player's status
+    await withTransaction(this.connection, undefined, async (session) => {
+      const target = await this.findById(targetId, session);
+      if (!target || !target.gameId.equals(gameId)) {
+        throw new TargetNotFoundException(targetId);
+      }
+      if (target.status !== TargetStatus.COMPLETE || !target.kill) {
+        throw new TargetStatusNotValidException(targetId, target.status);
+      }
+      const kill = target.kill;
+
+      const victim = await this.plyr.findById(target.targetId, session);
+      if (!victim || victim.status !== PlayerStatus.KILLED) {
+        throw new KillUndoNotAllowedException(
+          targetId,
+          'The killed player is no longer dead.',
+        );
+      }
+
+      const game = await this.gme.findById(gameId, session);
+      const expectedGameStatus = kill.completedGame
+        ? GameStatus.COMPLETE
+        : GameStatus.IN_PROGRESS;
+      if (game.status !== expectedGameStatus) {
+        throw new KillUndoNotAllowedException(
+          targetId,
+          `The game is now ${game.status}.`,
+        );
+      }
+
+      // Nobody can have been killed since
+      const laterKill = await this.model
+        .findOne({
+          gameId: gameId,
+          status: TargetStatus.COMPLETE,
+          resolvedAt: { $gt: target.resolvedAt },
+        })
+        .session(session)
+        .exec();
+      if (laterKill) {
+        throw new KillUndoNotAllowedException(
+          targetId,
+          'Another kill has happened since.',
+        );
+      }
+
+      // Every target the kill touched must still be as the kill left it
+      const expiredIds = new Set(
+        kill.expiredTargetIds.map((id) => id.toString()),
+      );
+      const touchedIds = new Set([
+        ...kill.createdTargetIds.map((id) => id.toString()),
+        ...expiredIds,
+      ]);
+      const touched = await this.model
+        .find({ _id: { $in: Array.from(touchedIds) } })
+        .session(session)
+        .exec();
+      const untouched =
+        touched.length === touchedIds.size &&
+        touched.every((t) =>
+          expiredIds.has(t.id)
+            ? t.status === TargetStatus.EXPIRED
+            : t.status === TargetStatus.PENDING,
+        );
+      if (!untouched) {
+        throw new KillUndoNotAllowedException(
+          targetId,
+          'The targets it changed have changed again since.',
+        );
+      }
+
+      // Remove the targets inherited because of the kill, and bring back the
+      // ones it expired (other than those it created)
+      await this.model
+        .deleteMany({ _id: { $in: kill.createdTargetIds } }, { session })
+        .exec();
+      await this.model
+        .updateMany(
+          {
+            _id: { $in: kill.expiredTargetIds, $nin: kill.createdTargetIds },
+          },
+          {
+            $set: { status: TargetStatus.PENDING },
+            $unset: { resolvedAt: 1 },
+            $inc: { __v: 1 },
+          },
+          { session },
+        )
+        .exec();
+
+      target.status = TargetStatus.PENDING;
+      target.resolvedAt = undefined;
+      target.kill = undefined;
+      await target.save({ session });
+
+      // The claim the kill came from (if any) no longer stands, and must not
+      // be mistaken for one that could complete the target again
+      await this.claimModel
+        .updateMany(
+          { targetId: targetId, status: KillClaimStatus.CONFIRMED },
+          {
+            $set: {
+              status: KillClaimStatus.CANCELLED,
+              resolvedAt: new Date(),
+            },
+          },
+          { session },
+        )
+        .exec();
+
+      victim.status = kill.victimStatus;
+      await victim.save({ session });
+
+      if (kill.completedGame) {
+        game.status = GameStatus.IN_PROGRESS;
+        game.winners = [];
+        game.standings = [];
+        game.completedAt = undefined;
+        await game.save({ session });
+      }
+
+      await this.log.record(
+        {
+          gameId: gameId,
+          type: GameLogType.KILL_UNDONE,
+          actorId: userId,
+          playerIds: [target.playerId, target.targetId],
+          before: { status: PlayerStatus.KILLED },
+          after: { status: victim.status },
+        },
+        session,
+      );
+    });
+  }
 
-    // 8. Mark the current target as COMPLETE
-    target.status = TargetStatus.COMPLETE;
-    await target.save(); // Save the updated target assignment
+  /**
+   * Take a player who is no longer in the game (killed or disqualified) out of
+   * the target graph. If their team has been eliminated, the inheriting
+   * players take over the team's targets, and every target of or against the
+   * team is expired. Otherwise only the player's own targets (and those
+   * against them) are expired, their partner keeps the team going.
+   * @param gameId The ID of the game.
+   * @param removed The player being removed, already no longer alive.
+   * @param inheritingIds The players who take over the eliminated team's
+   * targets.
+   * @param session The transaction to take part in, if any.
+   * @returns The IDs of the targets that were created and expired.
+   */
+  private async removeFromGraph(
+    gameId: MongoId,
+    removed: Player,
+    inheritingIds: MongoId[],
+    session?: ClientSession,
+  ): Promise<{ created: MongoId[]; expired: MongoId[] }> {
+    const removedPartnerId = removed.teamPartnerId;
 
-    // 9. Check if the entire opposing team is eliminated
+    // 1. Check if the entire team is eliminated
     let isEntireTeamEliminated = false;
-    if (killedPartnerId) {
-      const killedPartner = await this.plyr.findById(killedPartnerId);
-      if (killedPartner && killedPartner.status === PlayerStatus.KILLED) {
+    if (removedPartnerId) {
+      const removedPartner = await this.plyr.findById(
+        removedPartnerId,
+        session,
+      );
+      if (
+        !removedPartner ||
+        (removedPartner.status !== PlayerStatus.ALIVE &&
+          removedPartner.status !== PlayerStatus.SAFE)
+      ) {
         isEntireTeamEliminated = true;
       }
     } else {
-      // If the killed player has no partner, treat the team as single-member and hence eliminated
+      // If the player has no partner, treat the team as single-member and hence eliminated
       isEntireTeamEliminated = true;
     }
 
     if (isEntireTeamEliminated) {
-      // 10. Identify the eliminated team IDs
-      const eliminatedTeamIds: MongoId[] = [killed.id];
-      if (killedPartnerId) {
-        eliminatedTeamIds.push(killedPartnerId);
+      // 2. Identify the eliminated team IDs
+      const eliminatedTeamIds: MongoId[] = [removed.id];
+      if (removedPartnerId) {
+        eliminatedTeamIds.push(removedPartnerId);
       }
 
-      // 11. Fetch the eliminated team's current target assignments
+      // 3. Fetch the eliminated team's current target assignments
       const eliminatedTeamTargets = await this.model.find({
         gameId: gameId,
         playerId: { $in: eliminatedTeamIds },
         status: TargetStatus.PENDING,
-      }).exec();
+      }).session(session ?? null).exec();
 
-      // 12. Collect unique target IDs from the eliminated team's targets
+      // 4. Collect unique target IDs from the eliminated team's targets
       const targetIdsSet = new Set<string>();
       eliminatedTeamTargets.forEach(t => {
         targetIdsSet.add(t.targetId.toString());
       });
       const targetIds = Array.from(targetIdsSet).map(id => new MongoId(id));
 
-      // 13. Fetch alive target players
-      const aliveTargetPlayers = await this.plyr.findByIds(targetIds);
+      // 5. Fetch alive target players
+      const aliveTargetPlayers =
+        targetIds.length > 0
+          ? await this.plyr.findByIds(targetIds, session)
+          : [];
       const aliveTargetIds = aliveTargetPlayers
         .filter(p => p.status === PlayerStatus.ALIVE || p.status === PlayerStatus.SAFE)
         .map(p => p.id);
 
-      // 14. Define killing team IDs (killer and their partner)
-      const killingTeamIds: MongoId[] = [playerId];
-      if (playerPartnerId) {
-        killingTeamIds.push(playerPartnerId);
-      }
-
-      // 15. Fetch alive members of the killer's team
-      const killingTeamMembers = await this.plyr.findByIds(killingTeamIds);
-      const aliveKillingTeamMembers = killingTeamMembers.filter(p => p.status === PlayerStatus.ALIVE || p.status === PlayerStatus.SAFE);
-
-      // 16. Assign new target assignments to the killing team members
+      // 6. Fetch alive members of the inheriting players
+      const inheritingMembers =
+        inheritingIds.length > 0
+          ? await this.plyr.findByIds(inheritingIds, session)
+          : [];
+      const aliveInheritingMembers = inheritingMembers.filter(
+        (p) =>
+          p.status === PlayerStatus.ALIVE || p.status === PlayerStatus.SAFE,
+      );
+
+      // 7. Assign new target assignments to the inheriting players
       const newTargetAssignments: TargetDocument[] = [];
 
-      for (const killer of aliveKillingTeamMembers) {
+      // With several hunters per target, the inheriting players may already
+      // be hunting some of the inherited targets
+      const existingTargets = await this.model.find({
+        gameId: gameId,
+        playerId: { $in: inheritingIds },
+        status: TargetStatus.PENDING,
+      }).session(session ?? null).exec();
+      const existing = new Set(
+        existingTargets.map((t) => `${t.playerId}:${t.targetId}`),
+      );
+
+      for (const inheritor of aliveInheritingMembers) {
+        // Prevent a player from targeting themselves or their partner
+        const ownTeam = [
+          inheritor.id.toString(),
+          inheritor.teamPartnerId?.toString(),
+        ];
+
         for (const targetId of aliveTargetIds) {
-          // Prevent a player from targeting themselves
-          if (killer.id.toString() === targetId.toString()) continue;
+          if (ownTeam.includes(targetId.toString())) continue;
+          if (existing.has(`${inheritor.id}:${targetId}`)) continue;
+          existing.add(`${inheritor.id}:${targetId}`);
 
           const newTarget = new this.model({
             gameId: gameId,
-            playerId: killer.id,
+            playerId: inheritor.id,
             targetId: targetId,
             status: TargetStatus.PENDING,
           });
@@ -345,99 +711,508 @@ export class TargetService {
         }
       }
 
-      // 17. Insert new target assignments
+      // 8. Insert new target assignments
       if (newTargetAssignments.length > 0) {
-        await this.model.insertMany(newTargetAssignments);
+        await this.model.insertMany(newTargetAssignments, { session });
       }
 
-      // 18. Expire all target assignments of the eliminated team
-      await this.model.updateMany(
-        {
-          gameId: gameId,
-          playerId: { $in: eliminatedTeamIds },
-          status: TargetStatus.PENDING,
-        },
-        { $set: { status: TargetStatus.EXPIRED } }
-      ).exec();
+      // 9. Expire all target assignments of the eliminated team
+      const expiredOwn = await this.expireTargets(
+        { gameId: gameId, playerId: { $in: eliminatedTeamIds } },
+        session,
+      );
+
+      // 10. Expire every target assignment pointing to any member of the
+      // eliminated team (the killer's partner, or other hunters of the team)
+      const expiredAgainst = await this.expireTargets(
+        { gameId: gameId, targetId: { $in: eliminatedTeamIds } },
+        session,
+      );
+
+      return {
+        created: newTargetAssignments.map((t) => new MongoId(t.id)),
+        expired: [...expiredOwn, ...expiredAgainst],
+      };
+    } else {
+      // 11. If the entire team is not eliminated, expire relevant target assignments
 
-      // 18.b. Expire killer's partner's target assignments pointing to any member of the eliminated team
-      if (playerPartnerId) {
-        await this.model.updateMany(
+      // 11.a. Expire target assignments where targetId is the removed player (A to C/D, B to C/D)
+      const expiredAgainst = await this.expireTargets(
+        { gameId: gameId, targetId: removed.id },
+        session,
+      );
+
+      // 11.b. Expire the removed player's own target assignments (C's targets to E/F)
+      const expiredOwn = await this.expireTargets(
+        { gameId: gameId, playerId: removed.id },
+        session,
+      );
+
+      return { created: [], expired: [...expiredAgainst, ...expiredOwn] };
+    }
+  }
+
+  /**
+   * Expire every pending target matching the filter. Bumps the version of
+   * each target, so anyone still holding an old copy cannot save over it.
+   * @param filter Which targets to expire
+   * @param session The transaction to take part in, if any.
+   * @returns The IDs of the targets that were expired.
+   */
+  private async expireTargets(
+    filter: FilterQuery<Target>,
+    session?: ClientSession,
+  ): Promise<MongoId[]> {
+    const pending = await this.model
+      .find({ ...filter, status: TargetStatus.PENDING })
+      .select('_id')
+      .session(session ?? null)
+      .exec();
+    const ids = pending.map((t) => new MongoId(t.id));
+
+    if (ids.length !== 0) {
+      await this.model
+        .updateMany(
+          { _id: { $in: ids }, status: TargetStatus.PENDING },
           {
-            gameId: gameId,
-            playerId: playerPartnerId,
-            targetId: { $in: eliminatedTeamIds },
-            status: TargetStatus.PENDING,
+            $set: { status: TargetStatus.EXPIRED, resolvedAt: new Date() },
+            $inc: { __v: 1 },
           },
-          { $set: { status: TargetStatus.EXPIRED } }
-        ).exec();
-      }
+          { session },
+        )
+        .exec();
+    }
+    return ids;
+  }
 
-    } else {
-      // 19. If the entire team is not eliminated, expire relevant target assignments
+  /**
+   * Complete the game if only a single team (or solo player) is left alive or
+   * safe. Records the winners and final standings on the game, and expires
+   * all pending targets.
+   * @param gameId The ID of the game.
+   * @param session The transaction to take part in, if any.
+   * @returns The IDs of the targets expired by completing the game, or null if
+   * the game was not completed
+   */
+  async finishIfWon(
+    gameId: MongoId,
+    session?: ClientSession,
+  ): Promise<MongoId[] | null> {
+    const game = await this.gme.findById(gameId, session);
+    if (game.status !== GameStatus.IN_PROGRESS) {
+      return null;
+    }
+
+    const remaining = await this.plyr.findByGameAndStatus(
+      gameId,
+      [PlayerStatus.ALIVE, PlayerStatus.SAFE],
+      session,
+    );
+    const remainingTeams = new Set(
+      remaining.map((p) => teamKey(p.id, p.teamPartnerId)),
+    );
+    if (remainingTeams.size > 1) {
+      return null;
+    }
 
-      // 19.a. Expire target assignments where targetId is killed.id (A to C/D, B to C/D)
-      await this.model.updateMany(
-        { gameId: gameId, targetId: killed.id, status: TargetStatus.PENDING },
-        { $set: { status: TargetStatus.EXPIRED } }
-      ).exec();
+    // Rank teams the same way the leaderboard does: surviving teams first,
+    // then by kills (minus revives)
+    const leaderboard = await this.fetchLeaderboard(gameId, session);
+    const teams: { [key: string]: LeaderboardPlayerInfo[] } = {};
+    leaderboard.forEach((info) => {
+      const key = teamKey(info.playerId, info.teamPartnerId);
+      teams[key] = [...(teams[key] ?? []), info];
+    });
 
-      // 19.b. Expire killed player's own target assignments (C's targets to E/F)
-      await this.model.updateMany(
-        { gameId: gameId, playerId: killed.id, status: TargetStatus.PENDING },
-        { $set: { status: TargetStatus.EXPIRED } }
-      ).exec();
+    const score = (team: LeaderboardPlayerInfo[]) =>
+      team.reduce((sum, p) => sum + p.kills - p.revives, 0);
+    const survived = (team: LeaderboardPlayerInfo[]) =>
+      team.some((p) => p.alive || p.safe);
 
-      // 19.c. Expire target assignments where playerId is killer's partner and targetId is killed.id (B to C/D)
-      if (playerPartnerId) {
-        await this.model.updateMany(
-          { gameId: gameId, playerId: playerPartnerId, targetId: killed.id, status: TargetStatus.PENDING },
-          { $set: { status: TargetStatus.EXPIRED } }
-        ).exec();
+    const ranked = Object.values(teams).sort((a, b) => {
+      if (survived(a) !== survived(b)) {
+        return survived(a) ? -1 : 1;
       }
-    }
+      return score(b) - score(a);
+    });
+
+    const statuses: { [key: string]: string } = {};
+    (await this.plyr.findByGame(gameId, session)).forEach(
+      (p) => (statuses[p.id] = p.status),
+    );
+
+    game.standings = [];
+    ranked.forEach((team, index) => {
+      team.forEach((info) => {
+        game.standings.push({
+          playerId: new MongoId(info.playerId),
+          name: info.name,
+          rank: index + 1,
+          kills: info.kills,
+          status: statuses[info.playerId],
+        } as GameStanding);
+      });
+    });
 
-    // 20. TODO: Implement game finishing logic if needed
+    // Stop all pending targets, there is nobody left to hunt
+    const expired = await this.expireTargets({ gameId: gameId }, session);
+
+    game.winners = remaining.map((p) => new MongoId(p.id));
+    game.status = GameStatus.COMPLETE;
+    game.completedAt = new Date();
+    await game.save({ session });
+
+    await this.log.record(
+      {
+        gameId: gameId,
+        type: GameLogType.GAME_COMPLETED,
+        playerIds: game.winners,
+      },
+      session,
+    );
+    return expired;
   }
 
+  /**
+   * Cancel a game that has not been completed yet, expiring all of its pending
+   * targets and cancelling any open kill claims so nobody can be killed in it
+   * any more. Everything happens in a single transaction.
+   * @param userId The ID of the user performing the action (must be an admin of
+   * the game, or a site admin).
+   * @param gameId The ID of the game.
+   */
+  async cancelGame(userId: MongoId, gameId: MongoId) {
+    await withTransaction(this.connection, undefined, async (session) => {
+      await this.gme.cancel(userId, gameId, session);
+      await this.expireTargets({ gameId: gameId }, session);
+      await this.claimModel
+        .updateMany(
+          {
+            gameId: gameId,
+            status: {
+              $in: [KillClaimStatus.PENDING, KillClaimStatus.DISPUTED],
+            },
+          },
+          {
+            $set: {
+              status: KillClaimStatus.CANCELLED,
+              resolvedAt: new Date(),
+            },
+          },
+          { session },
+        )
+        .exec();
+    });
+  }
 
-// Helper function to find a specific target by game, player, and target
-async findByGameAndPlayerAndTarget(gameId: MongoId, playerId: MongoId, targetId: MongoId): Promise<Target | null> {
-  return await this.model.findOne({
-      gameId: gameId,
-      playerId: playerId,
-      targetId: targetId,
-      status: TargetStatus.PENDING,
-  }).exec();
-}
+  /**
+   * Disqualify a player for breaking the rules, taking them out of the game
+   * and re-routing whoever was hunting them.
+   * @param userId The ID of the user performing the action (must be ADMIN).
+   * @param gameId The ID of the game.
+   * @param playerId The ID of the player to disqualify.
+   * @param reason Why the player was disqualified, shown to admins.
+   */
+  async disqualifyPlayer(
+    userId: MongoId,
+    gameId: MongoId,
+    playerId: MongoId,
+    reason: string,
+  ) {
+    // Only allow admins to conduct this action
+    const role = await this.plyr.getRole(gameId, userId);
+    if (role !== PlayerRole.ADMIN) {
+      throw new PlayerRoleUnauthorizedException(userId, role);
+    }
+
+    if (!reason || reason.trim() === '') {
+      throw new DisqualifyReasonMissingException(playerId);
+    }
+
+    await withTransaction(this.connection, undefined, async (session) => {
+      const game = await this.gme.findById(gameId, session);
+      if (game.status !== GameStatus.IN_PROGRESS) {
+        throw new GameStatusNotValidException(gameId, game.status);
+      }
+
+      const player = await this.plyr.findById(playerId, session);
+      if (!player || !player.gameId.equals(gameId)) {
+        throw new PlayerNotFoundException(playerId);
+      }
+      if (player.status === PlayerStatus.DISQUALIFIED) {
+        throw new PlayerStatusNotValidException(playerId, player.status);
+      }
+
+      const wasInGame =
+        player.status === PlayerStatus.ALIVE ||
+        player.status === PlayerStatus.SAFE;
+
+      // Whoever was hunting the player takes over their targets, exactly as a
+      // killer would
+      const hunters = await this.model
+        .find({
+          gameId: gameId,
+          targetId: playerId,
+          status: TargetStatus.PENDING,
+        })
+        .session(session)
+        .exec();
+      const hunterIds = Array.from(
+        new Set(hunters.map((t) => t.playerId.toString())),
+      ).map((id) => new MongoId(id));
+
+      const before = player.status;
+      player.status = PlayerStatus.DISQUALIFIED;
+      player.disqualifiedReason = reason.trim();
+      player.disqualifiedBy = userId;
+      player.disqualifiedAt = new Date();
+      await player.save({ session });
+
+      const { created } = wasInGame
+        ? await this.removeFromGraph(gameId, player, hunterIds, session)
+        : { created: [] };
+
+      await this.log.record(
+        {
+          gameId: gameId,
+          type: GameLogType.DISQUALIFIED,
+          actorId: userId,
+          playerIds: [playerId],
+          before: { status: before },
+          after: { status: player.status, createdTargetIds: created },
+          details: player.disqualifiedReason,
+        },
+        session,
+      );
+
+      if (wasInGame) {
+        await this.finishIfWon(gameId, session);
+      }
+    });
+  }
 
   /**
-   * Mark the player status of someone as safe, or make the unsafe if already marked safe.
-   * @param gameId The game in question
-   * @param userId The user of this function, in this case, an admin
-   * @param playerId The player in the game
+   * Fetch every disqualified player in a game, along with why.
+   * @param userId The ID of the user performing the action (must be ADMIN).
+   * @param gameId The ID of the game.
    */
-  async makePlayerSafe(userId: MongoId, gameId: MongoId, playerId: MongoId) {
-    // Grab the game to make sure it exists
-    await this.gme.findById(gameId);
+  async fetchDisqualified(
+    userId: MongoId,
+    gameId: MongoId,
+  ): Promise<DisqualificationInfo[]> {
+    // Only allow admins to conduct this action
+    const role = await this.plyr.getRole(gameId, userId);
+    if (role !== PlayerRole.ADMIN) {
+      throw new PlayerRoleUnauthorizedException(userId, role);
+    }
+
+    const players = await this.plyr.findByGameAndStatus(gameId, [
+      PlayerStatus.DISQUALIFIED,
+    ]);
+    if (players.length === 0) {
+      return [];
+    }
 
+    const users = await this.usr.findByIds([
+      ...players.map((p) => p.userId),
+      ...players.filter((p) => p.disqualifiedBy).map((p) => p.disqualifiedBy),
+    ]);
+    const names: { [key: string]: string } = {};
+    users.forEach((u) => (names[u.id] = `${u.firstName} ${u.surname}`));
+
+    return players.map((p) => ({
+      playerId: p.id,
+      name: names[p.userId.toString()] ?? 'Unknown',
+      reason: p.disqualifiedReason ?? '',
+      disqualifiedBy: p.disqualifiedBy
+        ? names[p.disqualifiedBy.toString()] ?? 'Unknown'
+        : 'Unknown',
+      disqualifiedAt: p.disqualifiedAt?.toISOString(),
+    }));
+  }
+
+  /**
+   * Bring a killed player back to life, as long as they have not used up the
+   * revives allowed by the game.
+   * @param userId The ID of the user performing the action (must be ADMIN).
+   * @param gameId The ID of the game.
+   * @param playerId The ID of the player to revive.
+   */
+  async revivePlayer(userId: MongoId, gameId: MongoId, playerId: MongoId) {
     // Only allow admins to conduct this action
     const role = await this.plyr.getRole(gameId, userId);
     if (role !== PlayerRole.ADMIN) {
       throw new PlayerRoleUnauthorizedException(userId, role);
     }
 
-    const player = await this.plyr.findById(playerId);
+    await this.processRevive(gameId, playerId, userId);
+  }
 
-    // Make sure the player is alive
-    if (player.status !== PlayerStatus.ALIVE && player.status !== PlayerStatus.SAFE) {
-      throw new PlayerStatusNotValidException(playerId, player.status);
+  /**
+   * Revive a killed player, restoring them to ALIVE and placing them back in
+   * the target graph. If their partner is still alive they simply rejoin the
+   * team, otherwise their team is spliced into the graph between a random
+   * hunter and its target, so every team is still hunted. Performs no
+   * permission checks, callers are expected to have done so (an admin, or a
+   * rule such as a completed challenge). Everything happens in a single
+   * transaction, like a kill, so a revive racing a kill cannot break the
+   * target graph.
+   * @param gameId The ID of the game.
+   * @param playerId The ID of the player to revive.
+   * @param actorId The user who revived the player, if any.
+   * @param session The transaction to take part in, if any.
+   */
+  async processRevive(
+    gameId: MongoId,
+    playerId: MongoId,
+    actorId?: MongoId,
+    session?: ClientSession,
+  ) {
+    await withTransaction(this.connection, session, async (session) => {
+      const game = await this.gme.findById(gameId, session);
+      if (game.status !== GameStatus.IN_PROGRESS) {
+        throw new GameStatusNotValidException(gameId, game.status);
+      }
+
+      const player = await this.plyr.findById(playerId, session);
+      if (!player || !player.gameId.equals(gameId)) {
+        throw new PlayerNotFoundException(playerId);
+      }
+      if (player.status !== PlayerStatus.KILLED) {
+        throw new PlayerStatusNotValidException(playerId, player.status);
+      }
+
+      if ((player.revives ?? 0) >= game.maxRevives) {
+        throw new PlayerReviveLimitException(playerId, game.maxRevives);
+      }
+
+      const isAlive = (p?: Player) =>
+        !!p &&
+        (p.status === PlayerStatus.ALIVE || p.status === PlayerStatus.SAFE);
+
+      const partner = player.teamPartnerId
+        ? await this.plyr.findById(player.teamPartnerId, session)
+        : undefined;
+
+      const newTargets: TargetDocument[] = [];
+      const addTarget = (hunterId: MongoId, targetId: MongoId) =>
+        newTargets.push(
+          new this.model({
+            gameId: gameId,
+            playerId: hunterId,
+            targetId: targetId,
+            status: TargetStatus.PENDING,
+          }),
+        );
+
+      if (isAlive(partner)) {
+        // Rejoin the team: hunt whoever the partner hunts, and be hunted by
+        // whoever hunts the partner
+        const partnerId = new MongoId(partner.id);
+        const hunting = await this.model
+          .find({
+            gameId: gameId,
+            playerId: partnerId,
+            status: TargetStatus.PENDING,
+          })
+          .session(session)
+          .exec();
+        const huntedBy = await this.model
+          .find({
+            gameId: gameId,
+            targetId: partnerId,
+            status: TargetStatus.PENDING,
+          })
+          .session(session)
+          .exec();
+
+        hunting.forEach((t) => addTarget(playerId, t.targetId));
+        huntedBy.forEach((t) => addTarget(t.playerId, playerId));
+      } else {
+        // Splice the revived team in between a random hunter and its target
+        const pending = await this.model
+          .find({ gameId: gameId, status: TargetStatus.PENDING })
+          .session(session)
+          .exec();
+
+        if (pending.length !== 0) {
+          const edge = pending[Math.floor(Math.random() * pending.length)];
+          const hunterTeam = await this.aliveTeam(edge.playerId, session);
+          const targetTeam = await this.aliveTeam(edge.targetId, session);
+
+          await this.expireTargets(
+            {
+              gameId: gameId,
+              playerId: { $in: hunterTeam },
+              targetId: { $in: targetTeam },
+            },
+            session,
+          );
+
+          hunterTeam.forEach((hunterId) => addTarget(hunterId, playerId));
+          targetTeam.forEach((targetId) => addTarget(playerId, targetId));
+        }
+      }
+
+      player.status = PlayerStatus.ALIVE;
+      player.revives = (player.revives ?? 0) + 1;
+      await player.save({ session });
+
+      if (newTargets.length !== 0) {
+        await this.model.insertMany(newTargets, { session });
+      }
+
+      await this.log.record(
+        {
+          gameId: gameId,
+          type: GameLogType.REVIVED,
+          actorId: actorId,
+          playerIds: [playerId],
+          before: { status: PlayerStatus.KILLED, revives: player.revives - 1 },
+          after: {
+            status: player.status,
+            revives: player.revives,
+            createdTargetIds: newTargets.map((t) => new MongoId(t.id)),
+          },
+        },
+        session,
+      );
+    });
+  }
+
+  /**
+   * The IDs of the alive (or safe) members of a player's team.
+   */
+  private async aliveTeam(
+    playerId: MongoId,
+    session?: ClientSession,
+  ): Promise<MongoId[]> {
+    const player = await this.plyr.findById(playerId, session);
+    const team = [player];
+    if (player.teamPartnerId) {
+      team.push(await this.plyr.findById(player.teamPartnerId, session));
     }
 
-    player.status = player.status === PlayerStatus.ALIVE ? PlayerStatus.SAFE : PlayerStatus.ALIVE;
-    player.save();
+    return team
+      .filter(
+        (p) =>
+          p &&
+          (p.status === PlayerStatus.ALIVE || p.status === PlayerStatus.SAFE),
+      )
+      .map((p) => new MongoId(p.id));
   }
 
+
+// Helper function to find a specific target by game, player, and target
+async findByGameAndPlayerAndTarget(gameId: MongoId, playerId: MongoId, targetId: MongoId): Promise<Target | null> {
+  return await this.model.findOne({
+      gameId: gameId,
+      playerId: playerId,
+      targetId: targetId,
+      status: TargetStatus.PENDING,
+  }).exec();
+}
+
   async fetchTargets(userId: MongoId, gameId: MongoId) {
     // Only allow admins to conduct this action
     const role = await this.plyr.getRole(gameId, userId);
@@ -483,13 +1258,263 @@ async findByGameAndPlayerAndTarget(gameId: MongoId, playerId: MongoId, targetId:
     return data;
 }
 
+  /**
+   * ADMIN ONLY: Check the pending targets of a game for problems, such as
+   * teams that nobody is hunting or targets pointing at dead players.
+   * @param userId The admin checking the game
+   * @param gameId The game in question
+   * @returns The problems found, and what a repair would change
+   */
+  async checkGraph(
+    userId: MongoId,
+    gameId: MongoId,
+  ): Promise<TargetGraphReport> {
+    // Only allow admins to conduct this action
+    const role = await this.plyr.getRole(gameId, userId);
+    if (role !== PlayerRole.ADMIN) {
+      throw new PlayerRoleUnauthorizedException(userId, role);
+    }
+
+    const { players, targets, maxTargetTeams } = await this.loadGraph(gameId);
+    const problems = findGraphProblems(players, targets, maxTargetTeams);
+    const repair = planGraphRepair(players, targets, maxTargetTeams);
+
+    const names = await this.playerNames(gameId);
+    return {
+      problems: problems.map((p) => ({
+        type: p.type,
+        players: p.playerIds.map((id) => ({
+          playerId: id,
+          name: names.get(id) ?? 'Unknown',
+        })),
+        targetIds: p.targetIds,
+      })),
+      repair: { expire: repair.expire.length, create: repair.create.length },
+    };
+  }
+
+  /**
+   * ADMIN ONLY: Fix the pending targets of a game, keeping as many of the
+   * existing targets as possible rather than matching everyone again.
+   * @param userId The admin repairing the game
+   * @param gameId The game in question
+   * @returns What is left wrong with the game afterwards (hopefully nothing)
+   */
+  async repairGraph(
+    userId: MongoId,
+    gameId: MongoId,
+  ): Promise<TargetGraphReport> {
+    // Only allow admins to conduct this action
+    const role = await this.plyr.getRole(gameId, userId);
+    if (role !== PlayerRole.ADMIN) {
+      throw new PlayerRoleUnauthorizedException(userId, role);
+    }
+
+    await withTransaction(this.connection, undefined, async (session) => {
+      const game = await this.gme.findById(gameId, session);
+      if (game.status !== GameStatus.IN_PROGRESS) {
+        throw new GameStatusNotValidException(gameId, game.status);
+      }
+
+      const { players, targets, maxTargetTeams } = await this.loadGraph(
+        gameId,
+        session,
+      );
+      const repair = planGraphRepair(players, targets, maxTargetTeams);
+      if (repair.expire.length === 0 && repair.create.length === 0) {
+        return;
+      }
+
+      const expired = await this.expireTargets(
+        {
+          gameId: gameId,
+          _id: { $in: repair.expire.map((id) => new MongoId(id)) },
+        },
+        session,
+      );
+      const created = await this.model.insertMany(
+        repair.create.map(
+          ({ hunterId, targetId }) =>
+            new this.model({
+              gameId: gameId,
+              playerId: new MongoId(hunterId),
+              targetId: new MongoId(targetId),
+              status: TargetStatus.PENDING,
+            }),
+        ),
+        { session },
+      );
+
+      const touched = new Set(
+        repair.create.flatMap(({ hunterId, targetId }) => [hunterId, targetId]),
+      );
+      targets
+        .filter((t) => repair.expire.includes(t.id))
+        .forEach((t) => touched.add(t.hunterId).add(t.targetId));
+
+      await this.log.record(
+        {
+          gameId: gameId,
+          type: GameLogType.TARGETS_REPAIRED,
+          actorId: userId,
+          playerIds: Array.from(touched).map((id) => new MongoId(id)),
+          after: {
+            expiredTargetIds: expired,
+            createdTargetIds: created.map((t) => new MongoId(t.id)),
+          },
+        },
+        session,
+      );
+    });
+
+    return await this.checkGraph(userId, gameId);
+  }
 
+  /**
+   * Everything needed to check the target graph of a game.
+   */
+  private async loadGraph(gameId: MongoId, session?: ClientSession) {
+    const game = await this.gme.findById(gameId, session);
+    const players = await this.plyr.findByGame(gameId, session);
+    const pending = await this.model
+      .find({ gameId: gameId, status: TargetStatus.PENDING })
+      .session(session ?? null)
+      .exec();
+
+    return {
+      players: players.map(
+        (p): GraphPlayer => ({
+          id: p.id.toString(),
+          partnerId: p.teamPartnerId?.toString(),
+          alive:
+            p.status === PlayerStatus.ALIVE || p.status === PlayerStatus.SAFE,
+        }),
+      ),
+      targets: pending.map(
+        (t): GraphTarget => ({
+          id: t.id,
+          hunterId: t.playerId.toString(),
+          targetId: t.targetId.toString(),
+        }),
+      ),
+      // Only teams hunted by several others may hunt several teams themselves
+      maxTargetTeams:
+        game.assignmentStrategy === AssignmentStrategyName.MULTI_HUNTER
+          ? Infinity
+          : 1,
+    };
+  }
+
+  /**
+   * Everything a player has done in a game: their kills, every target they
+   * were assigned, how long they lasted and how they split kills with their
+   * partner. Pending targets are kept secret from everyone but the player
+   * and the admins.
+   * @param userId The user looking
+   * @param gameId The game in question
+   * @param playerId The player to look at
+   */
+  async fetchPlayerStats(
+    userId: MongoId,
+    gameId: MongoId,
+    playerId: MongoId,
+  ): Promise<PlayerStatsInfo> {
+    const role = await this.plyr.getRole(gameId, userId);
+    if (role === PlayerRole.NONE) {
+      throw new PlayerRoleUnauthorizedException(userId, role);
+    }
+
+    const player = await this.plyr.findById(playerId);
+    if (!player || !player.gameId.equals(gameId)) {
+      throw new PlayerNotFoundException(playerId);
+    }
 
-  async fetchLeaderboard(gameId: MongoId) {
     const game = await this.gme.findById(gameId);
+    const targets = (await this.findByGame(gameId)).map(toStatsTarget);
+    const over =
+      game.status === GameStatus.COMPLETE ||
+      game.status === GameStatus.CANCELLED;
+
+    const partnerId = player.teamPartnerId?.toString();
+    const stats = computePlayerStats(
+      player.id,
+      partnerId,
+      targets,
+      gameTimespan(game, targets),
+      player.status === PlayerStatus.KILLED ||
+        player.status === PlayerStatus.DISQUALIFIED,
+    );
+
+    const viewer =
+      role === PlayerRole.PLAYER ? await this.plyr.find(userId, gameId) : null;
+    const secret =
+      role !== PlayerRole.ADMIN && viewer?.id !== player.id && !over;
+
+    const names = await this.playerNames(gameId);
+    const name = (id: string) => names.get(id) ?? 'Unknown';
+    const teamKills = stats.kills.length + stats.partnerKills;
+
+    return {
+      playerId: player.id,
+      name: name(player.id),
+      status: player.status,
+      kills: stats.kills.map((k) => ({
+        victimId: k.victimId,
+        victimName: name(k.victimId),
+        time: k.time.toISOString(),
+        timeToKill: k.timeToKill,
+      })),
+      targets: stats.assigned
+        .filter((t) => !secret || t.status !== TargetStatus.PENDING)
+        .map((t) => ({
+          targetId: t.targetId,
+          name: name(t.targetId),
+          status: t.status,
+          assignedAt: t.createdAt.toISOString(),
+          resolvedAt: t.resolvedAt?.toISOString(),
+          timeToKill: t.timeToKill,
+        })),
+      killedBy: stats.killedBy && {
+        name: name(stats.killedBy.hunterId),
+        time: stats.killedBy.time.toISOString(),
+      },
+      survivalTime: stats.survivalTime,
+      timesHunted: stats.timesHunted,
+      averageTimeToKill: stats.averageTimeToKill,
+      partner: partnerId
+        ? {
+            playerId: partnerId,
+            name: name(partnerId),
+            kills: stats.partnerKills,
+            share: teamKills === 0 ? 0 : stats.partnerKills / teamKills,
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * The names of every player in a game, keyed by player ID.
+   */
+  private async playerNames(gameId: MongoId) {
+    const players = await this.plyr.findByGame(gameId);
+    const users = await this.usr.findByIds(players.map((p) => p.userId));
+
+    const userNames = new Map<string, string>();
+    users.forEach((u) =>
+      userNames.set(u.id.toString(), `${u.firstName} ${u.surname}`),
+    );
+    return new Map(
+      players.map((p) => [p.id.toString(), userNames.get(p.userId.toString())]),
+    );
+  }
+
+
+
+  async fetchLeaderboard(gameId: MongoId, session?: ClientSession) {
+    const game = await this.gme.findById(gameId, session);
     const players: { [key: string]: Player } = {};
 
-    (await this.plyr.findByGame(gameId)).forEach(
+    (await this.plyr.findByGame(gameId, session)).forEach(
       (player) => (players[player.id] = player),
     );
     const playerIds = Object.keys(players).map((pid) => new MongoId(pid));
@@ -522,6 +1547,7 @@ async findByGameAndPlayerAndTarget(gameId: MongoId, playerId: MongoId, targetId:
           },
         },
       ])
+      .session(session ?? null)
       .exec();
 
     const killCounts: { [key: string]: number } = {};
@@ -552,6 +1578,7 @@ async findByGameAndPlayerAndTarget(gameId: MongoId, playerId: MongoId, targetId:
         kills: killCounts[p.id] ?? 0,
         alive: p.status === PlayerStatus.ALIVE,
         safe: p.status === PlayerStatus.SAFE,
+        status: p.status,
         revives: p.revives,
         killedBy: killer ? `${killer.firstName} ${killer.surname}` : undefined,
       };
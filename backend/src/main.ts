@@ -3,6 +3,7 @@ import { AppModule } from './app.module';
 import * as cookieParser from 'cookie-parser';
 import { CorsOptions } from '@nestjs/common/interfaces/external/cors-options.interface';
 import { ConfigService } from '@nestjs/config';
+import { CorsIoAdapter } from './utils/socket';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
@@ -13,6 +14,7 @@ async function bootstrap() {
     credentials: true,
   };
   app.enableCors(options);
+  app.useWebSocketAdapter(new CorsIoAdapter(app, options));
   app.use(cookieParser());
   await app.listen(process.env.PORT || 3001);
 }
@@ -0,0 +1,77 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getMailTransport, MailTransport } from './mail.transport';
+import {
+  MAIL_TEMPLATES,
+  MailContexts,
+  MailTemplateName,
+  RenderedMail,
+  renderLoginMail,
+  renderMail,
+} from './mail.templates';
+
+/**
+ * Sends templated emails through whichever transport is configured.
+ */
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+  private transport: MailTransport;
+  private from: string;
+  private host: string;
+
+  constructor(private cfg: ConfigService) {
+    this.transport = getMailTransport(this.cfg.get<string>('MAIL_TRANSPORT'), {
+      smtpUrl: this.cfg.get<string>('SMTP_URL'),
+      dir: this.cfg.get<string>('MAIL_DIR'),
+    });
+    this.from = this.cfg.get<string>('MAIL_FROM') ?? 'no-reply@localhost';
+    this.host = this.cfg.get<string>('FRONTEND_HOST') ?? '';
+  }
+
+  /**
+   * Fill in a template and email it to someone. Failures are logged rather
+   * than thrown, a missing email should never break anything else.
+   * @param to The address to send to
+   * @param name The template to use
+   * @param context What to fill it in with
+   */
+  async send<N extends MailTemplateName>(
+    to: string,
+    name: N,
+    context: MailContexts[N],
+  ) {
+    try {
+      const mail = renderMail(name, context, this.host);
+      await this.transport.send({ from: this.from, to, ...mail });
+    } catch (e) {
+      this.logger.error(`Failed to email ${name} to ${to}: ${e}`);
+    }
+  }
+
+  /**
+   * Email someone a link that signs them in. Unlike other emails, failures
+   * are thrown, since they can't sign in without it.
+   * @param to The address to send to
+   * @param path The page of the app the link opens, e.g. `/#/login?token=...`
+   * @param minutes How long the link works for
+   */
+  async sendLoginLink(to: string, path: string, minutes: number) {
+    const mail = renderLoginMail(`${this.host}${path}`, minutes);
+    await this.transport.send({ from: this.from, to, ...mail });
+  }
+
+  /**
+   * Fill in a template with made up details, to see what it looks like.
+   * @param name The template to use
+   * @param gameName The game to pretend the email is about
+   */
+  preview(name: MailTemplateName, gameName?: string): RenderedMail {
+    const sample = MAIL_TEMPLATES[name].sample;
+    return renderMail(
+      name,
+      { ...sample, gameName: gameName ?? sample.gameName },
+      this.host,
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import {
+  MAIL_TEMPLATES,
+  MailTemplateName,
+  renderLoginMail,
+  renderMail,
+} from './mail.templates';
+
+describe('mail templates', () => {
+  const host = 'https://splash.example';
+
+  it.each(Object.values(MailTemplateName))('renders %s', (name) => {
+    const mail = renderMail(name, MAIL_TEMPLATES[name].sample, host);
+
+    expect(mail.subject).toContain('Spring Splash');
+    expect(mail.text).toMatch(/^Hi Tiger,/);
+    expect(mail.text).toContain(`${host}/#/app/leaderboard`);
+    expect(mail.html).toContain(`href="${host}/#/app/leaderboard"`);
+  });
+
+  it('escapes whatever it is filled in with', () => {
+    const mail = renderMail(
+      MailTemplateName.ELIMINATED,
+      {
+        name: '<b>Tiger</b>',
+        gameName: 'Spring Splash',
+        disqualified: true,
+        reason: 'Splashed someone in <script>',
+      },
+      host,
+    );
+
+    expect(mail.html).not.toContain('<b>');
+    expect(mail.html).not.toContain('<script>');
+    expect(mail.html).toContain('&lt;script&gt;');
+    expect(mail.text).toContain('Splashed someone in <script>');
+  });
+
+  it('renders the sign-in link', () => {
+    const link = `${host}/#/login?token=abc.def`;
+    const mail = renderLoginMail(link, 15);
+
+    expect(mail.text).toContain(`Sign in: ${link}`);
+    expect(mail.text).toContain('next 15 minutes');
+    expect(mail.html).toContain(`href="${link}"`);
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Every kind of email players are sent
+ */
+export enum MailTemplateName {
+  REGISTERED = 'REGISTERED',
+  GAME_STARTED = 'GAME_STARTED',
+  NEW_TARGET = 'NEW_TARGET',
+  ELIMINATED = 'ELIMINATED',
+  DAILY_SAFETY = 'DAILY_SAFETY',
+  RESULTS = 'RESULTS',
+}
+
+/**
+ * What every email is given, along with whatever its template needs
+ */
+type MailContext = {
+  /**
+   * The first name of the recipient
+   */
+  name: string;
+  gameName: string;
+};
+
+/**
+ * What each template needs to be filled in. Times are already formatted in
+ * the game's time zone.
+ */
+export interface MailContexts {
+  [MailTemplateName.REGISTERED]: MailContext & { startTime: string };
+  [MailTemplateName.GAME_STARTED]: MailContext & { targets: string[] };
+  [MailTemplateName.NEW_TARGET]: MailContext & { targets: string[] };
+  [MailTemplateName.ELIMINATED]: MailContext & {
+    disqualified: boolean;
+    reason?: string;
+  };
+  [MailTemplateName.DAILY_SAFETY]: MailContext & {
+    description: string;
+    start: string;
+    end: string;
+    zones: string[];
+    items: string[];
+  };
+  [MailTemplateName.RESULTS]: MailContext & {
+    winners: string[];
+    standings: { rank: number; name: string; kills: number }[];
+    rank?: number;
+  };
+}
+
+/**
+ * The body of an email, before it is laid out
+ */
+type MailContent = {
+  subject: string;
+  paragraphs: string[];
+  /**
+   * A button linking to a page of the app, e.g. `/#/app/leaderboard`
+   */
+  action?: { text: string; path: string };
+};
+
+type MailTemplate<C> = {
+  /**
+   * When the email is sent, shown to admins previewing it
+   */
+  description: string;
+  /**
+   * Made up details to preview the email with
+   */
+  sample: C;
+  render: (context: C) => MailContent;
+};
+
+const LEADERBOARD_PATH = '/#/app/leaderboard';
+
+const list = (items: string[]) =>
+  items.length <= 1
+    ? items.join('')
+    : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+const targetLine = (targets: string[]) =>
+  targets.length === 0
+    ? 'Open the app to see who you are hunting.'
+    : `You are hunting ${list(targets)}.`;
+
+export const MAIL_TEMPLATES: {
+  [N in MailTemplateName]: MailTemplate<MailContexts[N]>;
+} = {
+  [MailTemplateName.REGISTERED]: {
+    description: 'Sent when a player registers for a game',
+    sample: {
+      name: 'Tiger',
+      gameName: 'Spring Splash',
+      startTime: 'Mon, Apr 1, 9:00 AM',
+    },
+    render: ({ gameName, startTime }) => ({
+      subject: `You're registered for ${gameName}`,
+      paragraphs: [
+        `You're in! ${gameName} starts ${startTime}.`,
+        'Until then, find a partner and read up on the rules. You will get your target when the game starts.',
+      ],
+      action: { text: 'Find a partner', path: LEADERBOARD_PATH },
+    }),
+  },
+
+  [MailTemplateName.GAME_STARTED]: {
+    description: 'Sent to every player when targets are first handed out',
+    sample: {
+      name: 'Tiger',
+      gameName: 'Spring Splash',
+      targets: ['Jane Doe', 'John Doe'],
+    },
+    render: ({ gameName, targets }) => ({
+      subject: `${gameName} has started`,
+      paragraphs: [
+        `${gameName} is on. ${targetLine(targets)}`,
+        'Keep your target to yourself, and watch your back.',
+      ],
+      action: { text: 'See your target', path: LEADERBOARD_PATH },
+    }),
+  },
+
+  [MailTemplateName.NEW_TARGET]: {
+    description:
+      'Sent when a player is given a new target after the game has started',
+    sample: {
+      name: 'Tiger',
+      gameName: 'Spring Splash',
+      targets: ['Jane Doe', 'John Doe'],
+    },
+    render: ({ gameName, targets }) => ({
+      subject: `You have a new target in ${gameName}`,
+      paragraphs: [targetLine(targets)],
+      action: { text: 'See your target', path: LEADERBOARD_PATH },
+    }),
+  },
+
+  [MailTemplateName.ELIMINATED]: {
+    description: 'Sent when a player is splashed or disqualified',
+    sample: {
+      name: 'Tiger',
+      gameName: 'Spring Splash',
+      disqualified: false,
+    },
+    render: ({ gameName, disqualified, reason }) => ({
+      subject: disqualified
+        ? `You've been disqualified from ${gameName}`
+        : `You've been splashed in ${gameName}`,
+      paragraphs: [
+        disqualified
+          ? `An admin has taken you out of ${gameName}${
+              reason ? `: ${reason}` : '.'
+            }`
+          : `You've been splashed, and are out of ${gameName}.`,
+        'Thanks for playing! You can keep following the game on the leaderboard.',
+      ],
+      action: { text: 'See the leaderboard', path: LEADERBOARD_PATH },
+    }),
+  },
+
+  [MailTemplateName.DAILY_SAFETY]: {
+    description: "Sent to players still in the game with each day's safety",
+    sample: {
+      name: 'Tiger',
+      gameName: 'Spring Splash',
+      description: 'Wear something orange',
+      start: 'Tue, 8:00 AM',
+      end: 'Tue, 11:59 PM',
+      zones: ['Frist'],
+      items: [],
+    },
+    render: ({ gameName, description, start, end, zones, items }) => ({
+      subject: `Today's safety in ${gameName}`,
+      paragraphs: [
+        `Today's safety: ${description}`,
+        `It applies from ${start} until ${end}.`,
+        ...(zones.length !== 0 ? [`Only in: ${list(zones)}.`] : []),
+        ...(items.length !== 0 ? [`Requires: ${list(items)}.`] : []),
+      ],
+      action: { text: 'Open the app', path: LEADERBOARD_PATH },
+    }),
+  },
+
+  [MailTemplateName.RESULTS]: {
+    description: 'Sent to every player once the game is over',
+    sample: {
+      name: 'Tiger',
+      gameName: 'Spring Splash',
+      winners: ['Jane Doe', 'John Doe'],
+      standings: [
+        { rank: 1, name: 'Jane Doe', kills: 6 },
+        { rank: 1, name: 'John Doe', kills: 4 },
+        { rank: 3, name: 'Tiger', kills: 2 },
+      ],
+      rank: 3,
+    },
+    render: ({ gameName, winners, standings, rank }) => ({
+      subject: `${gameName} is over`,
+      paragraphs: [
+        `${gameName} is over, congratulations to ${list(winners)}!`,
+        ...(rank ? [`You finished #${rank}.`] : []),
+        `Top players: ${standings
+          .slice(0, 5)
+          .map((s) => `#${s.rank} ${s.name} (${s.kills} kills)`)
+          .join(', ')}`,
+      ],
+      action: { text: 'See the final standings', path: LEADERBOARD_PATH },
+    }),
+  },
+};
+
+/**
+ * A filled in email, in both plain text and HTML
+ */
+export type RenderedMail = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+const escapeHtml = (s: string) =>
+  s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Lay out an email as both plain text and HTML, with an optional button.
+ */
+const layoutMail = (
+  subject: string,
+  greeting: string,
+  paragraphs: string[],
+  action: { text: string; link: string } | undefined,
+  footer: string,
+): RenderedMail => {
+  const text = [
+    greeting,
+    ...paragraphs,
+    ...(action ? [`${action.text}: ${action.link}`] : []),
+    '--',
+    footer,
+  ].join('\n\n');
+
+  const html = [
+    '<div style="font-family: sans-serif; max-width: 600px">',
+    `<p>${escapeHtml(greeting)}</p>`,
+    ...paragraphs.map((p) => `<p>${escapeHtml(p)}</p>`),
+    ...(action
+      ? [
+          `<p><a href="${escapeHtml(
+            action.link,
+          )}" style="display: inline-block; ` +
+            'padding: 8px 16px; border-radius: 6px; background: #3182ce; ' +
+            `color: #fff; text-decoration: none">${escapeHtml(
+              action.text,
+            )}</a></p>`,
+        ]
+      : []),
+    `<hr><p style="font-size: small; color: #718096">${escapeHtml(footer)}</p>`,
+    '</div>',
+  ].join('\n');
+
+  return { subject, text, html };
+};
+
+/**
+ * Fill in a template, and lay it out.
+ * @param name The template to use
+ * @param context What to fill it in with
+ * @param host The address of the frontend, that links point to
+ */
+export const renderMail = <N extends MailTemplateName>(
+  name: N,
+  context: MailContexts[N],
+  host: string,
+): RenderedMail => {
+  const template = MAIL_TEMPLATES[name] as MailTemplate<MailContexts[N]>;
+  const { subject, paragraphs, action } = template.render(context);
+
+  return layoutMail(
+    subject,
+    `Hi ${context.name},`,
+    paragraphs,
+    action && { text: action.text, link: `${host}${action.path}` },
+    'You can choose which emails you get from the Notifications tab of the app.',
+  );
+};
+
+/**
+ * Lay out the email with a link that signs someone in. It isn't about any
+ * game, and can't be opted out of, so it isn't one of the templates.
+ * @param link The full address of the link
+ * @param minutes How long the link works for
+ */
+export const renderLoginMail = (link: string, minutes: number): RenderedMail =>
+  layoutMail(
+    'Your sign-in link',
+    'Hi,',
+    [
+      `Use the link below to sign in. It only works once, and only for the next ${minutes} minutes.`,
+    ],
+    { text: 'Sign in', link },
+    "If you didn't ask to sign in, you can safely ignore this email.",
+  );
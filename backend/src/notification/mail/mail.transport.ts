@@ -0,0 +1,98 @@
+import { Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createTransport, Transporter } from 'nodemailer';
+
+/**
+ * The ways emails can be sent, picked with the `MAIL_TRANSPORT` environment
+ * variable
+ */
+export enum MailTransportName {
+  /**
+   * Send emails through the SMTP server at `SMTP_URL`
+   */
+  SMTP = 'smtp',
+  /**
+   * Write each email to a `.eml` file in `MAIL_DIR`, for development and tests
+   */
+  FILE = 'file',
+  /**
+   * Only print emails to the log
+   */
+  CONSOLE = 'console',
+}
+
+/**
+ * A single email, ready to be sent
+ */
+export type Mail = {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+/**
+ * Something that can deliver emails
+ */
+export interface MailTransport {
+  send(mail: Mail): Promise<void>;
+}
+
+export class SmtpTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor(url: string) {
+    this.transporter = createTransport(url);
+  }
+
+  async send(mail: Mail) {
+    await this.transporter.sendMail(mail);
+  }
+}
+
+export class FileTransport implements MailTransport {
+  // Builds the raw message without sending it anywhere
+  private transporter = createTransport({
+    streamTransport: true,
+    buffer: true,
+  });
+
+  constructor(private dir: string) {}
+
+  async send(mail: Mail) {
+    const { message } = await this.transporter.sendMail(mail);
+    await fs.mkdir(this.dir, { recursive: true });
+
+    const name = `${Date.now()}-${mail.to.replace(/[^\w.@-]/g, '_')}.eml`;
+    await fs.writeFile(path.join(this.dir, name), message as Buffer);
+  }
+}
+
+export class ConsoleTransport implements MailTransport {
+  private readonly logger = new Logger('Mail');
+
+  async send(mail: Mail) {
+    this.logger.log(`To ${mail.to}: ${mail.subject}\n${mail.text}`);
+  }
+}
+
+/**
+ * Create the transport with the given name, defaulting to printing emails.
+ * @param name The name of the transport, from `MAIL_TRANSPORT`
+ * @param options Where the transport sends emails
+ */
+export const getMailTransport = (
+  name: string | undefined,
+  options: { smtpUrl?: string; dir?: string },
+): MailTransport => {
+  switch (name) {
+    case MailTransportName.SMTP:
+      return new SmtpTransport(options.smtpUrl ?? '');
+    case MailTransportName.FILE:
+      return new FileTransport(options.dir ?? 'mail');
+    default:
+      return new ConsoleTransport();
+  }
+};
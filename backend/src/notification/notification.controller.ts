@@ -0,0 +1,81 @@
+import { Body, Controller, Get, Post, Req, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { NotificationService } from './notification.service';
+import { PushService } from './push/push.service';
+import { JwtAuthGuard } from 'auth/guards';
+import { getUserIdFromRequest } from 'utils/request';
+import { QueryRequired } from 'utils/decorators';
+import { MongoId } from 'utils/mongo';
+import {
+  MailPreview,
+  MailTemplateInfo,
+  NotificationPreferences,
+  PushSubscriptionInfo,
+} from 'shared/api/notification';
+
+@Controller('notification')
+export class NotificationController {
+  constructor(
+    private notifications: NotificationService,
+    private push: PushService,
+  ) {}
+
+  @Get('preferences')
+  @UseGuards(JwtAuthGuard)
+  async getPreferences(@Req() req: Request): Promise<NotificationPreferences> {
+    const userId = getUserIdFromRequest(req);
+    return await this.notifications.getPreferences(userId);
+  }
+
+  @Post('preferences')
+  @UseGuards(JwtAuthGuard)
+  async setPreferences(
+    @Req() req: Request,
+    @Body('optOuts') optOuts: string[],
+  ): Promise<NotificationPreferences> {
+    const userId = getUserIdFromRequest(req);
+    return await this.notifications.setPreferences(userId, optOuts);
+  }
+
+  @Post('push/subscribe')
+  @UseGuards(JwtAuthGuard)
+  async subscribe(
+    @Req() req: Request,
+    @Body() subscription: PushSubscriptionInfo,
+  ) {
+    const userId = getUserIdFromRequest(req);
+    await this.push.subscribe(userId, subscription);
+    return { msg: 'success' };
+  }
+
+  @Post('push/unsubscribe')
+  @UseGuards(JwtAuthGuard)
+  async unsubscribe(@Req() req: Request, @Body('endpoint') endpoint: string) {
+    const userId = getUserIdFromRequest(req);
+    await this.push.unsubscribe(userId, endpoint);
+    return { msg: 'success' };
+  }
+
+  @Get('mail/templates')
+  @UseGuards(JwtAuthGuard)
+  async listMailTemplates(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+  ): Promise<MailTemplateInfo[]> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    return await this.notifications.listMailTemplates(userId, gameId);
+  }
+
+  @Get('mail/preview')
+  @UseGuards(JwtAuthGuard)
+  async previewMail(
+    @Req() req: Request,
+    @QueryRequired('gameId') gameIdQuery: string,
+    @QueryRequired('template') template: string,
+  ): Promise<MailPreview> {
+    const userId = getUserIdFromRequest(req);
+    const gameId = new MongoId(gameIdQuery);
+    return await this.notifications.previewMail(userId, gameId, template);
+  }
+}
@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
+import { UserModule } from 'user/user.module';
+import { GameModule } from 'game/game.module';
+import { PlayerModule } from 'game/player/player.module';
+import { TargetModule } from 'game/target/target.module';
+import { GameLogModule } from 'game/log/game-log.module';
+import {
+  PushSubscription,
+  PushSubscriptionSchema,
+} from './push/push-subscription.schema';
+import { PushService } from './push/push.service';
+import { MailService } from './mail/mail.service';
+import { NotificationService } from './notification.service';
+import { NotificationController } from './notification.controller';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: PushSubscription.name, schema: PushSubscriptionSchema },
+    ]),
+    ConfigModule,
+    UserModule,
+    GameModule,
+    PlayerModule,
+    TargetModule,
+    GameLogModule,
+  ],
+  controllers: [NotificationController],
+  providers: [PushService, MailService, NotificationService],
+  exports: [MailService],
+})
+export class NotificationModule {}
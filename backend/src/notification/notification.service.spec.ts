@@ -0,0 +1,137 @@
+import { Subject } from 'rxjs';
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotificationService } from './notification.service';
+import { PushService } from './push/push.service';
+import { MailService } from './mail/mail.service';
+import { MailTemplateName } from './mail/mail.templates';
+import { GameLogService } from 'game/log/game-log.service';
+import { GameService } from 'game/game.service';
+import { PlayerService } from 'game/player/player.service';
+import { TargetService } from 'game/target/target.service';
+import { UserService } from 'user/user.service';
+import { GameLogEntry, GameLogType } from 'game/log/game-log.schema';
+import { NotificationCategory } from 'user/user.schema';
+import { MongoId } from 'utils/mongo';
+import { NotificationCategoryInvalidException } from 'utils/exceptions';
+
+describe('NotificationService', () => {
+  let service: NotificationService;
+  const entries = new Subject<GameLogEntry>();
+  const push = { send: jest.fn(), publicKey: 'key' };
+  const mail = { send: jest.fn() };
+  const gme = { findById: jest.fn() };
+  const plyr = { findByIds: jest.fn() };
+  const trgt = { findByIds: jest.fn() };
+  const usr = {
+    findById: jest.fn(),
+    findByIds: jest.fn(),
+    setNotificationOptOuts: jest.fn(),
+  };
+
+  const gameId = new MongoId('6500000000000000000000a1');
+  const hunter = new MongoId('6500000000000000000000b1');
+  const victim = new MongoId('6500000000000000000000b2');
+  const hunterUser = new MongoId('6500000000000000000000c1');
+  const victimUser = new MongoId('6500000000000000000000c2');
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationService,
+        { provide: PushService, useValue: push },
+        { provide: GameLogService, useValue: { entries } },
+        { provide: MailService, useValue: mail },
+        { provide: GameService, useValue: gme },
+        { provide: PlayerService, useValue: plyr },
+        { provide: TargetService, useValue: trgt },
+        { provide: UserService, useValue: usr },
+      ],
+    }).compile();
+
+    service = module.get<NotificationService>(NotificationService);
+    service.onModuleInit();
+  });
+
+  afterEach(() => service.onModuleDestroy());
+
+  const record = async (entry: Partial<GameLogEntry>) => {
+    entries.next(entry as GameLogEntry);
+    // Let the notifications go out
+    await new Promise((resolve) => setImmediate(resolve));
+  };
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should tell the victim and the new hunters about a kill', async () => {
+    const targetId = new MongoId('6500000000000000000000d1');
+    plyr.findByIds.mockImplementation(async (ids: MongoId[]) =>
+      ids.map((id) => ({
+        id: id.toString(),
+        userId: id.equals(hunter) ? hunterUser : victimUser,
+      })),
+    );
+    trgt.findByIds.mockResolvedValue([{ playerId: hunter }]);
+    usr.findByIds.mockImplementation(async (ids: MongoId[]) =>
+      ids.map((id) => ({
+        id: id.toString(),
+        email: `${id}@princeton.edu`,
+        firstName: 'Tiger',
+        notificationOptOuts: [],
+      })),
+    );
+    gme.findById.mockResolvedValue({ name: 'Spring Splash' });
+
+    await record({
+      gameId,
+      type: GameLogType.KILL,
+      playerIds: [hunter, victim],
+      after: { createdTargetIds: [targetId] },
+    });
+
+    expect(trgt.findByIds).toHaveBeenCalledWith([targetId]);
+    expect(push.send).toHaveBeenCalledWith(
+      [victimUser],
+      expect.objectContaining({ category: NotificationCategory.ELIMINATED }),
+    );
+    expect(push.send).toHaveBeenCalledWith(
+      [hunterUser],
+      expect.objectContaining({ category: NotificationCategory.NEW_TARGET }),
+    );
+    expect(mail.send).toHaveBeenCalledWith(
+      `${victimUser}@princeton.edu`,
+      MailTemplateName.ELIMINATED,
+      expect.objectContaining({
+        gameName: 'Spring Splash',
+        disqualified: false,
+      }),
+    );
+  });
+
+  it('should not send users notifications they opted out of', async () => {
+    plyr.findByIds.mockResolvedValue([{ userId: victimUser }]);
+    usr.findByIds.mockResolvedValue([
+      {
+        id: victimUser.toString(),
+        notificationOptOuts: [NotificationCategory.SAFETY],
+      },
+    ]);
+
+    await record({
+      gameId,
+      type: GameLogType.SAFETY_GRANTED,
+      playerIds: [victim],
+    });
+
+    expect(push.send).toHaveBeenCalledWith([], expect.anything());
+  });
+
+  it('should reject unknown categories', async () => {
+    await expect(
+      service.setPreferences(victimUser, ['NOT_A_CATEGORY']),
+    ).rejects.toThrow(NotificationCategoryInvalidException);
+    expect(usr.setNotificationOptOuts).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,563 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { Subscription } from 'rxjs';
+
+// Services
+import { PushService } from './push/push.service';
+import { MailService } from './mail/mail.service';
+import { GameLogService } from 'game/log/game-log.service';
+import { GameService } from 'game/game.service';
+import { PlayerService } from 'game/player/player.service';
+import { TargetService } from 'game/target/target.service';
+import { UserService } from 'user/user.service';
+
+// Utilities
+import { MongoId } from 'utils/mongo';
+import { formatZoned } from 'utils/time';
+import { NotificationCategory, User } from 'user/user.schema';
+import { Player, PlayerRole, PlayerStatus } from 'game/player/player.schema';
+import { GameStatus } from 'game/game.schema';
+import { GameLogEntry, GameLogType } from 'game/log/game-log.schema';
+import { MAIL_TEMPLATES, MailTemplateName } from './mail/mail.templates';
+import {
+  MailTemplateInvalidException,
+  NotificationCategoryInvalidException,
+  PlayerRoleUnauthorizedException,
+} from 'utils/exceptions';
+
+// Objects
+import {
+  MailPreview,
+  MailTemplateInfo,
+  NotificationPreferences,
+  PushMessage,
+} from 'shared/api/notification';
+
+/**
+ * How often (in milliseconds) to look for events that are about to start
+ */
+const REMINDER_INTERVAL = 60 * 1000;
+
+/**
+ * How long (in milliseconds) before an event starts to remind players of it
+ */
+const REMINDER_LEAD = 15 * 60 * 1000;
+
+/**
+ * How often (in milliseconds) to check whether a new day (and so a new
+ * safety) has started in any game
+ */
+const SAFETY_INTERVAL = 5 * 60 * 1000;
+
+/**
+ * Where notifications take players when they are opened
+ */
+const LEADERBOARD_URL = '/#/app/leaderboard';
+
+/**
+ * Sends a user an email of its own, for notifications that have one
+ */
+type MailSender = (user: User) => Promise<void>;
+
+/**
+ * Tells players about the things that happen to them in a game, through every
+ * channel they can be reached on (unless they have opted out): push messages
+ * to their browsers, and emails.
+ */
+@Injectable()
+export class NotificationService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(NotificationService.name);
+  private subscription: Subscription;
+
+  constructor(
+    private push: PushService,
+    private mail: MailService,
+    private log: GameLogService,
+    private gme: GameService,
+    private plyr: PlayerService,
+    private trgt: TargetService,
+    private usr: UserService,
+  ) {}
+
+  onModuleInit() {
+    this.subscription = this.log.entries.subscribe((entry) =>
+      this.handle(entry).catch((e) =>
+        this.logger.error(`Failed to notify about ${entry.type}: ${e}`),
+      ),
+    );
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Fetch which notifications a user is sent.
+   * @param userId The user in question
+   */
+  async getPreferences(userId: MongoId): Promise<NotificationPreferences> {
+    const user = await this.usr.findById(userId);
+    const optOuts = user.notificationOptOuts ?? [];
+
+    return {
+      categories: Object.values(NotificationCategory).map((category) => ({
+        category,
+        enabled: !optOuts.includes(category),
+      })),
+      pushPublicKey: this.push.publicKey,
+    };
+  }
+
+  /**
+   * Stop sending a user the given kinds of notifications, and start sending
+   * them every other kind.
+   * @param userId The user in question
+   * @param optOuts The categories they don't want to be sent
+   */
+  async setPreferences(
+    userId: MongoId,
+    optOuts: string[],
+  ): Promise<NotificationPreferences> {
+    const categories = Object.values(NotificationCategory) as string[];
+    const invalid = (optOuts ?? []).find((c) => !categories.includes(c));
+    if (invalid !== undefined) {
+      throw new NotificationCategoryInvalidException(invalid);
+    }
+
+    await this.usr.setNotificationOptOuts(
+      userId,
+      Array.from(new Set(optOuts ?? [])) as NotificationCategory[],
+    );
+    return await this.getPreferences(userId);
+  }
+
+  /**
+   * Remind the players of a game that one of its events is about to start.
+   */
+  @Interval(REMINDER_INTERVAL)
+  async remindEvents() {
+    const upcoming = await this.gme.findEventsToRemind(
+      new Date(Date.now() + REMINDER_LEAD),
+    );
+
+    for (const { game, event } of upcoming) {
+      try {
+        const gameId = new MongoId(game.id);
+        if (
+          !(await this.gme.markEventReminded(gameId, new MongoId(event.id)))
+        ) {
+          continue;
+        }
+
+        const minutes = Math.max(
+          Math.round((event.time.getTime() - Date.now()) / 60000),
+          1,
+        );
+        const players = await this.plyr.findByGame(gameId);
+        await this.notifyUsers(
+          players
+            .filter((p) => p.status !== PlayerStatus.DISQUALIFIED)
+            .map((p) => p.userId),
+          {
+            category: NotificationCategory.EVENT_REMINDER,
+            title: `${event.title} starts soon`,
+            body: `${game.name}: ${event.title} starts in ${minutes} minute${
+              minutes === 1 ? '' : 's'
+            }.`,
+            url: LEADERBOARD_URL,
+          },
+        );
+      } catch (e) {
+        this.logger.error(`Failed to remind players of ${event.id}: ${e}`);
+      }
+    }
+  }
+
+  /**
+   * Tell the players still in each game what today's safety is, once the day
+   * has started in the game's time zone.
+   */
+  @Interval(SAFETY_INTERVAL)
+  async announceSafeties() {
+    const due = await this.gme.findSafetiesToAnnounce();
+
+    for (const { game, day, safety } of due) {
+      try {
+        const gameId = new MongoId(game.id);
+        if (!(await this.gme.markSafetyAnnounced(gameId, day)) || !safety) {
+          continue;
+        }
+
+        const players = await this.plyr.findByGameAndStatus(gameId, [
+          PlayerStatus.ALIVE,
+          PlayerStatus.SAFE,
+        ]);
+        await this.notifyUsers(
+          players.map((p) => p.userId),
+          {
+            category: NotificationCategory.GAME_UPDATES,
+            title: "Today's safety",
+            body: safety.description,
+            url: LEADERBOARD_URL,
+          },
+          (user) =>
+            this.mail.send(user.email, MailTemplateName.DAILY_SAFETY, {
+              name: user.firstName,
+              gameName: game.name,
+              description: safety.description,
+              start: formatZoned(new Date(safety.start), game.timeZone),
+              end: formatZoned(new Date(safety.end), game.timeZone),
+              zones: safety.zones,
+              items: safety.items,
+            }),
+        );
+      } catch (e) {
+        this.logger.error(`Failed to announce safety of ${game.id}: ${e}`);
+      }
+    }
+  }
+
+  /**
+   * ADMIN ONLY: List the emails players can be sent.
+   * @param userId The user asking
+   * @param gameId The game they are an admin of
+   */
+  async listMailTemplates(
+    userId: MongoId,
+    gameId: MongoId,
+  ): Promise<MailTemplateInfo[]> {
+    await this.assertAdmin(userId, gameId);
+    return Object.values(MailTemplateName).map((name) => ({
+      name,
+      description: MAIL_TEMPLATES[name].description,
+    }));
+  }
+
+  /**
+   * ADMIN ONLY: See what an email looks like, filled in with made up details.
+   * @param userId The user asking
+   * @param gameId The game they are an admin of
+   * @param template The name of the template to preview
+   */
+  async previewMail(
+    userId: MongoId,
+    gameId: MongoId,
+    template: string,
+  ): Promise<MailPreview> {
+    await this.assertAdmin(userId, gameId);
+    if (!(Object.values(MailTemplateName) as string[]).includes(template)) {
+      throw new MailTemplateInvalidException(template);
+    }
+
+    const game = await this.gme.findById(gameId);
+    return {
+      name: template,
+      ...this.mail.preview(template as MailTemplateName, game.name),
+    };
+  }
+
+  private async assertAdmin(userId: MongoId, gameId: MongoId) {
+    const role = await this.plyr.getRole(gameId, userId);
+    if (role !== PlayerRole.ADMIN) {
+      throw new PlayerRoleUnauthorizedException(userId, role);
+    }
+  }
+
+  /**
+   * Work out who needs to hear about a change to a game, and tell them.
+   */
+  private async handle(entry: GameLogEntry) {
+    const [first, second] = entry.playerIds ?? [];
+    const gameId = new MongoId(entry.gameId.toString());
+
+    switch (entry.type) {
+      case GameLogType.PLAYER_REGISTERED: {
+        // Always sent, it confirms something they just did
+        const [player] = await this.plyr.findByIds([first]);
+        const user = await this.usr.findById(player.userId);
+        const game = await this.gme.findById(gameId);
+        await this.mail.send(user.email, MailTemplateName.REGISTERED, {
+          name: user.firstName,
+          gameName: game.name,
+          startTime: formatZoned(game.startTime, game.timeZone),
+        });
+        break;
+      }
+
+      case GameLogType.TARGETS_MATCHED: {
+        const game = await this.gme.findById(gameId);
+        const template =
+          entry.before?.status === GameStatus.IN_PROGRESS
+            ? MailTemplateName.NEW_TARGET
+            : MailTemplateName.GAME_STARTED;
+        await this.notifyPlayers(
+          entry.playerIds,
+          {
+            category: NotificationCategory.NEW_TARGET,
+            title: 'Targets are out',
+            body: 'You have been given a target. Open the app to see who.',
+            url: LEADERBOARD_URL,
+          },
+          async (user) =>
+            this.mail.send(user.email, template, {
+              name: user.firstName,
+              gameName: game.name,
+              targets: await this.targetNames(gameId, user),
+            }),
+        );
+        break;
+      }
+
+      case GameLogType.KILL:
+        await this.notifyEliminated(gameId, second, false);
+        await this.notifyNewTargets(gameId, entry);
+        break;
+
+      case GameLogType.DISQUALIFIED:
+        await this.notifyEliminated(gameId, first, true, entry.details);
+        await this.notifyNewTargets(gameId, entry);
+        break;
+
+      case GameLogType.REVIVED:
+      case GameLogType.TARGETS_REPAIRED:
+        await this.notifyNewTargets(gameId, entry);
+        break;
+
+      case GameLogType.SAFETY_GRANTED:
+        await this.notifyPlayers([first], {
+          category: NotificationCategory.SAFETY,
+          title: "You're safe",
+          body: 'Nobody can splash you until an admin says otherwise, or its time is up.',
+          url: LEADERBOARD_URL,
+        });
+        break;
+
+      case GameLogType.SAFETY_REVOKED:
+      case GameLogType.SAFETY_EXPIRED:
+        await this.notifyPlayers([first], {
+          category: NotificationCategory.SAFETY,
+          title: "You're no longer safe",
+          body: 'Watch your back, you can be splashed again.',
+          url: LEADERBOARD_URL,
+        });
+        break;
+
+      case GameLogType.INVITE_SENT: {
+        const [inviter] = await this.plyr.findByIds([first]);
+        const user = await this.usr.findById(inviter.userId);
+        await this.notifyPlayers([second], {
+          category: NotificationCategory.INVITE,
+          title: 'Team invite',
+          body: `${user.firstName} ${user.surname} wants you as their partner.`,
+          url: LEADERBOARD_URL,
+        });
+        break;
+      }
+
+      case GameLogType.GAME_COMPLETED:
+        await this.notifyResults(gameId);
+        break;
+
+      case GameLogType.ANNOUNCEMENT_POSTED: {
+        const players = await this.plyr.findByGame(gameId);
+        await this.notifyUsers(
+          players
+            .filter((p) => p.status !== PlayerStatus.DISQUALIFIED)
+            .map((p) => p.userId),
+          {
+            category: NotificationCategory.GAME_UPDATES,
+            title: 'New announcement',
+            body: entry.details ?? '',
+            url: LEADERBOARD_URL,
+          },
+        );
+        break;
+      }
+
+      case GameLogType.RULES_UPDATED: {
+        const players = await this.plyr.findByGame(gameId);
+        await this.notifyUsers(
+          players
+            .filter((p) => p.status !== PlayerStatus.DISQUALIFIED)
+            .map((p) => p.userId),
+          {
+            category: NotificationCategory.GAME_UPDATES,
+            title: 'The rules have changed',
+            body: entry.details || 'Open the app to read the new rules.',
+            url: LEADERBOARD_URL,
+          },
+        );
+        break;
+      }
+    }
+  }
+
+  private async notifyEliminated(
+    gameId: MongoId,
+    playerId: MongoId,
+    disqualified: boolean,
+    reason?: string,
+  ) {
+    const game = await this.gme.findById(gameId);
+    await this.notifyPlayers(
+      [playerId],
+      disqualified
+        ? {
+            category: NotificationCategory.ELIMINATED,
+            title: "You've been disqualified",
+            body: 'An admin has taken you out of the game.',
+            url: LEADERBOARD_URL,
+          }
+        : {
+            category: NotificationCategory.ELIMINATED,
+            title: "You've been splashed",
+            body: 'You are out of the game. Thanks for playing!',
+            url: LEADERBOARD_URL,
+          },
+      (user) =>
+        this.mail.send(user.email, MailTemplateName.ELIMINATED, {
+          name: user.firstName,
+          gameName: game.name,
+          disqualified,
+          reason,
+        }),
+    );
+  }
+
+  /**
+   * Tell everyone given new targets by a change that they have them.
+   */
+  private async notifyNewTargets(gameId: MongoId, entry: GameLogEntry) {
+    const createdIds = (entry.after?.createdTargetIds ?? []) as MongoId[];
+    if (createdIds.length === 0) {
+      return;
+    }
+
+    const targets = await this.trgt.findByIds(
+      createdIds.map((id) => new MongoId(id.toString())),
+    );
+    const hunterIds = Array.from(
+      new Set(targets.map((t) => t.playerId.toString())),
+    ).map((id) => new MongoId(id));
+
+    const game = await this.gme.findById(gameId);
+    await this.notifyPlayers(
+      hunterIds,
+      {
+        category: NotificationCategory.NEW_TARGET,
+        title: 'New target',
+        body: "You've got someone new to hunt. Open the app to see who.",
+        url: LEADERBOARD_URL,
+      },
+      async (user) =>
+        this.mail.send(user.email, MailTemplateName.NEW_TARGET, {
+          name: user.firstName,
+          gameName: game.name,
+          targets: await this.targetNames(gameId, user),
+        }),
+    );
+  }
+
+  /**
+   * Tell every player of a game that has just finished how it went.
+   */
+  private async notifyResults(gameId: MongoId) {
+    const game = await this.gme.findById(gameId);
+    const players = await this.plyr.findByGame(gameId);
+    const standings = [...game.standings].sort((a, b) => a.rank - b.rank);
+    const winners = standings
+      .filter((s) => game.winners.some((id) => id.equals(s.playerId)))
+      .map((s) => s.name);
+
+    const byUser = new Map<string, Player>(
+      players.map((p) => [p.userId.toString(), p]),
+    );
+    const rankOf = (user: User) => {
+      const player = byUser.get(user.id);
+      return standings.find((s) => player && s.playerId.equals(player.id))
+        ?.rank;
+    };
+
+    await this.notifyUsers(
+      players.map((p) => p.userId),
+      {
+        category: NotificationCategory.GAME_UPDATES,
+        title: `${game.name} is over`,
+        body: `Congratulations to ${winners.join(' and ')}!`,
+        url: LEADERBOARD_URL,
+      },
+      (user) =>
+        this.mail.send(user.email, MailTemplateName.RESULTS, {
+          name: user.firstName,
+          gameName: game.name,
+          winners,
+          standings: standings.map(({ rank, name, kills }) => ({
+            rank,
+            name,
+            kills,
+          })),
+          rank: rankOf(user),
+        }),
+    );
+  }
+
+  /**
+   * The names of the people a user is hunting, if they can be found.
+   */
+  private async targetNames(gameId: MongoId, user: User) {
+    try {
+      const target = await this.trgt.fetchTarget(gameId, new MongoId(user.id));
+      return target.members.map((m) => m.name);
+    } catch {
+      return [];
+    }
+  }
+
+  private async notifyPlayers(
+    playerIds: MongoId[],
+    message: PushMessage,
+    mail?: MailSender,
+  ) {
+    const ids = playerIds.filter((id) => !!id);
+    if (ids.length === 0) {
+      return;
+    }
+
+    const players = await this.plyr.findByIds(ids);
+    await this.notifyUsers(
+      players.map((p) => p.userId),
+      message,
+      mail,
+    );
+  }
+
+  /**
+   * Send a message to every user who hasn't opted out of its category, and
+   * email it to them too if it has an email.
+   */
+  private async notifyUsers(
+    userIds: MongoId[],
+    message: PushMessage,
+    mail?: MailSender,
+  ) {
+    const users = (await this.usr.findByIds(userIds)).filter(
+      (u) =>
+        !(u.notificationOptOuts ?? []).includes(
+          message.category as NotificationCategory,
+        ),
+    );
+
+    await this.push.send(
+      users.map((u) => new MongoId(u.id)),
+      message,
+    );
+    if (mail) {
+      await Promise.all(users.map((u) => mail(u)));
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import mongoose, { HydratedDocument } from 'mongoose';
+import { MongoId } from 'utils/mongo';
+
+export type PushSubscriptionDocument = HydratedDocument<PushSubscription>;
+
+/**
+ * A browser (or device) that a user has allowed to receive push messages
+ */
+@Schema()
+export class PushSubscription extends mongoose.Document<mongoose.Schema.Types.ObjectId> {
+  /**
+   * The user that the browser belongs to
+   */
+  @Prop({ type: mongoose.Schema.Types.ObjectId, required: true, index: true })
+  userId: MongoId;
+
+  /**
+   * Where push messages are sent, unique to the browser
+   */
+  @Prop({ type: String, required: true, unique: true })
+  endpoint: string;
+
+  /**
+   * The public key of the browser, used to encrypt messages
+   */
+  @Prop({ type: String, required: true })
+  p256dh: string;
+
+  /**
+   * The secret used to authenticate messages
+   */
+  @Prop({ type: String, required: true })
+  auth: string;
+
+  @Prop({ type: Date, required: true })
+  createdAt: Date;
+}
+
+export const PushSubscriptionSchema =
+  SchemaFactory.createForClass(PushSubscription);
@@ -0,0 +1,130 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import * as webpush from 'web-push';
+import { PushSubscription } from './push-subscription.schema';
+
+// Utilities
+import { MongoId } from 'utils/mongo';
+import { PushSubscriptionInvalidException } from 'utils/exceptions';
+
+// Objects
+import { PushMessage, PushSubscriptionInfo } from 'shared/api/notification';
+
+/**
+ * How long (in seconds) push services should hold on to a message for a
+ * browser that is offline, after which it is no longer worth showing
+ */
+const MESSAGE_TTL = 6 * 60 * 60;
+
+@Injectable()
+export class PushService {
+  private readonly logger = new Logger(PushService.name);
+  private readonly vapid?: webpush.VapidKeys & { subject: string };
+
+  constructor(
+    @InjectModel(PushSubscription.name) private model: Model<PushSubscription>,
+    private cfg: ConfigService,
+  ) {
+    const publicKey = this.cfg.get<string>('VAPID_PUBLIC_KEY');
+    const privateKey = this.cfg.get<string>('VAPID_PRIVATE_KEY');
+    if (publicKey && privateKey) {
+      this.vapid = {
+        subject:
+          this.cfg.get<string>('VAPID_SUBJECT') ??
+          this.cfg.getOrThrow<string>('FRONTEND_HOST'),
+        publicKey,
+        privateKey,
+      };
+    } else {
+      this.logger.warn('VAPID keys are not set, push messages are disabled');
+    }
+  }
+
+  /**
+   * The key browsers need to subscribe with, or undefined if push messages
+   * are disabled.
+   */
+  get publicKey(): string | undefined {
+    return this.vapid?.publicKey;
+  }
+
+  /**
+   * Start sending push messages for a user to a browser. A browser only ever
+   * belongs to the last user to subscribe with it.
+   * @param userId The user in question
+   * @param subscription The subscription given to the browser
+   */
+  async subscribe(userId: MongoId, subscription: PushSubscriptionInfo) {
+    if (
+      !subscription?.endpoint ||
+      !subscription.keys?.p256dh ||
+      !subscription.keys?.auth
+    ) {
+      throw new PushSubscriptionInvalidException();
+    }
+
+    await this.model
+      .updateOne(
+        { endpoint: subscription.endpoint },
+        {
+          $set: {
+            userId: userId,
+            p256dh: subscription.keys.p256dh,
+            auth: subscription.keys.auth,
+            createdAt: new Date(),
+          },
+        },
+        { upsert: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Stop sending push messages for a user to a browser.
+   * @param userId The user in question
+   * @param endpoint The endpoint of the browser's subscription
+   */
+  async unsubscribe(userId: MongoId, endpoint: string) {
+    await this.model.deleteOne({ userId: userId, endpoint: endpoint }).exec();
+  }
+
+  /**
+   * Send a message to every browser of the given users. Never fails, and
+   * forgets subscriptions that browsers have since cancelled.
+   * @param userIds The users to send the message to
+   * @param message What to show them
+   */
+  async send(userIds: MongoId[], message: PushMessage) {
+    if (!this.vapid || userIds.length === 0) {
+      return;
+    }
+
+    const subscriptions = await this.model
+      .find({ userId: { $in: userIds } })
+      .exec();
+    const payload = JSON.stringify(message);
+
+    await Promise.all(
+      subscriptions.map(async (s) => {
+        try {
+          await webpush.sendNotification(
+            { endpoint: s.endpoint, keys: { p256dh: s.p256dh, auth: s.auth } },
+            payload,
+            { vapidDetails: this.vapid, TTL: MESSAGE_TTL },
+          );
+        } catch (e) {
+          if (
+            e instanceof webpush.WebPushError &&
+            [404, 410].includes(e.statusCode)
+          ) {
+            await this.model.deleteOne({ _id: s._id }).exec();
+          } else {
+            this.logger.error(`Failed to send push message: ${e}`);
+          }
+        }
+      }),
+    );
+  }
+}
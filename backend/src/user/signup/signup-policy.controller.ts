@@ -0,0 +1,58 @@
+import { Body, Controller, Get, Post, Req, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { SignUpPolicyService } from './signup-policy.service';
+import { JwtAuthGuard } from 'auth/guards';
+import { getUserIdFromRequest } from 'utils/request';
+import {
+  SignUpDomains,
+  SignUpPolicyInfo,
+  SignUpPolicySettings,
+} from 'shared/api/user';
+
+@Controller('user/signup')
+export class SignUpPolicyController {
+  constructor(private policy: SignUpPolicyService) {}
+
+  @Get('domains')
+  async getDomains(): Promise<SignUpDomains> {
+    return await this.policy.getDomains();
+  }
+
+  @Get('policy')
+  @UseGuards(JwtAuthGuard)
+  async getPolicy(@Req() req: Request): Promise<SignUpPolicyInfo> {
+    const userId = getUserIdFromRequest(req);
+    return await this.policy.getPolicy(userId);
+  }
+
+  @Post('policy')
+  @UseGuards(JwtAuthGuard)
+  async updatePolicy(
+    @Req() req: Request,
+    @Body() settings: Partial<SignUpPolicySettings>,
+  ): Promise<SignUpPolicyInfo> {
+    const userId = getUserIdFromRequest(req);
+    return await this.policy.updatePolicy(userId, settings);
+  }
+
+  @Post('invite/create')
+  @UseGuards(JwtAuthGuard)
+  async createInviteCode(
+    @Req() req: Request,
+    @Body('maxUses') maxUses?: number,
+    @Body('expiresAt') expiresAt?: string,
+  ): Promise<SignUpPolicyInfo> {
+    const userId = getUserIdFromRequest(req);
+    return await this.policy.createInviteCode(userId, maxUses, expiresAt);
+  }
+
+  @Post('invite/delete')
+  @UseGuards(JwtAuthGuard)
+  async deleteInviteCode(
+    @Req() req: Request,
+    @Body('code') code: string,
+  ): Promise<SignUpPolicyInfo> {
+    const userId = getUserIdFromRequest(req);
+    return await this.policy.deleteInviteCode(userId, code);
+  }
+}
@@ -0,0 +1,62 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import mongoose, { HydratedDocument } from 'mongoose';
+
+export type SignUpPolicyDocument = HydratedDocument<SignUpPolicy>;
+
+/**
+ * A code handed out by a site admin, letting people sign up with any email
+ */
+@Schema()
+export class SignUpInviteCode {
+  @Prop({ type: String, required: true })
+  code: string;
+
+  /**
+   * How many people may sign up with the code, unlimited if missing
+   */
+  @Prop({ type: Number, required: false })
+  maxUses?: number;
+
+  @Prop({ type: Number, default: 0 })
+  uses: number;
+
+  @Prop({ type: Date, required: false })
+  expiresAt?: Date;
+
+  @Prop({ type: Date, required: true })
+  createdAt: Date;
+}
+
+const SignUpInviteCodeSchema = SchemaFactory.createForClass(SignUpInviteCode);
+
+/**
+ * Who is allowed to sign up to the site. There is only ever one of these,
+ * made from the `SIGNUP_DOMAINS` environment variable the first time it is
+ * needed.
+ */
+@Schema()
+export class SignUpPolicy extends mongoose.Document {
+  /**
+   * Anyone with an email at one of these domains may sign up, e.g.
+   * princeton.edu
+   */
+  @Prop({ type: [String], default: [] })
+  allowedDomains: string[];
+
+  /**
+   * Emails that may sign up whatever their domain, such as guest admins
+   */
+  @Prop({ type: [String], default: [] })
+  allowedEmails: string[];
+
+  /**
+   * Emails that may never sign in, even if they already have an account
+   */
+  @Prop({ type: [String], default: [] })
+  deniedEmails: string[];
+
+  @Prop({ type: [SignUpInviteCodeSchema], default: [] })
+  inviteCodes: SignUpInviteCode[];
+}
+
+export const SignUpPolicySchema = SchemaFactory.createForClass(SignUpPolicy);
@@ -0,0 +1,269 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import { randomBytes } from 'crypto';
+import { isEmail } from 'class-validator';
+import { MongoId } from 'utils/mongo';
+import {
+  InviteCodeNotFoundException,
+  SignUpPolicyInvalidException,
+  SignUpRejectedException,
+  UserNotGameAdminException,
+} from 'utils/exceptions';
+import { UserService } from 'user/user.service';
+import { SignUpPolicy, SignUpPolicyDocument } from './signup-policy.schema';
+import {
+  checkSignUp,
+  isDomain,
+  normalizeDomain,
+  normalizeInviteCode,
+} from './signup-policy';
+import {
+  SignUpDomains,
+  SignUpPolicyInfo,
+  SignUpPolicySettings,
+} from 'shared/api/user';
+
+@Injectable()
+export class SignUpPolicyService {
+  constructor(
+    @InjectModel(SignUpPolicy.name) private policyModel: Model<SignUpPolicy>,
+    private usr: UserService,
+    private cfg: ConfigService,
+  ) {}
+
+  /**
+   * Make sure someone is allowed to sign in, without using up their invite
+   * code, e.g. before emailing them a link to sign in with.
+   * @param email The email they are signing in with
+   * @param inviteCode The invite code they gave, if any
+   * @throws SignUpRejectedException saying why they can't sign in
+   */
+  async check(email: string, inviteCode?: string, now = new Date()) {
+    await this.decide(email, inviteCode, now);
+  }
+
+  /**
+   * Make sure someone signing in is allowed to, using up their invite code if
+   * it is what lets them in.
+   * @param email The email they are signing in with
+   * @param inviteCode The invite code they gave before signing in, if any
+   * @throws SignUpRejectedException saying why they can't sign in
+   */
+  async admit(email: string, inviteCode?: string, now = new Date()) {
+    const { policy, code } = await this.decide(email, inviteCode, now);
+    if (code === undefined) {
+      return;
+    }
+
+    // Only count the use if nobody else used the code in the meantime, so a
+    // code can't be used more times than it allows
+    const { uses } = policy.inviteCodes.find((i) => i.code === code);
+    const result = await this.policyModel
+      .updateOne(
+        {
+          _id: policy._id,
+          inviteCodes: { $elemMatch: { code, uses } },
+        },
+        { $inc: { 'inviteCodes.$.uses': 1 } },
+      )
+      .exec();
+    if (result.modifiedCount === 0) {
+      await this.admit(email, inviteCode, now);
+    }
+  }
+
+  /**
+   * The domains anyone may sign up with, shown on the login page
+   */
+  async getDomains(): Promise<SignUpDomains> {
+    const policy = await this.get();
+    return { domains: policy.allowedDomains };
+  }
+
+  /**
+   * Fetch the whole sign-up policy. Only site admins may do this.
+   * @param userId The user asking
+   */
+  async getPolicy(userId: MongoId): Promise<SignUpPolicyInfo> {
+    await this.assertSiteAdmin(userId);
+    return this.toInfo(await this.get());
+  }
+
+  /**
+   * Replace any of the lists of the sign-up policy. Only site admins may do
+   * this.
+   * @param userId The user making the change
+   * @param settings The lists to replace, any that are missing are kept
+   */
+  async updatePolicy(
+    userId: MongoId,
+    settings: Partial<SignUpPolicySettings>,
+  ): Promise<SignUpPolicyInfo> {
+    await this.assertSiteAdmin(userId);
+    const policy = await this.get();
+
+    if (settings.allowedDomains !== undefined) {
+      const domains = (settings.allowedDomains ?? [])
+        .map(normalizeDomain)
+        .filter((domain) => domain !== '');
+      const invalid = domains.filter((domain) => !isDomain(domain));
+      if (invalid.length !== 0) {
+        throw new SignUpPolicyInvalidException(
+          `Invalid domains: ${invalid.join(', ')}`,
+        );
+      }
+      policy.allowedDomains = Array.from(new Set(domains));
+    }
+    if (settings.allowedEmails !== undefined) {
+      policy.allowedEmails = this.parseEmails(settings.allowedEmails);
+    }
+    if (settings.deniedEmails !== undefined) {
+      policy.deniedEmails = this.parseEmails(settings.deniedEmails);
+    }
+
+    const user = await this.usr.findById(userId);
+    if (policy.deniedEmails.includes(user.email.toLowerCase())) {
+      throw new SignUpPolicyInvalidException('You cannot deny yourself.');
+    }
+
+    return this.toInfo(await policy.save());
+  }
+
+  /**
+   * Make a new invite code. Only site admins may do this.
+   * @param userId The user making the code
+   * @param maxUses How many people may sign up with it, unlimited if missing
+   * @param expiresAt When it stops working, never if missing
+   */
+  async createInviteCode(
+    userId: MongoId,
+    maxUses?: number,
+    expiresAt?: string,
+    now = new Date(),
+  ): Promise<SignUpPolicyInfo> {
+    await this.assertSiteAdmin(userId);
+
+    if (maxUses != null && (!Number.isInteger(maxUses) || maxUses < 1)) {
+      throw new SignUpPolicyInvalidException(
+        'The number of uses must be a whole number of at least 1.',
+      );
+    }
+    const expires = expiresAt ? new Date(expiresAt) : undefined;
+    if (expires && (isNaN(expires.getTime()) || expires <= now)) {
+      throw new SignUpPolicyInvalidException(
+        'The expiry must be a date in the future.',
+      );
+    }
+
+    const policy = await this.get();
+    policy.inviteCodes.push({
+      code: randomBytes(4).toString('hex').toUpperCase(),
+      maxUses: maxUses ?? undefined,
+      uses: 0,
+      expiresAt: expires,
+      createdAt: now,
+    });
+    return this.toInfo(await policy.save());
+  }
+
+  /**
+   * Delete an invite code so nobody else can sign up with it. Only site
+   * admins may do this.
+   * @param userId The user deleting the code
+   * @param code The code to delete
+   */
+  async deleteInviteCode(
+    userId: MongoId,
+    code: string,
+  ): Promise<SignUpPolicyInfo> {
+    await this.assertSiteAdmin(userId);
+    const policy = await this.get();
+
+    const normalized = normalizeInviteCode(code ?? '');
+    if (!policy.inviteCodes.some((i) => i.code === normalized)) {
+      throw new InviteCodeNotFoundException(normalized);
+    }
+    policy.inviteCodes = policy.inviteCodes.filter(
+      (i) => i.code !== normalized,
+    );
+    return this.toInfo(await policy.save());
+  }
+
+  /**
+   * The sign-up policy of the site, made from the `SIGNUP_DOMAINS`
+   * environment variable the first time it is needed
+   */
+  private async get(): Promise<SignUpPolicyDocument> {
+    const domains = (this.cfg.get<string>('SIGNUP_DOMAINS') ?? 'princeton.edu')
+      .split(',')
+      .map(normalizeDomain)
+      .filter((domain) => domain !== '');
+    return await this.policyModel
+      .findOneAndUpdate(
+        {},
+        { $setOnInsert: { allowedDomains: domains } },
+        { upsert: true, new: true, setDefaultsOnInsert: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Work out whether someone may sign in, throwing if they can't
+   */
+  private async decide(email: string, inviteCode: string, now: Date) {
+    const policy = await this.get();
+    const existing = await this.usr.findByEmails([email]);
+    const decision = checkSignUp(
+      policy,
+      email,
+      {
+        existing: existing.length !== 0,
+        siteAdmin: this.usr.isSiteAdminEmail(email),
+        inviteCode,
+      },
+      now,
+    );
+
+    if (decision.allowed === false) {
+      throw new SignUpRejectedException(decision.reason);
+    }
+    // The invite code that lets them in, if they need one
+    return { policy, code: decision.inviteCode };
+  }
+
+  private async assertSiteAdmin(userId: MongoId) {
+    if (!(await this.usr.isSiteAdmin(userId))) {
+      throw new UserNotGameAdminException(userId);
+    }
+  }
+
+  private parseEmails(emails: string[]): string[] {
+    const cleaned = (emails ?? [])
+      .map((email) => email.trim().toLowerCase())
+      .filter((email) => email !== '');
+    const invalid = cleaned.filter((email) => !isEmail(email));
+    if (invalid.length !== 0) {
+      throw new SignUpPolicyInvalidException(
+        `Invalid emails: ${invalid.join(', ')}`,
+      );
+    }
+    return Array.from(new Set(cleaned));
+  }
+
+  private toInfo(policy: SignUpPolicy): SignUpPolicyInfo {
+    return {
+      allowedDomains: policy.allowedDomains,
+      allowedEmails: policy.allowedEmails,
+      deniedEmails: policy.deniedEmails,
+      inviteCodes: policy.inviteCodes.map((i) => ({
+        code: i.code,
+        maxUses: i.maxUses ?? undefined,
+        uses: i.uses,
+        expiresAt: i.expiresAt?.toISOString(),
+        createdAt: i.createdAt.toISOString(),
+      })),
+    };
+  }
+}
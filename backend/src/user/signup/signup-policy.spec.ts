@@ -0,0 +1,87 @@
+import { checkSignUp } from './signup-policy';
+
+describe('signup-policy', () => {
+  const now = new Date('2024-04-01T12:00:00Z');
+  const policy = {
+    allowedDomains: ['princeton.edu'],
+    allowedEmails: ['guest@gmail.com'],
+    deniedEmails: ['banned@princeton.edu'],
+    inviteCodes: [
+      { code: 'OPEN', uses: 5 },
+      { code: 'FULL', maxUses: 2, uses: 2 },
+      { code: 'OLD', uses: 0, expiresAt: new Date('2024-03-01T00:00:00Z') },
+    ],
+  };
+  const newUser = { existing: false, siteAdmin: false };
+
+  it('should let in allowed domains and emails', () => {
+    expect(checkSignUp(policy, 'Ada@Princeton.edu', newUser, now)).toEqual({
+      allowed: true,
+    });
+    expect(checkSignUp(policy, 'guest@gmail.com', newUser, now)).toEqual({
+      allowed: true,
+    });
+  });
+
+  it('should explain why other emails are turned away', () => {
+    expect(checkSignUp(policy, 'ada@gmail.com', newUser, now)).toEqual({
+      allowed: false,
+      reason:
+        'Only @princeton.edu emails may sign up, not ada@gmail.com. Ask an admin for an invite code.',
+    });
+    expect(
+      checkSignUp(
+        { ...policy, allowedDomains: [] },
+        'ada@gmail.com',
+        newUser,
+        now,
+      ),
+    ).toEqual({
+      allowed: false,
+      reason:
+        'ada@gmail.com is not allowed to sign up. Ask an admin for an invite code.',
+    });
+  });
+
+  it('should only let in denied emails if they are site admins', () => {
+    const email = 'banned@princeton.edu';
+
+    expect(
+      checkSignUp(policy, email, { ...newUser, existing: true }, now).allowed,
+    ).toBe(false);
+    expect(
+      checkSignUp(policy, email, { ...newUser, siteAdmin: true }, now).allowed,
+    ).toBe(true);
+  });
+
+  it('should let existing users back in', () => {
+    expect(
+      checkSignUp(policy, 'ada@gmail.com', { ...newUser, existing: true }, now),
+    ).toEqual({ allowed: true });
+  });
+
+  it('should accept usable invite codes', () => {
+    const signUp = (inviteCode: string) =>
+      checkSignUp(policy, 'ada@gmail.com', { ...newUser, inviteCode }, now);
+
+    expect(signUp(' open ')).toEqual({ allowed: true, inviteCode: 'OPEN' });
+    expect(signUp('FULL')).toEqual({
+      allowed: false,
+      reason:
+        'The invite code FULL does not exist, has expired or has been used up.',
+    });
+    expect(signUp('OLD').allowed).toBe(false);
+    expect(signUp('MISSING').allowed).toBe(false);
+  });
+
+  it('should not use up invite codes when they are not needed', () => {
+    expect(
+      checkSignUp(
+        policy,
+        'ada@princeton.edu',
+        { ...newUser, inviteCode: 'OPEN' },
+        now,
+      ),
+    ).toEqual({ allowed: true });
+  });
+});
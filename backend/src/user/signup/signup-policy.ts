@@ -0,0 +1,112 @@
+import { isEmail } from 'class-validator';
+
+/**
+ * The parts of the policy needed to decide whether someone may sign in
+ */
+type Policy = {
+  allowedDomains: string[];
+  allowedEmails: string[];
+  deniedEmails: string[];
+  inviteCodes: {
+    code: string;
+    maxUses?: number;
+    uses: number;
+    expiresAt?: Date;
+  }[];
+};
+
+export type SignUpDecision =
+  | { allowed: true; inviteCode?: string }
+  | { allowed: false; reason: string };
+
+/**
+ * Turn an invite code into the form it is stored in, they are shown in upper
+ * case but may be typed in any case
+ */
+export const normalizeInviteCode = (code: string) => code.trim().toUpperCase();
+
+/**
+ * Turn a domain into the form it is stored in, without any leading @
+ */
+export const normalizeDomain = (domain: string) =>
+  domain.trim().toLowerCase().replace(/^@/, '');
+
+/**
+ * Whether the text looks like a domain emails could be sent to
+ */
+export const isDomain = (domain: string) => isEmail(`user@${domain}`);
+
+/**
+ * Whether an invite code can still be used to sign up
+ */
+export const isInviteCodeUsable = (
+  invite: { maxUses?: number; uses: number; expiresAt?: Date },
+  now: Date,
+) =>
+  (invite.maxUses == null || invite.uses < invite.maxUses) &&
+  (invite.expiresAt == null || invite.expiresAt > now);
+
+/**
+ * Decide whether someone may sign in, and why not if they can't. People who
+ * already have an account are only turned away if their email is denied,
+ * while new people need an allowed email or domain, or else an invite code.
+ * Site admins are always let in so they can't lock themselves out.
+ * @param policy The sign-up policy of the site
+ * @param email The email they are signing in with
+ * @param options Whether they already have an account or are a site admin,
+ * and the invite code they have given, if any
+ * @param now The time they are signing in at
+ */
+export const checkSignUp = (
+  policy: Policy,
+  email: string,
+  options: { existing: boolean; siteAdmin: boolean; inviteCode?: string },
+  now: Date,
+): SignUpDecision => {
+  email = email.toLowerCase();
+  if (options.siteAdmin) {
+    return { allowed: true };
+  }
+
+  if (policy.deniedEmails.includes(email)) {
+    return {
+      allowed: false,
+      reason: `${email} is not allowed to sign in. Contact an admin if you think this is a mistake.`,
+    };
+  }
+
+  const domain = email.slice(email.lastIndexOf('@') + 1);
+  if (
+    options.existing ||
+    policy.allowedEmails.includes(email) ||
+    policy.allowedDomains.includes(domain)
+  ) {
+    return { allowed: true };
+  }
+
+  if (options.inviteCode) {
+    const code = normalizeInviteCode(options.inviteCode);
+    const invite = policy.inviteCodes.find((i) => i.code === code);
+    if (invite && isInviteCodeUsable(invite, now)) {
+      return { allowed: true, inviteCode: code };
+    }
+
+    return {
+      allowed: false,
+      reason: `The invite code ${code} does not exist, has expired or has been used up.`,
+    };
+  }
+
+  if (policy.allowedDomains.length === 0) {
+    return {
+      allowed: false,
+      reason: `${email} is not allowed to sign up. Ask an admin for an invite code.`,
+    };
+  }
+
+  const domains = policy.allowedDomains.map((d) => `@${d}`).join(', ');
+  return {
+    allowed: false,
+    reason: `Only ${domains} emails may sign up, not ${email}. Ask an admin for an invite code.`,
+  };
+};
@@ -1,15 +1,26 @@
 import { Module } from '@nestjs/common';
 import { UserController } from './user.controller';
 import { MongooseModule } from '@nestjs/mongoose';
+import { ConfigModule } from '@nestjs/config';
 import { User, UserSchema } from './user.schema';
 import { UserService } from './user.service';
+import {
+  SignUpPolicy,
+  SignUpPolicySchema,
+} from './signup/signup-policy.schema';
+import { SignUpPolicyService } from './signup/signup-policy.service';
+import { SignUpPolicyController } from './signup/signup-policy.controller';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
+    MongooseModule.forFeature([
+      { name: User.name, schema: UserSchema },
+      { name: SignUpPolicy.name, schema: SignUpPolicySchema },
+    ]),
+    ConfigModule,
   ],
-  controllers: [UserController],
-  providers: [UserService],
-  exports: [UserService],
+  controllers: [UserController, SignUpPolicyController],
+  providers: [UserService, SignUpPolicyService],
+  exports: [UserService, SignUpPolicyService],
 })
 export class UserModule {}
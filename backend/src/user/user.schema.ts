@@ -3,6 +3,38 @@ import mongoose, { HydratedDocument } from 'mongoose';
 
 export type UserDocument = HydratedDocument<User>;
 
+/**
+ * The kinds of notifications a user can be sent, each of which they can opt
+ * out of
+ */
+export enum NotificationCategory {
+  /**
+   * They have been given someone new to hunt
+   */
+  NEW_TARGET = 'NEW_TARGET',
+  /**
+   * They have been killed or disqualified
+   */
+  ELIMINATED = 'ELIMINATED',
+  /**
+   * They have become safe, or stopped being safe
+   */
+  SAFETY = 'SAFETY',
+  /**
+   * Someone has invited them to be their partner
+   */
+  INVITE = 'INVITE',
+  /**
+   * An event of their game is about to start
+   */
+  EVENT_REMINDER = 'EVENT_REMINDER',
+  /**
+   * News about their game as a whole, such as each day's safety and the final
+   * results
+   */
+  GAME_UPDATES = 'GAME_UPDATES',
+}
+
 @Schema()
 export class User extends mongoose.Document {
   @Prop({ type: String, required: true })
@@ -19,6 +51,19 @@ export class User extends mongoose.Document {
 
   @Prop({ type: Boolean, default: false })
   contactVerified: boolean;
+
+  /**
+   * The dorm the user lives in, used to avoid assigning targets in the same
+   * dorm
+   */
+  @Prop({ type: String, required: false })
+  dorm?: string;
+
+  /**
+   * The kinds of notifications the user does not want to be sent
+   */
+  @Prop({ type: [{ type: String, enum: NotificationCategory }], default: [] })
+  notificationOptOuts: NotificationCategory[];
 }
 
 export const UserSchema = SchemaFactory.createForClass(User);
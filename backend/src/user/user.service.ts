@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { User, UserDocument } from './user.schema';
+import { ConfigService } from '@nestjs/config';
+import { NotificationCategory, User, UserDocument } from './user.schema';
 import { Model, Query } from 'mongoose';
 import { UserNotFoundException } from 'utils/exceptions';
 import { GoogleUser } from 'auth/strategies/google.strategy';
@@ -8,7 +9,10 @@ import { MongoId } from 'utils/mongo';
 
 @Injectable()
 export class UserService {
-  constructor(@InjectModel(User.name) private userModel: Model<User>) {}
+  constructor(
+    @InjectModel(User.name) private userModel: Model<User>,
+    private cfg: ConfigService,
+  ) {}
 
   async create(): Promise<User> {
     const createdCat = new this.userModel();
@@ -40,30 +44,110 @@ export class UserService {
     return users;
   }
 
+  /**
+   * Find every user signed up with one of the given emails
+   * @param emails List of emails of the users to find
+   * @returns The found users
+   */
+  public async findByEmails(emails: string[]): Promise<User[]> {
+    return await this.userModel.find({ email: { $in: emails } }).exec();
+  }
+
   /**
    * Find a user by their unique email, if they don't exist, make a new one
-   * This email is guaranteed to be verified by Google so
+   * This email is guaranteed to be verified by Google so whether they may sign
+   * up at all is left to the sign-up policy
    * @param googleUser User returned from Google OAuth process
    * @returns The found/created user
    */
   public async findOrCreateByGoogleUser(
     googleUser: GoogleUser,
   ): Promise<UserDocument> {
-    let user = await this.userModel.findOne({ email: googleUser.email });
-  
-    if (user == null && !googleUser.email.endsWith('@princeton.edu')) {
-      throw new Error('Only @princeton.edu emails are allowed');
-    }
-  
+    return await this.findOrCreate(
+      googleUser.email,
+      googleUser.firstName,
+      googleUser.lastName ?? 'Doe',
+    );
+  }
+
+  /**
+   * Find a user by their unique email, if they don't exist, make a new one.
+   * Signing in by email doesn't give a name, so new users are named after
+   * their email, e.g. jane.doe@example.com becomes Jane Doe
+   * @param email Email the user has proven they own
+   * @returns The found/created user
+   */
+  public async findOrCreateByEmail(email: string): Promise<UserDocument> {
+    const capitalize = (part: string) =>
+      part.charAt(0).toUpperCase() + part.slice(1);
+    const local = email.slice(0, email.lastIndexOf('@'));
+    const [firstName, ...surname] = local
+      .split(/[._+-]+/)
+      .filter((part) => part !== '')
+      .map(capitalize);
+
+    return await this.findOrCreate(
+      email,
+      firstName ?? local,
+      surname.length !== 0 ? surname.join(' ') : 'Doe',
+    );
+  }
+
+  private async findOrCreate(
+    email: string,
+    firstName: string,
+    surname: string,
+  ): Promise<UserDocument> {
+    let user = await this.userModel.findOne({ email });
+
     if (user != null) {
       // Simply return the user if they already exist
       return user;
     }
-  
+
     user = new this.userModel();
-    user.email = googleUser.email;
-    user.firstName = googleUser.firstName;
-    user.surname = googleUser.lastName ?? 'Doe';
+    user.email = email;
+    user.firstName = firstName;
+    user.surname = surname;
+    return await user.save();
+  }
+
+  /**
+   * Whether or not a user may conduct site-wide admin tasks, such as creating
+   * games. Site admins are listed by email in the `SITE_ADMINS` environment
+   * variable.
+   * @param userId The user in question
+   */
+  public async isSiteAdmin(userId: MongoId): Promise<boolean> {
+    const user = await this.findById(userId);
+    return this.isSiteAdminEmail(user.email);
+  }
+
+  /**
+   * Whether or not the given email belongs to a site admin, whether or not
+   * they have signed up yet
+   * @param email The email in question
+   */
+  public isSiteAdminEmail(email: string): boolean {
+    const admins = (this.cfg.get<string>('SITE_ADMINS') ?? '')
+      .split(',')
+      .map((admin) => admin.trim().toLowerCase())
+      .filter((admin) => admin !== '');
+    return admins.includes(email.toLowerCase());
+  }
+
+  /**
+   * Replace the kinds of notifications a user does not want to be sent
+   * @param id ID of the user
+   * @param optOuts The categories to stop sending
+   * @returns The updated user
+   */
+  public async setNotificationOptOuts(
+    id: MongoId,
+    optOuts: NotificationCategory[],
+  ): Promise<User> {
+    const user = await this.findById(id);
+    user.notificationOptOuts = optOuts;
     return await user.save();
   }
 }
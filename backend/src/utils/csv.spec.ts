@@ -0,0 +1,66 @@
+import { parseCsv, toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('should write a header and a line per row', () => {
+    const csv = toCsv(
+      ['name', 'kills'],
+      [
+        { name: 'Ada', kills: 3 },
+        { name: 'Grace', kills: 0 },
+      ],
+    );
+
+    expect(csv).toBe('name,kills\r\nAda,3\r\nGrace,0\r\n');
+  });
+
+  it('should quote cells with commas, quotes and line breaks', () => {
+    const csv = toCsv(
+      ['reason'],
+      [{ reason: 'Left early, "sick"' }, { reason: 'Two\nlines' }],
+    );
+
+    expect(csv).toBe('reason\r\n"Left early, ""sick"""\r\n"Two\nlines"\r\n');
+  });
+
+  it('should stop cells from being run as formulas', () => {
+    const csv = toCsv(['name'], [{ name: '=HYPERLINK("x")' }, { name: '-1' }]);
+
+    expect(csv).toBe('name\r\n"\'=HYPERLINK(""x"")"\r\n\'-1\r\n');
+  });
+
+  it('should leave missing values empty', () => {
+    const csv = toCsv<{ a?: string; b: number }>(['a', 'b'], [{ b: 1 }]);
+
+    expect(csv).toBe('a,b\r\n,1\r\n');
+  });
+});
+
+describe('parseCsv', () => {
+  it('should read rows and cells', () => {
+    expect(parseCsv('email,name\r\nada@example.com,Ada\n')).toEqual([
+      ['email', 'name'],
+      ['ada@example.com', 'Ada'],
+    ]);
+  });
+
+  it('should read quoted cells', () => {
+    expect(parseCsv('"Lovelace, Ada","Say ""hi""","Two\nlines"')).toEqual([
+      ['Lovelace, Ada', 'Say "hi"', 'Two\nlines'],
+    ]);
+  });
+
+  it('should skip blank lines and a byte order mark', () => {
+    expect(parseCsv('\uFEFFemail\n\n\nada@example.com\n\n')).toEqual([
+      ['email'],
+      ['ada@example.com'],
+    ]);
+  });
+
+  it('should read back what it writes', () => {
+    const rows = [{ a: 'x, "y"', b: 'z\r\nw' }];
+    expect(parseCsv(toCsv(['a', 'b'], rows))).toEqual([
+      ['a', 'b'],
+      ['x, "y"', 'z\r\nw'],
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Characters that make spreadsheet programs treat a cell as a formula
+ */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Write a single value as a CSV cell. Names and emails are typed in by users,
+ * so anything that looks like a formula is escaped before a spreadsheet can
+ * run it.
+ */
+const toCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && FORMULA_START.test(text)) {
+    text = `'${text}`;
+  }
+  if (/[",\r\n]/.test(text)) {
+    text = `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+/**
+ * Turn rows of the same shape into a CSV file, with a header row naming the
+ * columns in order.
+ * @param columns The keys of each row to write, in order
+ * @param rows The rows of the table
+ */
+export const toCsv = <T extends object>(
+  columns: (keyof T & string)[],
+  rows: T[],
+): string =>
+  [
+    columns.map(toCell).join(','),
+    ...rows.map((row) =>
+      columns.map((column) => toCell(row[column])).join(','),
+    ),
+  ]
+    .map((line) => `${line}\r\n`)
+    .join('');
+
+/**
+ * Read a CSV file into rows of cells. Quoted cells may hold commas, quotes and
+ * line breaks, and blank lines are skipped.
+ * @param text The contents of the file
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  // Spreadsheet programs like to start files with a byte order mark
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length !== 0) endRow();
+
+  return rows;
+};
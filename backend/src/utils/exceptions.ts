@@ -16,6 +16,15 @@ export class ObjectIDInvalidException extends HttpException {
   }
 }
 
+export class ConcurrentModificationException extends HttpException {
+  constructor() {
+    super(
+      'Something else changed the game at the same time, please try again.',
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
 export class UserNotFoundException extends HttpException {
   constructor(id: MongoId) {
     super(`User with ID ${id} could not be found.`, HttpStatus.NOT_FOUND);
@@ -58,6 +67,24 @@ export class GameStatusNotValidException extends HttpException {
   }
 }
 
+export class GameSettingsInvalidException extends HttpException {
+  constructor(reason: string) {
+    super(
+      `The provided game settings are invalid. ${reason}`,
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
+
+export class UserNotGameAdminException extends HttpException {
+  constructor(id: MongoId) {
+    super(
+      `User with ID ${id} is not an admin and cannot conduct this action.`,
+      HttpStatus.UNAUTHORIZED,
+    );
+  }
+}
+
 export class EmailNotWhitelistedException extends HttpException {
   constructor(userId: MongoId, gameId: MongoId) {
     super(
@@ -85,6 +112,24 @@ export class PlayerStatusNotValidException extends HttpException {
   }
 }
 
+export class DisqualifyReasonMissingException extends HttpException {
+  constructor(id: MongoId) {
+    super(
+      `Player with ID ${id} cannot be disqualified without a reason.`,
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
+
+export class PlayerReviveLimitException extends HttpException {
+  constructor(id: MongoId, max: number) {
+    super(
+      `Player with ID ${id} has already been revived the maximum of ${max} times.`,
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
+
 export class PlayerRoleUnauthorizedException extends HttpException {
   constructor(id: MongoId, role: string) {
     super(
@@ -102,3 +147,135 @@ export class TargetStatusNotValidException extends HttpException {
     );
   }
 }
+
+export class KillUndoNotAllowedException extends HttpException {
+  constructor(targetId: MongoId, reason: string) {
+    super(
+      `The kill of target with ID ${targetId} cannot be undone. ${reason}`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
+export class KillClaimNotFoundException extends HttpException {
+  constructor(id: MongoId) {
+    super(`Kill claim with ID ${id} could not be found.`, HttpStatus.NOT_FOUND);
+  }
+}
+
+export class KillClaimStatusNotValidException extends HttpException {
+  constructor(id: MongoId, status: string) {
+    super(
+      `Kill claim with ID ${id} has an invalid status of ${status} for this action.`,
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
+
+export class KillClaimAlreadyExistsException extends HttpException {
+  constructor(targetId: MongoId) {
+    super(
+      `Target with ID ${targetId} already has an open kill claim.`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
+export class SafetyGrantInvalidException extends HttpException {
+  constructor(reason: string) {
+    super(`The safety grant is invalid. ${reason}`, HttpStatus.BAD_REQUEST);
+  }
+}
+
+export class PushSubscriptionInvalidException extends HttpException {
+  constructor() {
+    super(
+      'The push subscription is missing its endpoint or keys.',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
+
+export class NotificationCategoryInvalidException extends HttpException {
+  constructor(category: string) {
+    super(
+      `There is no such notification category '${category}'.`,
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
+
+export class MailTemplateInvalidException extends HttpException {
+  constructor(template: string) {
+    super(
+      `There is no such email template '${template}'.`,
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
+
+export class AnnouncementNotFoundException extends HttpException {
+  constructor(announcementId: MongoId) {
+    super(
+      `Announcement with ID ${announcementId} not found.`,
+      HttpStatus.NOT_FOUND,
+    );
+  }
+}
+
+export class AnnouncementInvalidException extends HttpException {
+  constructor(reason: string) {
+    super(`The announcement is invalid. ${reason}`, HttpStatus.BAD_REQUEST);
+  }
+}
+
+export class EvidenceNotFoundException extends HttpException {
+  constructor(evidenceId: MongoId) {
+    super(`Evidence with ID ${evidenceId} not found.`, HttpStatus.NOT_FOUND);
+  }
+}
+
+export class EvidenceInvalidException extends HttpException {
+  constructor(reason: string) {
+    super(`The evidence is invalid. ${reason}`, HttpStatus.BAD_REQUEST);
+  }
+}
+
+export class ExportInvalidException extends HttpException {
+  constructor(reason: string) {
+    super(`The export is invalid. ${reason}`, HttpStatus.BAD_REQUEST);
+  }
+}
+
+export class SignUpRejectedException extends HttpException {
+  constructor(reason: string) {
+    super(reason, HttpStatus.FORBIDDEN);
+  }
+}
+
+export class SignUpPolicyInvalidException extends HttpException {
+  constructor(reason: string) {
+    super(`The sign-up policy is invalid. ${reason}`, HttpStatus.BAD_REQUEST);
+  }
+}
+
+export class InviteCodeNotFoundException extends HttpException {
+  constructor(code: string) {
+    super(`Invite code ${code} not found.`, HttpStatus.NOT_FOUND);
+  }
+}
+
+export class LoginLinkInvalidException extends HttpException {
+  constructor(reason: string) {
+    super(reason, HttpStatus.BAD_REQUEST);
+  }
+}
+
+export class DevLoginDisabledException extends HttpException {
+  constructor() {
+    super(
+      'Dev login is turned off. Set DEV_LOGIN=true to use it outside of production.',
+      HttpStatus.NOT_FOUND,
+    );
+  }
+}
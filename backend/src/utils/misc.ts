@@ -6,3 +6,19 @@ export const shuffle = <T>(arr: T[]) => {
   }
   return arr;
 };
+
+/**
+ * A key that uniquely identifies a team, shared by both partners of a team
+ * (and simply the player's ID if they are solo).
+ * @param playerId The ID of a player on the team
+ * @param teamPartnerId The ID of their partner, if they have one
+ */
+export const teamKey = (
+  playerId: { toString(): string },
+  teamPartnerId?: { toString(): string },
+) => {
+  return [playerId.toString(), teamPartnerId?.toString()]
+    .filter((id) => id)
+    .sort()
+    .join('-');
+};
@@ -1,6 +1,9 @@
 import { ConfigService } from '@nestjs/config';
-import mongoose from 'mongoose';
-import { ObjectIDInvalidException } from './exceptions';
+import mongoose, { ClientSession, Connection } from 'mongoose';
+import {
+  ConcurrentModificationException,
+  ObjectIDInvalidException,
+} from './exceptions';
 
 /**
  * A wrapper class around an ObjectId. Contains a few extra checks and throws
@@ -30,3 +33,35 @@ export const getConnectUrl = (config: ConfigService) => {
     'DB_PASSWORD',
   )}@${config.get<string>('DB_HOST')}/${config.get<string>('DB_PARAMS')}`;
 };
+
+/**
+ * Run `work` inside a transaction. If a session is given the work joins the
+ * transaction that session is already in, so transactional methods can call
+ * each other. Documents changed by someone else in the meantime (optimistic
+ * concurrency) are reported as a conflict rather than a server error.
+ * @param connection The connection to start the transaction on
+ * @param session The session of an ongoing transaction, if any
+ * @param work What to do within the transaction, may be retried
+ */
+export const withTransaction = async <T>(
+  connection: Connection,
+  session: ClientSession | undefined,
+  work: (session: ClientSession) => Promise<T>,
+): Promise<T> => {
+  if (session) {
+    return await work(session);
+  }
+
+  try {
+    let result: T;
+    await connection.transaction(async (session) => {
+      result = await work(session);
+    });
+    return result;
+  } catch (e) {
+    if (e instanceof mongoose.Error.VersionError) {
+      throw new ConcurrentModificationException();
+    }
+    throw e;
+  }
+};
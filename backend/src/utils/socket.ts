@@ -0,0 +1,24 @@
+import { INestApplicationContext } from '@nestjs/common';
+import { CorsOptions } from '@nestjs/common/interfaces/external/cors-options.interface';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { ServerOptions } from 'socket.io';
+
+/**
+ * Socket.IO adapter that allows the same origins as the rest of the API, which
+ * are only known once the config has been loaded.
+ */
+export class CorsIoAdapter extends IoAdapter {
+  constructor(app: INestApplicationContext, private cors: CorsOptions) {
+    super(app);
+  }
+
+  createIOServer(port: number, options?: ServerOptions) {
+    return super.createIOServer(port, {
+      ...options,
+      cors: {
+        origin: this.cors.origin as string[],
+        credentials: this.cors.credentials,
+      },
+    });
+  }
+}
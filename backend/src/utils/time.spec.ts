@@ -0,0 +1,51 @@
+import {
+  addZonedDays,
+  formatZoned,
+  isValidTimeZone,
+  startOfZonedDay,
+  zonedHour,
+} from './time';
+
+describe('time', () => {
+  const zone = 'America/New_York';
+
+  it('knows which time zones exist', () => {
+    expect(isValidTimeZone(zone)).toBe(true);
+    expect(isValidTimeZone('UTC')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+
+  it('finds midnight in the time zone', () => {
+    // 11pm in New York is already the next day in UTC
+    const late = new Date('2024-01-16T04:00:00Z');
+    expect(startOfZonedDay(late, zone).toISOString()).toBe(
+      '2024-01-15T05:00:00.000Z',
+    );
+    expect(startOfZonedDay(late, 'UTC').toISOString()).toBe(
+      '2024-01-16T00:00:00.000Z',
+    );
+  });
+
+  it('handles days that are not 24 hours long', () => {
+    // Clocks spring forward on March 10th, 2024
+    const before = new Date('2024-03-09T17:00:00Z');
+    expect(addZonedDays(before, 1, zone).toISOString()).toBe(
+      '2024-03-10T05:00:00.000Z',
+    );
+    expect(addZonedDays(before, 2, zone).toISOString()).toBe(
+      '2024-03-11T04:00:00.000Z',
+    );
+  });
+
+  it('shows times on the wall clock of the time zone', () => {
+    const date = new Date('2024-04-01T13:00:00Z');
+    expect(formatZoned(date, zone)).toBe('Mon, Apr 1, 9:00 AM');
+    expect(formatZoned(date, 'UTC')).toBe('Mon, Apr 1, 1:00 PM');
+  });
+
+  it('reads the hour off the wall clock of the time zone', () => {
+    const date = new Date('2024-04-01T03:30:00Z');
+    expect(zonedHour(date, zone)).toBe(23);
+    expect(zonedHour(date, 'UTC')).toBe(3);
+  });
+});
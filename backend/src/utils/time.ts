@@ -0,0 +1,91 @@
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Whether the given string is an IANA time zone (e.g. America/New_York) known
+ * to the runtime.
+ */
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * How far ahead of UTC the wall clock in the time zone is at the given
+ * instant, in milliseconds.
+ */
+const zoneOffset = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type).value);
+
+  const wallClock = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second'),
+  );
+  return wallClock - (date.getTime() - date.getMilliseconds());
+};
+
+/**
+ * The instant that the day containing `date` began, in the given time zone.
+ */
+export const startOfZonedDay = (date: Date, timeZone: string) => {
+  const wallClock = new Date(date.getTime() + zoneOffset(date, timeZone));
+  const midnight = Date.UTC(
+    wallClock.getUTCFullYear(),
+    wallClock.getUTCMonth(),
+    wallClock.getUTCDate(),
+  );
+
+  // Correct the guess in case the offset changes overnight (daylight savings)
+  const guess = midnight - zoneOffset(date, timeZone);
+  return new Date(midnight - zoneOffset(new Date(guess), timeZone));
+};
+
+/**
+ * The instant that the day `days` after the one containing `date` began, in
+ * the given time zone. Days are not always 24 hours long, so aim for midday.
+ */
+export const addZonedDays = (date: Date, days: number, timeZone: string) => {
+  const start = startOfZonedDay(date, timeZone);
+  return startOfZonedDay(
+    new Date(start.getTime() + (days * 24 + 12) * HOUR),
+    timeZone,
+  );
+};
+
+/**
+ * The hour (0-23) that the wall clock in the time zone shows at the instant.
+ */
+export const zonedHour = (date: Date, timeZone: string) =>
+  new Date(date.getTime() + zoneOffset(date, timeZone)).getUTCHours();
+
+/**
+ * Show an instant as it is on the wall clock in the time zone, for people to
+ * read, e.g. "Mon, Apr 1, 9:00 AM".
+ */
+export const formatZoned = (date: Date, timeZone: string) =>
+  date.toLocaleString('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
@@ -1,7 +1,20 @@
 import { BaseResponse } from "shared/api/basic";
-import { get } from "../utils/http";
+import { get, post } from "../utils/http";
 
 /** Logout of the app */
 export const logout = async (): Promise<BaseResponse> => {
   return (await get<BaseResponse>("/auth/logout")).data;
 };
+
+/** Email a link to sign in with, using the invite code if one is given */
+export const emailLoginLink = async (
+  email: string,
+  invite?: string
+): Promise<BaseResponse> => {
+  return (await post<BaseResponse>("/auth/email", { email, invite })).data;
+};
+
+/** Email a link to sign in as anyone, only works in development */
+export const devLogin = async (email: string): Promise<BaseResponse> => {
+  return (await post<BaseResponse>("/auth/dev/login", { email })).data;
+};
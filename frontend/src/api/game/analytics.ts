@@ -0,0 +1,18 @@
+import { gameInfoAtom } from "global/user-state";
+import { getRecoil } from "recoil-nexus";
+import { GameAnalytics } from "shared/api/game/analytics";
+import { authGet } from "utils/http";
+
+/**
+ * ADMIN ONLY: Fetch an overview of how the current game has gone so far
+ */
+export const fetchAnalytics = async (): Promise<GameAnalytics> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) throw new Error("Game information is missing.");
+
+  return (
+    await authGet<GameAnalytics>(
+      `/game/analytics/overview?gameId=${info.gameId}`
+    )
+  ).data;
+};
@@ -0,0 +1,79 @@
+import { gameInfoAtom } from "global/user-state";
+import { getRecoil } from "recoil-nexus";
+import {
+  AnnouncementFeed,
+  AnnouncementInfo,
+} from "shared/api/game/announcement";
+import { authGet, authPost } from "utils/http";
+
+/**
+ * Fetch the announcements of the current game, pinned ones first
+ */
+export const fetchAnnouncements = async (): Promise<AnnouncementFeed> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) return { announcements: [], unread: 0 };
+
+  return (
+    await authGet<AnnouncementFeed>(
+      `/game/announcement/list?gameId=${info.gameId}`
+    )
+  ).data;
+};
+
+/**
+ * Mark every announcement posted so far as read
+ */
+export const markAnnouncementsRead = async () => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) return;
+
+  await authPost(`/game/announcement/read?gameId=${info.gameId}`);
+};
+
+/**
+ * ADMIN ONLY: Post an announcement to every player
+ */
+export const postAnnouncement = async (announcement: {
+  title: string;
+  body: string;
+  pinned: boolean;
+  expiresAt?: string;
+}): Promise<AnnouncementInfo> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) throw new Error("Game information is missing.");
+
+  return (
+    await authPost<AnnouncementInfo>(
+      `/game/announcement/post?gameId=${info.gameId}`,
+      announcement
+    )
+  ).data;
+};
+
+/**
+ * ADMIN ONLY: Pin an announcement above all others, or unpin it
+ */
+export const pinAnnouncement = async (
+  announcementId: string,
+  pinned: boolean
+) => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) return;
+
+  await authPost(
+    `/game/announcement/pin?gameId=${info.gameId}&announcementId=${announcementId}`,
+    { pinned }
+  );
+};
+
+/**
+ * ADMIN ONLY: Stop showing an announcement to players
+ */
+export const expireAnnouncement = async (announcementId: string) => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) return;
+
+  await authPost(
+    `/game/announcement/expire?gameId=${info.gameId}&announcementId=${announcementId}`
+  );
+};
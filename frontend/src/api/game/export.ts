@@ -0,0 +1,21 @@
+import { gameInfoAtom } from "global/user-state";
+import { getRecoil } from "recoil-nexus";
+import { ExportDataset, ExportFormat } from "shared/api/game/export";
+import { authGetBlob } from "utils/http";
+
+/**
+ * ADMIN ONLY: Download the data of the current game, either everything as JSON
+ * or a single table as CSV
+ */
+export const downloadExport = async (
+  format: ExportFormat,
+  dataset?: ExportDataset
+): Promise<Blob> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) throw new Error("Game information is missing.");
+
+  return await authGetBlob(
+    `/game/export/download?gameId=${info.gameId}&format=${format}` +
+      (dataset ? `&dataset=${dataset}` : "")
+  );
+};
@@ -1,13 +1,209 @@
-import { gameInfoAtom } from "global/user-state";
-import { setRecoil } from "recoil-nexus";
-import { GameInfo } from "shared/api/game";
-import { authGet } from "utils/http";
+import { gameInfoAtom, selectedGameIdAtom } from "global/user-state";
+import { getRecoil, setRecoil } from "recoil-nexus";
+import {
+  GameInfo,
+  GameLogPage,
+  GameRulesInfo,
+  GameRulesVersionInfo,
+  GameSettings,
+  GameSummary,
+  RosterPreview,
+  SafetySchedule,
+} from "shared/api/game";
+import { authGet, authPost } from "utils/http";
 
 /**
- * Return the information about the active game on the backend.
+ * Return the information about the game the user has selected, or the active
+ * game on the backend if they haven't picked one (or it no longer exists).
  */
-export const getActiveGame = async (): Promise<GameInfo> => {
+export const getCurrentGame = async (): Promise<GameInfo> => {
+  const selected = getRecoil(selectedGameIdAtom);
+  if (selected) {
+    try {
+      const game = (await authGet<GameInfo>(`/game/get?gameId=${selected}`))
+        .data;
+      setRecoil(gameInfoAtom, game);
+      return game;
+    } catch {
+      setRecoil(selectedGameIdAtom, undefined);
+    }
+  }
+
   const activeGame = (await authGet<GameInfo>("/game/getActive")).data;
   setRecoil(gameInfoAtom, activeGame);
   return activeGame;
 };
+
+/**
+ * Switch to viewing a different game, returning its information.
+ */
+export const selectGame = async (gameId: string): Promise<GameInfo> => {
+  setRecoil(selectedGameIdAtom, gameId);
+  return await getCurrentGame();
+};
+
+/**
+ * List every game the user plays in, administers, or is able to join.
+ */
+export const listGames = async (): Promise<GameSummary[]> => {
+  return (await authGet<GameSummary[]>("/game/list")).data;
+};
+
+/**
+ * Return today's and tomorrow's safety for the current game, along with the
+ * one in effect right now.
+ */
+export const getSafetySchedule = async (): Promise<SafetySchedule> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) throw new Error("Game information is missing.");
+
+  return (await authGet<SafetySchedule>(`/game/safety?gameId=${info.gameId}`))
+    .data;
+};
+
+/**
+ * Return the rules of the current game, and whether the player has read them
+ * since they last changed.
+ */
+export const getRules = async (): Promise<GameRulesInfo> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) throw new Error("Game information is missing.");
+
+  return (await authGet<GameRulesInfo>(`/game/rules?gameId=${info.gameId}`))
+    .data;
+};
+
+/**
+ * Record that the player has read a version of the rules of the current game.
+ */
+export const acknowledgeRules = async (version: number) => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) throw new Error("Game information is missing.");
+
+  await authPost(`/game/rules/acknowledge?gameId=${info.gameId}`, { version });
+};
+
+/**
+ * ADMIN ONLY: Return every version of the rules of the current game, newest
+ * first.
+ */
+export const getRulesHistory = async (): Promise<GameRulesVersionInfo[]> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) throw new Error("Game information is missing.");
+
+  return (
+    await authGet<GameRulesVersionInfo[]>(
+      `/game/rules/history?gameId=${info.gameId}`
+    )
+  ).data;
+};
+
+/**
+ * ADMIN ONLY: Publish a new version of the rules of the current game.
+ */
+export const updateRules = async (
+  content: string,
+  summary: string
+): Promise<GameRulesVersionInfo> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) throw new Error("Game information is missing.");
+
+  return (
+    await authPost<GameRulesVersionInfo>(
+      `/game/rules/update?gameId=${info.gameId}`,
+      { content, summary }
+    )
+  ).data;
+};
+
+/**
+ * ADMIN ONLY: Show what importing a roster CSV into the current game would
+ * change, without changing anything.
+ */
+export const previewRoster = async (csv: string): Promise<RosterPreview> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) throw new Error("Game information is missing.");
+
+  return (
+    await authPost<RosterPreview>(
+      `/game/roster/preview?gameId=${info.gameId}`,
+      { csv }
+    )
+  ).data;
+};
+
+/**
+ * ADMIN ONLY: Replace the whitelist (and admins) of the current game with a
+ * roster CSV.
+ */
+export const importRoster = async (csv: string): Promise<RosterPreview> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) throw new Error("Game information is missing.");
+
+  return (
+    await authPost<RosterPreview>(`/game/roster/import?gameId=${info.gameId}`, {
+      csv,
+    })
+  ).data;
+};
+
+/**
+ * ADMIN ONLY: Return the editable settings of a game.
+ */
+export const getGameSettings = async (
+  gameId: string
+): Promise<GameSettings> => {
+  return (await authGet<GameSettings>(`/game/settings?gameId=${gameId}`)).data;
+};
+
+/**
+ * SITE ADMIN ONLY: Create a new game, returning its ID.
+ */
+export const createGame = async (
+  settings: Partial<GameSettings>
+): Promise<string> => {
+  return (await authPost<{ gameId: string }>("/game/create", settings)).data
+    .gameId;
+};
+
+/**
+ * ADMIN ONLY: Update the settings of a game, anything not provided is left as
+ * is.
+ */
+export const updateGame = async (
+  gameId: string,
+  settings: Partial<GameSettings>
+): Promise<GameSettings> => {
+  return (
+    await authPost<GameSettings>(`/game/update?gameId=${gameId}`, settings)
+  ).data;
+};
+
+/**
+ * ADMIN ONLY: Cancel a game.
+ */
+export const cancelGame = async (gameId: string) => {
+  await authPost(`/game/cancel?gameId=${gameId}`);
+};
+
+/**
+ * SITE ADMIN ONLY: Make a game the one shown to users when they log in.
+ */
+export const setActiveGame = async (gameId: string) => {
+  await authPost(`/game/setActive?gameId=${gameId}`);
+};
+
+/**
+ * ADMIN ONLY: Fetch a page of the log of every change made within a game,
+ * newest first, optionally narrowed down to a type of change or a player.
+ */
+export const fetchGameLog = async (
+  gameId: string,
+  page: number,
+  filter: { type?: string; playerId?: string } = {}
+): Promise<GameLogPage> => {
+  const params = new URLSearchParams({ gameId, page: page.toString() });
+  if (filter.type) params.set("type", filter.type);
+  if (filter.playerId) params.set("playerId", filter.playerId);
+  return (await authGet<GameLogPage>(`/game/log?${params}`)).data;
+};
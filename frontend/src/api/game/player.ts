@@ -1,5 +1,5 @@
-import { authPost } from "../../utils/http";
-import { LeaderboardPlayerInfo } from 'shared/api/game/player';
+import { authGet, authPost } from "../../utils/http";
+import { LeaderboardPlayerInfo, SafetyGrantInfo } from 'shared/api/game/player';
 
 /**
  * Register a player for the given game
@@ -60,3 +60,42 @@ export const getCurrentPlayerInfo = async (gameId: string): Promise<{ hasPartner
   const response = await authPost(`/game/player/getCurrentPlayerInfo?gameId=${gameId}`);
   return response.data as { hasPartner: boolean; partnerName?: string };
 };
+
+/**
+ * ADMIN ONLY: Make a player safe until the given time
+ */
+export const grantSafety = async (
+  gameId: string,
+  playerId: string,
+  until: string,
+  reason: string
+): Promise<SafetyGrantInfo> => {
+  return (
+    await authPost<SafetyGrantInfo>(
+      `/game/player/safety/grant?gameId=${gameId}&playerId=${playerId}`,
+      { until, reason }
+    )
+  ).data;
+};
+
+/**
+ * ADMIN ONLY: End a player's safety early
+ */
+export const revokeSafety = async (gameId: string, playerId: string) => {
+  await authPost(
+    `/game/player/safety/revoke?gameId=${gameId}&playerId=${playerId}`
+  );
+};
+
+/**
+ * ADMIN ONLY: Get every safety grant given in the game, newest first
+ */
+export const fetchSafetyHistory = async (
+  gameId: string
+): Promise<SafetyGrantInfo[]> => {
+  return (
+    await authGet<SafetyGrantInfo[]>(
+      `/game/player/safety/history?gameId=${gameId}`
+    )
+  ).data;
+};
@@ -1,6 +1,17 @@
-import { DetailedTargetInfo, TargetTeamInfo } from "shared/api/game/target";
-import { authGet, authPost } from "../../utils/http";
-import { LeaderboardPlayerInfo } from "shared/api/game/player";
+import {
+  DetailedTargetInfo,
+  EvidenceInfo,
+  KillClaimInfo,
+  KillEvidenceInfo,
+  TargetGraphReport,
+  TargetTeamInfo,
+} from "shared/api/game/target";
+import { authGet, authGetBlob, authPost } from "../../utils/http";
+import {
+  DisqualificationInfo,
+  LeaderboardPlayerInfo,
+  PlayerStatsInfo,
+} from "shared/api/game/player";
 import { getRecoil } from "recoil-nexus";
 import { gameInfoAtom } from "global/user-state";
 
@@ -38,6 +49,32 @@ export const fetchTargets = async (): Promise<DetailedTargetInfo[]> => {
   ).data;
 };
 
+/** ADMIN ONLY: Check the targets of the active game for problems. */
+export const checkTargets = async (): Promise<
+  TargetGraphReport | undefined
+> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) return;
+
+  return (
+    await authGet<TargetGraphReport>(`/game/target/check?gameId=${info.gameId}`)
+  ).data;
+};
+
+/** ADMIN ONLY: Fix the targets of the active game, changing as few as possible. */
+export const repairTargets = async (): Promise<
+  TargetGraphReport | undefined
+> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) return;
+
+  return (
+    await authPost<TargetGraphReport>(
+      `/game/target/repair?gameId=${info.gameId}`
+    )
+  ).data;
+};
+
 /** ADMIN ONLY: Mark a target pair as complete. */
 export const killTarget = async (targetId: string) => {
   const info = getRecoil(gameInfoAtom);
@@ -48,16 +85,49 @@ export const killTarget = async (targetId: string) => {
   );
 };
 
-/** ADMIN ONLY: Mark a player as safe. */
-export const makePlayerSafe = async (playerId: string) => {
+/** ADMIN ONLY: Undo a kill, as long as nothing has happened since. */
+export const undoKill = async (targetId: string) => {
   const info = getRecoil(gameInfoAtom);
-  if (!info) return [];
+  if (!info) return;
 
-  await authPost<any[]>(
-    `/game/target/safe?gameId=${info.gameId}&playerId=${playerId}`
+  await authPost(
+    `/game/target/undoKill?gameId=${info.gameId}&targetId=${targetId}`
+  );
+};
+
+/** ADMIN ONLY: Bring a killed player back into the game. */
+export const revivePlayer = async (playerId: string) => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) return;
+
+  await authPost(
+    `/game/target/revive?gameId=${info.gameId}&playerId=${playerId}`
   );
 };
 
+/** ADMIN ONLY: Disqualify a player, taking them out of the game. */
+export const disqualifyPlayer = async (playerId: string, reason: string) => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) return;
+
+  await authPost(
+    `/game/target/disqualify?gameId=${info.gameId}&playerId=${playerId}`,
+    { reason }
+  );
+};
+
+/** ADMIN ONLY: Fetch every disqualified player, and why. */
+export const fetchDisqualified = async (): Promise<DisqualificationInfo[]> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) return [];
+
+  return (
+    await authGet<DisqualificationInfo[]>(
+      `/game/target/disqualified?gameId=${info.gameId}`
+    )
+  ).data;
+};
+
 /** ADMIN ONLY: Expire all past targets and create new matchings for alive players. */
 export const matchTargets = async () => {
   const info = getRecoil(gameInfoAtom);
@@ -65,3 +135,134 @@ export const matchTargets = async () => {
 
   await authPost<any[]>(`/game/target/match?gameId=${info.gameId}`);
 };
+
+/** Report that you have killed one of the players you are targeting. */
+export const claimKill = async (
+  victimId: string
+): Promise<KillClaimInfo | undefined> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) return;
+
+  return (
+    await authPost<KillClaimInfo>(
+      `/game/target/claim?gameId=${info.gameId}&victimId=${victimId}`
+    )
+  ).data;
+};
+
+/** Fetch kills reported against you that are waiting on your response. */
+export const fetchIncomingClaims = async (): Promise<KillClaimInfo[]> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) return [];
+
+  return (
+    await authGet<KillClaimInfo[]>(
+      `/game/target/claims/incoming?gameId=${info.gameId}`
+    )
+  ).data;
+};
+
+/** Confirm a kill reported against you. */
+export const confirmClaim = async (claimId: string) => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) return;
+
+  await authPost(
+    `/game/target/claim/confirm?gameId=${info.gameId}&claimId=${claimId}`
+  );
+};
+
+/** Dispute a kill reported against you, sending it to the admins. */
+export const disputeClaim = async (claimId: string, reason: string) => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) return;
+
+  await authPost(
+    `/game/target/claim/dispute?gameId=${info.gameId}&claimId=${claimId}`,
+    { reason }
+  );
+};
+
+/** ADMIN ONLY: Fetch all pending and disputed kill claims. */
+export const fetchOpenClaims = async (): Promise<KillClaimInfo[]> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) return [];
+
+  return (
+    await authGet<KillClaimInfo[]>(`/game/target/claims?gameId=${info.gameId}`)
+  ).data;
+};
+
+/** ADMIN ONLY: Accept or reject a kill claim. */
+export const resolveClaim = async (claimId: string, accept: boolean) => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) return;
+
+  await authPost(
+    `/game/target/claim/resolve?gameId=${info.gameId}&claimId=${claimId}&accept=${accept}`
+  );
+};
+
+/** Fetch everything a player has done in the active game, for their profile. */
+export const fetchPlayerStats = async (
+  playerId: string
+): Promise<PlayerStatsInfo> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) throw new Error("Game information is missing.");
+
+  return (
+    await authGet<PlayerStatsInfo>(
+      `/game/target/stats?gameId=${info.gameId}&playerId=${playerId}`
+    )
+  ).data;
+};
+
+/** Fetch every kill you may see the evidence of, newest first. */
+export const fetchKillEvidence = async (): Promise<KillEvidenceInfo[]> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) return [];
+
+  return (
+    await authGet<KillEvidenceInfo[]>(
+      `/game/target/evidence/kills?gameId=${info.gameId}`
+    )
+  ).data;
+};
+
+/** Upload a photo or video backing up a kill. */
+export const uploadEvidence = async (
+  targetId: string,
+  file: File
+): Promise<EvidenceInfo | undefined> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) return;
+
+  const data = new FormData();
+  data.append("file", file);
+  return (
+    await authPost<EvidenceInfo>(
+      `/game/target/evidence/upload?gameId=${info.gameId}&targetId=${targetId}`,
+      data
+    )
+  ).data;
+};
+
+/** Download an uploaded photo or video. */
+export const fetchEvidenceFile = async (evidenceId: string): Promise<Blob> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) throw new Error("Game information is missing.");
+
+  return await authGetBlob(
+    `/game/target/evidence/file?gameId=${info.gameId}&evidenceId=${evidenceId}`
+  );
+};
+
+/** ADMIN ONLY: Delete an uploaded photo or video. */
+export const deleteEvidence = async (evidenceId: string) => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) return;
+
+  await authPost(`/game/target/evidence/delete?gameId=${info.gameId}`, {
+    evidenceId,
+  });
+};
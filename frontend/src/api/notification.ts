@@ -0,0 +1,117 @@
+import { gameInfoAtom } from "global/user-state";
+import { getRecoil } from "recoil-nexus";
+import {
+  MailPreview,
+  MailTemplateInfo,
+  NotificationPreferences,
+  PushSubscriptionInfo,
+} from "shared/api/notification";
+import { authGet, authPost } from "utils/http";
+
+/**
+ * Fetch which notifications the user is sent
+ */
+export const getNotificationPreferences =
+  async (): Promise<NotificationPreferences> => {
+    return (await authGet<NotificationPreferences>("/notification/preferences"))
+      .data;
+  };
+
+/**
+ * Stop sending the user the given categories of notifications, and start
+ * sending them every other category
+ */
+export const setNotificationOptOuts = async (
+  optOuts: string[]
+): Promise<NotificationPreferences> => {
+  return (
+    await authPost<NotificationPreferences>("/notification/preferences", {
+      optOuts,
+    })
+  ).data;
+};
+
+/**
+ * Whether this browser can receive push notifications at all
+ */
+export const pushSupported = () =>
+  "serviceWorker" in navigator && "PushManager" in window;
+
+/**
+ * The push subscription of this browser, if it has one
+ */
+export const getPushSubscription = async () => {
+  if (!pushSupported()) return null;
+  const registration = await navigator.serviceWorker.ready;
+  return await registration.pushManager.getSubscription();
+};
+
+// Browsers want the server's key as bytes rather than URL-safe base 64
+const decodeKey = (key: string) => {
+  const base64 = (key + "=".repeat((4 - (key.length % 4)) % 4))
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  return Uint8Array.from(window.atob(base64), (c) => c.charCodeAt(0));
+};
+
+/**
+ * Ask for permission to show notifications, then have the server start
+ * pushing them to this browser
+ * @param publicKey The server's push key, from the user's preferences
+ */
+export const enablePush = async (publicKey: string) => {
+  const registration = await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeKey(publicKey),
+    }));
+
+  await authPost(
+    "/notification/push/subscribe",
+    subscription.toJSON() as PushSubscriptionInfo
+  );
+};
+
+/**
+ * Stop the server pushing notifications to this browser
+ */
+export const disablePush = async () => {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  await authPost("/notification/push/unsubscribe", {
+    endpoint: subscription.endpoint,
+  });
+  await subscription.unsubscribe();
+};
+
+/**
+ * ADMIN ONLY: List the emails players can be sent
+ */
+export const getMailTemplates = async (): Promise<MailTemplateInfo[]> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) return [];
+
+  return (
+    await authGet<MailTemplateInfo[]>(
+      `/notification/mail/templates?gameId=${info.gameId}`
+    )
+  ).data;
+};
+
+/**
+ * ADMIN ONLY: Fill in an email template with made up details, to see what
+ * players would be sent
+ */
+export const previewMail = async (template: string): Promise<MailPreview> => {
+  const info = getRecoil(gameInfoAtom);
+  if (!info) throw new Error("Game information is missing.");
+
+  return (
+    await authGet<MailPreview>(
+      `/notification/mail/preview?gameId=${info.gameId}&template=${template}`
+    )
+  ).data;
+};
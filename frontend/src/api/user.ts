@@ -0,0 +1,56 @@
+import {
+  SignUpDomains,
+  SignUpPolicyInfo,
+  SignUpPolicySettings,
+} from "shared/api/user";
+import { authGet, authPost, get } from "utils/http";
+
+/**
+ * Fetch the email domains anyone may sign up with, before signing in
+ */
+export const getSignUpDomains = async (): Promise<SignUpDomains> => {
+  return (await get<SignUpDomains>("/user/signup/domains")).data;
+};
+
+/**
+ * Fetch who may sign up to the site, only site admins may do this
+ */
+export const getSignUpPolicy = async (): Promise<SignUpPolicyInfo> => {
+  return (await authGet<SignUpPolicyInfo>("/user/signup/policy")).data;
+};
+
+/**
+ * Replace the allowed domains, allowed emails and denied emails
+ */
+export const updateSignUpPolicy = async (
+  settings: Partial<SignUpPolicySettings>
+): Promise<SignUpPolicyInfo> => {
+  return (await authPost<SignUpPolicyInfo>("/user/signup/policy", settings))
+    .data;
+};
+
+/**
+ * Make a new invite code, which can be limited in uses and time
+ */
+export const createInviteCode = async (
+  maxUses?: number,
+  expiresAt?: string
+): Promise<SignUpPolicyInfo> => {
+  return (
+    await authPost<SignUpPolicyInfo>("/user/signup/invite/create", {
+      maxUses,
+      expiresAt,
+    })
+  ).data;
+};
+
+/**
+ * Stop an invite code from working
+ */
+export const deleteInviteCode = async (
+  code: string
+): Promise<SignUpPolicyInfo> => {
+  return (
+    await authPost<SignUpPolicyInfo>("/user/signup/invite/delete", { code })
+  ).data;
+};
@@ -1,5 +1,5 @@
 import { HStack, Stack, Text } from "@chakra-ui/react";
-import { GameInfo } from "shared/api/game";
+import { GameInfo, SafetySchedule } from "shared/api/game";
 import { useCountdown } from "utils/misc";
 
 /**
@@ -30,17 +30,21 @@ function EventCountdown({ gameInfo }: { gameInfo: GameInfo }) {
 }
 
 /**
- * Variation that simply counts down until midnight (for when the safety switches)
+ * Variation that counts down until the safety next changes: the end of the
+ * active safety, the start of today's, or midnight in the game's time zone
  */
-function SafetyCountdown() {
+function SafetyCountdown({ schedule }: { schedule: SafetySchedule }) {
   const now = new Date();
 
-  // Set it for midnight
-  now.setHours(23);
-  now.setMinutes(59);
-  now.setSeconds(59);
+  if (schedule.active) {
+    return <Countdown title="SAFETY ENDS" time={schedule.active.end} />;
+  }
+
+  if (schedule.today && new Date(schedule.today.start) > now) {
+    return <Countdown title="SAFETY STARTS" time={schedule.today.start} />;
+  }
 
-  return <Countdown title="SAFETY SWITCHES" time={now.toISOString()} />;
+  return <Countdown title="SAFETY SWITCHES" time={schedule.switchesAt} />;
 }
 
 /**
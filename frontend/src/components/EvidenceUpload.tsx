@@ -0,0 +1,79 @@
+import { useRef, useState } from "react";
+import { Button, PropsOf, useToast } from "@chakra-ui/react";
+import { uploadEvidence } from "api/game/target";
+import { catchError } from "utils/http";
+
+type Props = {
+  /**
+   * The target completed (or claimed to be) by the kill
+   */
+  targetId: string;
+  /**
+   * Called once the file has been uploaded
+   */
+  onUploaded?: () => void;
+};
+
+/**
+ * A button that picks a photo or video from the device and uploads it as
+ * evidence for a kill.
+ */
+function EvidenceUpload({
+  targetId,
+  onUploaded,
+  children,
+  ...props
+}: Props & PropsOf<typeof Button>) {
+  const input = useRef<HTMLInputElement>(null);
+  const [loading, setLoading] = useState(false);
+  const toast = useToast();
+
+  const upload = async (file: File | undefined) => {
+    if (!file) return;
+    setLoading(true);
+    try {
+      await uploadEvidence(targetId, file);
+      toast({
+        title: "Evidence uploaded",
+        status: "success",
+        duration: 3000,
+        isClosable: true,
+      });
+      onUploaded?.();
+    } catch (e) {
+      catchError("Uploading evidence failed:", e);
+      toast({
+        title: "Error",
+        description: "Failed to upload this file.",
+        status: "error",
+        duration: 3000,
+        isClosable: true,
+      });
+    } finally {
+      setLoading(false);
+      // Allow the same file to be picked again
+      if (input.current) input.current.value = "";
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={input}
+        type="file"
+        accept="image/jpeg,image/png,image/webp,video/mp4,video/quicktime"
+        hidden
+        onChange={(e) => upload(e.target.files?.[0])}
+      />
+      <Button
+        isLoading={loading}
+        onClick={() => input.current?.click()}
+        {...props}
+      >
+        {children ?? "Add evidence"}
+      </Button>
+    </>
+  );
+}
+
+export default EvidenceUpload;
@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react";
+import { Select } from "@chakra-ui/react";
+import { useNavigate } from "react-router-dom";
+import { useRecoilValue } from "recoil";
+
+// State
+import { gameInfoAtom } from "global/user-state";
+
+// API
+import { listGames, selectGame } from "api/game";
+import { GameSummary } from "shared/api/game";
+
+/* Human readable version of each game status */
+const STATUS_LABELS: { [key: string]: string } = {
+  SETUP: "registering",
+  IN_PROGRESS: "in progress",
+  COMPLETE: "finished",
+  CANCELLED: "cancelled",
+};
+
+/**
+ * Dropdown that lists every game the user plays in, administers or can join,
+ * and switches the rest of the app over to the chosen one.
+ */
+function GamePicker() {
+  const gameInfo = useRecoilValue(gameInfoAtom);
+  const navigate = useNavigate();
+  const [games, setGames] = useState<GameSummary[]>([]);
+
+  useEffect(() => {
+    const grab = async () => {
+      try {
+        setGames(await listGames());
+      } catch {
+        setGames([]);
+      }
+    };
+    grab();
+  }, [gameInfo?.gameId]);
+
+  // No point in picking when there is nothing to pick from
+  if (games.length < 2) {
+    return null;
+  }
+
+  return (
+    <Select
+      size="sm"
+      maxWidth="250px"
+      backgroundColor="white"
+      value={gameInfo?.gameId}
+      onChange={async (e) => {
+        await selectGame(e.target.value);
+        navigate("/app/leaderboard");
+      }}
+    >
+      {games.map((game) => (
+        <option key={game.gameId} value={game.gameId}>
+          {game.name} ({STATUS_LABELS[game.status] ?? game.status})
+        </option>
+      ))}
+    </Select>
+  );
+}
+
+export default GamePicker;
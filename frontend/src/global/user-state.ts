@@ -1,18 +1,44 @@
-import { atom } from "recoil";
+import { atom, AtomEffect } from "recoil";
 import { GameInfo } from "shared/api/game";
 
+/* Keep the value of an atom in local storage, so that it survives reloads */
+const localStorageEffect =
+  <T>(key: string): AtomEffect<T> =>
+  ({ setSelf, onSet }) => {
+    const saved = localStorage.getItem(key);
+    if (saved != null) {
+      setSelf(JSON.parse(saved));
+    }
+
+    onSet((value, _, isReset) => {
+      if (isReset || value === undefined) {
+        localStorage.removeItem(key);
+      } else {
+        localStorage.setItem(key, JSON.stringify(value));
+      }
+    });
+  };
+
 /* UserID of the currently logged in user */
 export const userIDAtom = atom<string | undefined>({
   key: "userID",
   default: undefined,
 });
 
-/* Game info of the currently active game */
+/* Game info of the currently selected game */
 export const gameInfoAtom = atom<undefined | GameInfo>({
   key: "gameInfo",
   default: undefined,
 });
 
+/* ID of the game the user has picked to view, undefined means the game that
+is marked active on the backend */
+export const selectedGameIdAtom = atom<string | undefined>({
+  key: "selectedGameId",
+  default: undefined,
+  effects: [localStorageEffect<string | undefined>("selectedGameId")],
+});
+
 /* Authentication access token of the currently logged in user */
 export const accessTokenAtom = atom<string | undefined>({
   key: "accessToken",
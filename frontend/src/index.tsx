@@ -17,6 +17,7 @@ import Root from "pages/Root";
 import Leaderboard from "pages/leaderboard/Leaderboard";
 import Register from "pages/Register";
 import Login from "pages/Login";
+import PlayerProfile from "pages/PlayerProfile";
 
 /* Default font imports */
 import "@fontsource/roboto/300.css";
@@ -51,6 +52,10 @@ const router = createHashRouter([
             path: "register",
             element: <Register />,
           },
+          {
+            path: "player/:playerId",
+            element: <PlayerProfile />,
+          },
           {
             path: "*",
             element: <Navigate to="/app/leaderboard" />,
@@ -76,10 +81,9 @@ root.render(
   </RecoilRoot>
 );
 
-// If you want your app to work offline and load faster, you can change
-// unregister() to register() below. Note this comes with some pitfalls.
-// Learn more about service workers: https://cra.link/PWA
-serviceWorkerRegistration.unregister();
+// The service worker shows push notifications (and caches the app so it loads
+// faster). Learn more about service workers: https://cra.link/PWA
+serviceWorkerRegistration.register();
 
 // If you want to start measuring performance in your app, pass a function
 // to log results (for example: reportWebVitals(console.log))
@@ -2,16 +2,46 @@ import { BASE_URL } from "../constants";
 import { useEffect, useState } from "react";
 import { userIDAtom } from "../global/user-state";
 import { useRecoilValue } from "recoil";
-import { useNavigate } from "react-router-dom";
-import { requestTokens } from "../utils/auth";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { requestTokens, requestTokensWithLink } from "../utils/auth";
+import { getErrorMessage } from "../utils/http";
+import { getSignUpDomains } from "../api/user";
+import { devLogin, emailLoginLink } from "../api/auth";
 
 // Components
-import { Box, Button, Spinner, Stack, Text } from "@chakra-ui/react";
+import {
+  Alert,
+  AlertDescription,
+  AlertIcon,
+  Box,
+  Button,
+  HStack,
+  Input,
+  Spinner,
+  Stack,
+  Text,
+} from "@chakra-ui/react";
 
 function Login() {
   const userId = useRecoilValue(userIDAtom);
   const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
+  // Why signing in last failed, any invite code from an invite link, and the
+  // token from an emailed sign-in link
+  const [params] = useSearchParams();
+  const token = params.get("token");
+  const [error, setError] = useState(params.get("error"));
+  const [invite, setInvite] = useState(params.get("invite") ?? "");
+  const [domains, setDomains] = useState<string[]>();
+  const [email, setEmail] = useState("");
+  const [sending, setSending] = useState(false);
+  const [notice, setNotice] = useState<string>();
+
+  useEffect(() => {
+    getSignUpDomains()
+      .then(({ domains }) => setDomains(domains))
+      .catch(() => setDomains(undefined));
+  }, []);
 
   // Attempt to auto login
   useEffect(() => {
@@ -22,6 +52,18 @@ function Login() {
 
     setLoading(true);
     const grab = async () => {
+      if (token) {
+        try {
+          await requestTokensWithLink(token);
+          navigate("/app/register");
+          return;
+        } catch (e) {
+          setError(
+            getErrorMessage(e, "This link has expired, ask for a new one.")
+          );
+        }
+      }
+
       try {
         await requestTokens();
         navigate("/app/leaderboard");
@@ -30,7 +72,29 @@ function Login() {
       }
     };
     grab();
-  }, [userId, navigate]);
+  }, [userId, navigate, token]);
+
+  /* Email a link to sign in with, the dev login skips the sign-up policy */
+  const sendLink = async (dev = false) => {
+    const address = email.trim();
+    setSending(true);
+    setError(null);
+    setNotice(undefined);
+    try {
+      if (dev) {
+        await devLogin(address);
+      } else {
+        await emailLoginLink(address, invite.trim() || undefined);
+      }
+      setNotice(`Check ${address} for a link to sign in.`);
+    } catch (e) {
+      setError(
+        getErrorMessage(e, "Sending the link failed, please try again.")
+      );
+    } finally {
+      setSending(false);
+    }
+  };
 
   return (
     <Box
@@ -58,6 +122,12 @@ function Login() {
           >
             WHITMAN WIPEOUT
           </Text>
+          {error && (
+            <Alert status="error" maxWidth="500px" borderRadius="md">
+              <AlertIcon />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
           <Text
             fontSize={{ base: "sm", md: "md" }}
             color="gray.600"
@@ -66,21 +136,67 @@ function Login() {
             paddingX="4"
           >
             Login with your{" "}
-            <Box as="span" fontWeight="bold">
-              princeton.edu
-            </Box>{" "}
+            {domains && domains.length !== 0 && (
+              <Box as="span" fontWeight="bold">
+                {domains.join(" or ")}{" "}
+              </Box>
+            )}
             Google account to begin
           </Text>
+          <Input
+            placeholder="Invite code (optional)"
+            value={invite}
+            onChange={(e) => setInvite(e.target.value)}
+            maxWidth="250px"
+            textAlign="center"
+          />
           <Button
             colorScheme="blue"
             size={{ base: "md", md: "lg" }}
             paddingX={{ base: "6", md: "8" }}
             onClick={async () => {
-              window.location.href = `${BASE_URL}/auth/google`;
+              const code = invite.trim();
+              window.location.href = code
+                ? `${BASE_URL}/auth/google?invite=${encodeURIComponent(code)}`
+                : `${BASE_URL}/auth/google`;
             }}
           >
             Login
           </Button>
+          <Text fontSize="sm" color="gray.600">
+            or get a link to sign in by email
+          </Text>
+          <HStack maxWidth="400px" width="100%">
+            <Input
+              type="email"
+              placeholder="Email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+            <Button
+              onClick={() => sendLink()}
+              isLoading={sending}
+              isDisabled={email.trim() === ""}
+            >
+              Email me a link
+            </Button>
+          </HStack>
+          {process.env.NODE_ENV === "development" && (
+            <Button
+              variant="link"
+              size="sm"
+              onClick={() => sendLink(true)}
+              isDisabled={sending || email.trim() === ""}
+            >
+              Dev login as this email
+            </Button>
+          )}
+          {notice && (
+            <Alert status="success" maxWidth="500px" borderRadius="md">
+              <AlertIcon />
+              <AlertDescription>{notice}</AlertDescription>
+            </Alert>
+          )}
         </Stack>
       ) : (
         <Spinner size="xl" />
@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import {
+  Avatar,
+  Badge,
+  Box,
+  Button,
+  Card,
+  HStack,
+  SimpleGrid,
+  Stack,
+  Stat,
+  StatLabel,
+  StatNumber,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from "@chakra-ui/react";
+
+// State
+import { useRecoilValue } from "recoil";
+import { gameInfoAtom } from "global/user-state";
+
+// API
+import { getCurrentGame } from "api/game";
+import { fetchPlayerStats } from "api/game/target";
+import { PlayerStatsInfo } from "shared/api/game/player";
+
+// Utilities
+import { catchError } from "utils/http";
+import { formatDuration } from "utils/misc";
+import { LEADERBOARD_EVENTS, useGameEvents } from "utils/events";
+
+const STATUS_COLORS: { [key: string]: string } = {
+  PENDING: "yellow",
+  COMPLETE: "green",
+  EXPIRED: "gray",
+  USER_KILLED: "red",
+};
+
+/**
+ * The profile of a single player in the current game: their kills, every
+ * target they were assigned and how long they have lasted.
+ */
+function PlayerProfile() {
+  const { playerId } = useParams();
+  const navigate = useNavigate();
+  const gameInfo = useRecoilValue(gameInfoAtom);
+  const [stats, setStats] = useState<PlayerStatsInfo>();
+  const [error, setError] = useState(false);
+
+  const grabStats = useCallback(async () => {
+    if (!playerId) return;
+    try {
+      setStats(await fetchPlayerStats(playerId));
+      setError(false);
+    } catch (e) {
+      catchError("Fetching player statistics failed:", e);
+      setError(true);
+    }
+  }, [playerId]);
+
+  // The game has to be known before anything about it can be fetched
+  useEffect(() => {
+    if (gameInfo === undefined) {
+      getCurrentGame().catch((e) => catchError("Fetching game failed:", e));
+      return;
+    }
+    grabStats();
+  }, [gameInfo, grabStats]);
+
+  useGameEvents(LEADERBOARD_EVENTS, grabStats);
+
+  return (
+    <Stack alignItems="center" m={[2, 4]} px={[2, 4]} py={[4, 6]}>
+      <Box width="90%" minWidth="400px">
+        <Button size="sm" onClick={() => navigate("/app/leaderboard")}>
+          Back to the leaderboard
+        </Button>
+      </Box>
+      {error && <Text>This player could not be found.</Text>}
+      {stats && <Profile stats={stats} />}
+    </Stack>
+  );
+}
+
+function Profile({ stats }: { stats: PlayerStatsInfo }) {
+  return (
+    <>
+      <Card
+        variant="outline"
+        boxShadow={"lg"}
+        width="90%"
+        minWidth="400px"
+        padding={4}
+      >
+        <HStack spacing={4}>
+          <Avatar name={stats.name} />
+          <Stack spacing={0}>
+            <Text fontSize="xl" fontWeight="extrabold">
+              {stats.name}
+            </Text>
+            <Text color="gray.600">
+              {stats.killedBy
+                ? `Splashed by ${stats.killedBy.name}, ${new Date(
+                    stats.killedBy.time
+                  ).toLocaleString()}`
+                : stats.status}
+            </Text>
+            {stats.partner && (
+              <Text color="gray.600">Partnered with {stats.partner.name}</Text>
+            )}
+          </Stack>
+        </HStack>
+        <SimpleGrid columns={[2, 4]} spacing={4} mt={4}>
+          <Stat>
+            <StatLabel>Kills</StatLabel>
+            <StatNumber>{stats.kills.length}</StatNumber>
+          </Stat>
+          <Stat>
+            <StatLabel>Survived</StatLabel>
+            <StatNumber>{formatDuration(stats.survivalTime)}</StatNumber>
+          </Stat>
+          <Stat>
+            <StatLabel>Times hunted</StatLabel>
+            <StatNumber>{stats.timesHunted}</StatNumber>
+          </Stat>
+          <Stat>
+            <StatLabel>Average time to kill</StatLabel>
+            <StatNumber>
+              {stats.averageTimeToKill !== undefined
+                ? formatDuration(stats.averageTimeToKill)
+                : "-"}
+            </StatNumber>
+          </Stat>
+        </SimpleGrid>
+        {stats.partner && (
+          <Text mt={4}>
+            {stats.partner.name} made {stats.partner.kills} of the team's{" "}
+            {stats.partner.kills + stats.kills.length} kills (
+            {Math.round(stats.partner.share * 100)}%).
+          </Text>
+        )}
+      </Card>
+
+      <Card
+        variant="outline"
+        boxShadow={"lg"}
+        width="90%"
+        minWidth="400px"
+        padding={4}
+      >
+        <Text fontWeight="extrabold">Kills</Text>
+        {stats.kills.length === 0 ? (
+          <Text>No kills yet.</Text>
+        ) : (
+          <Table size="sm" mt={2}>
+            <Thead>
+              <Tr>
+                <Th>Victim</Th>
+                <Th>When</Th>
+                <Th>Time to kill</Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {stats.kills.map((kill) => (
+                <Tr key={`${kill.victimId}-${kill.time}`}>
+                  <Td>{kill.victimName}</Td>
+                  <Td>{new Date(kill.time).toLocaleString()}</Td>
+                  <Td>{formatDuration(kill.timeToKill)}</Td>
+                </Tr>
+              ))}
+            </Tbody>
+          </Table>
+        )}
+      </Card>
+
+      <Card
+        variant="outline"
+        boxShadow={"lg"}
+        width="90%"
+        minWidth="400px"
+        padding={4}
+      >
+        <Text fontWeight="extrabold">Targets</Text>
+        {stats.targets.length === 0 ? (
+          <Text>No targets to show.</Text>
+        ) : (
+          <Table size="sm" mt={2}>
+            <Thead>
+              <Tr>
+                <Th>Target</Th>
+                <Th>Assigned</Th>
+                <Th>Status</Th>
+                <Th>Time to kill</Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {stats.targets.map((target) => (
+                <Tr key={`${target.targetId}-${target.assignedAt}`}>
+                  <Td>{target.name}</Td>
+                  <Td>{new Date(target.assignedAt).toLocaleString()}</Td>
+                  <Td>
+                    <Badge colorScheme={STATUS_COLORS[target.status]}>
+                      {target.status}
+                    </Badge>
+                  </Td>
+                  <Td>
+                    {target.timeToKill !== undefined
+                      ? formatDuration(target.timeToKill)
+                      : "-"}
+                  </Td>
+                </Tr>
+              ))}
+            </Tbody>
+          </Table>
+        )}
+      </Card>
+    </>
+  );
+}
+
+export default PlayerProfile;
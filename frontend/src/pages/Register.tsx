@@ -5,7 +5,7 @@ import { useNavigate } from "react-router-dom";
 
 // Componenets
 import { Box, Button, Spinner, Stack, Text } from "@chakra-ui/react";
-import { getActiveGame } from "api/game";
+import { getCurrentGame } from "api/game";
 import { register } from "api/game/player";
 
 /**
@@ -28,7 +28,7 @@ function Register() {
     setLoading(true);
     const grab = async () => {
       try {
-        const game = await getActiveGame();
+        const game = await getCurrentGame();
         // If they aren't registered, keep them here, otherwise navigate to leaderboard
         if (game.role !== "NONE") navigate("/app/leaderboard");
       } catch {
@@ -68,7 +68,7 @@ function Register() {
                 return;
               }
 
-              await getActiveGame();
+              await getCurrentGame();
               navigate("/app/leaderboard");
             }}
             isDisabled={gameInfo.status !== "SETUP" || error}
@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import { Box, Button, Text } from "@chakra-ui/react";
+import { Box, Button, HStack, Text } from "@chakra-ui/react";
 import { Outlet, useNavigate } from "react-router-dom";
 import { useRecoilValue } from "recoil";
 
@@ -10,6 +10,9 @@ import { userIDAtom } from "global/user-state";
 import { requestTokens } from "utils/auth";
 import { logout } from "api/auth";
 
+// Components
+import GamePicker from "components/GamePicker";
+
 /**
  * Container for all app screens, includes header and react router outlet.
  */
@@ -87,16 +90,19 @@ function Header() {
       >
         WHITMAN WIPEOUT
       </Text>
-      <Button
-        colorScheme="blue"
-        size="sm"
-        onClick={async () => {
-          await logout();
-          navigate("/login");
-        }}
-      >
-        Logout
-      </Button>
+      <HStack>
+        <GamePicker />
+        <Button
+          colorScheme="blue"
+          size="sm"
+          onClick={async () => {
+            await logout();
+            navigate("/login");
+          }}
+        >
+          Logout
+        </Button>
+      </HStack>
     </Box>
   );
 }
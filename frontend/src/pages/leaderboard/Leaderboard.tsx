@@ -1,5 +1,5 @@
 import { useNavigate } from "react-router-dom";
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 
 import {
   Avatar,
@@ -25,18 +25,44 @@ import { gameInfoAtom } from "global/user-state";
 
 // API
 import { fetchLeaderboard } from "api/game/target";
+import { getCurrentGame } from "api/game";
 import { LeaderboardPlayerInfo } from "shared/api/game/player";
 
 // Components
 import { EventCountdown } from "components/Countdown";
 
+// Utilities
+import {
+  GAME_STATUS_EVENTS,
+  LEADERBOARD_EVENTS,
+  useGameEvents,
+} from "utils/events";
+
 // Tabs
 import AllTargets from "./admin/AllTargets";
+import PendingClaims from "./admin/PendingClaims";
+import GameSettings from "./admin/GameSettings";
 import TargetAssignment from "./tabs/TargetAssignment";
-import Rules from "./tabs/Rules";
+import Rules, { RulesChangedNotice } from "./tabs/Rules";
 import SafetyList from "./admin/SafetyList";
+import Revives from "./admin/Revives";
+import GameLog from "./admin/GameLog";
+import Disqualifications from "./admin/Disqualifications";
 import { GameInfo } from "shared/api/game";
 import Invite from "./tabs/Invite";
+import Victory from "./tabs/Victory";
+import Notifications from "./tabs/Notifications";
+import MailPreviews from "./admin/MailPreviews";
+import Announcements from "./tabs/Announcements";
+import Evidence from "./tabs/Evidence";
+import Analytics from "./admin/Analytics";
+import Export from "./admin/Export";
+import Roster from "./admin/Roster";
+
+/**
+ * Where the Rules tab is among the player tabs
+ */
+const RULES_TAB = 3;
 
 /**
  * The main page for the application. Displays the leaderboard and all relevant
@@ -45,6 +71,8 @@ import Invite from "./tabs/Invite";
 function Leaderboard() {
   const navigate = useNavigate();
   const gameInfo = useRecoilValue(gameInfoAtom);
+  const [tabIndex, setTabIndex] = useState(0);
+  const [unread, setUnread] = useState(0);
 
   useEffect(() => {
     // Only use this if the user ID is not null
@@ -55,64 +83,158 @@ function Leaderboard() {
     }
   }, [gameInfo, navigate]);
 
+  // Show the results as soon as the game is won (or stop, if that is undone)
+  useGameEvents(GAME_STATUS_EVENTS, getCurrentGame);
+
   if (gameInfo === undefined) {
     return null;
   }
 
+  // Once the game is over, show the results in place of the leaderboard
+  const leaderboard =
+    gameInfo.status === "COMPLETE" ? (
+      <Victory gameInfo={gameInfo} />
+    ) : (
+      <LeaderboardList gameInfo={gameInfo} />
+    );
+
   // List of all tabs for admins
   const adminTabs = (
     <Tabs variant="soft-rounded" colorScheme="green" isFitted>
       <TabList>
         <Tab>Leaderboard</Tab>
+        <Tab>Announcements</Tab>
+        <Tab>Rules</Tab>
         <Tab>All Targets</Tab>
+        <Tab>Pending Claims</Tab>
+        <Tab>Evidence</Tab>
         <Tab>Safety List</Tab>
+        <Tab>Revives</Tab>
+        <Tab>Disqualifications</Tab>
+        <Tab>Log</Tab>
+        <Tab>Analytics</Tab>
+        <Tab>Export</Tab>
+        <Tab>Emails</Tab>
+        <Tab>Roster</Tab>
+        <Tab>Settings</Tab>
       </TabList>
       <TabPanels>
         <TabPanel>
-          <LeaderboardList gameInfo={gameInfo} />
+          {leaderboard}
+        </TabPanel>
+        <TabPanel>
+          <Announcements />
+        </TabPanel>
+        <TabPanel>
+          <Rules />
         </TabPanel>
         <TabPanel>
           <AllTargets />
         </TabPanel>
+        <TabPanel>
+          <PendingClaims />
+        </TabPanel>
+        <TabPanel>
+          <Evidence />
+        </TabPanel>
         <TabPanel>
           <Stack alignItems="center" width="100%">
             <SafetyList />
           </Stack>
         </TabPanel>
+        <TabPanel>
+          <Revives gameInfo={gameInfo} />
+        </TabPanel>
+        <TabPanel>
+          <Disqualifications />
+        </TabPanel>
+        <TabPanel>
+          <GameLog gameInfo={gameInfo} />
+        </TabPanel>
+        <TabPanel>
+          <Analytics gameInfo={gameInfo} />
+        </TabPanel>
+        <TabPanel>
+          <Export gameInfo={gameInfo} />
+        </TabPanel>
+        <TabPanel>
+          <MailPreviews />
+        </TabPanel>
+        <TabPanel>
+          <Roster />
+        </TabPanel>
+        <TabPanel>
+          <GameSettings />
+        </TabPanel>
       </TabPanels>
     </Tabs>
   );
 
   // List of all tabs for the player
   const playerTabs = (
-    <Tabs variant="soft-rounded" colorScheme="blue" isFitted>
+    <Tabs
+      variant="soft-rounded"
+      colorScheme="blue"
+      isFitted
+      index={tabIndex}
+      onChange={setTabIndex}
+    >
       <TabList>
         <Tab>Leaderboard</Tab>
+        <Tab>
+          Announcements
+          {unread > 0 && (
+            <Badge ml={2} colorScheme="red" borderRadius="full">
+              {unread}
+            </Badge>
+          )}
+        </Tab>
         <Tab>Your Goal</Tab>
+        <Tab>Rules</Tab>
         <Tab>Invites</Tab>
+        <Tab>Evidence</Tab>
+        <Tab>Notifications</Tab>
       </TabList>
       <TabPanels>
         <TabPanel>
-          <LeaderboardList gameInfo={gameInfo} />
+          {leaderboard}
+        </TabPanel>
+        <TabPanel>
+          <Announcements active={tabIndex === 1} onUnreadChange={setUnread} />
         </TabPanel>
         <TabPanel>
           <Stack alignItems="center" width="100%">
             <TargetAssignment />
           </Stack>
         </TabPanel>
+        <TabPanel>
+          <Rules />
+        </TabPanel>
         <TabPanel>
           <Stack alignItems="center" width="100%">
             {gameInfo && <Invite gameInfo={gameInfo} />}
           </Stack>
         </TabPanel>
+        <TabPanel>
+          <Evidence />
+        </TabPanel>
+        <TabPanel>
+          <Stack alignItems="center" width="100%">
+            <Notifications />
+          </Stack>
+        </TabPanel>
       </TabPanels>
     </Tabs>
   );
 
   // NOTE: There are two different sets of tabs (one for admins and one for players)
+  // Keyed by game so that switching games refetches everything
   return (
-    <Box m={[2, 4]} px={[2, 4]} py={[4, 6]}>
+    <Box key={gameInfo.gameId} m={[2, 4]} px={[2, 4]} py={[4, 6]}>
       {gameInfo?.role === "ADMIN" ? adminTabs : playerTabs}
+      {gameInfo?.role === "PLAYER" && (
+        <RulesChangedNotice onRead={() => setTabIndex(RULES_TAB)} />
+      )}
     </Box>
   );
 }
@@ -120,23 +242,27 @@ function Leaderboard() {
 function LeaderboardList({ gameInfo }: { gameInfo: GameInfo }) {
   const [data, setData] = useState<LeaderboardPlayerInfo[]>([]);
 
+  /* Grab user information on the leaderboard, make sure alive players are
+  listed first, and then sort by kills. */
+  const fetchData = useCallback(async () => {
+    const leaderboardData = await fetchLeaderboard();
+    setData(
+      leaderboardData.sort((a, b) => {
+        if (a.alive === b.alive) {
+          return b.kills - a.kills;
+        } else {
+          return a.alive ? -1 : 1;
+        }
+      })
+    );
+  }, []);
+
   useEffect(() => {
-    /* Grab user information on the leaderboard, make sure alive players are
-    listed first, and then sort by kills. */
-    const fetchData = async () => {
-      const leaderboardData = await fetchLeaderboard();
-      setData(
-        leaderboardData.sort((a, b) => {
-          if (a.alive === b.alive) {
-            return b.kills - a.kills;
-          } else {
-            return a.alive ? -1 : 1;
-          }
-        })
-      );
-    };
     fetchData();
-  }, []);
+  }, [fetchData]);
+
+  // Keep the standings live as players are killed, revived, and so on
+  useGameEvents(LEADERBOARD_EVENTS, fetchData);
 
   // Group players by team
   const groupByTeams = (players: LeaderboardPlayerInfo[]) => {
@@ -167,8 +293,12 @@ function LeaderboardList({ gameInfo }: { gameInfo: GameInfo }) {
     return teams;
   };
 
+  // Disqualified players are listed on their own, apart from the teams
+  const disqualified = data.filter((p) => p.status === "DISQUALIFIED");
+  const playing = data.filter((p) => p.status !== "DISQUALIFIED");
+
   // Prepare team data with adjusted kills and alive status
-  const teams = groupByTeams(data).map((team) => {
+  const teams = groupByTeams(playing).map((team) => {
     const teamKills = team.reduce((sum, player) => sum + player.kills, 0);
     const teamRevives = team.reduce((sum, player) => sum + player.revives, 0);
     const adjustedTeamKills = teamKills - teamRevives;
@@ -201,6 +331,22 @@ function LeaderboardList({ gameInfo }: { gameInfo: GameInfo }) {
           />
         ))}
       </VStack>
+      {disqualified.length !== 0 && (
+        <VStack padding={[2, 4]} alignItems="center" width="100%" spacing={[2, 4]}>
+          <Text fontSize={["md", "lg"]} fontWeight="bold">
+            Disqualified
+          </Text>
+          <VStack width={["95%", "80%"]} spacing={[2, 4]}>
+            {disqualified.map((player, index) => (
+              <LeaderboardItem
+                key={player.playerId}
+                info={player}
+                ranking={index + 1}
+              />
+            ))}
+          </VStack>
+        </VStack>
+      )}
     </VStack>
   );
 }
@@ -273,6 +419,8 @@ function LeaderboardItem({
   info: LeaderboardPlayerInfo;
   ranking: number;
 }) {
+  const navigate = useNavigate();
+
   return (
     <Card
       variant="outline"
@@ -296,6 +444,9 @@ function LeaderboardItem({
               sx={info.alive || info.safe ? {} : { textDecoration: "line-through" }}
               isTruncated
               maxWidth={["100%", "auto"]}
+              cursor="pointer"
+              _hover={{ textDecoration: "underline" }}
+              onClick={() => navigate(`/app/player/${info.playerId}`)}
             >
               {ranking}: {info.name}
             </Text>
@@ -307,10 +458,17 @@ function LeaderboardItem({
                 {info.kills}
               </Text>
             </Flex>
-            {!info.alive && !info.safe && (
+            {info.status === "DISQUALIFIED" ? (
               <Text fontSize={["sm", "md"]} color="gray.700">
-                Splashed by {info.killedBy ?? "a mysterious whale"}
+                Disqualified
               </Text>
+            ) : (
+              !info.alive &&
+              !info.safe && (
+                <Text fontSize={["sm", "md"]} color="gray.700">
+                  Splashed by {info.killedBy ?? "a mysterious whale"}
+                </Text>
+              )
             )}
           </VStack>
         </HStack>
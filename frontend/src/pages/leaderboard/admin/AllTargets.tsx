@@ -1,19 +1,46 @@
 import { useCallback, useEffect, useState } from "react";
-import { Card, HStack, Stack, Text } from "@chakra-ui/react";
+import { Badge, Card, HStack, Stack, Text } from "@chakra-ui/react";
 
 // API
-import { fetchTargets, killTarget, matchTargets } from "api/game/target";
-import { DetailedTargetInfo } from "shared/api/game/target";
+import {
+  checkTargets,
+  fetchTargets,
+  killTarget,
+  matchTargets,
+  repairTargets,
+  undoKill,
+} from "api/game/target";
+import { DetailedTargetInfo, TargetGraphReport } from "shared/api/game/target";
 
 // Components
 import MultiButton from "components/MultiButton";
+import EvidenceUpload from "components/EvidenceUpload";
+
+// Utilities
+import { catchError } from "utils/http";
+import { TARGET_EVENTS, useGameEvents } from "utils/events";
+
+/**
+ * What each problem found by the target check means
+ */
+const PROBLEMS: { [key: string]: string } = {
+  SELF_TARGET: "is hunting themselves",
+  TEAMMATE_TARGET: "is hunting their own partner",
+  DEAD_HUNTER: "is out of the game but still hunting",
+  DEAD_TARGET: "is being hunted but is out of the game",
+  DUPLICATE_TARGET: "is hunting the same player twice",
+  TOO_MANY_TARGETS: "is hunting too many teams",
+  ORPHANED_HUNTER: "is not hunting anybody",
+  UNHUNTED_TEAM: "is not being hunted by anybody",
+};
 
 /**
  * Page designed only for admins of games, displaying all targets (present and past),
- * and allows for marking kills or regenerating
+ * and allows for marking kills (or undoing them) or regenerating
  */
 function AllTargets() {
   const [data, setData] = useState<DetailedTargetInfo[]>([]);
+  const [report, setReport] = useState<TargetGraphReport>();
 
   const grabTargets = useCallback(async () => {
     setData(
@@ -36,6 +63,7 @@ function AllTargets() {
         return a.fromName.localeCompare(b.fromName);
       })
     );
+    setReport(await checkTargets());
   }, []);
 
   // Grab targets on initial load
@@ -43,6 +71,9 @@ function AllTargets() {
     grabTargets();
   }, [grabTargets]);
 
+  // Including changes made by other admins, or by players confirming kills
+  useGameEvents(TARGET_EVENTS, grabTargets);
+
   return (
     <Stack alignItems="center" width="100%">
       <Card
@@ -75,6 +106,7 @@ function AllTargets() {
       >
         Generate/overwrite targets
       </MultiButton>
+      {report && <TargetCheck report={report} grabTargets={grabTargets} />}
       <Stack padding={4} alignItems="center" width="100%">
         {data.length !== 0 ? (
           data.map((info, index) => (
@@ -102,6 +134,69 @@ function AllTargets() {
   );
 }
 
+/**
+ * Lists everything wrong with the current targets, with a button to fix them
+ * while keeping as many of the existing targets as possible
+ */
+function TargetCheck({
+  report,
+  grabTargets,
+}: {
+  report: TargetGraphReport;
+  grabTargets: () => void;
+}) {
+  const [loading, setLoading] = useState(false);
+  const healthy = report.problems.length === 0;
+
+  return (
+    <Card
+      variant="outline"
+      boxShadow={"lg"}
+      width="70%"
+      minWidth="400px"
+      padding={4}
+      mt="5"
+      backgroundColor={healthy ? "green.100" : "red.100"}
+    >
+      <Text fontWeight="extrabold">
+        {healthy
+          ? "Every alive team is hunting and being hunted"
+          : `${report.problems.length} problem(s) with the targets`}
+      </Text>
+      {report.problems.map((problem, index) => (
+        <HStack key={index} mt="2">
+          <Badge>{problem.type.replace(/_/g, " ")}</Badge>
+          <Text>
+            {problem.players.map((p) => p.name).join(" & ")}{" "}
+            {PROBLEMS[problem.type] ?? ""}
+          </Text>
+        </HStack>
+      ))}
+      {!healthy && (
+        <MultiButton
+          onActivate={async () => {
+            setLoading(true);
+            try {
+              await repairTargets();
+              await grabTargets();
+            } catch (e) {
+              catchError("Repairing targets failed:", e);
+            } finally {
+              setLoading(false);
+            }
+          }}
+          clicksRequired={5}
+          isDisabled={loading}
+          mt="4"
+          alignSelf="center"
+        >
+          {`Repair (expires ${report.repair.expire}, creates ${report.repair.create})`}
+        </MultiButton>
+      )}
+    </Card>
+  );
+}
+
 function TargetItem({
   info,
   grabTargets,
@@ -156,6 +251,28 @@ function TargetItem({
             Kill
           </MultiButton>
         )}
+        {info.status === "COMPLETE" && (
+          <EvidenceUpload targetId={info.targetId} ml="auto" />
+        )}
+        {info.status === "COMPLETE" && (
+          <MultiButton
+            onActivate={async () => {
+              setLoading(true);
+              try {
+                await undoKill(info.targetId);
+                await grabTargets();
+              } catch (e) {
+                catchError("Undoing kill failed:", e);
+              } finally {
+                setLoading(false);
+              }
+            }}
+            clicksRequired={3}
+            isDisabled={loading}
+          >
+            Undo kill
+          </MultiButton>
+        )}
       </HStack>
     </Card>
   );
@@ -0,0 +1,258 @@
+import { ReactNode, useCallback, useEffect, useState } from "react";
+import {
+  Box,
+  Card,
+  HStack,
+  SimpleGrid,
+  Stack,
+  Stat,
+  StatHelpText,
+  StatLabel,
+  StatNumber,
+  Text,
+} from "@chakra-ui/react";
+
+// API
+import { fetchAnalytics } from "api/game/analytics";
+import { GameInfo } from "shared/api/game";
+import { GameAnalytics, SurvivalRateInfo } from "shared/api/game/analytics";
+
+// Utilities
+import { catchError } from "utils/http";
+import { formatDuration } from "utils/misc";
+import { LEADERBOARD_EVENTS, useGameEvents } from "utils/events";
+
+type Bar = { label: string; value: number };
+
+/**
+ * Page designed only for admins of games, giving an overview of how the whole
+ * game has gone: when kills happen, how quickly players drop out and how many
+ * people took part.
+ */
+function Analytics({ gameInfo }: { gameInfo: GameInfo }) {
+  const [analytics, setAnalytics] = useState<GameAnalytics>();
+
+  const grabAnalytics = useCallback(async () => {
+    try {
+      setAnalytics(await fetchAnalytics());
+    } catch (e) {
+      catchError("Fetching analytics failed:", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    grabAnalytics();
+  }, [grabAnalytics]);
+
+  useGameEvents(LEADERBOARD_EVENTS, grabAnalytics);
+
+  if (!analytics) {
+    return (
+      <Stack alignItems="center" width="100%">
+        <Text>Loading...</Text>
+      </Stack>
+    );
+  }
+
+  const day = (time: string) =>
+    new Date(time).toLocaleDateString("en-US", {
+      timeZone: gameInfo.timeZone,
+      month: "short",
+      day: "numeric",
+    });
+
+  // The number of players left at the end of each day
+  const days = analytics.killsPerDay;
+  const alivePerDay = days.map(({ day: start }, i) => {
+    const end = i + 1 < days.length ? days[i + 1].day : undefined;
+    const before = analytics.aliveOverTime.filter(
+      (point) => end === undefined || point.time < end
+    );
+    return {
+      label: day(start),
+      value: before.length ? before[before.length - 1].alive : 0,
+    };
+  });
+
+  const alive = analytics.aliveOverTime[analytics.aliveOverTime.length - 1];
+  const totalKills = days.reduce((sum, d) => sum + d.kills, 0);
+  const { funnel, safety } = analytics;
+
+  return (
+    <Stack alignItems="center" width="100%">
+      <AnalyticsCard title="Overview">
+        <SimpleGrid columns={[2, 4]} spacing={4}>
+          <Stat>
+            <StatLabel>Players left</StatLabel>
+            <StatNumber>{alive?.alive ?? 0}</StatNumber>
+            <StatHelpText>of {funnel.registered}</StatHelpText>
+          </Stat>
+          <Stat>
+            <StatLabel>Kills</StatLabel>
+            <StatNumber>{totalKills}</StatNumber>
+          </Stat>
+          <Stat>
+            <StatLabel>Average survival</StatLabel>
+            <StatNumber>
+              {formatDuration(analytics.averageSurvivalTime)}
+            </StatNumber>
+          </Stat>
+          <Stat>
+            <StatLabel>Days played</StatLabel>
+            <StatNumber>{days.length}</StatNumber>
+          </Stat>
+        </SimpleGrid>
+      </AnalyticsCard>
+
+      <AnalyticsCard title="Kills per day">
+        <BarChart
+          bars={days.map((d) => ({ label: day(d.day), value: d.kills }))}
+        />
+      </AnalyticsCard>
+
+      <AnalyticsCard title="Players left at the end of each day">
+        <BarChart bars={alivePerDay} color="green.400" />
+      </AnalyticsCard>
+
+      <AnalyticsCard title="Kills by hour of the day">
+        <BarChart
+          bars={analytics.killsByHour.map((kills, hour) => ({
+            label: `${hour.toString().padStart(2, "0")}:00`,
+            value: kills,
+          }))}
+        />
+      </AnalyticsCard>
+
+      <AnalyticsCard title="Survival">
+        <SimpleGrid columns={2} spacing={4}>
+          <SurvivalStat label="Teams" rate={analytics.team} />
+          <SurvivalStat label="Solo players" rate={analytics.solo} />
+        </SimpleGrid>
+      </AnalyticsCard>
+
+      <AnalyticsCard title="Safety">
+        <SimpleGrid columns={[2, 3]} spacing={4}>
+          <Stat>
+            <StatLabel>Grants</StatLabel>
+            <StatNumber>{safety.grants}</StatNumber>
+          </Stat>
+          <Stat>
+            <StatLabel>Players made safe</StatLabel>
+            <StatNumber>{safety.playersGranted}</StatNumber>
+          </Stat>
+          <Stat>
+            <StatLabel>Average length</StatLabel>
+            <StatNumber>{formatDuration(safety.averageDuration)}</StatNumber>
+          </Stat>
+        </SimpleGrid>
+        {safety.reasons.length !== 0 && (
+          <Box mt={4}>
+            <BarChart
+              bars={safety.reasons.map((r) => ({
+                label: r.reason || "No reason",
+                value: r.count,
+              }))}
+              color="blue.400"
+            />
+          </Box>
+        )}
+      </AnalyticsCard>
+
+      <AnalyticsCard title="Registration">
+        <BarChart
+          bars={[
+            ...(funnel.whitelisted !== undefined
+              ? [{ label: "Whitelisted", value: funnel.whitelisted }]
+              : []),
+            { label: "Registered", value: funnel.registered },
+            { label: "In a team", value: funnel.teamed },
+            { label: "Given a target", value: funnel.targeted },
+            { label: "Made a kill", value: funnel.madeKill },
+          ]}
+          color="purple.400"
+        />
+      </AnalyticsCard>
+    </Stack>
+  );
+}
+
+function AnalyticsCard({
+  title,
+  children,
+}: {
+  title: string;
+  children: ReactNode;
+}) {
+  return (
+    <Card
+      variant="outline"
+      boxShadow={"lg"}
+      width="90%"
+      minWidth="400px"
+      padding={4}
+    >
+      <Text fontWeight="extrabold" mb={2}>
+        {title}
+      </Text>
+      {children}
+    </Card>
+  );
+}
+
+/**
+ * Horizontal bars, each as long as its share of the largest value
+ */
+function BarChart({
+  bars,
+  color = "red.400",
+}: {
+  bars: Bar[];
+  color?: string;
+}) {
+  const max = Math.max(1, ...bars.map((bar) => bar.value));
+
+  if (bars.length === 0) return <Text>Nothing to show yet.</Text>;
+
+  return (
+    <Stack spacing={1}>
+      {bars.map((bar) => (
+        <HStack key={bar.label} spacing={2}>
+          <Text fontSize="sm" width="120px" flexShrink={0} isTruncated>
+            {bar.label}
+          </Text>
+          <Box flexGrow={1}>
+            <Box
+              bg={color}
+              height="14px"
+              borderRadius="sm"
+              width={`${(bar.value / max) * 100}%`}
+            />
+          </Box>
+          <Text fontSize="sm" width="40px" textAlign="right">
+            {bar.value}
+          </Text>
+        </HStack>
+      ))}
+    </Stack>
+  );
+}
+
+function SurvivalStat({
+  label,
+  rate,
+}: {
+  label: string;
+  rate: SurvivalRateInfo;
+}) {
+  return (
+    <Stat>
+      <StatLabel>{label}</StatLabel>
+      <StatNumber>{Math.round(rate.rate * 100)}%</StatNumber>
+      <StatHelpText>
+        {rate.survived} of {rate.players} still in
+      </StatHelpText>
+    </Stat>
+  );
+}
+
+export default Analytics;
@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, HStack, Input, Stack, Text } from "@chakra-ui/react";
+
+// API
+import {
+  disqualifyPlayer,
+  fetchDisqualified,
+  fetchLeaderboard,
+} from "api/game/target";
+import {
+  DisqualificationInfo,
+  LeaderboardPlayerInfo,
+} from "shared/api/game/player";
+
+// Components
+import MultiButton from "components/MultiButton";
+
+// Utilities
+import { catchError } from "utils/http";
+
+/**
+ * Page designed only for admins of games, allows for disqualifying players and
+ * lists everyone who has been disqualified along with why
+ */
+function Disqualifications() {
+  const [players, setPlayers] = useState<LeaderboardPlayerInfo[]>([]);
+  const [disqualified, setDisqualified] = useState<DisqualificationInfo[]>([]);
+
+  const grabPlayers = useCallback(async () => {
+    const leaderboardData = await fetchLeaderboard();
+    setPlayers(
+      leaderboardData.filter((player) => player.status !== "DISQUALIFIED")
+    );
+    setDisqualified(await fetchDisqualified());
+  }, []);
+
+  // Grab players on initial load
+  useEffect(() => {
+    grabPlayers();
+  }, [grabPlayers]);
+
+  return (
+    <Stack alignItems="center" width="100%">
+      <Card
+        variant="outline"
+        boxShadow={"lg"}
+        width="90%"
+        minWidth="400px"
+        padding={4}
+        backgroundColor="blue.100"
+        display="flex"
+        alignItems="center"
+      >
+        <Text fontWeight="extrabold">WARNING</Text>
+        <Text fontWeight="normal" align="center">
+          Disqualifying a player takes them out of the game for good, and
+          whoever was hunting them takes over their targets. A reason is
+          required, and is only shown to admins.
+        </Text>
+      </Card>
+      <Stack padding={4} alignItems="center" width="100%">
+        {players.map((info) => (
+          <PlayerItem
+            key={info.playerId}
+            info={info}
+            grabPlayers={grabPlayers}
+          />
+        ))}
+      </Stack>
+      <Stack padding={4} alignItems="center" width="100%">
+        <Text fontWeight="extrabold">Disqualified players</Text>
+        {disqualified.length !== 0 ? (
+          disqualified.map((info) => (
+            <Card
+              key={info.playerId}
+              variant="outline"
+              boxShadow={"lg"}
+              width="70%"
+              minWidth="400px"
+              padding={4}
+              backgroundColor="red.100"
+            >
+              <Text fontWeight="bold">{info.name}</Text>
+              <Text fontSize="sm">
+                By {info.disqualifiedBy}
+                {info.disqualifiedAt &&
+                  ` on ${new Date(info.disqualifiedAt).toLocaleString()}`}
+              </Text>
+              <Text>{info.reason}</Text>
+            </Card>
+          ))
+        ) : (
+          <Text>Nobody has been disqualified.</Text>
+        )}
+      </Stack>
+    </Stack>
+  );
+}
+
+function PlayerItem({
+  info,
+  grabPlayers,
+}: {
+  info: LeaderboardPlayerInfo;
+  grabPlayers: () => void;
+}) {
+  const [loading, setLoading] = useState(false);
+  const [reason, setReason] = useState("");
+
+  return (
+    <Card variant="outline" boxShadow={"lg"} width="70%" minWidth="400px">
+      <HStack padding={4}>
+        <Stack>
+          <Text>{info.name}</Text>
+          <Text mt="-6px" fontWeight="bold">
+            Status: {info.status}
+          </Text>
+        </Stack>
+        <Input
+          ml="auto"
+          maxWidth="300px"
+          placeholder="Reason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+        />
+        <MultiButton
+          onActivate={async () => {
+            setLoading(true);
+            try {
+              await disqualifyPlayer(info.playerId, reason);
+              await grabPlayers();
+            } catch (e) {
+              catchError("Disqualifying player failed:", e);
+            } finally {
+              setLoading(false);
+            }
+          }}
+          clicksRequired={5}
+          isDisabled={loading || reason.trim() === ""}
+        >
+          Disqualify
+        </MultiButton>
+      </HStack>
+    </Card>
+  );
+}
+
+export default Disqualifications;
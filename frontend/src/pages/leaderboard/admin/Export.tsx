@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { Button, Card, HStack, Stack, Text, useToast } from "@chakra-ui/react";
+
+// API
+import { downloadExport } from "api/game/export";
+import { GameInfo } from "shared/api/game";
+import { ExportDataset, ExportFormat } from "shared/api/game/export";
+
+// Utilities
+import { catchError } from "utils/http";
+
+const DATASETS: { dataset: ExportDataset; label: string }[] = [
+  { dataset: "players", label: "Players" },
+  { dataset: "teams", label: "Teams" },
+  { dataset: "targets", label: "Targets" },
+  { dataset: "kills", label: "Kills" },
+  { dataset: "standings", label: "Standings" },
+];
+
+/**
+ * Save a downloaded file onto the device
+ */
+const saveFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Page designed only for admins of games, allows for downloading everything
+ * about the game to keep once it is over
+ */
+function Export({ gameInfo }: { gameInfo: GameInfo }) {
+  const [loading, setLoading] = useState<string>();
+  const toast = useToast();
+
+  const slug = gameInfo.name.replace(/[^a-z0-9]+/gi, "-").toLowerCase();
+
+  const download = async (format: ExportFormat, dataset?: ExportDataset) => {
+    const key = dataset ?? format;
+    setLoading(key);
+    try {
+      const blob = await downloadExport(format, dataset);
+      saveFile(blob, dataset ? `${slug}-${dataset}.csv` : `${slug}.json`);
+    } catch (e) {
+      catchError("Exporting the game failed:", e);
+      toast({
+        title: "Error",
+        description: "Failed to export the game.",
+        status: "error",
+        duration: 3000,
+        isClosable: true,
+      });
+    } finally {
+      setLoading(undefined);
+    }
+  };
+
+  return (
+    <Stack alignItems="center" width="100%">
+      <Card
+        variant="outline"
+        boxShadow={"lg"}
+        width="90%"
+        minWidth="400px"
+        padding={4}
+        backgroundColor="blue.100"
+        display="flex"
+        alignItems="center"
+      >
+        <Text fontWeight="extrabold">NOTE</Text>
+        <Text fontWeight="normal" align="center">
+          Exports include the names and emails of every player, so keep them
+          somewhere safe.
+        </Text>
+      </Card>
+      <Card
+        variant="outline"
+        boxShadow={"lg"}
+        width="90%"
+        minWidth="400px"
+        padding={4}
+      >
+        <Text fontWeight="extrabold">Everything</Text>
+        <Text mb={2}>Every table in a single JSON file.</Text>
+        <Button
+          colorScheme="blue"
+          isLoading={loading === "json"}
+          onClick={() => download("json")}
+        >
+          Download JSON
+        </Button>
+      </Card>
+      <Card
+        variant="outline"
+        boxShadow={"lg"}
+        width="90%"
+        minWidth="400px"
+        padding={4}
+      >
+        <Text fontWeight="extrabold">Spreadsheets</Text>
+        <Text mb={2}>One CSV file per table.</Text>
+        <HStack flexWrap="wrap" spacing={2}>
+          {DATASETS.map(({ dataset, label }) => (
+            <Button
+              key={dataset}
+              isLoading={loading === dataset}
+              onClick={() => download("csv", dataset)}
+            >
+              {label}
+            </Button>
+          ))}
+        </HStack>
+      </Card>
+    </Stack>
+  );
+}
+
+export default Export;
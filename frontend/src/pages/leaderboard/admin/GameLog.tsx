@@ -0,0 +1,182 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Badge,
+  Button,
+  Card,
+  HStack,
+  Select,
+  Stack,
+  Text,
+} from "@chakra-ui/react";
+
+// API
+import { fetchGameLog } from "api/game";
+import { fetchLeaderboard } from "api/game/target";
+import { GameInfo, GameLogEntryInfo } from "shared/api/game";
+import { LeaderboardPlayerInfo } from "shared/api/game/player";
+
+// Utilities
+import { catchError } from "utils/http";
+
+/**
+ * Every type of change that can appear in the log, along with how to show it
+ */
+const LOG_TYPES: { [key: string]: { label: string; color: string } } = {
+  PLAYER_REGISTERED: { label: "Registered", color: "gray" },
+  INVITE_SENT: { label: "Invite sent", color: "gray" },
+  INVITE_ACCEPTED: { label: "Invite accepted", color: "purple" },
+  INVITE_REJECTED: { label: "Invite rejected", color: "gray" },
+  TEAM_PAIRED: { label: "Team paired", color: "purple" },
+  TARGETS_MATCHED: { label: "Targets matched", color: "blue" },
+  TARGETS_REPAIRED: { label: "Targets repaired", color: "blue" },
+  KILL: { label: "Kill", color: "red" },
+  KILL_UNDONE: { label: "Kill undone", color: "red" },
+  KILL_CLAIMED: { label: "Kill claimed", color: "orange" },
+  KILL_DISPUTED: { label: "Kill disputed", color: "orange" },
+  KILL_CLAIM_REJECTED: { label: "Claim rejected", color: "orange" },
+  SAFETY_GRANTED: { label: "Safety granted", color: "green" },
+  SAFETY_REVOKED: { label: "Safety revoked", color: "green" },
+  SAFETY_EXPIRED: { label: "Safety expired", color: "green" },
+  REVIVED: { label: "Revived", color: "teal" },
+  DISQUALIFIED: { label: "Disqualified", color: "red" },
+  GAME_COMPLETED: { label: "Game completed", color: "yellow" },
+  ANNOUNCEMENT_POSTED: { label: "Announcement posted", color: "cyan" },
+  ANNOUNCEMENT_UPDATED: { label: "Announcement updated", color: "cyan" },
+  RULES_UPDATED: { label: "Rules updated", color: "pink" },
+  EVIDENCE_UPLOADED: { label: "Evidence uploaded", color: "orange" },
+  ROSTER_IMPORTED: { label: "Roster imported", color: "gray" },
+};
+
+/**
+ * Page designed only for admins of games, shows a timeline of every change
+ * made within the game, who made it and what it changed
+ */
+function GameLog({ gameInfo }: { gameInfo: GameInfo }) {
+  const [entries, setEntries] = useState<GameLogEntryInfo[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(1);
+  const [type, setType] = useState("");
+  const [playerId, setPlayerId] = useState("");
+  const [players, setPlayers] = useState<LeaderboardPlayerInfo[]>([]);
+
+  const grabLog = useCallback(async () => {
+    try {
+      const data = await fetchGameLog(gameInfo.gameId, page, {
+        type,
+        playerId,
+      });
+      setEntries(data.entries);
+      setTotal(data.total);
+      setPageSize(data.pageSize);
+    } catch (e) {
+      catchError("Fetching game log failed:", e);
+    }
+  }, [gameInfo.gameId, page, type, playerId]);
+
+  // Grab the log whenever the page or filters change
+  useEffect(() => {
+    grabLog();
+  }, [grabLog]);
+
+  // Grab the players to filter by on initial load
+  useEffect(() => {
+    fetchLeaderboard().then((data) =>
+      setPlayers(data.sort((a, b) => a.name.localeCompare(b.name)))
+    );
+  }, []);
+
+  const pages = Math.max(Math.ceil(total / pageSize), 1);
+
+  return (
+    <Stack alignItems="center" width="100%">
+      <HStack width="70%" minWidth="400px">
+        <Select
+          value={type}
+          onChange={(e) => {
+            setType(e.target.value);
+            setPage(0);
+          }}
+        >
+          <option value="">All changes</option>
+          {Object.entries(LOG_TYPES).map(([key, { label }]) => (
+            <option key={key} value={key}>
+              {label}
+            </option>
+          ))}
+        </Select>
+        <Select
+          value={playerId}
+          onChange={(e) => {
+            setPlayerId(e.target.value);
+            setPage(0);
+          }}
+        >
+          <option value="">All players</option>
+          {players.map((player) => (
+            <option key={player.playerId} value={player.playerId}>
+              {player.name}
+            </option>
+          ))}
+        </Select>
+      </HStack>
+      <Stack padding={4} alignItems="center" width="100%">
+        {entries.length !== 0 ? (
+          entries.map((entry) => <LogItem key={entry.entryId} entry={entry} />)
+        ) : (
+          <Text>Nothing has happened yet.</Text>
+        )}
+      </Stack>
+      <HStack>
+        <Button isDisabled={page === 0} onClick={() => setPage(page - 1)}>
+          Newer
+        </Button>
+        <Text>
+          Page {page + 1} of {pages}
+        </Text>
+        <Button
+          isDisabled={page + 1 >= pages}
+          onClick={() => setPage(page + 1)}
+        >
+          Older
+        </Button>
+      </HStack>
+    </Stack>
+  );
+}
+
+function LogItem({ entry }: { entry: GameLogEntryInfo }) {
+  const type = LOG_TYPES[entry.type] ?? { label: entry.type, color: "gray" };
+
+  return (
+    <Card
+      variant="outline"
+      boxShadow={"lg"}
+      width="70%"
+      minWidth="400px"
+      padding={4}
+    >
+      <HStack>
+        <Badge colorScheme={type.color}>{type.label}</Badge>
+        <Text fontSize="sm" ml="auto">
+          {new Date(entry.createdAt).toLocaleString()}
+        </Text>
+      </HStack>
+      {entry.players.length !== 0 && (
+        <Text fontWeight="bold">
+          {entry.players.map((player) => player.name).join(", ")}
+        </Text>
+      )}
+      <Text fontSize="sm">By {entry.actor ?? "the game"}</Text>
+      {entry.details && <Text>{entry.details}</Text>}
+      {(entry.before || entry.after) && (
+        <Text fontSize="sm" fontFamily="mono">
+          {JSON.stringify(entry.before ?? {})} →{" "}
+          {JSON.stringify(entry.after ?? {})}
+        </Text>
+      )}
+    </Card>
+  );
+}
+
+export default GameLog;
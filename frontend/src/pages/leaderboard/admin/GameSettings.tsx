@@ -0,0 +1,534 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Button,
+  Card,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  HStack,
+  IconButton,
+  Input,
+  NumberInput,
+  NumberInputField,
+  Select,
+  Stack,
+  Text,
+  Textarea,
+  useToast,
+} from "@chakra-ui/react";
+import { AddIcon, DeleteIcon } from "@chakra-ui/icons";
+import { useRecoilValue } from "recoil";
+
+// State
+import { gameInfoAtom } from "global/user-state";
+
+// API
+import {
+  cancelGame,
+  createGame,
+  getCurrentGame,
+  getGameSettings,
+  setActiveGame,
+  updateGame,
+} from "api/game";
+import { GameSettings as Settings, SafetyInfo } from "shared/api/game";
+
+// Components
+import MultiButton from "components/MultiButton";
+import SignUpPolicy from "./SignUpPolicy";
+
+// Utilities
+import { fromDateTimeInput, toDateTimeInput, toLines } from "utils/misc";
+import { catchError } from "utils/http";
+
+const STRATEGIES = [
+  { value: "RING", label: "Ring: each team hunts the next" },
+  {
+    value: "MULTI_HUNTER",
+    label: "Multi-hunter: several teams hunt each team",
+  },
+  { value: "AVOID_SAME_DORM", label: "Ring, avoiding teams in the same dorm" },
+  {
+    value: "AVOID_PREVIOUS_TARGETS",
+    label: "Ring, avoiding previous targets",
+  },
+];
+
+/**
+ * Page designed only for admins of games, allows for editing the settings of
+ * the current game, cancelling it, creating new games, and changing who may
+ * sign up to the site.
+ */
+function GameSettings() {
+  const gameInfo = useRecoilValue(gameInfoAtom);
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [admins, setAdmins] = useState("");
+  const [whitelist, setWhitelist] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const toast = useToast();
+
+  const grabSettings = useCallback(async () => {
+    if (!gameInfo) return;
+    const data = await getGameSettings(gameInfo.gameId);
+    setSettings(data);
+    setAdmins(data.admins.join("\n"));
+    setWhitelist(data.whitelistedEmails.join("\n"));
+  }, [gameInfo]);
+
+  // Grab settings on initial load
+  useEffect(() => {
+    grabSettings();
+  }, [grabSettings]);
+
+  /* Run an admin action, letting the admin know whether or not it worked */
+  const run = async (title: string, fn: () => Promise<void>) => {
+    setLoading(true);
+    try {
+      await fn();
+      toast({ title, status: "success", duration: 3000, isClosable: true });
+    } catch (e) {
+      catchError(`${title} failed:`, e);
+      toast({
+        title: "Error",
+        description: `${title} failed.`,
+        status: "error",
+        duration: 3000,
+        isClosable: true,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!settings) {
+    return null;
+  }
+
+  const save = () =>
+    run("Settings saved", async () => {
+      const updated = await updateGame(settings.gameId, {
+        name: settings.name,
+        startTime: settings.startTime,
+        killClaimWindowMinutes: settings.killClaimWindowMinutes,
+        maxRevives: settings.maxRevives,
+        assignmentStrategy: settings.assignmentStrategy,
+        huntersPerTarget: settings.huntersPerTarget,
+        events: settings.events,
+        admins: toLines(admins),
+        whitelistedEmails: toLines(whitelist),
+        safeties: settings.safeties,
+        timeZone: settings.timeZone,
+      });
+      setSettings(updated);
+      await getCurrentGame();
+    });
+
+  const setSafety = (index: number, safety: SafetyInfo) =>
+    setSettings({
+      ...settings,
+      safeties: settings.safeties.map((s, i) => (i === index ? safety : s)),
+    });
+
+  const setEvent = (index: number, event: { title: string; time: string }) =>
+    setSettings({
+      ...settings,
+      events: settings.events.map((e, i) => (i === index ? event : e)),
+    });
+
+  return (
+    <Stack alignItems="center" width="100%" spacing={4}>
+      <Card
+        variant="outline"
+        boxShadow={"lg"}
+        width="90%"
+        minWidth="400px"
+        padding={4}
+        backgroundColor="blue.100"
+        display="flex"
+        alignItems="center"
+      >
+        <Text fontWeight="extrabold">
+          {settings.name} ({settings.status}
+          {settings.active ? ", ACTIVE" : ""})
+        </Text>
+        <Text fontWeight="normal" align="center">
+          Changes here are shown to every player as soon as they are saved.
+        </Text>
+      </Card>
+      <Card variant="outline" boxShadow={"lg"} width="90%" padding={4}>
+        <Stack spacing={4}>
+          <FormControl>
+            <FormLabel>Name</FormLabel>
+            <Input
+              value={settings.name}
+              onChange={(e) =>
+                setSettings({ ...settings, name: e.target.value })
+              }
+            />
+          </FormControl>
+          <FormControl>
+            <FormLabel>Start time</FormLabel>
+            <Input
+              type="datetime-local"
+              value={toDateTimeInput(settings.startTime)}
+              onChange={(e) =>
+                setSettings({
+                  ...settings,
+                  startTime: fromDateTimeInput(e.target.value),
+                })
+              }
+            />
+          </FormControl>
+          <FormControl>
+            <FormLabel>Kill claim window (minutes)</FormLabel>
+            <NumberInput
+              min={1}
+              value={settings.killClaimWindowMinutes}
+              onChange={(_, value) =>
+                setSettings({ ...settings, killClaimWindowMinutes: value })
+              }
+            >
+              <NumberInputField />
+            </NumberInput>
+            <FormHelperText>
+              How long a victim has to dispute a reported kill.
+            </FormHelperText>
+          </FormControl>
+          <FormControl>
+            <FormLabel>Maximum revives per player</FormLabel>
+            <NumberInput
+              min={0}
+              value={settings.maxRevives}
+              onChange={(_, value) =>
+                setSettings({ ...settings, maxRevives: value })
+              }
+            >
+              <NumberInputField />
+            </NumberInput>
+            <FormHelperText>Set to 0 to turn off revives.</FormHelperText>
+          </FormControl>
+          <FormControl>
+            <FormLabel>Target assignment</FormLabel>
+            <Select
+              value={settings.assignmentStrategy}
+              onChange={(e) =>
+                setSettings({ ...settings, assignmentStrategy: e.target.value })
+              }
+            >
+              {STRATEGIES.map((strategy) => (
+                <option key={strategy.value} value={strategy.value}>
+                  {strategy.label}
+                </option>
+              ))}
+            </Select>
+            <FormHelperText>
+              Used the next time players are matched.
+            </FormHelperText>
+          </FormControl>
+          {settings.assignmentStrategy === "MULTI_HUNTER" && (
+            <FormControl>
+              <FormLabel>Hunters per target</FormLabel>
+              <NumberInput
+                min={1}
+                value={settings.huntersPerTarget}
+                onChange={(_, value) =>
+                  setSettings({ ...settings, huntersPerTarget: value })
+                }
+              >
+                <NumberInputField />
+              </NumberInput>
+            </FormControl>
+          )}
+          <FormControl>
+            <FormLabel>Admins</FormLabel>
+            <Textarea
+              value={admins}
+              onChange={(e) => setAdmins(e.target.value)}
+            />
+            <FormHelperText>One email per line.</FormHelperText>
+          </FormControl>
+          <FormControl>
+            <FormLabel>Whitelisted emails</FormLabel>
+            <Textarea
+              value={whitelist}
+              onChange={(e) => setWhitelist(e.target.value)}
+            />
+            <FormHelperText>
+              One email per line. Leave empty to allow anyone to register.
+            </FormHelperText>
+          </FormControl>
+          <FormControl>
+            <FormLabel>Time zone</FormLabel>
+            <Input
+              value={settings.timeZone}
+              onChange={(e) =>
+                setSettings({ ...settings, timeZone: e.target.value })
+              }
+            />
+            <FormHelperText>
+              Decides when each day (and each day's safety) starts, e.g.
+              America/New_York.
+            </FormHelperText>
+          </FormControl>
+          <FormControl>
+            <FormLabel>Safeties</FormLabel>
+            <Stack>
+              {settings.safeties.map((safety, index) => (
+                <Card key={index} variant="outline" padding={2}>
+                  <Stack>
+                    <HStack>
+                      <Input
+                        placeholder="Description"
+                        value={safety.description}
+                        onChange={(e) =>
+                          setSafety(index, {
+                            ...safety,
+                            description: e.target.value,
+                          })
+                        }
+                      />
+                      <IconButton
+                        aria-label="Remove safety"
+                        icon={<DeleteIcon />}
+                        onClick={() =>
+                          setSettings({
+                            ...settings,
+                            safeties: settings.safeties.filter(
+                              (_, i) => i !== index
+                            ),
+                          })
+                        }
+                      />
+                    </HStack>
+                    <HStack>
+                      <Input
+                        type="datetime-local"
+                        value={toDateTimeInput(safety.start)}
+                        onChange={(e) =>
+                          setSafety(index, {
+                            ...safety,
+                            start: fromDateTimeInput(e.target.value),
+                          })
+                        }
+                      />
+                      <Text>to</Text>
+                      <Input
+                        type="datetime-local"
+                        value={toDateTimeInput(safety.end)}
+                        onChange={(e) =>
+                          setSafety(index, {
+                            ...safety,
+                            end: fromDateTimeInput(e.target.value),
+                          })
+                        }
+                      />
+                    </HStack>
+                    <HStack>
+                      <Input
+                        placeholder="Zones (comma separated, empty for anywhere)"
+                        value={safety.zones.join(",")}
+                        onChange={(e) =>
+                          setSafety(index, {
+                            ...safety,
+                            zones: e.target.value.split(","),
+                          })
+                        }
+                      />
+                      <Input
+                        placeholder="Required items (comma separated)"
+                        value={safety.items.join(",")}
+                        onChange={(e) =>
+                          setSafety(index, {
+                            ...safety,
+                            items: e.target.value.split(","),
+                          })
+                        }
+                      />
+                    </HStack>
+                  </Stack>
+                </Card>
+              ))}
+              <Button
+                leftIcon={<AddIcon />}
+                onClick={() => {
+                  const start = new Date();
+                  const end = new Date(start.getTime() + 24 * 3600 * 1000);
+                  setSettings({
+                    ...settings,
+                    safeties: [
+                      ...settings.safeties,
+                      {
+                        description: "",
+                        start: start.toISOString(),
+                        end: end.toISOString(),
+                        zones: [],
+                        items: [],
+                      },
+                    ],
+                  });
+                }}
+              >
+                Add safety
+              </Button>
+            </Stack>
+          </FormControl>
+          <FormControl>
+            <FormLabel>Events</FormLabel>
+            <Stack>
+              {settings.events.map((event, index) => (
+                <HStack key={index}>
+                  <Input
+                    placeholder="Title"
+                    value={event.title}
+                    onChange={(e) =>
+                      setEvent(index, { ...event, title: e.target.value })
+                    }
+                  />
+                  <Input
+                    type="datetime-local"
+                    value={toDateTimeInput(event.time)}
+                    onChange={(e) =>
+                      setEvent(index, {
+                        ...event,
+                        time: fromDateTimeInput(e.target.value),
+                      })
+                    }
+                  />
+                  <IconButton
+                    aria-label="Remove event"
+                    icon={<DeleteIcon />}
+                    onClick={() =>
+                      setSettings({
+                        ...settings,
+                        events: settings.events.filter((_, i) => i !== index),
+                      })
+                    }
+                  />
+                </HStack>
+              ))}
+              <Button
+                leftIcon={<AddIcon />}
+                onClick={() =>
+                  setSettings({
+                    ...settings,
+                    events: [
+                      ...settings.events,
+                      { title: "", time: new Date().toISOString() },
+                    ],
+                  })
+                }
+              >
+                Add event
+              </Button>
+            </Stack>
+          </FormControl>
+          <Button colorScheme="green" onClick={save} isDisabled={loading}>
+            Save settings
+          </Button>
+        </Stack>
+      </Card>
+      <HStack>
+        {!settings.active && (
+          <MultiButton
+            onActivate={() =>
+              run("Game made active", async () => {
+                await setActiveGame(settings.gameId);
+                await grabSettings();
+              })
+            }
+            clicksRequired={3}
+            isDisabled={loading}
+          >
+            Make active
+          </MultiButton>
+        )}
+        <MultiButton
+          onActivate={() =>
+            run("Game cancelled", async () => {
+              await cancelGame(settings.gameId);
+              await grabSettings();
+              await getCurrentGame();
+            })
+          }
+          clicksRequired={10}
+          isDisabled={
+            loading ||
+            settings.status === "COMPLETE" ||
+            settings.status === "CANCELLED"
+          }
+          colorScheme="red"
+        >
+          Cancel game
+        </MultiButton>
+      </HStack>
+      <CreateGame run={run} loading={loading} />
+      <SignUpPolicy run={run} loading={loading} />
+    </Stack>
+  );
+}
+
+/**
+ * Small form for creating a brand new game, which can then be made active.
+ */
+function CreateGame({
+  run,
+  loading,
+}: {
+  run: (title: string, fn: () => Promise<void>) => Promise<void>;
+  loading: boolean;
+}) {
+  const [name, setName] = useState("");
+  const [startTime, setStartTime] = useState(new Date().toISOString());
+  const [createdId, setCreatedId] = useState<string | null>(null);
+
+  return (
+    <Card variant="outline" boxShadow={"lg"} width="90%" padding={4}>
+      <Stack spacing={4}>
+        <Text fontWeight="extrabold">Create a new game</Text>
+        <HStack>
+          <Input
+            placeholder="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Input
+            type="datetime-local"
+            value={toDateTimeInput(startTime)}
+            onChange={(e) => setStartTime(fromDateTimeInput(e.target.value))}
+          />
+        </HStack>
+        <Button
+          onClick={() =>
+            run("Game created", async () => {
+              setCreatedId(await createGame({ name, startTime }));
+            })
+          }
+          isDisabled={loading || name.trim() === ""}
+        >
+          Create
+        </Button>
+        {createdId && (
+          <HStack>
+            <Text>Created game {createdId}.</Text>
+            <MultiButton
+              onActivate={() =>
+                run("Game made active", async () => {
+                  await setActiveGame(createdId);
+                  await getCurrentGame();
+                })
+              }
+              clicksRequired={3}
+              isDisabled={loading}
+              ml="auto"
+            >
+              Make active
+            </MultiButton>
+          </HStack>
+        )}
+      </Stack>
+    </Card>
+  );
+}
+
+export default GameSettings;
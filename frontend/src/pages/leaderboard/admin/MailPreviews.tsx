@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { Box, Card, Select, Stack, Text } from "@chakra-ui/react";
+
+// API
+import { getMailTemplates, previewMail } from "api/notification";
+import { MailPreview, MailTemplateInfo } from "shared/api/notification";
+
+// Utilities
+import { catchError } from "utils/http";
+
+/**
+ * Page designed only for admins of games, shows each email players can be
+ * sent, filled in with made up details
+ */
+function MailPreviews() {
+  const [templates, setTemplates] = useState<MailTemplateInfo[]>([]);
+  const [selected, setSelected] = useState("");
+  const [preview, setPreview] = useState<MailPreview | null>(null);
+
+  // Grab the templates on initial load, previewing the first one
+  useEffect(() => {
+    getMailTemplates()
+      .then((data) => {
+        setTemplates(data);
+        if (data.length !== 0) setSelected(data[0].name);
+      })
+      .catch((e) => catchError("Fetching email templates failed:", e));
+  }, []);
+
+  useEffect(() => {
+    if (!selected) return;
+    previewMail(selected)
+      .then(setPreview)
+      .catch((e) => catchError("Previewing email failed:", e));
+  }, [selected]);
+
+  const description = templates.find((t) => t.name === selected)?.description;
+
+  return (
+    <Stack alignItems="center" width="100%">
+      <Select
+        width="90%"
+        minWidth="400px"
+        value={selected}
+        onChange={(e) => setSelected(e.target.value)}
+      >
+        {templates.map((t) => (
+          <option key={t.name} value={t.name}>
+            {t.name}
+          </option>
+        ))}
+      </Select>
+      {description && <Text fontSize="sm">{description}</Text>}
+      {preview && (
+        <Card
+          variant="outline"
+          boxShadow={"lg"}
+          width="90%"
+          minWidth="400px"
+          padding={4}
+        >
+          <Text fontWeight="extrabold">{preview.subject}</Text>
+          <Box
+            as="iframe"
+            title={preview.name}
+            srcDoc={preview.html}
+            sandbox=""
+            width="100%"
+            height="400px"
+            border="none"
+          />
+        </Card>
+      )}
+    </Stack>
+  );
+}
+
+export default MailPreviews;
@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, HStack, Stack, Text } from "@chakra-ui/react";
+
+// API
+import { fetchOpenClaims, resolveClaim } from "api/game/target";
+import { KillClaimInfo } from "shared/api/game/target";
+
+// Components
+import MultiButton from "components/MultiButton";
+
+/**
+ * Page designed only for admins of games, displaying all kill claims that are
+ * waiting on the victim or have been disputed, and allows for ruling on them
+ */
+function PendingClaims() {
+  const [data, setData] = useState<KillClaimInfo[]>([]);
+
+  const grabClaims = useCallback(async () => {
+    setData(
+      (await fetchOpenClaims()).sort((a, b) => {
+        // Place disputed claims at the top, they need an admin
+        if (a.status === "DISPUTED" && b.status !== "DISPUTED") {
+          return -1;
+        } else if (b.status === "DISPUTED" && a.status !== "DISPUTED") {
+          return 1;
+        }
+
+        // Otherwise, oldest claims first
+        return a.claimedAt.localeCompare(b.claimedAt);
+      })
+    );
+  }, []);
+
+  // Grab claims on initial load
+  useEffect(() => {
+    grabClaims();
+  }, [grabClaims]);
+
+  return (
+    <Stack alignItems="center" width="100%">
+      <Card
+        variant="outline"
+        boxShadow={"lg"}
+        width="90%"
+        minWidth="400px"
+        padding={4}
+        backgroundColor="blue.100"
+        display="flex"
+        alignItems="center"
+      >
+        <Text fontWeight="extrabold">WARNING</Text>
+        <Text fontWeight="normal" align="center">
+          Accepting a claim processes the kill exactly as if it was marked from
+          the All Targets page. Pending claims confirm themselves once their
+          window runs out, disputed claims wait here until they are ruled on.
+        </Text>
+      </Card>
+      <Stack padding={4} alignItems="center" width="100%">
+        {data.length !== 0 ? (
+          data.map((info) => (
+            <ClaimItem key={info.claimId} info={info} grabClaims={grabClaims} />
+          ))
+        ) : (
+          <Card
+            variant="outline"
+            boxShadow={"lg"}
+            width="60%"
+            minWidth="300px"
+            padding={4}
+            backgroundColor="yellow.100"
+            display="flex"
+            alignItems="center"
+          >
+            <Text fontWeight="extrabold">NOTE</Text>
+            <Text fontWeight="normal" align="center">
+              There are no open claims!
+            </Text>
+          </Card>
+        )}
+      </Stack>
+    </Stack>
+  );
+}
+
+function ClaimItem({
+  info,
+  grabClaims,
+}: {
+  info: KillClaimInfo;
+  grabClaims: () => void;
+}) {
+  const [loading, setLoading] = useState(false);
+  const color = info.status === "DISPUTED" ? "red.100" : "white";
+
+  const resolve = async (accept: boolean) => {
+    setLoading(true);
+    await resolveClaim(info.claimId, accept);
+    await grabClaims();
+    setLoading(false);
+  };
+
+  return (
+    <Card
+      variant="outline"
+      boxShadow={"lg"}
+      width="70%"
+      minWidth="400px"
+      sx={{ backgroundColor: color }}
+    >
+      <HStack padding={4}>
+        <Stack>
+          <Text>
+            {info.killerName} → {info.victimName}
+          </Text>
+          <Text mt="-6px" fontWeight="bold">
+            Status: {info.status}
+          </Text>
+          {info.status === "DISPUTED" ? (
+            <Text mt="-6px" fontStyle="italic">
+              "{info.disputeReason || "No reason given"}"
+            </Text>
+          ) : (
+            <Text mt="-6px" fontSize="sm" color="gray.600">
+              Confirms at {new Date(info.confirmBy).toLocaleString()}
+            </Text>
+          )}
+        </Stack>
+        <Stack ml="auto">
+          <MultiButton
+            onActivate={() => resolve(true)}
+            clicksRequired={3}
+            isDisabled={loading}
+            colorScheme="green"
+          >
+            Accept
+          </MultiButton>
+          <MultiButton
+            onActivate={() => resolve(false)}
+            clicksRequired={3}
+            isDisabled={loading}
+            colorScheme="red"
+          >
+            Reject
+          </MultiButton>
+        </Stack>
+      </HStack>
+    </Card>
+  );
+}
+
+export default PendingClaims;
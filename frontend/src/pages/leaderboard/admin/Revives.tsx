@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, HStack, Stack, Text } from "@chakra-ui/react";
+
+// API
+import { fetchLeaderboard, revivePlayer } from "api/game/target";
+import { GameInfo } from "shared/api/game";
+import { LeaderboardPlayerInfo } from "shared/api/game/player";
+
+// Components
+import MultiButton from "components/MultiButton";
+
+// Utilities
+import { catchError } from "utils/http";
+
+/**
+ * Page designed only for admins of games, displaying all killed players and
+ * allows for reviving them (up to the maximum allowed by the game)
+ */
+function Revives({ gameInfo }: { gameInfo: GameInfo }) {
+  const [data, setData] = useState<LeaderboardPlayerInfo[]>([]);
+
+  const grabPlayers = useCallback(async () => {
+    const leaderboardData = await fetchLeaderboard();
+    setData(leaderboardData.filter((player) => player.status === "KILLED"));
+  }, []);
+
+  // Grab players on initial load
+  useEffect(() => {
+    grabPlayers();
+  }, [grabPlayers]);
+
+  return (
+    <Stack alignItems="center" width="100%">
+      <Card
+        variant="outline"
+        boxShadow={"lg"}
+        width="90%"
+        minWidth="400px"
+        padding={4}
+        backgroundColor="blue.100"
+        display="flex"
+        alignItems="center"
+      >
+        <Text fontWeight="extrabold">WARNING</Text>
+        <Text fontWeight="normal" align="center">
+          Reviving a player puts them straight back into the target graph. If
+          their partner is alive they rejoin their team, otherwise they are
+          given a new target and hunter. Each player can be revived at most{" "}
+          {gameInfo.maxRevives} time(s), and every revive counts against their
+          team's score.
+        </Text>
+      </Card>
+      <Stack padding={4} alignItems="center" width="100%">
+        {data.length !== 0 ? (
+          data.map((info) => (
+            <ReviveItem
+              key={info.playerId}
+              info={info}
+              maxRevives={gameInfo.maxRevives}
+              grabPlayers={grabPlayers}
+            />
+          ))
+        ) : (
+          <Card
+            variant="outline"
+            boxShadow={"lg"}
+            width="60%"
+            minWidth="300px"
+            padding={4}
+            backgroundColor="yellow.100"
+            display="flex"
+            alignItems="center"
+          >
+            <Text fontWeight="extrabold">NOTE</Text>
+            <Text fontWeight="normal" align="center">
+              Nobody has been killed yet!
+            </Text>
+          </Card>
+        )}
+      </Stack>
+    </Stack>
+  );
+}
+
+function ReviveItem({
+  info,
+  maxRevives,
+  grabPlayers,
+}: {
+  info: LeaderboardPlayerInfo;
+  maxRevives: number;
+  grabPlayers: () => void;
+}) {
+  const [loading, setLoading] = useState(false);
+  const canRevive = info.revives < maxRevives;
+
+  return (
+    <Card variant="outline" boxShadow={"lg"} width="70%" minWidth="400px">
+      <HStack padding={4}>
+        <Stack>
+          <Text>{info.name}</Text>
+          <Text mt="-6px" fontWeight="bold">
+            Revives: {info.revives}/{maxRevives}
+            {info.killedBy && `, killed by ${info.killedBy}`}
+          </Text>
+        </Stack>
+        <MultiButton
+          onActivate={async () => {
+            setLoading(true);
+            try {
+              await revivePlayer(info.playerId);
+              await grabPlayers();
+            } catch (e) {
+              catchError("Reviving player failed:", e);
+            } finally {
+              setLoading(false);
+            }
+          }}
+          clicksRequired={3}
+          isDisabled={loading || !canRevive}
+          ml="auto"
+        >
+          Revive
+        </MultiButton>
+      </HStack>
+    </Card>
+  );
+}
+
+export default Revives;
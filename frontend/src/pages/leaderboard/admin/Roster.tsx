@@ -0,0 +1,221 @@
+import { useRef, useState } from "react";
+import {
+  Badge,
+  Button,
+  Card,
+  HStack,
+  Stack,
+  Text,
+  Wrap,
+  WrapItem,
+  useToast,
+} from "@chakra-ui/react";
+
+// API
+import { importRoster, previewRoster } from "api/game";
+import { RosterPreview } from "shared/api/game";
+
+// Components
+import MultiButton from "components/MultiButton";
+
+// Utilities
+import { catchError } from "utils/http";
+
+/**
+ * Page designed only for admins of games, allows for filling the whitelist
+ * (and the admins) of the game from a CSV roster. Nothing changes until the
+ * preview has been checked and applied.
+ */
+function Roster() {
+  const input = useRef<HTMLInputElement>(null);
+  const [csv, setCsv] = useState<string>();
+  const [fileName, setFileName] = useState<string>();
+  const [preview, setPreview] = useState<RosterPreview>();
+  const [loading, setLoading] = useState(false);
+  const toast = useToast();
+
+  const pick = async (file: File | undefined) => {
+    if (!file) return;
+    setLoading(true);
+    try {
+      const text = await file.text();
+      setCsv(text);
+      setFileName(file.name);
+      setPreview(await previewRoster(text));
+    } catch (e) {
+      catchError("Previewing the roster failed:", e);
+      setPreview(undefined);
+    } finally {
+      setLoading(false);
+      // Allow the same file to be picked again once it has been fixed
+      if (input.current) input.current.value = "";
+    }
+  };
+
+  const apply = async () => {
+    if (!csv) return;
+    try {
+      await importRoster(csv);
+      toast({
+        title: "Roster imported",
+        status: "success",
+        duration: 3000,
+        isClosable: true,
+      });
+      setCsv(undefined);
+      setFileName(undefined);
+      setPreview(undefined);
+    } catch (e) {
+      catchError("Importing the roster failed:", e);
+      toast({
+        title: "Error",
+        description: "Failed to import the roster.",
+        status: "error",
+        duration: 3000,
+        isClosable: true,
+      });
+    }
+  };
+
+  return (
+    <Stack alignItems="center" width="100%">
+      <Card
+        variant="outline"
+        boxShadow={"lg"}
+        width="90%"
+        minWidth="400px"
+        padding={4}
+        backgroundColor="blue.100"
+        display="flex"
+        alignItems="center"
+      >
+        <Text fontWeight="extrabold">NOTE</Text>
+        <Text fontWeight="normal" align="center">
+          The roster needs <b>email</b> and <b>name</b> columns, and may have{" "}
+          <b>dorm</b>, <b>team</b> and <b>role</b> (player or admin) columns.
+          Importing replaces the whitelist, and the admins too if there is a
+          role column. Two people sharing a team name become partners once both
+          have registered. Removing someone from the whitelist does not remove
+          them from the game.
+        </Text>
+      </Card>
+      <Card
+        variant="outline"
+        boxShadow={"lg"}
+        width="90%"
+        minWidth="400px"
+        padding={4}
+      >
+        <input
+          ref={input}
+          type="file"
+          accept=".csv,text/csv"
+          hidden
+          onChange={(e) => pick(e.target.files?.[0])}
+        />
+        <HStack>
+          <Button
+            colorScheme="blue"
+            isLoading={loading}
+            onClick={() => input.current?.click()}
+          >
+            Choose roster
+          </Button>
+          {fileName && <Text>{fileName}</Text>}
+        </HStack>
+      </Card>
+      {preview && <RosterDiff preview={preview} onApply={apply} />}
+    </Stack>
+  );
+}
+
+function RosterDiff({
+  preview,
+  onApply,
+}: {
+  preview: RosterPreview;
+  onApply: () => void;
+}) {
+  const unchanged =
+    preview.whitelist.added.length === 0 &&
+    preview.whitelist.removed.length === 0 &&
+    preview.admins.added.length === 0 &&
+    preview.admins.removed.length === 0;
+
+  return (
+    <Card
+      variant="outline"
+      boxShadow={"lg"}
+      width="90%"
+      minWidth="400px"
+      padding={4}
+    >
+      <Text fontWeight="extrabold">
+        {preview.entries.length} people, {preview.teams.length} team(s)
+      </Text>
+      {preview.errors.length !== 0 && (
+        <Stack spacing={1} mt={2}>
+          {preview.errors.map((error) => (
+            <Text key={error} color="red.600">
+              {error}
+            </Text>
+          ))}
+        </Stack>
+      )}
+      <EmailChanges
+        title="Whitelist"
+        added={preview.whitelist.added}
+        removed={preview.whitelist.removed}
+      />
+      <EmailChanges
+        title="Admins"
+        added={preview.admins.added}
+        removed={preview.admins.removed}
+      />
+      {unchanged && <Text mt={2}>The whitelist and admins stay the same.</Text>}
+      <MultiButton
+        mt={4}
+        colorScheme="green"
+        clicksRequired={2}
+        isDisabled={preview.errors.length !== 0}
+        onActivate={onApply}
+      >
+        Import roster
+      </MultiButton>
+    </Card>
+  );
+}
+
+function EmailChanges({
+  title,
+  added,
+  removed,
+}: {
+  title: string;
+  added: string[];
+  removed: string[];
+}) {
+  if (added.length === 0 && removed.length === 0) return null;
+
+  return (
+    <Stack spacing={1} mt={4}>
+      <Text fontWeight="bold">
+        {title}: {added.length} added, {removed.length} removed
+      </Text>
+      <Wrap>
+        {added.map((email) => (
+          <WrapItem key={`+${email}`}>
+            <Badge colorScheme="green">+ {email}</Badge>
+          </WrapItem>
+        ))}
+        {removed.map((email) => (
+          <WrapItem key={`-${email}`}>
+            <Badge colorScheme="red">- {email}</Badge>
+          </WrapItem>
+        ))}
+      </Wrap>
+    </Stack>
+  );
+}
+
+export default Roster;
@@ -1,26 +1,48 @@
 import { useCallback, useEffect, useState } from "react";
-import { Card, HStack, Stack, Text } from "@chakra-ui/react";
+import { Card, HStack, Input, Stack, Text } from "@chakra-ui/react";
+import { useRecoilValue } from "recoil";
+
+// State
+import { gameInfoAtom } from "global/user-state";
 
 // API
-import { fetchLeaderboard, makePlayerSafe } from "api/game/target";
-import { LeaderboardPlayerInfo } from "shared/api/game/player";
+import { fetchLeaderboard } from "api/game/target";
+import { getSafetySchedule } from "api/game";
+import {
+  fetchSafetyHistory,
+  grantSafety,
+  revokeSafety,
+} from "api/game/player";
+import { LeaderboardPlayerInfo, SafetyGrantInfo } from "shared/api/game/player";
+import { SafetySchedule } from "shared/api/game";
+
+// Utilities
+import { fromDateTimeInput, toDateTimeInput } from "utils/misc";
+import { catchError } from "utils/http";
 
 // Components
 import MultiButton from "components/MultiButton";
 
 /**
  * Page designed only for admins of games, displaying all players (alive or safe),
- * and allows for making them safe
+ * and allows for making them safe until a given time. Also lists every safety
+ * that has been given out in the game.
  */
 function SafetyList() {
+  const gameInfo = useRecoilValue(gameInfoAtom);
   const [data, setData] = useState<LeaderboardPlayerInfo[]>([]);
+  const [history, setHistory] = useState<SafetyGrantInfo[]>([]);
+  const [schedule, setSchedule] = useState<SafetySchedule | null>(null);
 
   const grabPlayers = useCallback(async () => {
+    if (!gameInfo) return;
+    setSchedule(await getSafetySchedule());
+    setHistory(await fetchSafetyHistory(gameInfo.gameId));
     const leaderboardData = await fetchLeaderboard();
     setData(
       leaderboardData.filter((player) => player.alive || player.safe)
     );
-  }, []);
+  }, [gameInfo]);
 
   // Grab players on initial load
   useEffect(() => {
@@ -48,12 +70,33 @@ function SafetyList() {
           fingers. Don't be stupid.
         </Text>
       </Card>
+      {schedule && (
+        <Card
+          variant="outline"
+          boxShadow={"lg"}
+          width="90%"
+          minWidth="400px"
+          padding={4}
+          backgroundColor="orange.100"
+          display="flex"
+          alignItems="center"
+        >
+          <Text fontWeight="extrabold">Safety in effect</Text>
+          <Text fontWeight="normal" align="center">
+            {schedule.active?.description ?? "No safety right now."}
+          </Text>
+        </Card>
+      )}
       <Stack padding={4} alignItems="center" width="100%">
         {data.length !== 0 ? (
           data.map((playerInfo) => (
             <PlayerItem
               key={playerInfo.playerId}
               info={playerInfo}
+              grant={history.find(
+                (g) =>
+                  g.playerId === playerInfo.playerId && g.status === "ACTIVE"
+              )}
               grabPlayers={grabPlayers}
             />
           ))
@@ -75,18 +118,45 @@ function SafetyList() {
           </Card>
         )}
       </Stack>
+      {history.length !== 0 && (
+        <Stack padding={4} alignItems="center" width="100%">
+          <Text fontWeight="extrabold">Safety history</Text>
+          {history.map((grant) => (
+            <GrantItem key={grant.grantId} grant={grant} />
+          ))}
+        </Stack>
+      )}
     </Stack>
   );
 }
 
 function PlayerItem({
   info,
+  grant,
   grabPlayers,
 }: {
   info: LeaderboardPlayerInfo;
+  grant?: SafetyGrantInfo;
   grabPlayers: () => void;
 }) {
+  const gameInfo = useRecoilValue(gameInfoAtom);
   const [loading, setLoading] = useState(false);
+  const [until, setUntil] = useState(
+    new Date(Date.now() + 2 * 3600 * 1000).toISOString()
+  );
+  const [reason, setReason] = useState("");
+
+  const run = async (action: () => Promise<unknown>) => {
+    setLoading(true);
+    try {
+      await action();
+      await grabPlayers();
+    } catch (e) {
+      catchError("Updating safety failed:", e);
+    } finally {
+      setLoading(false);
+    }
+  };
   let color = "white";
   if (info.alive) {
     color = "green.100";
@@ -111,23 +181,87 @@ function PlayerItem({
           <Text mt="-6px" fontWeight="bold">
             Status: {info.alive ? "Alive" : info.safe ? "Safe" : "Unknown"}
           </Text>
+          {grant && (
+            <Text mt="-6px" fontSize="sm">
+              Safe until {new Date(grant.until).toLocaleString()}
+              {grant.reason && ` (${grant.reason})`}
+            </Text>
+          )}
+        </Stack>
+        <Stack ml="auto">
+          <HStack>
+            <Input
+              type="datetime-local"
+              value={toDateTimeInput(until)}
+              onChange={(e) => setUntil(fromDateTimeInput(e.target.value))}
+            />
+            <Input
+              placeholder="Reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </HStack>
+          <HStack justifyContent="flex-end">
+            <MultiButton
+              onActivate={() =>
+                run(() =>
+                  grantSafety(gameInfo!.gameId, info.playerId, until, reason)
+                )
+              }
+              clicksRequired={3}
+              isDisabled={loading || !gameInfo}
+            >
+              {info.safe ? "Change Safety" : "Make Safe"}
+            </MultiButton>
+            {info.safe && (
+              <MultiButton
+                onActivate={() =>
+                  run(() => revokeSafety(gameInfo!.gameId, info.playerId))
+                }
+                clicksRequired={3}
+                isDisabled={loading || !gameInfo}
+              >
+                Make Unsafe
+              </MultiButton>
+            )}
+          </HStack>
         </Stack>
-        <MultiButton
-          onActivate={async () => {
-            setLoading(true);
-            await makePlayerSafe(info.playerId);
-            await grabPlayers();
-            setLoading(false);
-          }}
-          clicksRequired={3}
-          isDisabled={loading}
-          ml="auto"
-        >
-          {info.safe ? "Make Unsafe" : "Make Safe"}
-        </MultiButton>
       </HStack>
     </Card>
   );
 }
 
+/**
+ * A single safety that was given to a player, shown in the history
+ */
+function GrantItem({ grant }: { grant: SafetyGrantInfo }) {
+  let color = "white";
+  if (grant.status === "ACTIVE") {
+    color = "blue.100";
+  }
+
+  return (
+    <Card
+      variant="outline"
+      boxShadow={"lg"}
+      width="70%"
+      minWidth="400px"
+      padding={4}
+      sx={{ backgroundColor: color }}
+    >
+      <Text fontWeight="bold">
+        {grant.name} ({grant.status})
+      </Text>
+      <Text fontSize="sm">
+        {new Date(grant.grantedAt).toLocaleString()} until{" "}
+        {new Date(grant.endedAt ?? grant.until).toLocaleString()}
+      </Text>
+      <Text fontSize="sm">
+        Given by {grant.grantedBy}
+        {grant.reason && `: ${grant.reason}`}
+      </Text>
+    </Card>
+  );
+}
+
 export default SafetyList;
@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import {
+  Badge,
+  Button,
+  Card,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  HStack,
+  IconButton,
+  Input,
+  NumberInput,
+  NumberInputField,
+  Stack,
+  Text,
+  Textarea,
+} from "@chakra-ui/react";
+import { DeleteIcon } from "@chakra-ui/icons";
+
+// API
+import {
+  createInviteCode,
+  deleteInviteCode,
+  getSignUpPolicy,
+  updateSignUpPolicy,
+} from "api/user";
+import { SignUpInviteCodeInfo, SignUpPolicyInfo } from "shared/api/user";
+
+// Utilities
+import { fromDateTimeInput, toDateTimeInput, toLines } from "utils/misc";
+
+/* Whether an invite code can no longer be used to sign up */
+const isSpent = (invite: SignUpInviteCodeInfo) =>
+  (invite.maxUses !== undefined && invite.uses >= invite.maxUses) ||
+  (invite.expiresAt !== undefined && new Date(invite.expiresAt) <= new Date());
+
+/**
+ * Form for site admins to change who may sign up to the site: which email
+ * domains, which emails are let in or turned away, and invite codes for
+ * everyone else. Shows nothing to anyone who isn't a site admin.
+ */
+function SignUpPolicy({
+  run,
+  loading,
+}: {
+  run: (title: string, fn: () => Promise<void>) => Promise<void>;
+  loading: boolean;
+}) {
+  const [policy, setPolicy] = useState<SignUpPolicyInfo | null>(null);
+  const [domains, setDomains] = useState("");
+  const [allowed, setAllowed] = useState("");
+  const [denied, setDenied] = useState("");
+  const [maxUses, setMaxUses] = useState<number>();
+  const [expiresAt, setExpiresAt] = useState("");
+
+  const show = (data: SignUpPolicyInfo) => {
+    setPolicy(data);
+    setDomains(data.allowedDomains.join("\n"));
+    setAllowed(data.allowedEmails.join("\n"));
+    setDenied(data.deniedEmails.join("\n"));
+  };
+
+  // Grab the policy on initial load, only site admins are allowed to see it
+  useEffect(() => {
+    getSignUpPolicy()
+      .then(show)
+      .catch(() => setPolicy(null));
+  }, []);
+
+  if (!policy) {
+    return null;
+  }
+
+  const inviteLink = (code: string) =>
+    `${window.location.origin}${window.location.pathname}#/login?invite=${code}`;
+
+  return (
+    <Card variant="outline" boxShadow={"lg"} width="90%" padding={4}>
+      <Stack spacing={4}>
+        <Text fontWeight="extrabold">Who may sign up</Text>
+        <FormControl>
+          <FormLabel>Allowed domains</FormLabel>
+          <Textarea
+            value={domains}
+            onChange={(e) => setDomains(e.target.value)}
+          />
+          <FormHelperText>
+            One domain per line, e.g. princeton.edu. Anyone with an email at one
+            of these may sign up.
+          </FormHelperText>
+        </FormControl>
+        <FormControl>
+          <FormLabel>Allowed emails</FormLabel>
+          <Textarea
+            value={allowed}
+            onChange={(e) => setAllowed(e.target.value)}
+          />
+          <FormHelperText>
+            One email per line, for guests outside the allowed domains.
+          </FormHelperText>
+        </FormControl>
+        <FormControl>
+          <FormLabel>Denied emails</FormLabel>
+          <Textarea
+            value={denied}
+            onChange={(e) => setDenied(e.target.value)}
+          />
+          <FormHelperText>
+            One email per line. These can't sign in at all, even if they already
+            have an account.
+          </FormHelperText>
+        </FormControl>
+        <Button
+          colorScheme="green"
+          onClick={() =>
+            run("Sign-up policy saved", async () =>
+              show(
+                await updateSignUpPolicy({
+                  allowedDomains: toLines(domains),
+                  allowedEmails: toLines(allowed),
+                  deniedEmails: toLines(denied),
+                })
+              )
+            )
+          }
+          isDisabled={loading}
+        >
+          Save sign-up policy
+        </Button>
+        <Text fontWeight="bold">Invite codes</Text>
+        {policy.inviteCodes.length === 0 && (
+          <Text color="gray.600">There are no invite codes.</Text>
+        )}
+        {policy.inviteCodes.map((invite) => (
+          <HStack key={invite.code}>
+            <Text fontFamily="monospace" fontWeight="bold">
+              {invite.code}
+            </Text>
+            {isSpent(invite) && <Badge colorScheme="red">Spent</Badge>}
+            <Text fontSize="sm" color="gray.600">
+              {invite.uses}
+              {invite.maxUses !== undefined ? `/${invite.maxUses}` : ""} uses
+              {invite.expiresAt
+                ? `, until ${new Date(invite.expiresAt).toLocaleString()}`
+                : ""}
+            </Text>
+            <Button
+              size="sm"
+              ml="auto"
+              onClick={() =>
+                run("Invite link copied", () =>
+                  navigator.clipboard.writeText(inviteLink(invite.code))
+                )
+              }
+            >
+              Copy link
+            </Button>
+            <IconButton
+              aria-label="Delete invite code"
+              icon={<DeleteIcon />}
+              size="sm"
+              onClick={() =>
+                run("Invite code deleted", async () =>
+                  show(await deleteInviteCode(invite.code))
+                )
+              }
+              isDisabled={loading}
+            />
+          </HStack>
+        ))}
+        <HStack>
+          <NumberInput
+            min={1}
+            value={maxUses ?? ""}
+            onChange={(_, value) =>
+              setMaxUses(isNaN(value) ? undefined : value)
+            }
+          >
+            <NumberInputField placeholder="Uses (unlimited)" />
+          </NumberInput>
+          <Input
+            type="datetime-local"
+            value={toDateTimeInput(expiresAt)}
+            onChange={(e) => setExpiresAt(fromDateTimeInput(e.target.value))}
+          />
+          <Button
+            onClick={() =>
+              run("Invite code created", async () => {
+                show(await createInviteCode(maxUses, expiresAt || undefined));
+                setMaxUses(undefined);
+                setExpiresAt("");
+              })
+            }
+            isDisabled={loading}
+          >
+            Create code
+          </Button>
+        </HStack>
+      </Stack>
+    </Card>
+  );
+}
+
+export default SignUpPolicy;
@@ -0,0 +1,265 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Badge,
+  Button,
+  Card,
+  Checkbox,
+  HStack,
+  Input,
+  Stack,
+  Text,
+  Textarea,
+} from "@chakra-ui/react";
+
+// State
+import { useRecoilValue } from "recoil";
+import { gameInfoAtom } from "global/user-state";
+
+// API
+import {
+  expireAnnouncement,
+  fetchAnnouncements,
+  markAnnouncementsRead,
+  pinAnnouncement,
+  postAnnouncement,
+} from "api/game/announcement";
+import { AnnouncementInfo } from "shared/api/game/announcement";
+
+// Utilities
+import { catchError } from "utils/http";
+import { fromDateTimeInput, toDateTimeInput } from "utils/misc";
+import { ANNOUNCEMENT_EVENTS, useGameEvents } from "utils/events";
+
+type Props = {
+  /**
+   * Whether the tab is being looked at, everything in it is read once it is
+   */
+  active?: boolean;
+  /**
+   * Told how many announcements the player hasn't read yet, whenever that
+   * changes
+   */
+  onUnreadChange?: (unread: number) => void;
+};
+
+/**
+ * News posted by the admins of the game, pinned announcements first. Admins
+ * can post new announcements, and pin or expire old ones.
+ */
+function Announcements({ active, onUnreadChange }: Props) {
+  const gameInfo = useRecoilValue(gameInfoAtom);
+  const isAdmin = gameInfo?.role === "ADMIN";
+  const [announcements, setAnnouncements] = useState<AnnouncementInfo[]>([]);
+  const [unread, setUnread] = useState(0);
+
+  const grabAnnouncements = useCallback(async () => {
+    try {
+      const feed = await fetchAnnouncements();
+      setAnnouncements(feed.announcements);
+      setUnread(feed.unread);
+    } catch (e) {
+      catchError("Fetching announcements failed:", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    grabAnnouncements();
+  }, [grabAnnouncements]);
+
+  useGameEvents(ANNOUNCEMENT_EVENTS, grabAnnouncements);
+
+  useEffect(() => {
+    onUnreadChange?.(unread);
+  }, [unread, onUnreadChange]);
+
+  // Anything new has been seen once the tab is opened
+  useEffect(() => {
+    if (!active || unread === 0) return;
+    markAnnouncementsRead()
+      .then(() => setUnread(0))
+      .catch((e) => catchError("Marking announcements read failed:", e));
+  }, [active, unread]);
+
+  return (
+    <Stack alignItems="center" width="100%">
+      {isAdmin && <AnnouncementForm onPosted={grabAnnouncements} />}
+      {announcements.length === 0 && (
+        <Text>There haven't been any announcements yet.</Text>
+      )}
+      {announcements.map((announcement) => (
+        <AnnouncementCard
+          key={announcement.announcementId}
+          announcement={announcement}
+          isAdmin={isAdmin}
+          onChange={grabAnnouncements}
+        />
+      ))}
+    </Stack>
+  );
+}
+
+function AnnouncementCard({
+  announcement,
+  isAdmin,
+  onChange,
+}: {
+  announcement: AnnouncementInfo;
+  isAdmin: boolean;
+  onChange: () => void;
+}) {
+  const [loading, setLoading] = useState(false);
+
+  const act = async (action: () => Promise<void>, msg: string) => {
+    setLoading(true);
+    try {
+      await action();
+      onChange();
+    } catch (e) {
+      catchError(msg, e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card
+      variant="outline"
+      boxShadow={"lg"}
+      width="90%"
+      minWidth="400px"
+      padding={4}
+      opacity={announcement.expired ? 0.6 : 1}
+    >
+      <HStack>
+        <Text fontWeight="extrabold">{announcement.title}</Text>
+        {announcement.pinned && <Badge colorScheme="blue">Pinned</Badge>}
+        {announcement.unread && <Badge colorScheme="red">New</Badge>}
+        {announcement.expired && <Badge>Expired</Badge>}
+      </HStack>
+      {announcement.body && (
+        <Text whiteSpace="pre-wrap">{announcement.body}</Text>
+      )}
+      <Text fontSize="sm" color="gray.500">
+        {announcement.author},{" "}
+        {new Date(announcement.createdAt).toLocaleString()}
+        {announcement.expiresAt &&
+          !announcement.expired &&
+          ` (until ${new Date(announcement.expiresAt).toLocaleString()})`}
+      </Text>
+      {isAdmin && !announcement.expired && (
+        <HStack mt={2}>
+          <Button
+            size="sm"
+            isLoading={loading}
+            onClick={() =>
+              act(
+                () =>
+                  pinAnnouncement(
+                    announcement.announcementId,
+                    !announcement.pinned
+                  ),
+                "Pinning announcement failed:"
+              )
+            }
+          >
+            {announcement.pinned ? "Unpin" : "Pin"}
+          </Button>
+          <Button
+            size="sm"
+            colorScheme="red"
+            variant="outline"
+            isLoading={loading}
+            onClick={() =>
+              act(
+                () => expireAnnouncement(announcement.announcementId),
+                "Expiring announcement failed:"
+              )
+            }
+          >
+            Expire now
+          </Button>
+        </HStack>
+      )}
+    </Card>
+  );
+}
+
+function AnnouncementForm({ onPosted }: { onPosted: () => void }) {
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [pinned, setPinned] = useState(false);
+  const [expiresAt, setExpiresAt] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const post = async () => {
+    setLoading(true);
+    try {
+      await postAnnouncement({
+        title,
+        body,
+        pinned,
+        expiresAt: expiresAt || undefined,
+      });
+      setTitle("");
+      setBody("");
+      setPinned(false);
+      setExpiresAt("");
+      onPosted();
+    } catch (e) {
+      catchError("Posting announcement failed:", e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card
+      variant="outline"
+      boxShadow={"lg"}
+      width="90%"
+      minWidth="400px"
+      padding={4}
+      backgroundColor="blue.50"
+    >
+      <Stack>
+        <Text fontWeight="extrabold">New announcement</Text>
+        <Input
+          placeholder="Title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+        <Textarea
+          placeholder="Details (optional)"
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+        />
+        <HStack>
+          <Checkbox
+            isChecked={pinned}
+            onChange={(e) => setPinned(e.target.checked)}
+          >
+            Pin
+          </Checkbox>
+          <Text fontSize="sm" whiteSpace="nowrap">
+            Expires (optional)
+          </Text>
+          <Input
+            type="datetime-local"
+            value={toDateTimeInput(expiresAt)}
+            onChange={(e) => setExpiresAt(fromDateTimeInput(e.target.value))}
+          />
+        </HStack>
+        <Button
+          colorScheme="blue"
+          isLoading={loading}
+          isDisabled={title.trim() === ""}
+          onClick={post}
+        >
+          Post
+        </Button>
+      </Stack>
+    </Card>
+  );
+}
+
+export default Announcements;
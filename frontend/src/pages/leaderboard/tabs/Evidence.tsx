@@ -0,0 +1,222 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Badge,
+  Button,
+  Card,
+  HStack,
+  Image,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalHeader,
+  ModalOverlay,
+  Stack,
+  Text,
+} from "@chakra-ui/react";
+
+// State
+import { useRecoilValue } from "recoil";
+import { gameInfoAtom } from "global/user-state";
+
+// API
+import {
+  deleteEvidence,
+  fetchEvidenceFile,
+  fetchKillEvidence,
+} from "api/game/target";
+import { EvidenceInfo, KillEvidenceInfo } from "shared/api/game/target";
+
+// Components
+import EvidenceUpload from "components/EvidenceUpload";
+import MultiButton from "components/MultiButton";
+
+// Utilities
+import { catchError } from "utils/http";
+import { EVIDENCE_EVENTS, useGameEvents } from "utils/events";
+
+const STATUS_COLORS: { [key: string]: string } = {
+  CONFIRMED: "green",
+  PENDING: "yellow",
+  DISPUTED: "orange",
+};
+
+/**
+ * The photos and videos backing up each kill. Players only see the kills they
+ * made or were the victim of, admins see every kill.
+ */
+function Evidence() {
+  const [kills, setKills] = useState<KillEvidenceInfo[]>([]);
+  const [viewing, setViewing] = useState<EvidenceInfo>();
+
+  const grabKills = useCallback(async () => {
+    try {
+      setKills(await fetchKillEvidence());
+    } catch (e) {
+      catchError("Fetching evidence failed:", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    grabKills();
+  }, [grabKills]);
+
+  useGameEvents(EVIDENCE_EVENTS, grabKills);
+
+  return (
+    <Stack alignItems="center" width="100%">
+      {kills.length === 0 && <Text>There are no kills to show yet.</Text>}
+      {kills.map((kill) => (
+        <KillCard
+          key={kill.targetId}
+          kill={kill}
+          onView={setViewing}
+          onChange={grabKills}
+        />
+      ))}
+      <EvidenceViewer
+        evidence={viewing}
+        onClose={() => setViewing(undefined)}
+      />
+    </Stack>
+  );
+}
+
+function KillCard({
+  kill,
+  onView,
+  onChange,
+}: {
+  kill: KillEvidenceInfo;
+  onView: (evidence: EvidenceInfo) => void;
+  onChange: () => void;
+}) {
+  const gameInfo = useRecoilValue(gameInfoAtom);
+  const isAdmin = gameInfo?.role === "ADMIN";
+
+  const remove = async (evidenceId: string) => {
+    try {
+      await deleteEvidence(evidenceId);
+      onChange();
+    } catch (e) {
+      catchError("Deleting evidence failed:", e);
+    }
+  };
+
+  return (
+    <Card
+      variant="outline"
+      boxShadow={"lg"}
+      width="90%"
+      minWidth="400px"
+      padding={4}
+    >
+      <HStack>
+        <Text fontWeight="extrabold">
+          {kill.killerName} splashed {kill.victimName}
+        </Text>
+        <Badge colorScheme={STATUS_COLORS[kill.status] ?? "gray"}>
+          {kill.status}
+        </Badge>
+      </HStack>
+      {kill.time && (
+        <Text fontSize="sm" color="gray.500">
+          {new Date(kill.time).toLocaleString()}
+        </Text>
+      )}
+      {kill.evidence.length === 0 && (
+        <Text mt={2}>No evidence has been uploaded.</Text>
+      )}
+      {kill.evidence.map((evidence) => (
+        <HStack key={evidence.evidenceId} mt={2}>
+          <Stack spacing={0}>
+            <Text>{evidence.fileName}</Text>
+            <Text fontSize="sm" color="gray.500">
+              {evidence.uploadedBy},{" "}
+              {new Date(evidence.uploadedAt).toLocaleString()}
+              {evidence.expiresAt &&
+                ` (deleted ${new Date(
+                  evidence.expiresAt
+                ).toLocaleDateString()})`}
+            </Text>
+          </Stack>
+          <Button size="sm" ml="auto" onClick={() => onView(evidence)}>
+            View
+          </Button>
+          {isAdmin && (
+            <MultiButton
+              size="sm"
+              colorScheme="red"
+              variant="outline"
+              clicksRequired={2}
+              onActivate={() => remove(evidence.evidenceId)}
+            >
+              Delete
+            </MultiButton>
+          )}
+        </HStack>
+      ))}
+      {kill.canUpload && (
+        <EvidenceUpload
+          targetId={kill.targetId}
+          onUploaded={onChange}
+          size="sm"
+          colorScheme="blue"
+          mt={2}
+        />
+      )}
+    </Card>
+  );
+}
+
+/**
+ * Shows a single photo or video. Files need the access token to download, so
+ * they are fetched and shown from memory.
+ */
+function EvidenceViewer({
+  evidence,
+  onClose,
+}: {
+  evidence?: EvidenceInfo;
+  onClose: () => void;
+}) {
+  const [url, setUrl] = useState<string>();
+
+  useEffect(() => {
+    if (!evidence) return;
+
+    let objectUrl: string | undefined;
+    fetchEvidenceFile(evidence.evidenceId)
+      .then((blob) => {
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch((e) => catchError("Fetching evidence failed:", e));
+
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(undefined);
+    };
+  }, [evidence]);
+
+  return (
+    <Modal isOpen={!!evidence} onClose={onClose} size="xl" isCentered>
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>{evidence?.fileName}</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody pb={6}>
+          {!url && <Text>Loading...</Text>}
+          {url && evidence?.mimeType.startsWith("video/") && (
+            <video src={url} controls style={{ width: "100%" }} />
+          )}
+          {url && evidence?.mimeType.startsWith("image/") && (
+            <Image src={url} alt={evidence.fileName} width="100%" />
+          )}
+        </ModalBody>
+      </ModalContent>
+    </Modal>
+  );
+}
+
+export default Evidence;
@@ -27,6 +27,7 @@ import {
 import { LeaderboardPlayerInfo } from "shared/api/game/player";
 import { GameInfo } from "shared/api/game";
 import MultiButton from "components/MultiButton";
+import { INVITE_EVENTS, useGameEvents } from "utils/events";
 
 function Invite({ gameInfo }: { gameInfo: GameInfo }) {
   const [players, setPlayers] = useState<LeaderboardPlayerInfo[]>([]);
@@ -88,6 +89,9 @@ function Invite({ gameInfo }: { gameInfo: GameInfo }) {
     loadData();
   }, [loadData]);
 
+  // Keep up to date as other players invite (or team up with) each other
+  useGameEvents(INVITE_EVENTS, loadData);
+
   // Handler for inviting a player
   const handleInvite = async (playerId: string) => {
     try {
@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import {
+  Button,
+  Card,
+  FormControl,
+  FormLabel,
+  Stack,
+  Switch,
+  Text,
+} from "@chakra-ui/react";
+
+// API
+import {
+  disablePush,
+  enablePush,
+  getNotificationPreferences,
+  getPushSubscription,
+  pushSupported,
+  setNotificationOptOuts,
+} from "api/notification";
+import { NotificationPreferences } from "shared/api/notification";
+
+// Utilities
+import { catchError } from "utils/http";
+
+/**
+ * What each category of notification is about
+ */
+const CATEGORIES: Record<string, string> = {
+  NEW_TARGET: "When you get a new target",
+  ELIMINATED: "When you are splashed or disqualified",
+  SAFETY: "When you are made safe, or stop being safe",
+  INVITE: "When someone invites you to their team",
+  EVENT_REMINDER: "Shortly before game events start",
+  GAME_UPDATES:
+    "With announcements, rule changes, each day's safety and the final results",
+};
+
+/**
+ * A page where players choose which notifications they are sent, and turn
+ * on push notifications for the browser they're using.
+ */
+function Notifications() {
+  const [preferences, setPreferences] =
+    useState<NotificationPreferences | null>(null);
+  const [subscribed, setSubscribed] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const grabPreferences = async () => {
+      setPreferences(await getNotificationPreferences());
+      setSubscribed(!!(await getPushSubscription()));
+    };
+    grabPreferences().catch((e) =>
+      catchError("Fetching notification preferences failed:", e)
+    );
+  }, []);
+
+  if (!preferences) {
+    return null;
+  }
+
+  const togglePush = async () => {
+    setLoading(true);
+    try {
+      if (subscribed) {
+        await disablePush();
+        setSubscribed(false);
+      } else if (preferences.pushPublicKey) {
+        await enablePush(preferences.pushPublicKey);
+        setSubscribed(true);
+      }
+    } catch (e) {
+      catchError("Changing push notifications failed:", e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleCategory = async (category: string, enabled: boolean) => {
+    const optOuts = preferences.categories
+      .filter((c) => (c.category === category ? !enabled : !c.enabled))
+      .map((c) => c.category);
+
+    try {
+      setPreferences(await setNotificationOptOuts(optOuts));
+    } catch (e) {
+      catchError("Saving notification preferences failed:", e);
+    }
+  };
+
+  const canPush = pushSupported() && !!preferences.pushPublicKey;
+
+  return (
+    <Card
+      variant="outline"
+      boxShadow={"lg"}
+      width="90%"
+      minWidth="400px"
+      padding={4}
+    >
+      <Stack spacing={4}>
+        <Text fontWeight="extrabold">Push notifications</Text>
+        {canPush ? (
+          <Button
+            colorScheme={subscribed ? "gray" : "blue"}
+            isLoading={loading}
+            onClick={togglePush}
+          >
+            {subscribed
+              ? "Stop notifying this device"
+              : "Notify me on this device"}
+          </Button>
+        ) : (
+          <Text fontSize="sm">
+            Push notifications aren't available in this browser.
+          </Text>
+        )}
+
+        <Text fontWeight="extrabold">Tell me</Text>
+        {preferences.categories.map(({ category, enabled }) => (
+          <FormControl key={category} display="flex" alignItems="center">
+            <Switch
+              id={`notify-${category}`}
+              isChecked={enabled}
+              onChange={(e) => toggleCategory(category, e.target.checked)}
+              mr={3}
+            />
+            <FormLabel htmlFor={`notify-${category}`} mb={0}>
+              {CATEGORIES[category] ?? category}
+            </FormLabel>
+          </FormControl>
+        ))}
+      </Stack>
+    </Card>
+  );
+}
+
+export default Notifications;
@@ -1,80 +1,111 @@
-import { GameInfo } from "shared/api/game";
+import { useEffect, useState } from "react";
 import { SafetyCountdown } from "components/Countdown";
 import { Card, Stack, Text } from "@chakra-ui/react";
 
+// API
+import { getSafetySchedule } from "api/game";
+import { SafetyInfo, SafetySchedule } from "shared/api/game";
+
 /**
- * A page that lists today's and tomorrow's safety. Will switch at midnight EST
- * everyday, and is grabbed from the game info object.
+ * A page that lists today's and tomorrow's safety. The server decides which
+ * safeties apply based on the game's time zone, so this is refreshed every
+ * minute to pick up the switch at midnight.
  */
-function Safety({ gameInfo }: { gameInfo: GameInfo }) {
-  // Text to display
-  let today = "No safety today.";
-  let tomorrow = "No safety tomorrow.";
-
-  // Get the current
-  const now = new Date();
-  const tmmrw = new Date(now);
-  // Set the day of the month to tomorrow
-  tmmrw.setDate(tmmrw.getDate() + 1);
-
-  // When the first safety should be
-  const start = new Date(gameInfo.startTime);
+function Safety() {
+  const [schedule, setSchedule] = useState<SafetySchedule | null>(null);
 
-  // Use this difference in order to index into the safeties array and display the correct ones
-  var diff = now.getTime() - start.getTime();
-  var diffDays = Math.ceil(diff / (1000 * 3600 * 24));
-  diffDays -= 1;
+  useEffect(() => {
+    const grabSchedule = async () => setSchedule(await getSafetySchedule());
+    grabSchedule();
 
-  /**
-   * Make sure the index exists AND is non-empty (otherwise keep the default text)
-   */
+    const interval = setInterval(grabSchedule, 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
 
-  // For today
-  if (diffDays >= 0 && diffDays < gameInfo.safeties.length) {
-    if (gameInfo.safeties[diffDays] !== "") today = gameInfo.safeties[diffDays];
+  if (!schedule) {
+    return null;
   }
 
-  // For tomorrow
-  if (diffDays + 1 >= 0 && diffDays + 1 < gameInfo.safeties.length) {
-    if (gameInfo.safeties[diffDays + 1] !== "")
-      tomorrow = gameInfo.safeties[diffDays + 1];
-  }
+  // Show the dates as they are in the game's time zone
+  const day = (iso: string) =>
+    new Date(iso).toLocaleDateString(undefined, {
+      timeZone: schedule.timeZone,
+      month: "numeric",
+      day: "numeric",
+    });
+  const tomorrow = schedule.switchesAt;
+  const today = new Date(
+    new Date(tomorrow).getTime() - 12 * 3600 * 1000
+  ).toISOString();
 
   return (
     <Stack alignItems="center">
-      <SafetyCountdown />
-      <Card
-        variant="outline"
-        boxShadow={"lg"}
-        width="90%"
-        minWidth="400px"
-        padding={4}
-        backgroundColor="orange.100"
-        display="flex"
-        alignItems="center"
-      >
-        <Text fontWeight="extrabold">
-          Today's safety ({now.getMonth() + 1}/{now.getDate()})
-        </Text>
-        <Text textAlign="center">{today}</Text>
-      </Card>
-      <Card
-        variant="outline"
-        boxShadow={"lg"}
-        width="90%"
-        minWidth="400px"
-        padding={4}
-        backgroundColor="orange.100"
-        display="flex"
-        alignItems="center"
-      >
-        <Text fontWeight="extrabold">
-          Tomorrow's safety ({tmmrw.getMonth() + 1}/{tmmrw.getDate()})
-        </Text>
-        <Text textAlign="center">{tomorrow}</Text>
-      </Card>
+      <SafetyCountdown schedule={schedule} />
+      <SafetyCard
+        title={`Today's safety (${day(today)})`}
+        safety={schedule.today}
+        fallback="No safety today."
+        timeZone={schedule.timeZone}
+      />
+      <SafetyCard
+        title={`Tomorrow's safety (${day(tomorrow)})`}
+        safety={schedule.tomorrow}
+        fallback="No safety tomorrow."
+        timeZone={schedule.timeZone}
+      />
     </Stack>
   );
 }
 
+function SafetyCard({
+  title,
+  safety,
+  fallback,
+  timeZone,
+}: {
+  title: string;
+  safety: SafetyInfo | null;
+  fallback: string;
+  timeZone: string;
+}) {
+  const time = (iso: string) =>
+    new Date(iso).toLocaleString(undefined, {
+      timeZone,
+      weekday: "short",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+
+  return (
+    <Card
+      variant="outline"
+      boxShadow={"lg"}
+      width="90%"
+      minWidth="400px"
+      padding={4}
+      backgroundColor="orange.100"
+      display="flex"
+      alignItems="center"
+    >
+      <Text fontWeight="extrabold">{title}</Text>
+      {safety ? (
+        <>
+          <Text textAlign="center">{safety.description}</Text>
+          <Text fontSize="sm">
+            {time(safety.start)} until {time(safety.end)}
+          </Text>
+          {safety.zones.length !== 0 && (
+            <Text fontSize="sm">Only in: {safety.zones.join(", ")}</Text>
+          )}
+          {safety.items.length !== 0 && (
+            <Text fontSize="sm">Requires: {safety.items.join(", ")}</Text>
+          )}
+        </>
+      ) : (
+        <Text textAlign="center">{fallback}</Text>
+      )}
+    </Card>
+  );
+}
+
 export default Safety;
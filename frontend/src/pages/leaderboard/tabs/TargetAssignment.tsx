@@ -1,7 +1,26 @@
-import { Box, Card, Text, VStack, HStack, Badge } from "@chakra-ui/react";
-import { useEffect, useState } from "react";
-import { fetchTarget } from "api/game/target";
-import { TargetTeamInfo } from "shared/api/game/target";
+import {
+  Box,
+  Button,
+  Card,
+  Text,
+  Textarea,
+  VStack,
+  HStack,
+  Badge,
+  useToast,
+} from "@chakra-ui/react";
+import { useCallback, useEffect, useState } from "react";
+import {
+  claimKill,
+  confirmClaim,
+  disputeClaim,
+  fetchIncomingClaims,
+  fetchTarget,
+} from "api/game/target";
+import { KillClaimInfo, TargetTeamInfo } from "shared/api/game/target";
+import MultiButton from "components/MultiButton";
+import EvidenceUpload from "components/EvidenceUpload";
+import { TARGET_EVENTS, useGameEvents } from "utils/events";
 
 /**
  * Page that displays a single card that shows the player's current target (or
@@ -12,25 +31,167 @@ function TargetAssignment() {
   const [target, setTarget] = useState<TargetTeamInfo | null>(null);
   // Whether or not there was an error retrieving the target
   const [error, setError] = useState(false);
+  // Kills reported against this player that need a response
+  const [claims, setClaims] = useState<KillClaimInfo[]>([]);
+  // Players that this player has already reported a kill against, along with
+  // the target each report was made on
+  const [reported, setReported] = useState<{ [playerId: string]: string }>(
+    {}
+  );
+
+  const toast = useToast();
+
+  const fetchData = useCallback(async () => {
+    try {
+      // Attempt to fetch
+      const targetData = await fetchTarget();
+      setTarget(targetData);
+      setError(false);
+    } catch (e) {
+      // State that target is not available
+      setError(true);
+    }
+
+    try {
+      setClaims(await fetchIncomingClaims());
+    } catch (e) {
+      setClaims([]);
+    }
+  }, []);
 
   useEffect(() => {
-    const fetchData = async () => {
-      try {
-        // Attempt to fetch
-        const targetData = await fetchTarget();
-        setTarget(targetData);
-        setError(false);
-      } catch (e) {
-        // State that target is not available
-        setError(true);
-      }
-    };
     fetchData();
-  }, []);
+  }, [fetchData]);
+
+  // Show a new target as soon as it is assigned
+  useGameEvents(TARGET_EVENTS, fetchData);
+
+  const report = async (playerId: string) => {
+    try {
+      const claim = await claimKill(playerId);
+      if (claim) {
+        setReported((old) => ({ ...old, [playerId]: claim.targetId }));
+      }
+      toast({
+        title: "Splash reported",
+        description: "Waiting on them to confirm. Add your video as evidence.",
+        status: "success",
+        duration: 3000,
+        isClosable: true,
+      });
+    } catch (e) {
+      toast({
+        title: "Error",
+        description: "Failed to report this splash.",
+        status: "error",
+        duration: 3000,
+        isClosable: true,
+      });
+    }
+  };
 
   const isTeamSafe = target?.members.every(member => member.safe);
   const isTeamEliminated = target?.members.every(member => member.status === 'KILLED' || member.status === 'DISQUALIFIED');
 
+  return (
+    <>
+      {claims.map((claim) => (
+        <ClaimPrompt key={claim.claimId} claim={claim} onRespond={fetchData} />
+      ))}
+      <Card
+        variant="outline"
+        boxShadow={"lg"}
+        width="90%"
+        minWidth="400px"
+        padding={6}
+        backgroundColor="orange.100"
+      >
+        <Box>
+          {!error && target ? (
+            <>
+              <Text as="span" fontWeight="bold" fontSize="lg">
+                Your goal is to collect the Splash Points from:
+              </Text>
+              <VStack align="start" spacing={3} mt={4}>
+                {target.members.map((member, idx) => (
+                  <HStack key={idx}>
+                    <Text fontWeight="medium">{member.name}</Text>
+                    {member.status === 'KILLED' || member.status === 'DISQUALIFIED' ? (
+                      <Badge colorScheme="red">Splashed</Badge>
+                    ) : member.safe ? (
+                      <Badge colorScheme="green">Safe</Badge>
+                    ) : (
+                      <Badge colorScheme="yellow">Active</Badge>
+                    )}
+                    {member.status === "ALIVE" && (
+                      <MultiButton
+                        onActivate={() => report(member.playerId)}
+                        clicksRequired={2}
+                        isDisabled={member.playerId in reported}
+                        size="xs"
+                      >
+                        Report splash
+                      </MultiButton>
+                    )}
+                    {member.playerId in reported && (
+                      <EvidenceUpload
+                        targetId={reported[member.playerId]}
+                        size="xs"
+                        colorScheme="blue"
+                      />
+                    )}
+                  </HStack>
+                ))}
+              </VStack>
+              {isTeamSafe && (
+                <Text color="green.500" fontWeight="bold" mt={4}>
+                  The team is safe right now.
+                </Text>
+              )}
+              {isTeamEliminated && (
+                <Text color="red.500" fontWeight="bold" mt={4}>
+                  The targeted team has been eliminated.
+                </Text>
+              )}
+            </>
+          ) : (
+            <>
+              <Text as="span" fontWeight="bold" fontSize="lg">
+                Your goal is not available.
+              </Text>
+            </>
+          )}
+        </Box>
+      </Card>
+    </>
+  );
+}
+
+/**
+ * A card shown to a player when someone has reported a kill against them,
+ * allowing them to confirm or dispute it before it confirms itself.
+ */
+function ClaimPrompt({
+  claim,
+  onRespond,
+}: {
+  claim: KillClaimInfo;
+  onRespond: () => void;
+}) {
+  const [disputing, setDisputing] = useState(false);
+  const [reason, setReason] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const respond = async (fn: () => Promise<void>) => {
+    setLoading(true);
+    try {
+      await fn();
+    } finally {
+      setLoading(false);
+      onRespond();
+    }
+  };
+
   return (
     <Card
       variant="outline"
@@ -38,47 +199,56 @@ function TargetAssignment() {
       width="90%"
       minWidth="400px"
       padding={6}
-      backgroundColor="orange.100"
+      backgroundColor="red.100"
     >
-      <Box>
-        {!error && target ? (
+      <Text fontWeight="bold" fontSize="lg">
+        {claim.killerName} says they splashed you!
+      </Text>
+      <Text fontSize="sm" color="gray.700">
+        This will be confirmed automatically at{" "}
+        {new Date(claim.confirmBy).toLocaleString()} unless you dispute it.
+      </Text>
+      {disputing && (
+        <Textarea
+          mt={4}
+          backgroundColor="white"
+          placeholder="Why is this splash not valid?"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+        />
+      )}
+      <HStack mt={4}>
+        {!disputing ? (
           <>
-            <Text as="span" fontWeight="bold" fontSize="lg">
-              Your goal is to collect the Splash Points from:
-            </Text>
-            <VStack align="start" spacing={3} mt={4}>
-              {target.members.map((member, idx) => (
-                <HStack key={idx}>
-                  <Text fontWeight="medium">{member.name}</Text>
-                  {member.status === 'KILLED' || member.status === 'DISQUALIFIED' ? (
-                    <Badge colorScheme="red">Splashed</Badge>
-                  ) : member.safe ? (
-                    <Badge colorScheme="green">Safe</Badge>
-                  ) : (
-                    <Badge colorScheme="yellow">Active</Badge>
-                  )}
-                </HStack>
-              ))}
-            </VStack>
-            {isTeamSafe && (
-              <Text color="green.500" fontWeight="bold" mt={4}>
-                The team is safe right now.
-              </Text>
-            )}
-            {isTeamEliminated && (
-              <Text color="red.500" fontWeight="bold" mt={4}>
-                The targeted team has been eliminated.
-              </Text>
-            )}
+            <MultiButton
+              onActivate={() => respond(() => confirmClaim(claim.claimId))}
+              clicksRequired={2}
+              isDisabled={loading}
+              colorScheme="red"
+            >
+              Confirm
+            </MultiButton>
+            <Button onClick={() => setDisputing(true)} isDisabled={loading}>
+              Dispute
+            </Button>
           </>
         ) : (
           <>
-            <Text as="span" fontWeight="bold" fontSize="lg">
-              Your goal is not available.
-            </Text>
+            <Button
+              colorScheme="blue"
+              onClick={() =>
+                respond(() => disputeClaim(claim.claimId, reason))
+              }
+              isDisabled={loading || reason.trim() === ""}
+            >
+              Send to admins
+            </Button>
+            <Button onClick={() => setDisputing(false)} isDisabled={loading}>
+              Cancel
+            </Button>
           </>
         )}
-      </Box>
+      </HStack>
     </Card>
   );
 }
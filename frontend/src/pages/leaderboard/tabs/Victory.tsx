@@ -0,0 +1,75 @@
+import { Avatar, Card, HStack, Stack, Text, VStack } from "@chakra-ui/react";
+import { GameInfo } from "shared/api/game";
+
+/**
+ * Shown in place of the leaderboard once the game is complete. Announces the
+ * winners and lists the final standings of every player.
+ */
+function Victory({ gameInfo }: { gameInfo: GameInfo }) {
+  const standings = [...gameInfo.standings].sort((a, b) => {
+    if (a.rank === b.rank) {
+      return b.kills - a.kills;
+    }
+    return a.rank - b.rank;
+  });
+
+  return (
+    <VStack alignItems="center" width="100%" spacing={[4, 6]}>
+      <Card
+        variant="outline"
+        boxShadow={"lg"}
+        width={["95%", "80%"]}
+        minWidth={["auto", "500px"]}
+        padding={6}
+        backgroundColor="yellow.100"
+        display="flex"
+        alignItems="center"
+      >
+        <Text fontSize={["xl", "2xl"]} fontWeight="extrabold">
+          {gameInfo.name.toUpperCase()} IS OVER
+        </Text>
+        {gameInfo.winners.length !== 0 ? (
+          <>
+            <Text mt={2}>Congratulations to the last ones standing:</Text>
+            <Text
+              fontSize={["lg", "xl"]}
+              fontWeight="bold"
+              textAlign="center"
+              mt={2}
+            >
+              {gameInfo.winners.join(" & ")}
+            </Text>
+          </>
+        ) : (
+          <Text mt={2}>Nobody survived. Impressive.</Text>
+        )}
+      </Card>
+      <Stack alignItems="center" width="100%" spacing={[2, 4]}>
+        {standings.map((standing) => (
+          <Card
+            key={standing.playerId}
+            variant="outline"
+            boxShadow={"md"}
+            width={["95%", "70%"]}
+            minWidth={["auto", "400px"]}
+            padding={[2, 4]}
+            bg={standing.rank === 1 ? "green.100" : "white"}
+          >
+            <HStack spacing={[2, 4]}>
+              <Text fontWeight="extrabold" width="40px">
+                #{standing.rank}
+              </Text>
+              <Avatar name={standing.name} size="sm" />
+              <Text>{standing.name}</Text>
+              <Text ml="auto" fontWeight="bold">
+                Splash Points: {standing.kills}
+              </Text>
+            </HStack>
+          </Card>
+        ))}
+      </Stack>
+    </VStack>
+  );
+}
+
+export default Victory;
@@ -78,3 +78,41 @@ self.addEventListener('message', (event) => {
 });
 
 // Any other custom service worker logic can go here.
+
+// Show the notifications the server pushes, see PushMessage in shared/api
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+  const message = event.data.json();
+
+  event.waitUntil(
+    self.registration.showNotification(message.title, {
+      body: message.body,
+      // Newer notifications of the same kind replace older ones
+      tag: message.category,
+      icon: '/whit.png',
+      data: { url: message.url ?? '/' },
+    })
+  );
+});
+
+// Open the page a notification is about, reusing a tab if there is one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url ?? '/', self.location.origin);
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: 'window', includeUncontrolled: true })
+      .then(async (clients) => {
+        const client = clients.find(
+          (c) => new URL(c.url).origin === url.origin
+        );
+        if (client) {
+          await client.focus();
+          await client.navigate(url.href);
+        } else {
+          await self.clients.openWindow(url.href);
+        }
+      })
+  );
+});
@@ -1,5 +1,5 @@
 import { syncFunction } from "./misc";
-import { authGet, catchError, get } from "./http";
+import { authGet, catchError, get, post } from "./http";
 import { getRecoil, setRecoil } from "recoil-nexus";
 import {
   accessTokenAtom,
@@ -54,15 +54,27 @@ export const refreshTokens = syncFunction(async () => {
   }
 });
 
+type Tokens = { token: string; expires: string; userId: string };
+
+/* Keep the access token we were given, and who it is for */
+const setTokens = (tokens: Tokens) => {
+  setRecoil(userIDAtom, tokens.userId);
+  setRecoil(accessTokenExpiryAtom, new Date(Date.parse(tokens.expires)));
+  setRecoil(accessTokenAtom, tokens.token);
+};
+
 export const requestTokens = async () => {
   // Grab refresh token from storage, if it exists
-  const res = await get<{ token: string; expires: string; userId: string }>(
-    "/auth/refresh"
-  );
+  const res = await get<Tokens>("/auth/refresh");
   // Set our global variables
-  setRecoil(userIDAtom, res.data.userId);
-  setRecoil(accessTokenExpiryAtom, new Date(Date.parse(res.data.expires)));
-  setRecoil(accessTokenAtom, res.data.token);
+  setTokens(res.data);
+};
+
+/* Sign in with the token from an emailed sign-in link, which gives the same
+tokens as refreshing them */
+export const requestTokensWithLink = async (token: string) => {
+  const res = await post<Tokens>("/auth/email/verify", { token });
+  setTokens(res.data);
 };
 
 export const verify = async () => {
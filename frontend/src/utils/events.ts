@@ -0,0 +1,145 @@
+import { useEffect, useRef } from "react";
+import { useRecoilValue } from "recoil";
+import { getRecoil } from "recoil-nexus";
+import { io } from "socket.io-client";
+import { GameEventInfo } from "shared/api/game";
+import { BASE_URL } from "../constants";
+import { accessTokenAtom, gameInfoAtom } from "../global/user-state";
+import { validateTokens } from "./auth";
+
+/* A single connection shared by every page, only opened once a page wants to
+hear about a game. Makes sure the access token is fresh on every (re)connect. */
+const socket = io(`${BASE_URL}/game`, {
+  autoConnect: false,
+  withCredentials: true,
+  auth: (cb) => {
+    validateTokens().then(() => cb({ token: getRecoil(accessTokenAtom) }));
+  },
+});
+
+/**
+ * Events that change who is hunting whom
+ */
+export const TARGET_EVENTS = [
+  "TARGETS_MATCHED",
+  "TARGETS_REPAIRED",
+  "KILL",
+  "KILL_UNDONE",
+  "KILL_CLAIMED",
+  "KILL_DISPUTED",
+  "KILL_CLAIM_REJECTED",
+  "SAFETY_GRANTED",
+  "SAFETY_REVOKED",
+  "SAFETY_EXPIRED",
+  "REVIVED",
+  "DISQUALIFIED",
+];
+
+/**
+ * Events that change the standings on the leaderboard
+ */
+export const LEADERBOARD_EVENTS = [
+  "PLAYER_REGISTERED",
+  "INVITE_ACCEPTED",
+  "TEAM_PAIRED",
+  "KILL",
+  "KILL_UNDONE",
+  "SAFETY_GRANTED",
+  "SAFETY_REVOKED",
+  "SAFETY_EXPIRED",
+  "REVIVED",
+  "DISQUALIFIED",
+];
+
+/**
+ * Events that change who is invited to, or on, which team
+ */
+export const INVITE_EVENTS = [
+  "PLAYER_REGISTERED",
+  "INVITE_SENT",
+  "INVITE_ACCEPTED",
+  "INVITE_REJECTED",
+  "TEAM_PAIRED",
+];
+
+/**
+ * Events that can end the game (or bring it back)
+ */
+export const GAME_STATUS_EVENTS = ["GAME_COMPLETED", "KILL_UNDONE"];
+
+/**
+ * Events that change the announcements of the game
+ */
+export const ANNOUNCEMENT_EVENTS = [
+  "ANNOUNCEMENT_POSTED",
+  "ANNOUNCEMENT_UPDATED",
+];
+
+/**
+ * Events that change the rules of the game
+ */
+export const RULES_EVENTS = ["RULES_UPDATED"];
+
+/**
+ * Events that change which kills there are, or the evidence backing them up
+ */
+export const EVIDENCE_EVENTS = [
+  "EVIDENCE_UPLOADED",
+  "KILL",
+  "KILL_UNDONE",
+  "KILL_CLAIMED",
+  "KILL_DISPUTED",
+  "KILL_CLAIM_REJECTED",
+];
+
+// The game whose events are being received, joined again after reconnecting
+let watchedGameId: string | undefined;
+
+socket.on("connect", () => {
+  if (watchedGameId) socket.emit("join", watchedGameId);
+});
+
+const watchGame = (gameId: string) => {
+  if (watchedGameId === gameId && socket.connected) return;
+
+  watchedGameId = gameId;
+  if (socket.connected) {
+    socket.emit("join", gameId);
+  } else {
+    socket.connect();
+  }
+};
+
+/**
+ * Call `onEvent` whenever something happens in the game being viewed, as it
+ * happens. `types` should be defined outside of the component (or memoized),
+ * as the subscription is renewed whenever it changes.
+ * @param types Only listen for these event types, or every event if missing
+ * @param onEvent What to do when an event arrives
+ */
+export const useGameEvents = (
+  types: string[] | undefined,
+  onEvent: (event: GameEventInfo) => void
+) => {
+  const gameInfo = useRecoilValue(gameInfoAtom);
+  const gameId = gameInfo?.gameId;
+
+  // Always call the latest callback without subscribing again
+  const callback = useRef(onEvent);
+  callback.current = onEvent;
+
+  useEffect(() => {
+    if (!gameId) return;
+    watchGame(gameId);
+
+    const listener = (event: GameEventInfo) => {
+      if (event.gameId !== gameId) return;
+      if (types && !types.includes(event.type)) return;
+      callback.current(event);
+    };
+    socket.on("event", listener);
+    return () => {
+      socket.off("event", listener);
+    };
+  }, [gameId, types]);
+};
@@ -44,6 +44,26 @@ export const authGet = async <T>(url: string): Promise<AxiosResponse<T>> => {
   });
 };
 
+/* Download a file with authentication, such as an image that can't be loaded
+straight from an <img> tag because it needs the access token. */
+export const authGetBlob = async (url: string): Promise<Blob> => {
+  const accessToken = getRecoil(accessTokenAtom);
+
+  // Check expiry and refresh tokens if need be before sending this request
+  await validateTokens();
+  const response = await axios.request<Blob>({
+    method: "get",
+    headers: {
+      "Access-Control-Allow-Origin": true,
+      Authorization: `Bearer ${accessToken}`,
+    },
+    withCredentials: true,
+    url: `${BASE_URL}${url}`,
+    responseType: "blob",
+  });
+  return response.data;
+};
+
 /* Send DELETE request with authentication. Ensure tokens that we have stored are
 fresh and ready to go. */
 export const authDelete = async <T>(
@@ -122,6 +142,16 @@ export const catchError = (msg: string, e: any) => {
   }
 };
 
+/* The message the API gave for why a request failed, to show to the user, or
+the fallback if there isn't one. */
+export const getErrorMessage = (e: any, fallback: string): string => {
+  if (axios.isAxiosError(e)) {
+    const data = e.response?.data as { message?: unknown } | undefined;
+    if (typeof data?.message === "string") return data.message;
+  }
+  return fallback;
+};
+
 /* Take a dictionary of possible arguments and include them in the query string
 if they are defined. */
 export const generateQuery = (
@@ -65,3 +65,54 @@ const getReturnValues = (countdown: number) => {
 };
 
 export { useCountdown };
+
+/**
+ * Converts an ISO string into the format expected by a `datetime-local` input,
+ * in the local time zone of the browser.
+ */
+export const toDateTimeInput = (iso: string): string => {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return "";
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+/**
+ * Converts the value of a `datetime-local` input back into an ISO string.
+ */
+export const fromDateTimeInput = (value: string): string => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return "";
+  return date.toISOString();
+};
+
+/**
+ * Splits the text of a textarea into a list, one item per line, ignoring
+ * blank lines.
+ */
+export const toLines = (text: string): string[] =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line !== "");
+
+/**
+ * Converts a length of time in milliseconds into a short readable form, such
+ * as "2d 3h" or "15m", keeping only the two largest units.
+ */
+export const formatDuration = (ms: number): string => {
+  const units: [string, number][] = [
+    ["d", 24 * 60 * 60 * 1000],
+    ["h", 60 * 60 * 1000],
+    ["m", 60 * 1000],
+  ];
+
+  const parts: string[] = [];
+  let left = Math.max(0, ms);
+  for (const [unit, size] of units) {
+    const count = Math.floor(left / size);
+    left -= count * size;
+    if (count > 0 || parts.length > 0) parts.push(`${count}${unit}`);
+  }
+  return parts.slice(0, 2).join(" ") || "0m";
+};
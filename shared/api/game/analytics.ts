@@ -0,0 +1,63 @@
+/**
+ * How many players made it to the end of the game (or are still in it)
+ */
+export type SurvivalRateInfo = {
+  players: number;
+  survived: number;
+  /**
+   * The fraction of players who survived, 0 if there were no players
+   */
+  rate: number;
+};
+
+/**
+ * An overview of a whole game for its admins, returned from
+ * /game/analytics/overview. Times are in milliseconds, days and hours are in
+ * the game's time zone.
+ */
+export type GameAnalytics = {
+  /**
+   * Kills made on each day of the game, starting from the first day
+   */
+  killsPerDay: { day: string; kills: number }[];
+  /**
+   * The number of players left in the game, changing with each elimination
+   */
+  aliveOverTime: { time: string; alive: number }[];
+  averageSurvivalTime: number;
+  /**
+   * Kills made in each hour of the day, 0 being midnight
+   */
+  killsByHour: number[];
+  safety: {
+    grants: number;
+    playersGranted: number;
+    averageDuration: number;
+    /**
+     * How often each reason was given, most common first
+     */
+    reasons: { reason: string; count: number }[];
+  };
+  team: SurvivalRateInfo;
+  solo: SurvivalRateInfo;
+  /**
+   * How many people reached each step of taking part. There is no whitelist
+   * count if anyone may register.
+   */
+  funnel: {
+    whitelisted?: number;
+    registered: number;
+    /**
+     * Registered players who found a partner
+     */
+    teamed: number;
+    /**
+     * Registered players who were given a target
+     */
+    targeted: number;
+    /**
+     * Registered players who made at least one kill
+     */
+    madeKill: number;
+  };
+};
@@ -0,0 +1,32 @@
+/**
+ * News posted by the admins of a game
+ */
+export type AnnouncementInfo = {
+  announcementId: string;
+  title: string;
+  body: string;
+  pinned: boolean;
+  /**
+   * The name of the admin who posted it
+   */
+  author: string;
+  createdAt: string;
+  expiresAt?: string;
+  /**
+   * Whether it has stopped being shown to players, only ever true for admins
+   */
+  expired: boolean;
+  /**
+   * Whether it was posted since the player last read the announcements
+   */
+  unread: boolean;
+};
+
+/**
+ * Every announcement of a game that the user can see, pinned ones first and
+ * then newest first
+ */
+export type AnnouncementFeed = {
+  announcements: AnnouncementInfo[];
+  unread: number;
+};
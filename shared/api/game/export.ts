@@ -0,0 +1,83 @@
+/**
+ * The tables that can be exported from a game, each one its own CSV file
+ */
+export type ExportDataset =
+  | "players"
+  | "teams"
+  | "targets"
+  | "kills"
+  | "standings";
+
+export type ExportFormat = "csv" | "json";
+
+export type ExportPlayerRow = {
+  playerId: string;
+  userId: string;
+  name: string;
+  email: string;
+  status: string;
+  teamPartnerId: string;
+  kills: number;
+  revives: number;
+  disqualifiedReason: string;
+};
+
+/**
+ * Players without a partner make up a team of their own, with the second
+ * player left empty
+ */
+export type ExportTeamRow = {
+  playerId: string;
+  name: string;
+  partnerId: string;
+  partnerName: string;
+};
+
+export type ExportTargetRow = {
+  targetId: string;
+  hunterId: string;
+  hunterName: string;
+  targetPlayerId: string;
+  targetName: string;
+  status: string;
+  createdAt: string;
+  resolvedAt: string;
+};
+
+export type ExportKillRow = {
+  targetId: string;
+  killerId: string;
+  killerName: string;
+  victimId: string;
+  victimName: string;
+  time: string;
+};
+
+export type ExportStandingRow = {
+  rank: number;
+  playerId: string;
+  name: string;
+  kills: number;
+  status: string;
+};
+
+/**
+ * Everything about a game worth keeping once it is over, returned from
+ * /game/export/download as JSON. Missing values are empty strings, so the
+ * rows read the same as the CSV files.
+ */
+export type GameExport = {
+  game: {
+    gameId: string;
+    name: string;
+    status: string;
+    startTime: string;
+    completedAt: string;
+    exportedAt: string;
+  };
+  players: ExportPlayerRow[];
+  teams: ExportTeamRow[];
+  targets: ExportTargetRow[];
+  kills: ExportKillRow[];
+  standings: ExportStandingRow[];
+};
@@ -9,5 +9,201 @@ export type GameInfo = {
   role: string;
   events: { title: string; time: string }[];
   startTime: string;
-  safeties: string[];
+  safeties: SafetyInfo[];
+  timeZone: string;
+  /**
+   * How many times a single player may be revived
+   */
+  maxRevives: number;
+  /**
+   * Names of the players who won the game, only set once the game is COMPLETE
+   */
+  winners: string[];
+  /**
+   * Final placement of every player, only set once the game is COMPLETE
+   */
+  standings: GameStandingInfo[];
+};
+
+/**
+ * A single safety rule, in effect between `start` and `end`
+ */
+export type SafetyInfo = {
+  description: string;
+  start: string;
+  end: string;
+  /**
+   * Places the safety applies in, applies everywhere if empty
+   */
+  zones: string[];
+  /**
+   * Items a player must have for the safety to apply
+   */
+  items: string[];
+};
+
+/**
+ * Return type from /game/safety, the safeties for today and tomorrow as
+ * decided by the game's time zone
+ */
+export type SafetySchedule = {
+  timeZone: string;
+  /**
+   * The safety in effect right now, if any
+   */
+  active: SafetyInfo | null;
+  today: SafetyInfo | null;
+  tomorrow: SafetyInfo | null;
+  /**
+   * When today ends (and tomorrow's safety takes over) in the game's time zone
+   */
+  switchesAt: string;
+};
+
+/**
+ * Final placement of a single player within a completed game
+ */
+export type GameStandingInfo = {
+  playerId: string;
+  name: string;
+  rank: number;
+  kills: number;
+  status: string;
+};
+
+/**
+ * Editable settings of a game, returned from /game/settings and accepted (in
+ * part) by /game/create and /game/update
+ */
+export type GameSettings = {
+  gameId: string;
+  name: string;
+  status: string;
+  active: boolean;
+  startTime: string;
+  admins: string[];
+  whitelistedEmails: string[];
+  events: { title: string; time: string }[];
+  safeties: SafetyInfo[];
+  timeZone: string;
+  killClaimWindowMinutes: number;
+  maxRevives: number;
+  assignmentStrategy: string;
+  huntersPerTarget: number;
+};
+
+/**
+ * A single person listed on a roster CSV
+ */
+export type RosterEntryInfo = {
+  email: string;
+  name: string;
+  dorm?: string;
+  /**
+   * People sharing a team name are paired up once both have registered
+   */
+  team?: string;
+  /**
+   * Either PLAYER or ADMIN
+   */
+  role: string;
+};
+
+/**
+ * What importing a roster would change, returned from /game/roster/preview
+ * and /game/roster/import. Nothing is changed while there are errors.
+ */
+export type RosterPreview = {
+  entries: RosterEntryInfo[];
+  errors: string[];
+  whitelist: { added: string[]; removed: string[] };
+  /**
+   * Admins are only changed when the roster has a role column
+   */
+  admins: { added: string[]; removed: string[] };
+  /**
+   * The emails of each pair of teammates
+   */
+  teams: [string, string][];
+};
+
+/**
+ * A brief overview of a game, returned from /game/list
+ */
+export type GameSummary = {
+  gameId: string;
+  name: string;
+  status: string;
+  role: string;
+  registered: boolean;
+  active: boolean;
+  startTime: string;
+};
+
+/**
+ * A single state change recorded in the log of a game
+ */
+export type GameLogEntryInfo = {
+  entryId: string;
+  type: string;
+  /**
+   * Who caused the change, missing if it happened automatically
+   */
+  actor?: string;
+  players: { playerId: string; name: string }[];
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  details?: string;
+  createdAt: string;
+};
+
+/**
+ * A page of the log of a game, newest first, returned from /game/log
+ */
+export type GameLogPage = {
+  entries: GameLogEntryInfo[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+/**
+ * Something that just happened in a game, pushed to everyone watching it over
+ * the /game socket. Only says what changed, clients fetch anything they need.
+ */
+export type GameEventInfo = {
+  gameId: string;
+  type: string;
+  /**
+   * The players the event was about, only sent to admins and those players
+   */
+  playerIds?: string[];
+  createdAt: string;
+};
+
+/**
+ * A version of the rules of a game, in markdown
+ */
+export type GameRulesVersionInfo = {
+  /**
+   * 0 for the default rules, which are used until admins first edit them
+   */
+  version: number;
+  content: string;
+  /**
+   * What changed since the last version
+   */
+  summary: string;
+  editedBy?: string;
+  editedAt?: string;
+};
+
+/**
+ * The rules of a game in effect right now, returned from /game/rules
+ */
+export type GameRulesInfo = GameRulesVersionInfo & {
+  /**
+   * Whether the user has read this version, always true for admins
+   */
+  acknowledged: boolean;
 };
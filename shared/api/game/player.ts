@@ -6,8 +6,94 @@ export type LeaderboardPlayerInfo = {
   kills: number;
   alive: boolean;
   safe: boolean;
+  status: string;
   revives: number;
 
   // Name of the killer
   killedBy?: string;
 };
+
+/**
+ * A period of time a player was made safe by an admin
+ */
+export type SafetyGrantInfo = {
+  grantId: string;
+  playerId: string;
+  name: string;
+  reason: string;
+  status: string;
+  grantedBy: string;
+  grantedAt: string;
+  until: string;
+  endedAt?: string;
+};
+
+/**
+ * A player who was disqualified from a game, and why
+ */
+export type DisqualificationInfo = {
+  playerId: string;
+  name: string;
+  reason: string;
+  disqualifiedBy: string;
+  disqualifiedAt?: string;
+};
+
+/**
+ * A kill made by a player
+ */
+export type PlayerKillInfo = {
+  victimId: string;
+  victimName: string;
+  time: string;
+  /**
+   * How long the victim was their target before the kill, in milliseconds
+   */
+  timeToKill: number;
+};
+
+/**
+ * A target that was assigned to a player
+ */
+export type PlayerTargetInfo = {
+  targetId: string;
+  name: string;
+  status: string;
+  assignedAt: string;
+  resolvedAt?: string;
+  /**
+   * How long the kill took, in milliseconds, if the target ended in a kill
+   */
+  timeToKill?: number;
+};
+
+/**
+ * Everything a player has done in a game, returned from /game/target/stats
+ */
+export type PlayerStatsInfo = {
+  playerId: string;
+  name: string;
+  status: string;
+  kills: PlayerKillInfo[];
+  /**
+   * Every target ever assigned to the player, oldest first. Pending targets
+   * are only shown to the player themselves and to admins.
+   */
+  targets: PlayerTargetInfo[];
+  killedBy?: { name: string; time: string };
+  /**
+   * How long the player has lasted since the game started (until they were
+   * killed, or the game ended), in milliseconds
+   */
+  survivalTime: number;
+  /**
+   * How many times the player was assigned as somebody's target
+   */
+  timesHunted: number;
+  averageTimeToKill?: number;
+  /**
+   * What the player's partner contributed, `share` being the fraction of the
+   * team's kills that the partner made
+   */
+  partner?: { playerId: string; name: string; kills: number; share: number };
+};
@@ -12,8 +12,82 @@ export type DetailedTargetInfo = {
 
 export type TargetTeamInfo = {
   members: {
+    playerId: string;
     name: string;
     safe: boolean;
     status: string;
   }[];
-};
\ No newline at end of file
+};
+
+/**
+ * A kill reported by a player, waiting on (or resolved by) the victim or admins
+ */
+export type KillClaimInfo = {
+  claimId: string;
+  targetId: string;
+  killerName: string;
+  victimName: string;
+  status: string;
+  claimedAt: string;
+  confirmBy: string;
+  disputeReason?: string;
+};
+
+/**
+ * Something wrong with the targets of a game, found by the consistency check
+ */
+export type TargetGraphProblemInfo = {
+  type: string;
+  players: { playerId: string; name: string }[];
+  targetIds: string[];
+};
+
+/**
+ * The result of checking the targets of a game, and what a repair would do
+ */
+export type TargetGraphReport = {
+  problems: TargetGraphProblemInfo[];
+  repair: {
+    expire: number;
+    create: number;
+  };
+};
+
+/**
+ * A photo or video backing up a kill
+ */
+export type EvidenceInfo = {
+  evidenceId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  uploadedBy: string;
+  uploadedAt: string;
+  /**
+   * When the file will be deleted, set once the game is over
+   */
+  expiresAt?: string;
+};
+
+/**
+ * A kill (or a claimed one) along with the evidence uploaded for it, as seen
+ * by an admin or one of the two players involved
+ */
+export type KillEvidenceInfo = {
+  targetId: string;
+  killerName: string;
+  victimName: string;
+  /**
+   * CONFIRMED once the kill went through, otherwise the status of the claim
+   */
+  status: string;
+  /**
+   * When the kill went through, or was claimed
+   */
+  time?: string;
+  evidence: EvidenceInfo[];
+  /**
+   * Whether the user may upload more evidence for this kill
+   */
+  canUpload: boolean;
+};
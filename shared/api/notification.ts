@@ -0,0 +1,56 @@
+/**
+ * A browser's Web Push subscription, as returned by `PushSubscription.toJSON()`
+ */
+export type PushSubscriptionInfo = {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+};
+
+/**
+ * Which notifications a user is sent, and how
+ */
+export type NotificationPreferences = {
+  categories: { category: string; enabled: boolean }[];
+  /**
+   * The key browsers need to subscribe to push messages, missing if the
+   * server can't send them
+   */
+  pushPublicKey?: string;
+};
+
+/**
+ * The contents of a push message, shown by the service worker
+ */
+export type PushMessage = {
+  category: string;
+  title: string;
+  body: string;
+  /**
+   * The page to open when the notification is clicked
+   */
+  url?: string;
+};
+
+/**
+ * An email players can be sent
+ */
+export type MailTemplateInfo = {
+  name: string;
+  /**
+   * When the email is sent
+   */
+  description: string;
+};
+
+/**
+ * An email template filled in with made up details, for admins to look over
+ */
+export type MailPreview = {
+  name: string;
+  subject: string;
+  text: string;
+  html: string;
+};
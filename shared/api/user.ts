@@ -0,0 +1,48 @@
+/**
+ * A code that lets someone sign up even though their email is not otherwise
+ * allowed to
+ */
+export type SignUpInviteCodeInfo = {
+  code: string;
+  /**
+   * How many people may sign up with the code, unlimited if missing
+   */
+  maxUses?: number;
+  uses: number;
+  expiresAt?: string;
+  createdAt: string;
+};
+
+/**
+ * Who is allowed to sign up to the site
+ */
+export type SignUpPolicyInfo = {
+  /**
+   * Anyone with an email at one of these domains may sign up
+   */
+  allowedDomains: string[];
+  /**
+   * Emails that may sign up whatever their domain
+   */
+  allowedEmails: string[];
+  /**
+   * Emails that may never sign in, even if they already have an account
+   */
+  deniedEmails: string[];
+  inviteCodes: SignUpInviteCodeInfo[];
+};
+
+/**
+ * The parts of the sign-up policy that are edited as lists
+ */
+export type SignUpPolicySettings = Pick<
+  SignUpPolicyInfo,
+  "allowedDomains" | "allowedEmails" | "deniedEmails"
+>;
+
+/**
+ * What is shown on the login page, before anyone has signed in
+ */
+export type SignUpDomains = {
+  domains: string[];
+};